@@ -10,6 +10,7 @@ import { CloudGalleryView } from './views/CloudGalleryView';
 import { SettingsModal } from './components/SettingsModal';
 import { FAQModal } from './components/FAQModal';
 import { AuthModal } from './components/AuthModal';
+import { QueuePanel } from './components/QueuePanel';
 
 // Memoize Header to prevent re-renders when App re-renders
 const MemoizedHeader = memo(Header);
@@ -85,6 +86,9 @@ export default function App() {
             )}
         </div>
         
+        {/* Generation queue stays mounted across views */}
+        <QueuePanel />
+
         {/* Modals */}
         <SettingsModal 
             isOpen={showSettings} 
@@ -2,19 +2,12 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Select, OptionGroup } from './Select';
 import { Tooltip } from './Tooltip';
-import { Settings, ChevronUp, ChevronDown, Minus, Plus, Dices, Cpu } from 'lucide-react';
-import { ModelOption, ProviderOption, AspectRatioOption } from '../types';
-import { 
-    HF_MODEL_OPTIONS, 
-    GITEE_MODEL_OPTIONS, 
-    MS_MODEL_OPTIONS,
-    A4F_MODEL_OPTIONS,
-    getModelConfig, 
-    getGuidanceScaleConfig 
-} from '../constants';
-import { getCustomProviders, getServiceMode } from '../services/utils';
+import { Settings, ChevronUp, ChevronDown, Minus, Plus, Dices, Cpu, Layers } from 'lucide-react';
+import { ModelOption, ProviderOption, AspectRatioOption, ProviderId } from '../types';
+import { getAvailableProviders, hasCapability, getStepsConfig, getGuidanceConfig, supportsNegativePrompt, getSupportedAspectRatios, supportsSeed, getMaxBatchSize } from '../services/providerRegistry';
 import { useAppStore } from '../store/appStore';
 import { translations } from '../translations';
+import { ASPECT_RATIO_LABEL_KEYS } from '../constants';
 
 export const ControlPanel: React.FC = () => {
     const { 
@@ -25,6 +18,8 @@ export const ControlPanel: React.FC = () => {
         steps, setSteps,
         guidanceScale, setGuidanceScale,
         seed, setSeed,
+        negativePrompt, setNegativePrompt,
+        batchCount, setBatchCount,
         tokens
     } = useAppStore();
     
@@ -32,75 +27,20 @@ export const ControlPanel: React.FC = () => {
     const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
     const [modelOptions, setModelOptions] = useState<OptionGroup[]>([]);
 
-    // Dynamic Aspect Ratio Options based on language
-    const aspectRatioOptions = useMemo(() => [
-        { value: '1:1', label: t.ar_square },
-        { value: '9:16', label: t.ar_photo_9_16 },
-        { value: '16:9', label: t.ar_movie },
-        { value: '3:4', label: t.ar_portrait_3_4 },
-        { value: '4:3', label: t.ar_landscape_4_3 }, 
-        { value: '2:3', label: t.ar_landscape_2_3 },
-        { value: '3:2', label: t.ar_portrait_3_2 },
-    ], [t]);
-
     // Build grouped model options dynamically
     useEffect(() => {
         const updateModelOptions = () => {
-            const serviceMode = getServiceMode();
             const groups: OptionGroup[] = [];
-            
-            const showBase = serviceMode === 'local' || serviceMode === 'hydration';
-            const showCustom = serviceMode === 'server' || serviceMode === 'hydration';
 
-            // 1. Default Providers
-            if (showBase) {
-                // Hugging Face (Always visible)
+            // Built-in providers that need a token stay hidden until one is added
+            getAvailableProviders().forEach(p => {
+                if (!hasCapability(p, 'generate')) return;
+                if (p.requiresToken && !(tokens[p.id as ProviderId]?.length > 0)) return;
                 groups.push({
-                    label: t.provider_huggingface,
-                    options: HF_MODEL_OPTIONS.map(m => ({ label: m.label, value: `huggingface:${m.value}` }))
-                });
-
-                // Gitee (Only if token exists)
-                if (tokens.gitee && tokens.gitee.length > 0) {
-                    groups.push({
-                        label: t.provider_gitee,
-                        options: GITEE_MODEL_OPTIONS.map(m => ({ label: m.label, value: `gitee:${m.value}` }))
-                    });
-                }
-
-                // Model Scope (Only if token exists)
-                if (tokens.modelscope && tokens.modelscope.length > 0) {
-                    groups.push({
-                        label: t.provider_modelscope,
-                        options: MS_MODEL_OPTIONS.map(m => ({ label: m.label, value: `modelscope:${m.value}` }))
-                    });
-                }
-
-                // A4F (Only if token exists)
-                if (tokens.a4f && tokens.a4f.length > 0) {
-                    groups.push({
-                        label: t.provider_a4f,
-                        options: A4F_MODEL_OPTIONS.map(m => ({ label: m.label, value: `a4f:${m.value}` }))
-                    });
-                }
-            }
-
-            // 2. Custom Providers
-            if (showCustom) {
-                const customProviders = getCustomProviders();
-                customProviders.forEach(cp => {
-                    const models = cp.models.generate;
-                    if (models && models.length > 0) {
-                        groups.push({
-                            label: cp.name,
-                            options: models.map(m => ({
-                                label: m.name,
-                                value: `${cp.id}:${m.id}`
-                            }))
-                        });
-                    }
+                    label: p.name,
+                    options: p.models.generate!.map(m => ({ label: m.label, value: `${p.id}:${m.value}` }))
                 });
-            }
+            });
 
             setModelOptions(groups);
         };
@@ -111,56 +51,30 @@ export const ControlPanel: React.FC = () => {
         return () => window.removeEventListener('storage', updateModelOptions);
     }, [t, tokens]);
 
-    // Determine current model configuration (Standard or Custom)
-    const activeConfig = useMemo(() => {
-        const customProviders = getCustomProviders();
-        // Try to find custom provider matching the ID
-        const activeCustomProvider = customProviders.find(p => p.id === provider);
-        
-        if (activeCustomProvider) {
-            // It's a custom provider
-            const customModel = activeCustomProvider.models.generate?.find(m => m.id === model);
-            
-            if (customModel) {
-                return {
-                    isCustom: true,
-                    steps: customModel.steps ? {
-                        min: customModel.steps.range[0],
-                        max: customModel.steps.range[1],
-                        default: customModel.steps.default
-                    } : null,
-                    guidance: customModel.guidance ? {
-                        min: customModel.guidance.range[0],
-                        max: customModel.guidance.range[1],
-                        step: 0.1,
-                        default: customModel.guidance.default
-                    } : null
-                };
-            }
-        }
+    // Determine current model configuration from the provider registry
+    const activeConfig = useMemo(() => ({
+        steps: getStepsConfig(provider, model),
+        guidance: getGuidanceConfig(provider, model),
+        negativePrompt: supportsNegativePrompt(provider, model),
+        aspectRatios: getSupportedAspectRatios(provider, model),
+        seed: supportsSeed(provider, model),
+        maxBatchSize: getMaxBatchSize(provider, model)
+    }), [provider, model]);
 
-        // Fallback to standard config
-        return {
-            isCustom: false,
-            steps: getModelConfig(provider, model),
-            guidance: getGuidanceScaleConfig(model, provider)
-        };
-    }, [provider, model]);
+    // Only the ratios the model accepts
+    const aspectRatioOptions = useMemo(() => activeConfig.aspectRatios.map(value => (
+        { value, label: t[ASPECT_RATIO_LABEL_KEYS[value] as keyof typeof t] }
+    )), [t, activeConfig.aspectRatios]);
 
-    // Initialize defaults when model changes
+    // Keep the selection valid when switching to a model with fewer ratios or a smaller batch limit
     useEffect(() => {
-        if (activeConfig.isCustom) {
-            if (activeConfig.steps) {
-                setSteps(activeConfig.steps.default);
-            }
-            if (activeConfig.guidance) {
-                setGuidanceScale(activeConfig.guidance.default);
-            }
+        if (!activeConfig.aspectRatios.includes(aspectRatio)) {
+            setAspectRatio(activeConfig.aspectRatios[0]);
         }
-        // Standard provider defaults are handled in App.tsx effects, 
-        // but custom ones need explicit handling here since App.tsx 
-        // mainly relies on getModelConfig/constants.
-    }, [activeConfig, setSteps, setGuidanceScale]);
+        if (batchCount > activeConfig.maxBatchSize) {
+            setBatchCount(activeConfig.maxBatchSize);
+        }
+    }, [activeConfig, aspectRatio, batchCount, setAspectRatio, setBatchCount]);
 
     const handleRandomizeSeed = () => {
         setSeed(Math.floor(Math.random() * 2147483647).toString());
@@ -210,6 +124,25 @@ export const ControlPanel: React.FC = () => {
                 options={aspectRatioOptions}
             />
 
+            {/* Batch Count */}
+            <div className="group">
+                <div className="flex items-center justify-between pb-2">
+                    <p className="text-white/80 text-sm font-medium flex items-center gap-2">
+                        <Layers className="w-4 h-4 text-white/50" />
+                        {t.batch_count}
+                    </p>
+                    <span className="text-white/50 text-xs bg-white/5 px-2 py-0.5 rounded font-mono">{batchCount}</span>
+                </div>
+                <input
+                    type="range"
+                    min={1}
+                    max={activeConfig.maxBatchSize}
+                    value={batchCount}
+                    onChange={(e) => setBatchCount(Number(e.target.value))}
+                    className="custom-range text-purple-500"
+                />
+            </div>
+
             {/* Advanced Settings */}
             <div className="border-t border-white/5 pt-4">
                 <button
@@ -227,6 +160,23 @@ export const ControlPanel: React.FC = () => {
                 <div className={`grid transition-[grid-template-rows] duration-300 ease-in-out ${isAdvancedOpen ? 'grid-rows-[1fr] mt-4' : 'grid-rows-[0fr]'}`}>
                     <div className="overflow-hidden">
                         <div className="space-y-5">
+                            {/* Negative Prompt - Kept for all models, only sent where the API accepts it */}
+                            <div className="group">
+                                <div className="flex items-center justify-between pb-2">
+                                    <p className="text-white/80 text-sm font-medium">{t.negativePrompt}</p>
+                                    {!activeConfig.negativePrompt && (
+                                        <span className="text-amber-400/80 text-xs">{t.negativePromptUnsupported}</span>
+                                    )}
+                                </div>
+                                <textarea
+                                    value={negativePrompt}
+                                    onChange={(e) => setNegativePrompt(e.target.value)}
+                                    rows={2}
+                                    className={`form-input w-full resize-none rounded-lg border border-white/10 bg-white/5 focus:ring-2 focus:ring-purple-500/50 focus:border-purple-500 text-white/90 placeholder:text-white/30 px-3 py-2 text-xs transition-all ${!activeConfig.negativePrompt ? 'opacity-60' : ''}`}
+                                    placeholder={t.negativePromptPlaceholder}
+                                />
+                            </div>
+
                             {/* Steps - Hide if not configured in custom model */}
                             {activeConfig.steps && (
                                 <div className="group">
@@ -272,9 +222,13 @@ export const ControlPanel: React.FC = () => {
                             <div className="group">
                                 <div className="flex items-center justify-between pb-2">
                                     <p className="text-white/80 text-sm font-medium">{t.seed}</p>
-                                    <span className="text-white/40 text-xs">{t.seedOptional}</span>
+                                    {activeConfig.seed ? (
+                                        <span className="text-white/40 text-xs">{t.seedOptional}</span>
+                                    ) : (
+                                        <span className="text-amber-400/80 text-xs">{t.seedUnsupported}</span>
+                                    )}
                                 </div>
-                                <div className="flex items-center gap-2">
+                                <div className={`flex items-center gap-2 ${!activeConfig.seed ? 'opacity-60' : ''}`}>
                                     <div className="flex flex-1 items-center rounded-lg border border-white/10 bg-white/5 focus-within:ring-2 focus-within:ring-purple-500/50 focus-within:border-purple-500 transition-all h-10 overflow-hidden">
                                         <button
                                             onClick={() => handleAdjustSeed(-1)}
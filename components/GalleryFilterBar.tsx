@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Search, SlidersHorizontal, X, Loader2 } from 'lucide-react';
+import { useAppStore } from '../store/appStore';
+import { translations } from '../translations';
+import { GalleryFilters, GallerySort, ProviderOption } from '../types';
+import { DEFAULT_GALLERY_FILTERS } from '../constants';
+import { getProvider, getModelLabel } from '../services/providerRegistry';
+
+interface GalleryFilterBarProps {
+    filters: GalleryFilters;
+    onChange: (filters: GalleryFilters) => void;
+    models: string[];
+    providers: string[];
+    resultCount: number;
+    totalCount: number;
+    indexProgress: { done: number; total: number } | null;
+}
+
+const fieldClass = "h-8 px-2 bg-white/5 border border-white/10 rounded-lg text-xs text-white/90 focus:outline-0 focus:border-purple-500/50 [color-scheme:dark]";
+
+export const GalleryFilterBar: React.FC<GalleryFilterBarProps> = ({
+    filters,
+    onChange,
+    models,
+    providers,
+    resultCount,
+    totalCount,
+    indexProgress
+}) => {
+    const { language } = useAppStore();
+    const t = translations[language];
+    const [showFilters, setShowFilters] = useState(false);
+
+    const update = <K extends keyof GalleryFilters>(key: K, value: GalleryFilters[K]) => {
+        onChange({ ...filters, [key]: value });
+    };
+
+    // Search and sort are always visible, so only the facets count towards the badge
+    const activeFacets = (['model', 'provider', 'dateFrom', 'dateTo'] as const).filter(k => filters[k]).length
+        + (filters.mediaType !== 'all' ? 1 : 0)
+        + (filters.nsfw !== 'all' ? 1 : 0);
+    const isFiltered = activeFacets > 0 || filters.query.trim() !== '';
+
+    const sortOptions: { value: GallerySort, label: string }[] = [
+        { value: 'newest', label: t.gallery_sort_newest },
+        { value: 'oldest', label: t.gallery_sort_oldest },
+        { value: 'largest', label: t.gallery_sort_largest },
+        { value: 'smallest', label: t.gallery_sort_smallest }
+    ];
+
+    return (
+        <div className="mb-4 space-y-2">
+            <div className="flex items-center gap-2">
+                <div className="flex-1 min-w-0 flex items-center gap-2 px-3 h-9 rounded-xl bg-white/5 border border-white/10 focus-within:border-purple-500/50">
+                    <Search className="w-4 h-4 text-white/40 flex-shrink-0" />
+                    <input
+                        type="text"
+                        value={filters.query}
+                        onChange={(e) => update('query', e.target.value)}
+                        placeholder={t.gallery_search_placeholder}
+                        className="flex-1 min-w-0 bg-transparent border-none text-sm text-white/90 placeholder:text-white/30 focus:outline-0 focus:ring-0 p-0"
+                    />
+                    {filters.query && (
+                        <button onClick={() => update('query', '')} className="text-white/30 hover:text-white">
+                            <X className="w-3.5 h-3.5" />
+                        </button>
+                    )}
+                </div>
+                <button
+                    onClick={() => setShowFilters(!showFilters)}
+                    className={`flex items-center gap-1.5 px-3 h-9 rounded-xl border text-xs font-medium transition-colors ${showFilters || activeFacets > 0 ? 'bg-purple-600/20 border-purple-500/40 text-purple-200' : 'bg-white/5 border-white/10 text-white/60 hover:text-white'}`}
+                >
+                    <SlidersHorizontal className="w-3.5 h-3.5" />
+                    <span className="hidden md:inline">{t.gallery_filters}</span>
+                    {activeFacets > 0 && <span className="px-1.5 rounded-full bg-purple-500 text-white text-[10px]">{activeFacets}</span>}
+                </button>
+                <select
+                    value={filters.sort}
+                    onChange={(e) => update('sort', e.target.value as GallerySort)}
+                    className={`${fieldClass} h-9 rounded-xl`}
+                >
+                    {sortOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+            </div>
+
+            {showFilters && (
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2 p-3 bg-white/[0.02] border border-white/10 rounded-xl animate-in fade-in slide-in-from-top-2 duration-200">
+                    <label className="flex flex-col gap-1 text-[10px] text-white/40">
+                        {t.model}
+                        <select value={filters.model} onChange={(e) => update('model', e.target.value)} className={fieldClass}>
+                            <option value="">{t.gallery_filter_any}</option>
+                            {models.map(m => <option key={m} value={m}>{getModelLabel(m)}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-[10px] text-white/40">
+                        {t.provider}
+                        <select value={filters.provider} onChange={(e) => update('provider', e.target.value)} className={fieldClass}>
+                            <option value="">{t.gallery_filter_any}</option>
+                            {providers.map(p => <option key={p} value={p}>{getProvider(p as ProviderOption)?.name || p}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-[10px] text-white/40">
+                        {t.gallery_filter_media}
+                        <select value={filters.mediaType} onChange={(e) => update('mediaType', e.target.value as GalleryFilters['mediaType'])} className={fieldClass}>
+                            <option value="all">{t.gallery_filter_any}</option>
+                            <option value="image">{t.gallery_media_image}</option>
+                            <option value="video">{t.gallery_media_video}</option>
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-[10px] text-white/40">
+                        NSFW
+                        <select value={filters.nsfw} onChange={(e) => update('nsfw', e.target.value as GalleryFilters['nsfw'])} className={fieldClass}>
+                            <option value="all">{t.gallery_nsfw_show}</option>
+                            <option value="hide">{t.gallery_nsfw_hide}</option>
+                            <option value="only">{t.gallery_nsfw_only}</option>
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-[10px] text-white/40">
+                        {t.gallery_filter_from}
+                        <input type="date" value={filters.dateFrom} max={filters.dateTo || undefined} onChange={(e) => update('dateFrom', e.target.value)} className={fieldClass} />
+                    </label>
+                    <label className="flex flex-col gap-1 text-[10px] text-white/40">
+                        {t.gallery_filter_to}
+                        <input type="date" value={filters.dateTo} min={filters.dateFrom || undefined} onChange={(e) => update('dateTo', e.target.value)} className={fieldClass} />
+                    </label>
+                </div>
+            )}
+
+            <div className="flex items-center gap-3 text-[11px] text-white/40 min-h-[16px]">
+                {isFiltered && (
+                    <>
+                        <span>{t.gallery_results.replace('{n}', resultCount.toString()).replace('{total}', totalCount.toString())}</span>
+                        <button onClick={() => onChange({ ...DEFAULT_GALLERY_FILTERS, sort: filters.sort })} className="text-purple-300 hover:text-purple-200">
+                            {t.gallery_clear_filters}
+                        </button>
+                    </>
+                )}
+                {indexProgress && indexProgress.total > 0 && (
+                    <span className="flex items-center gap-1.5 ml-auto">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        {t.gallery_indexing.replace('{done}', indexProgress.done.toString()).replace('{total}', indexProgress.total.toString())}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+};
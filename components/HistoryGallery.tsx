@@ -1,15 +1,19 @@
 
 import React, { useRef, useState, useEffect } from 'react';
 import { GeneratedImage } from '../types';
-import { ChevronLeft, ChevronRight, Film, Loader2 } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Clapperboard, Film, Loader2, Pin } from 'lucide-react';
 import { useAppStore } from '../store/appStore';
+import { translations } from '../translations';
+import { Tooltip } from './Tooltip';
 
 interface HistoryGalleryProps {
   onSelect: (image: GeneratedImage) => void;
+  onCompose?: () => void; // Opens the video composer, offered once there are two images
 }
 
-export const HistoryGallery: React.FC<HistoryGalleryProps> = ({ onSelect }) => {
-  const { history, currentImage } = useAppStore();
+export const HistoryGallery: React.FC<HistoryGalleryProps> = ({ onSelect, onCompose }) => {
+  const { history, currentImage, language } = useAppStore();
+  const t = translations[language];
   const selectedId = currentImage?.id;
   
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -100,6 +104,13 @@ export const HistoryGallery: React.FC<HistoryGalleryProps> = ({ onSelect }) => {
                     </div>
                 )}
                 
+                {/* Pinned Indicator */}
+                {img.pinned && (
+                    <div className="absolute top-1 left-1 bg-black/60 rounded-full p-1 border border-white/20">
+                        <Pin className="w-3 h-3 text-amber-400" />
+                    </div>
+                )}
+                
                 {/* Generating Loading Indicator */}
                 {img.videoStatus === 'generating' && (
                      <div className="absolute inset-0 bg-black/40 flex items-center justify-center">
@@ -120,6 +131,18 @@ export const HistoryGallery: React.FC<HistoryGalleryProps> = ({ onSelect }) => {
         >
           <ChevronRight className="w-6 h-6" />
         </button>
+
+        {onCompose && history.length >= 2 && (
+          <Tooltip content={t.composer_open}>
+            <button
+              onClick={onCompose}
+              className="flex-shrink-0 flex items-center justify-center size-10 rounded-full bg-white/10 hover:bg-white/20 text-white/60 hover:text-red-400 transition-colors"
+              aria-label={t.composer_open}
+            >
+              <Clapperboard className="w-5 h-5" />
+            </button>
+          </Tooltip>
+        )}
       </div>
     </div>
   );
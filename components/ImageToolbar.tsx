@@ -1,12 +1,11 @@
 
 import React, { useState, useEffect } from 'react';
-import { Info as LucideInfo, Eye as LucideEye, EyeOff as LucideEyeOff, Download as LucideDownload, Trash2 as LucideTrash2, X as LucideX, Check as LucideCheck, Loader2 as LucideLoader2, Film as LucideFilm, CloudUpload, Timer, Copy, Check } from 'lucide-react';
+import { Info as LucideInfo, Eye as LucideEye, EyeOff as LucideEyeOff, Download as LucideDownload, Trash2 as LucideTrash2, X as LucideX, Check as LucideCheck, Loader2 as LucideLoader2, Film as LucideFilm, CloudUpload, Timer, Copy, Check, Pin, PinOff } from 'lucide-react';
 import { Icon4x as CustomIcon4x } from './Icons';
 import { Tooltip } from './Tooltip';
 import { GeneratedImage, ProviderOption } from '../types';
 import { isStorageConfigured } from '../services/storageService';
-import { getCustomProviders } from '../services/utils';
-import { HF_MODEL_OPTIONS, GITEE_MODEL_OPTIONS, MS_MODEL_OPTIONS, A4F_MODEL_OPTIONS } from '../constants';
+import { getProviderLabel, getModelLabel } from '../services/providerRegistry';
 import { useAppStore } from '../store/appStore';
 import { translations } from '../translations';
 
@@ -19,6 +18,7 @@ interface ImageToolbarProps {
     isDownloading: boolean;
     handleUpscale: () => void;
     handleToggleBlur: () => void;
+    handleTogglePin: () => void;
     handleDownload: () => void;
     handleDelete: () => void;
     handleCancelUpscale: () => void;
@@ -32,6 +32,7 @@ interface ImageToolbarProps {
     // Cloud Props
     handleUploadToS3?: () => void;
     isUploading?: boolean;
+    uploadProgress?: number | null;
     isUploaded?: boolean;
     // New Props for Popover
     imageDimensions: { width: number, height: number } | null;
@@ -48,6 +49,7 @@ export const ImageToolbar: React.FC<ImageToolbarProps> = ({
     isDownloading,
     handleUpscale,
     handleToggleBlur,
+    handleTogglePin,
     handleDownload,
     handleDelete,
     handleCancelUpscale,
@@ -59,6 +61,7 @@ export const ImageToolbar: React.FC<ImageToolbarProps> = ({
     provider,
     handleUploadToS3,
     isUploading,
+    uploadProgress,
     isUploaded,
     imageDimensions,
     copiedPrompt,
@@ -103,44 +106,6 @@ export const ImageToolbar: React.FC<ImageToolbarProps> = ({
     // Disable live button if busy (generating) OR if already in Live Mode (viewing video)
     const isLiveDisabled = isBusy || isLiveMode;
 
-    const getProviderLabel = (providerId?: string) => {
-        if (!providerId) return 'Hugging Face';
-        if (providerId === 'gitee') return 'Gitee AI';
-        if (providerId === 'modelscope') return 'Model Scope';
-        if (providerId === 'a4f') return 'A4F';
-        if (providerId === 'huggingface') return 'Hugging Face';
-        
-        // Check Custom Providers
-        const customProviders = getCustomProviders();
-        const custom = customProviders.find(p => p.id === providerId);
-        return custom ? custom.name : providerId; // Fallback to ID if not found
-    };
-
-    const getModelLabel = (modelValue: string, providerId?: string) => {
-        // First check standard lists
-        const option = [...HF_MODEL_OPTIONS, ...GITEE_MODEL_OPTIONS, ...MS_MODEL_OPTIONS, ...A4F_MODEL_OPTIONS].find(o => o.value === modelValue);
-        if (option) return option.label;
-
-        // Then check custom provider models if available
-        if (providerId) {
-            const customProviders = getCustomProviders();
-            const custom = customProviders.find(p => p.id === providerId);
-            if (custom) {
-                // Search in all categories
-                const allModels = [
-                    ...(custom.models.generate || []),
-                    ...(custom.models.edit || []),
-                    ...(custom.models.video || []),
-                    ...(custom.models.text || [])
-                ];
-                const customModel = allModels.find(m => m.id === modelValue);
-                if (customModel) return customModel.name;
-            }
-        }
-        
-        return modelValue;
-    };
-
     return (
         <div className="absolute bottom-4 md:bottom-6 inset-x-0 flex justify-center pointer-events-none z-40">
             {isComparing ? (
@@ -253,6 +218,14 @@ export const ImageToolbar: React.FC<ImageToolbarProps> = ({
                                         <p className="text-xs leading-relaxed text-white/70 italic select-text">{currentImage.prompt}</p>
                                     </div>
                                 </div>
+                                {currentImage.negativePrompt && (
+                                    <div>
+                                        <span className="block text-white/40 text-[10px] uppercase tracking-wider font-semibold mb-1">{t.negativePrompt}</span>
+                                        <div className="max-h-16 overflow-y-auto custom-scrollbar p-2 bg-black/20 rounded-lg border border-white/5">
+                                            <p className="text-xs leading-relaxed text-white/70 italic select-text">{currentImage.negativePrompt}</p>
+                                        </div>
+                                    </div>
+                                )}
                             </div>
                         </div>
                     )}
@@ -328,10 +301,22 @@ export const ImageToolbar: React.FC<ImageToolbarProps> = ({
 
                             <div className="w-px h-5 bg-white/10 mx-1"></div>
 
+                            {/* Pinned images are exempt from the local retention policy */}
+                            <Tooltip content={currentImage.pinned ? t.unpin_keep : t.pin_keep}>
+                                <button
+                                    onClick={handleTogglePin}
+                                    className={`flex items-center justify-center w-10 h-10 rounded-xl transition-all ${currentImage.pinned ? 'text-amber-400 bg-white/10' : 'text-white/70 hover:text-amber-400 hover:bg-white/10'}`}
+                                >
+                                    {currentImage.pinned ? <PinOff className="w-5 h-5" /> : <Pin className="w-5 h-5" />}
+                                </button>
+                            </Tooltip>
+
+                            <div className="w-px h-5 bg-white/10 mx-1"></div>
+
                             {/* Upload Button */}
                             {showUploadButton && (
                                 <>
-                                    <Tooltip content={isUploading ? t.uploading : (isUploaded ? t.upload_success : t.upload)}>
+                                    <Tooltip content={isUploading ? (uploadProgress != null ? `${t.uploading} ${Math.round(uploadProgress * 100)}%` : t.uploading) : (isUploaded ? t.upload_success : t.upload)}>
                                         <button
                                             onClick={handleUploadToS3}
                                             disabled={isUploading}
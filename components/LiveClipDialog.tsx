@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { X, Film, MessageSquare, Clock, Dices, RotateCcw, MonitorPlay } from 'lucide-react';
+import { VideoClipParams } from '../types';
+import { VIDEO_RESOLUTIONS } from '../constants';
+import { useAppStore } from '../store/appStore';
+import { translations } from '../translations';
+
+interface LiveClipFieldsProps {
+    params: VideoClipParams;
+    onChange: (params: VideoClipParams) => void;
+    supportsResolution: boolean;
+    headerAction?: React.ReactNode; // Shown next to the motion prompt label
+}
+
+// The clip settings form, shared by the Live dialog and the video composer
+export const LiveClipFields: React.FC<LiveClipFieldsProps> = ({ params, onChange, supportsResolution, headerAction }) => {
+    const { language } = useAppStore();
+    const t = translations[language];
+    const update = (patch: Partial<VideoClipParams>) => onChange({ ...params, ...patch });
+
+    return (
+        <div className="space-y-5">
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-sm font-medium text-white/80"><MessageSquare className="w-4 h-4 text-purple-400" />{t.videoPrompt}</label>
+                    {headerAction}
+                </div>
+                <textarea value={params.prompt} onChange={(e) => update({ prompt: e.target.value })} rows={3} className="w-full bg-white/[0.03] border border-white/10 rounded-xl p-3 text-sm text-white/90 placeholder:text-white/20 focus:outline-0 focus:border-purple-500/50 resize-none custom-scrollbar leading-relaxed" />
+            </div>
+
+            <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">{t.negativePrompt}</label>
+                <textarea value={params.negativePrompt} onChange={(e) => update({ negativePrompt: e.target.value })} rows={2} placeholder={t.negativePromptPlaceholder} className="w-full bg-white/[0.03] border border-white/10 rounded-xl p-3 text-xs text-white/90 placeholder:text-white/20 focus:outline-0 focus:border-purple-500/50 resize-none custom-scrollbar leading-relaxed" />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+                <label className="text-sm font-medium text-white/80 min-w-[6rem]">{t.seed}</label>
+                <div className="flex flex-1 items-center gap-2">
+                    <input type="number" value={params.seed} onChange={(e) => update({ seed: parseInt(e.target.value, 10) || 0 })} className="flex-1 h-9 px-3 bg-white/5 border border-white/10 rounded-lg text-xs text-white/90 font-mono focus:outline-0 focus:border-purple-500/50 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none" />
+                    <button onClick={() => update({ seed: Math.floor(Math.random() * 2147483647) })} title={t.seedPlaceholder} className="flex h-9 w-9 shrink-0 items-center justify-center rounded-lg bg-white/10 text-white/60 hover:bg-white/20 hover:text-white transition-colors active:scale-95">
+                        <Dices className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+                <label className="flex items-center gap-2 text-sm font-medium text-white/80 min-w-[6rem]"><Clock className="w-4 h-4 text-blue-400" />{t.videoDuration}</label>
+                <div className="flex flex-1 items-center gap-3">
+                    <input type="range" min="0.5" max="5" step="0.5" value={params.duration} onChange={(e) => update({ duration: Number(e.target.value) })} className="custom-range text-blue-500 flex-1" />
+                    <span className="text-xs font-mono text-white/50 bg-white/5 px-2 py-0.5 rounded min-w-[3.5rem] text-center">{params.duration} {t.seconds}</span>
+                </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+                <label className="flex items-center gap-2 text-sm font-medium text-white/80 min-w-[6rem]"><MonitorPlay className="w-4 h-4 text-green-400" />{t.videoResolution}</label>
+                <div className={`flex flex-1 items-center gap-2 ${!supportsResolution ? 'opacity-60' : ''}`}>
+                    {VIDEO_RESOLUTIONS.map(resolution => (
+                        <button
+                            key={resolution}
+                            onClick={() => update({ resolution })}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-mono border transition-colors ${params.resolution === resolution ? 'bg-purple-500/20 text-purple-300 border-purple-500/40' : 'bg-white/5 text-white/60 border-white/10 hover:bg-white/10'}`}
+                        >
+                            {resolution}p
+                        </button>
+                    ))}
+                    {!supportsResolution && <span className="text-amber-400/80 text-xs">{t.videoResolutionUnsupported}</span>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface LiveClipDialogProps {
+    initialParams: VideoClipParams | null; // Opens the dialog when set
+    defaultParams: VideoClipParams | null; // Restored by the reset button
+    supportsResolution: boolean;
+    onClose: () => void;
+    onSubmit: (params: VideoClipParams) => void;
+}
+
+// Per-clip settings asked for when clicking Live, prefilled from the image's previous clip
+export const LiveClipDialog: React.FC<LiveClipDialogProps> = ({ initialParams, defaultParams, supportsResolution, onClose, onSubmit }) => {
+    const { language } = useAppStore();
+    const t = translations[language];
+    const [params, setParams] = useState<VideoClipParams | null>(initialParams);
+
+    useEffect(() => {
+        setParams(initialParams);
+    }, [initialParams]);
+
+    if (!initialParams || !params) return null;
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center px-3 md:px-4">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={onClose} />
+            <div className="relative w-full max-w-lg bg-[#0D0B14]/95 backdrop-blur-xl border border-white/[0.08] rounded-2xl shadow-[0_0_50px_-12px_rgba(124,58,237,0.15)] ring-1 ring-white/[0.05] overflow-hidden flex flex-col max-h-[85vh] animate-in zoom-in-95 duration-300">
+                <div className="flex items-center justify-between px-4 py-2 md:px-5 border-b border-white/[0.06] bg-white/[0.02] flex-shrink-0">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-red-500/10 rounded-lg">
+                            <Film className="w-5 h-5 text-red-400" />
+                        </div>
+                        <h2 className="text-lg font-bold text-white tracking-wide">{t.live_clip_title}</h2>
+                    </div>
+                    <button onClick={onClose} className="group p-2 rounded-lg text-white/40 hover:text-white hover:bg-white/[0.08] transition-all duration-200">
+                        <X className="w-5 h-5 transition-transform duration-500 ease-out group-hover:rotate-180" />
+                    </button>
+                </div>
+
+                <div className="flex-1 p-4 md:p-5 overflow-y-auto custom-scrollbar">
+                    <LiveClipFields
+                        params={params}
+                        onChange={setParams}
+                        supportsResolution={supportsResolution}
+                        headerAction={defaultParams && (
+                            <button onClick={() => setParams({ ...defaultParams, seed: params.seed })} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-white/50 hover:text-white bg-white/5 hover:bg-white/10 transition-colors border border-transparent hover:border-white/10"><RotateCcw className="w-3.5 h-3.5" />{t.restoreDefault}</button>
+                        )}
+                    />
+                </div>
+
+                <div className="flex justify-end gap-2 px-4 py-3 md:px-5 border-t border-white/[0.06] flex-shrink-0">
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-white/60 hover:text-white hover:bg-white/5 transition-colors">{t.cancel}</button>
+                    <button onClick={() => onSubmit(params)} disabled={!params.prompt.trim()} className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white text-sm font-bold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                        <Film className="w-4 h-4" />
+                        {t.live_clip_generate}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
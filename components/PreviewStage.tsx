@@ -2,16 +2,19 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { TransformWrapper, TransformComponent } from 'react-zoom-pan-pinch';
 import { ImageComparison } from './ImageComparison';
-import { Paintbrush, AlertCircle, Sparkles, X, Film, Image as ImageIcon } from 'lucide-react';
-import { GeneratedImage } from '../types';
+import { Paintbrush, AlertCircle, Sparkles, X, Film, Image as ImageIcon, Check, Loader2, Trash2 } from 'lucide-react';
+import { GeneratedImage, TaskProgress } from '../types';
 import { useAppStore } from '../store/appStore';
 import { translations } from '../translations';
+import { TaskProgressInfo } from './TaskProgressInfo';
 
 interface PreviewStageProps {
     currentImage: GeneratedImage | null;
     isWorking: boolean;
     isTranslating: boolean;
     elapsedTime: number;
+    progress?: TaskProgress | null; // Reported by the provider of the running job
+    videoProgress?: TaskProgress | null; // Reported while the current image's Live video renders
     error: string | null;
     onCloseError: () => void;
     isComparing: boolean;
@@ -25,6 +28,12 @@ interface PreviewStageProps {
     isLiveMode?: boolean;
     onToggleLiveMode?: () => void;
     isGeneratingVideoPrompt?: boolean;
+    // Batch Props
+    batchResults?: GeneratedImage[];
+    batchPending?: number;
+    batchFailed?: number;
+    onPickBatchResult?: (image: GeneratedImage) => void;
+    onDiscardBatch?: () => void;
 }
 
 export const PreviewStage: React.FC<PreviewStageProps> = ({
@@ -32,6 +41,8 @@ export const PreviewStage: React.FC<PreviewStageProps> = ({
     isWorking,
     isTranslating,
     elapsedTime,
+    progress,
+    videoProgress,
     error,
     onCloseError,
     isComparing,
@@ -40,7 +51,12 @@ export const PreviewStage: React.FC<PreviewStageProps> = ({
     children,
     isLiveMode,
     onToggleLiveMode,
-    isGeneratingVideoPrompt
+    isGeneratingVideoPrompt,
+    batchResults = [],
+    batchPending = 0,
+    batchFailed = 0,
+    onPickBatchResult,
+    onDiscardBatch
 }) => {
     const { language } = useAppStore();
     const t = translations[language];
@@ -91,12 +107,17 @@ export const PreviewStage: React.FC<PreviewStageProps> = ({
     }, []); // Only on mount
 
     const isLiveGenerating = displayImage?.videoStatus === 'generating';
+    const isBatchActive = batchResults.length + batchPending > 0;
 
     return (
         <section className="relative w-full flex flex-col h-[360px] md:h-[480px] items-center justify-center bg-black/20 rounded-xl backdrop-blur-xl border border-white/10 shadow-2xl shadow-black/20 overflow-hidden relative group">
 
-            {isWorking ? (
+            {isWorking && !isBatchActive ? (
                 <div className="absolute inset-0 flex flex-col items-center justify-center z-10 bg-black/40 backdrop-blur-sm animate-in fade-in duration-500">
+                    {/* Intermediate result from streaming providers */}
+                    {progress?.previewUrl && !isTranslating && (
+                        <img src={progress.previewUrl} alt="" className="absolute inset-0 w-full h-full object-contain opacity-40 -z-10" />
+                    )}
                     <div className="relative">
                         <div className="h-24 w-24 rounded-full border-4 border-white/10 border-t-purple-500 animate-spin"></div>
                         <div className="absolute inset-0 flex items-center justify-center">
@@ -107,12 +128,72 @@ export const PreviewStage: React.FC<PreviewStageProps> = ({
                         {isTranslating ? t.translating : t.dreaming}
                     </p>
                     {!isTranslating && (
-                        <p className="mt-2 font-mono text-purple-300 text-lg">{elapsedTime.toFixed(1)}s</p>
+                        <>
+                            <p className="mt-2 font-mono text-purple-300 text-lg">{elapsedTime.toFixed(1)}s</p>
+                            <TaskProgressInfo progress={progress} className="mt-3" />
+                        </>
                     )}
                 </div>
             ) : null}
 
-            {error ? (
+            {isBatchActive ? (
+                <div className="w-full h-full flex flex-col animate-in fade-in duration-300">
+                    {/* Batch Header */}
+                    <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-white/10 flex-shrink-0">
+                        <p className="text-xs text-white/50 truncate">
+                            {t.batch_hint}
+                            {batchFailed > 0 && (
+                                <span className="ml-2 text-red-400">{t.batch_failed.replace('{n}', batchFailed.toString())}</span>
+                            )}
+                        </p>
+                        {batchPending === 0 && (
+                            <button
+                                onClick={onDiscardBatch}
+                                className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs text-white/60 hover:text-red-400 hover:bg-red-500/10 transition-colors flex-shrink-0"
+                            >
+                                <Trash2 className="w-3.5 h-3.5" />
+                                {t.batch_discard}
+                            </button>
+                        )}
+                    </div>
+
+                    {/* Contact Sheet */}
+                    <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar p-3">
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                            {batchResults.map((image) => (
+                                <div key={image.id} className="group/cell relative aspect-square rounded-lg overflow-hidden bg-white/5 border border-white/10 hover:border-purple-500/60 transition-colors">
+                                    <img
+                                        src={image.url}
+                                        alt={image.prompt}
+                                        className="w-full h-full object-cover"
+                                        onContextMenu={(e) => e.preventDefault()}
+                                    />
+                                    {image.seed !== undefined && (
+                                        <span className="absolute top-1.5 left-1.5 text-[10px] font-mono text-white/80 bg-black/60 px-1.5 py-0.5 rounded">{image.seed}</span>
+                                    )}
+                                    <div className="absolute inset-0 flex items-end justify-center p-2 bg-gradient-to-t from-black/70 to-transparent opacity-100 md:opacity-0 md:group-hover/cell:opacity-100 transition-opacity">
+                                        <button
+                                            onClick={() => onPickBatchResult?.(image)}
+                                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-purple-600 hover:bg-purple-500 text-white text-xs font-bold shadow-lg active:scale-95 transition-all"
+                                        >
+                                            <Check className="w-3.5 h-3.5" />
+                                            {t.batch_pick}
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                            {Array.from({ length: batchPending }).map((_, i) => (
+                                <div key={`pending-${i}`} className="aspect-square rounded-lg bg-white/5 border border-white/10 flex flex-col items-center justify-center gap-2">
+                                    <Loader2 className="w-6 h-6 text-purple-400 animate-spin" />
+                                    {i === 0 && (
+                                        <span className="font-mono text-xs text-purple-300">{elapsedTime.toFixed(1)}s</span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            ) : error ? (
                 <div className="text-center text-red-400 p-8 max-w-md animate-in zoom-in-95 duration-300 relative group/error">
                     <button 
                         onClick={onCloseError}
@@ -188,6 +269,7 @@ export const PreviewStage: React.FC<PreviewStageProps> = ({
                         <div className="absolute top-4 right-4 bg-black/60 backdrop-blur text-white/80 text-xs px-2 py-1 rounded flex items-center gap-1.5 border border-white/10 z-20">
                             <div className="w-1.5 h-1.5 bg-red-500 rounded-full animate-pulse"></div>
                             {isGeneratingVideoPrompt ? t.liveGeneratingDesc : t.liveGenerating}
+                            {!isGeneratingVideoPrompt && <TaskProgressInfo progress={videoProgress} compact className="text-white/50" />}
                         </div>
                     )}
                     
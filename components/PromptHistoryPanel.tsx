@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Search, Pin, PinOff, Trash2, RotateCw } from 'lucide-react';
+import { useAppStore } from '../store/appStore';
+import { translations } from '../translations';
+import { AspectRatioOption, ModelOption, PromptHistoryEntry, PromptRun } from '../types';
+import { searchPromptHistory, setPromptPinned, deletePromptHistoryEntry, recordPromptUse } from '../services/promptHistoryService';
+import { getProvider, getModelLabel } from '../services/providerRegistry';
+import { enqueueGeneration } from '../services/jobQueue';
+
+interface PromptHistoryPanelProps {
+    onSelect: (text: string) => void;
+}
+
+export const PromptHistoryPanel: React.FC<PromptHistoryPanelProps> = ({ onSelect }) => {
+    const { language } = useAppStore();
+    const t = translations[language];
+
+    const [query, setQuery] = useState('');
+    const [entries, setEntries] = useState<PromptHistoryEntry[]>([]);
+
+    const refresh = useCallback(async () => {
+        try {
+            setEntries(await searchPromptHistory(query));
+        } catch (e) {
+            console.error("Failed to load prompt history", e);
+        }
+    }, [query]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleTogglePin = async (entry: PromptHistoryEntry) => {
+        await setPromptPinned(entry.text, !entry.pinned);
+        refresh();
+    };
+
+    const handleDelete = async (entry: PromptHistoryEntry) => {
+        await deletePromptHistoryEntry(entry.text);
+        refresh();
+    };
+
+    // Queues the prompt again with the model, seed and settings of its latest result
+    const handleRerun = async (entry: PromptHistoryEntry, run: PromptRun) => {
+        enqueueGeneration(run.provider, {
+            model: run.model as ModelOption,
+            prompt: entry.text,
+            aspectRatio: run.aspectRatio as AspectRatioOption,
+            seed: run.seed,
+            steps: run.steps,
+            guidanceScale: run.guidanceScale,
+            negativePrompt: run.negativePrompt
+        });
+        await recordPromptUse(entry.text);
+        refresh();
+    };
+
+    return (
+        <div className="flex flex-col">
+            <div className="p-2 border-b border-white/5 sticky top-0 bg-[#1A1625] z-10">
+                <div className="flex items-center gap-2 px-2 h-8 rounded-lg bg-white/5 border border-white/10 focus-within:border-purple-500/50">
+                    <Search className="w-3.5 h-3.5 text-white/40 flex-shrink-0" />
+                    <input
+                        type="text"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder={t.promptHistorySearch}
+                        className="flex-1 min-w-0 bg-transparent border-none text-xs text-white/90 placeholder:text-white/30 focus:outline-0 focus:ring-0 p-0"
+                        autoFocus
+                    />
+                </div>
+            </div>
+            <div className="p-1">
+                {entries.length === 0 ? (
+                    <div className="p-4 text-center text-white/40 text-sm italic">
+                        {t.historyEmpty}
+                    </div>
+                ) : entries.map(entry => {
+                    const lastRun = entry.runs[0];
+                    const canRerun = !!lastRun && !!getProvider(lastRun.provider);
+                    return (
+                        <div
+                            key={entry.text}
+                            className="group relative rounded-lg hover:bg-white/10 transition-colors border-b border-white/5 last:border-0"
+                        >
+                            <button
+                                onClick={(e) => {
+                                    e.preventDefault();
+                                    onSelect(entry.text);
+                                }}
+                                className="w-full text-left p-3 pr-9 text-sm text-white/80"
+                                type="button"
+                            >
+                                <p className="line-clamp-4 text-xs leading-relaxed opacity-80 group-hover:opacity-100 break-words">{entry.text}</p>
+                                <p className="mt-1 text-[10px] text-white/40 truncate">
+                                    {t.promptHistoryUses.replace('{n}', entry.useCount.toString())}
+                                    {lastRun && ` · ${getModelLabel(lastRun.model, lastRun.provider)}`}
+                                    {lastRun?.seed !== undefined && ` · #${lastRun.seed}`}
+                                </p>
+                            </button>
+                            <div className={`absolute top-2 right-1.5 flex flex-col gap-0.5 ${entry.pinned ? '' : 'opacity-0 group-hover:opacity-100'} transition-opacity`}>
+                                <button
+                                    onClick={() => handleTogglePin(entry)}
+                                    title={entry.pinned ? t.promptHistoryUnpin : t.promptHistoryPin}
+                                    className={`p-1 rounded-md hover:bg-white/10 ${entry.pinned ? 'text-purple-400' : 'text-white/50 hover:text-white'}`}
+                                    type="button"
+                                >
+                                    {entry.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                                </button>
+                                {canRerun && (
+                                    <button
+                                        onClick={() => handleRerun(entry, lastRun)}
+                                        title={t.promptHistoryRerun}
+                                        className="p-1 rounded-md text-white/50 hover:text-white hover:bg-white/10"
+                                        type="button"
+                                    >
+                                        <RotateCw className="w-3.5 h-3.5" />
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => handleDelete(entry)}
+                                    title={t.promptHistoryDelete}
+                                    className="p-1 rounded-md text-white/50 hover:text-red-400 hover:bg-white/10"
+                                    type="button"
+                                >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -1,9 +1,13 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { History, Languages, Loader2, Wand2 } from 'lucide-react';
+import { History, Languages, Loader2, Wand2, Palette, ArrowLeft } from 'lucide-react';
 import { Tooltip } from './Tooltip';
+import { PromptHistoryPanel } from './PromptHistoryPanel';
 import { useAppStore } from '../store/appStore';
 import { translations } from '../translations';
+import { PromptStyle, ModelOption, ProviderOption } from '../types';
+import { applyPromptTemplate, extractTemplateVariables } from '../services/utils';
+import { getProvider, getStepsConfig, getGuidanceConfig, getSupportedAspectRatios } from '../services/providerRegistry';
 
 interface PromptInputProps {
     onOptimize: () => void;
@@ -19,33 +23,18 @@ export const PromptInput: React.FC<PromptInputProps> = ({
         isOptimizing, 
         isTranslating, 
         autoTranslate, 
-        setAutoTranslate 
+        setAutoTranslate,
+        promptStyles,
+        applyModelPreset
     } = useAppStore();
     
     const t = translations[language];
-    const [promptHistory, setPromptHistory] = useState<string[]>(() => {
-        try {
-            const saved = sessionStorage.getItem('prompt_history');
-            return saved ? JSON.parse(saved) : [];
-        } catch (e) {
-            return [];
-        }
-    });
     const [showPromptHistory, setShowPromptHistory] = useState<boolean>(false);
     const promptHistoryRef = useRef<HTMLDivElement>(null);
-
-    // Refresh history from storage periodically or on mount/focus to check updates from App.tsx
-    useEffect(() => {
-        const updateHistory = () => {
-            try {
-                const saved = sessionStorage.getItem('prompt_history');
-                if (saved) setPromptHistory(JSON.parse(saved));
-            } catch (e) {}
-        };
-        updateHistory();
-        window.addEventListener('focus', updateHistory);
-        return () => window.removeEventListener('focus', updateHistory);
-    }, []);
+    const [showStyles, setShowStyles] = useState<boolean>(false);
+    const [pendingStyle, setPendingStyle] = useState<PromptStyle | null>(null);
+    const [styleValues, setStyleValues] = useState<Record<string, string>>({});
+    const stylesRef = useRef<HTMLDivElement>(null);
 
     // Close prompt history on click outside
     useEffect(() => {
@@ -53,11 +42,65 @@ export const PromptInput: React.FC<PromptInputProps> = ({
             if (promptHistoryRef.current && !promptHistoryRef.current.contains(event.target as Node)) {
                 setShowPromptHistory(false);
             }
+            if (stylesRef.current && !stylesRef.current.contains(event.target as Node)) {
+                setShowStyles(false);
+                setPendingStyle(null);
+            }
         };
         document.addEventListener('mousedown', handleClickOutside);
         return () => document.removeEventListener('mousedown', handleClickOutside);
     }, []);
 
+    // Variables other than {subject} have to be filled in before the style is applied
+    const getStyleVariables = (style: PromptStyle) => extractTemplateVariables(style.template).filter(v => v !== 'subject');
+
+    const applyStyle = (style: PromptStyle, values: Record<string, string>) => {
+        setPrompt(applyPromptTemplate(style.template, prompt, values));
+
+        const state = useAppStore.getState();
+        let targetProvider: ProviderOption = state.provider;
+        let targetModel: string = state.model;
+        if (style.model) {
+            const [styleProvider, ...rest] = style.model.split(':');
+            const styleModel = rest.join(':');
+            // Skip defaults pointing at a provider or model that is not available here
+            if (getProvider(styleProvider)?.models.generate?.some(m => m.value === styleModel)) {
+                targetProvider = styleProvider;
+                targetModel = styleModel;
+            }
+        }
+
+        // Values the style leaves out fall back to the new model's defaults, as on any model change
+        const modelChanged = targetProvider !== state.provider || targetModel !== state.model;
+        const stepsConfig = getStepsConfig(targetProvider, targetModel);
+        const gsConfig = getGuidanceConfig(targetProvider, targetModel);
+        applyModelPreset({
+            provider: targetProvider,
+            model: targetModel as ModelOption,
+            // A ratio the model can't render would silently come out square
+            aspectRatio: style.aspectRatio && getSupportedAspectRatios(targetProvider, targetModel).includes(style.aspectRatio) ? style.aspectRatio : undefined,
+            steps: style.steps !== undefined && stepsConfig
+                ? Math.min(Math.max(style.steps, stepsConfig.min), stepsConfig.max)
+                : (modelChanged ? stepsConfig?.default : undefined),
+            guidanceScale: style.guidanceScale !== undefined && gsConfig
+                ? Math.min(Math.max(style.guidanceScale, gsConfig.min), gsConfig.max)
+                : (modelChanged ? gsConfig?.default : undefined)
+        });
+
+        setShowStyles(false);
+        setPendingStyle(null);
+    };
+
+    const handleStyleClick = (style: PromptStyle) => {
+        const variables = getStyleVariables(style);
+        if (variables.length === 0) {
+            applyStyle(style, {});
+            return;
+        }
+        setStyleValues({});
+        setPendingStyle(style);
+    };
+
     return (
         <div className="group flex flex-col flex-1">
             <div className="flex items-center justify-between pb-3">
@@ -82,32 +125,89 @@ export const PromptInput: React.FC<PromptInputProps> = ({
 
                         {/* History Dropdown */}
                         {showPromptHistory && (
+                            <div className="absolute left-0 top-full mt-2 w-80 max-h-[360px] overflow-y-auto custom-scrollbar rounded-xl bg-[#1A1625] border border-white/10 shadow-2xl z-50 animate-in fade-in zoom-in-95 duration-100 flex flex-col">
+                                <PromptHistoryPanel
+                                    onSelect={(text) => {
+                                        setPrompt(text);
+                                        setShowPromptHistory(false);
+                                    }}
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Style Library Button */}
+                    <div className="relative" ref={stylesRef}>
+                        <Tooltip content={t.style_library}>
+                            <button
+                                onClick={(e) => {
+                                    e.preventDefault();
+                                    e.stopPropagation();
+                                    setShowStyles(!showStyles);
+                                    setPendingStyle(null);
+                                }}
+                                className={`flex items-center justify-center h-7 w-7 rounded-lg text-white/60 hover:text-white hover:bg-white/10 transition-all border border-transparent hover:border-white/10 animate-in fade-in zoom-in-0 duration-300 ${showStyles ? 'text-purple-400 bg-white/10 border-white/10' : ''}`}
+                                type="button"
+                            >
+                                <Palette className="w-4 h-4" />
+                            </button>
+                        </Tooltip>
+
+                        {/* Styles Dropdown */}
+                        {showStyles && (
                             <div className="absolute left-0 top-full mt-2 w-72 max-h-[300px] overflow-y-auto custom-scrollbar rounded-xl bg-[#1A1625] border border-white/10 shadow-2xl z-50 animate-in fade-in zoom-in-95 duration-100 flex flex-col">
-                                <div className="p-1">
-                                    {(() => {
-                                        if (promptHistory.length === 0) {
-                                            return (
-                                                <div className="p-4 text-center text-white/40 text-sm italic">
-                                                    {t.historyEmpty}
-                                                </div>
-                                            );
-                                        }
-                                        return promptHistory.map((historyPrompt, index) => (
+                                {pendingStyle ? (
+                                    <div className="p-3 space-y-3">
+                                        <button
+                                            onClick={() => setPendingStyle(null)}
+                                            className="flex items-center gap-1.5 text-xs text-white/50 hover:text-white transition-colors"
+                                            type="button"
+                                        >
+                                            <ArrowLeft className="w-3.5 h-3.5" />
+                                            {pendingStyle.name}
+                                        </button>
+                                        {getStyleVariables(pendingStyle).map(name => (
+                                            <div key={name} className="space-y-1">
+                                                <label className="text-xs font-mono text-purple-300">{`{${name}}`}</label>
+                                                <input
+                                                    type="text"
+                                                    value={styleValues[name] || ''}
+                                                    onChange={(e) => setStyleValues(prev => ({ ...prev, [name]: e.target.value }))}
+                                                    onKeyDown={(e) => { if (e.key === 'Enter') applyStyle(pendingStyle, styleValues); }}
+                                                    className="w-full px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white focus:outline-0 focus:border-purple-500/50"
+                                                />
+                                            </div>
+                                        ))}
+                                        <button
+                                            onClick={() => applyStyle(pendingStyle, styleValues)}
+                                            className="w-full py-1.5 bg-purple-600 hover:bg-purple-500 text-white text-xs font-bold rounded-lg transition-colors"
+                                            type="button"
+                                        >
+                                            {t.style_apply}
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <div className="p-1">
+                                        {promptStyles.length === 0 ? (
+                                            <div className="p-4 text-center text-white/40 text-sm italic">
+                                                {t.style_empty}
+                                            </div>
+                                        ) : promptStyles.map(style => (
                                             <button
-                                                key={index}
+                                                key={style.id}
                                                 onClick={(e) => {
                                                     e.preventDefault();
-                                                    setPrompt(historyPrompt);
-                                                    setShowPromptHistory(false);
+                                                    handleStyleClick(style);
                                                 }}
                                                 className="w-full text-left p-3 text-sm text-white/80 hover:bg-white/10 rounded-lg transition-colors group border-b border-white/5 last:border-0 last:border-b-0"
                                                 type="button"
                                             >
-                                                <p className="line-clamp-4 text-xs leading-relaxed opacity-80 group-hover:opacity-100 break-words">{historyPrompt}</p>
+                                                <p className="font-medium text-white/90 truncate">{style.name}</p>
+                                                <p className="line-clamp-2 text-xs leading-relaxed opacity-60 group-hover:opacity-100 break-words font-mono">{style.template}</p>
                                             </button>
-                                        ));
-                                    })()}
-                                </div>
+                                        ))}
+                                    </div>
+                                )}
                             </div>
                         )}
                     </div>
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { ListTodo, X, RotateCw, Trash2, Loader2, Check, AlertCircle, Ban, Clock } from 'lucide-react';
+import { useAppStore } from '../store/appStore';
+import { useQueueStore } from '../store/queueStore';
+import { translations } from '../translations';
+import { GenerationJob } from '../types';
+import { cancelJob, retryJob } from '../services/jobQueue';
+import { getProviderLabel, getModelLabel } from '../services/providerRegistry';
+
+const StatusIcon: React.FC<{ status: GenerationJob['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'running': return <Loader2 className="w-4 h-4 text-purple-400 animate-spin" />;
+    case 'succeeded': return <Check className="w-4 h-4 text-green-400" />;
+    case 'failed': return <AlertCircle className="w-4 h-4 text-red-400" />;
+    case 'canceled': return <Ban className="w-4 h-4 text-white/40" />;
+    case 'queued': default: return <Clock className="w-4 h-4 text-white/60" />;
+  }
+};
+
+export const QueuePanel: React.FC = () => {
+  const { language } = useAppStore();
+  const { jobs, removeJob, clearFinished } = useQueueStore();
+  const t = translations[language];
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const pendingCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+  const hasRunning = jobs.some(job => job.status === 'running');
+  const hasFinished = jobs.length > pendingCount;
+
+  // Only tick while there is something to time and the panel is visible
+  useEffect(() => {
+    if (!isOpen || !hasRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isOpen, hasRunning]);
+
+  if (jobs.length === 0) return null;
+
+  const getElapsed = (job: GenerationJob) => {
+    if (!job.startedAt) return null;
+    const end = job.finishedAt ?? now;
+    return `${Math.max(0, (end - job.startedAt) / 1000).toFixed(1)}s`;
+  };
+
+  const getErrorText = (job: GenerationJob) => job.error ? ((t as any)[job.error] || job.error) : null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 flex flex-col items-end gap-2">
+      {isOpen && (
+        <div className="w-80 max-w-[calc(100vw-2rem)] max-h-[60vh] flex flex-col rounded-xl bg-[#0D0B14]/95 backdrop-blur-xl border border-white/10 shadow-2xl shadow-black/40 overflow-hidden animate-in fade-in slide-in-from-bottom-2 duration-200">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <span className="text-sm font-bold text-white">{t.queue_title}</span>
+            <div className="flex items-center gap-1">
+              {hasFinished && (
+                <button
+                  onClick={clearFinished}
+                  className="px-2 py-1 rounded-lg text-xs text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+                >
+                  {t.queue_clear}
+                </button>
+              )}
+              <button
+                onClick={() => setIsOpen(false)}
+                className="p-1 rounded-lg text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-white/5">
+            {jobs.map(job => {
+              const elapsed = getElapsed(job);
+              const errorText = getErrorText(job);
+              const isPending = job.status === 'queued' || job.status === 'running';
+              const canRetry = job.status === 'failed' || job.status === 'canceled';
+
+              return (
+                <div key={job.id} className="flex items-start gap-3 px-4 py-3">
+                  <div className="pt-0.5 flex-shrink-0">
+                    <StatusIcon status={job.status} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white/90 truncate" title={job.params.prompt}>{job.params.prompt}</p>
+                    <p className="text-xs text-white/40 truncate">
+                      {getProviderLabel(job.provider)} · {getModelLabel(job.params.model, job.provider)}
+                      {job.params.seed !== undefined && ` · #${job.params.seed}`}
+                    </p>
+                    <p className="text-xs text-white/50 mt-0.5">
+                      {(t as any)[`queue_status_${job.status}`]}
+                      {elapsed && ` · ${elapsed}`}
+                    </p>
+                    {errorText && <p className="text-xs text-red-400/90 mt-0.5 line-clamp-2">{errorText}</p>}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {isPending && (
+                      <button
+                        onClick={() => cancelJob(job.id)}
+                        title={t.queue_cancel}
+                        className="p-1.5 rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                    {canRetry && (
+                      <button
+                        onClick={() => retryJob(job.id)}
+                        title={t.queue_retry}
+                        className="p-1.5 rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                      >
+                        <RotateCw className="w-4 h-4" />
+                      </button>
+                    )}
+                    {!isPending && (
+                      <button
+                        onClick={() => removeJob(job.id)}
+                        title={t.queue_remove}
+                        className="p-1.5 rounded-lg text-white/50 hover:text-red-400 hover:bg-white/10 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={t.queue_title}
+        className="relative flex items-center justify-center size-12 rounded-full bg-black/40 backdrop-blur-xl border border-white/10 text-white/80 hover:text-white hover:bg-white/10 shadow-lg transition-all active:scale-95"
+      >
+        {hasRunning ? <Loader2 className="w-5 h-5 animate-spin" /> : <ListTodo className="w-5 h-5" />}
+        {pendingCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 flex items-center justify-center rounded-full bg-purple-600 text-[10px] font-bold text-white">
+            {pendingCount}
+          </span>
+        )}
+      </button>
+    </div>
+  );
+};
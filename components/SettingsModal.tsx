@@ -97,6 +97,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                                             setServiceMode={form.handleServiceModeChange}
                                             storageType={form.storageType}
                                             setStorageType={form.setStorageType}
+                                            retentionPolicy={form.retentionPolicy}
+                                            setRetentionPolicy={form.setRetentionPolicy}
                                             onClearData={form.handleClearData}
                                             setActiveTab={form.setActiveTab as any}
                                         />
@@ -110,6 +112,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                                             msToken={form.msToken} msStats={form.msStats}
                                             a4fToken={form.a4fToken} a4fStats={form.a4fStats}
                                             updateToken={form.updateToken}
+                                            failover={form.failover} setFailover={form.setFailover}
                                             customProviders={form.customProviders}
                                             handleUpdateCustomProvider={form.handleUpdateCustomProvider}
                                             handleDeleteCustomProvider={form.handleDeleteCustomProvider}
@@ -121,6 +124,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                                             newProviderUrl={form.newProviderUrl} setNewProviderUrl={form.setNewProviderUrl}
                                             newProviderToken={form.newProviderToken} setNewProviderToken={form.setNewProviderToken}
                                             fetchStatus={form.fetchStatus}
+                                            fetchError={form.fetchError}
                                             fetchedModels={form.fetchedModels}
                                             handleFetchCustomModels={form.handleFetchCustomModels}
                                             handleAddCustomProvider={form.handleAddCustomProvider}
@@ -148,6 +152,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                                             setSystemPrompt={form.setSystemPrompt}
                                             translationPrompt={form.translationPrompt}
                                             setTranslationPrompt={form.setTranslationPrompt}
+                                            promptStyles={form.promptStyles}
+                                            setPromptStyles={form.setPromptStyles}
                                         />
                                     )}
 
@@ -166,6 +172,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                                             webdavConfig={form.webdavConfig} setWebdavConfig={form.setWebdavConfig}
                                             testS3Result={form.testS3Result} isTestingS3={form.isTestingS3} handleTestS3={form.handleTestS3}
                                             testWebDAVResult={form.testWebDAVResult} isTestingWebDAV={form.isTestingWebDAV} handleTestWebDAV={form.handleTestWebDAV}
+                                            syncEnabled={form.syncEnabled} setSyncEnabled={form.setSyncEnabled}
                                         />
                                     )}
                                 </div>
@@ -0,0 +1,57 @@
+import React from 'react';
+import { RefreshCw, CloudOff, AlertCircle, Check, Loader2 } from 'lucide-react';
+import { useAppStore } from '../store/appStore';
+import { useSyncStore } from '../store/syncStore';
+import { translations } from '../translations';
+import { runSync } from '../services/syncService';
+
+interface SyncStatusBadgeProps {
+    className?: string;
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Compact sync state with pending changes and last sync time, click to sync now
+export const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ className = '' }) => {
+    const { language } = useAppStore();
+    const t = translations[language];
+    const { state, queue, progress, lastSyncAt, lastError } = useSyncStore();
+
+    let icon: React.ReactNode;
+    let label: string;
+    let tone: string;
+    if (state === 'syncing') {
+        icon = <Loader2 className="w-3.5 h-3.5 animate-spin" />;
+        label = progress ? t.sync_progress.replace('{done}', progress.done.toString()).replace('{total}', progress.total.toString()) : t.sync_syncing;
+        tone = 'text-purple-300 border-purple-500/30 bg-purple-500/10';
+    } else if (state === 'offline') {
+        icon = <CloudOff className="w-3.5 h-3.5" />;
+        label = t.sync_offline;
+        tone = 'text-yellow-300 border-yellow-500/30 bg-yellow-500/10';
+    } else if (state === 'error') {
+        icon = <AlertCircle className="w-3.5 h-3.5" />;
+        label = t.sync_error;
+        tone = 'text-red-300 border-red-500/30 bg-red-500/10';
+    } else {
+        icon = lastSyncAt ? <Check className="w-3.5 h-3.5" /> : <RefreshCw className="w-3.5 h-3.5" />;
+        label = lastSyncAt ? t.sync_last.replace('{time}', formatTime(lastSyncAt)) : t.sync_never;
+        tone = 'text-white/60 border-white/10 bg-white/5 hover:text-white';
+    }
+
+    const title = state === 'error' && lastError ? ((t as any)[lastError] || lastError) : t.sync_now;
+
+    return (
+        <button
+            onClick={() => runSync()}
+            disabled={state === 'syncing'}
+            title={title}
+            className={`flex items-center gap-1.5 px-2.5 h-7 rounded-lg border text-[11px] font-medium transition-colors disabled:cursor-default ${tone} ${className}`}
+        >
+            {icon}
+            <span className="whitespace-nowrap">{label}</span>
+            {queue.length > 0 && (
+                <span className="px-1.5 rounded-full bg-white/10 text-[10px]">{t.sync_pending.replace('{n}', queue.length.toString())}</span>
+            )}
+        </button>
+    );
+};
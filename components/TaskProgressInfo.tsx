@@ -0,0 +1,56 @@
+import React from 'react';
+import { TaskProgress } from '../types';
+import { useAppStore } from '../store/appStore';
+import { translations } from '../translations';
+
+interface TaskProgressInfoProps {
+    progress?: TaskProgress | null;
+    compact?: boolean; // Single line without the step bar, for badges
+    className?: string;
+}
+
+// Queue position, step and remaining time as reported by the provider. Renders nothing until it reports.
+export const TaskProgressInfo: React.FC<TaskProgressInfoProps> = ({ progress, compact = false, className = '' }) => {
+    const { language } = useAppStore();
+    const t = translations[language];
+    if (!progress) return null;
+
+    const parts: string[] = [];
+    if (progress.stage === 'queued') {
+        if (progress.queuePosition === undefined) {
+            parts.push(t.progress_waiting);
+        } else {
+            const position = (progress.queuePosition + 1).toString();
+            parts.push(progress.queueSize
+                ? t.progress_queue_size.replace('{position}', position).replace('{size}', progress.queueSize.toString())
+                : t.progress_queue.replace('{position}', position));
+        }
+    }
+    const hasSteps = progress.stage === 'running' && progress.step !== undefined && !!progress.totalSteps;
+    if (hasSteps) {
+        parts.push(t.progress_step.replace('{step}', progress.step!.toString()).replace('{total}', progress.totalSteps!.toString()));
+    }
+    const remaining = progress.etaAt !== undefined ? Math.ceil((progress.etaAt - Date.now()) / 1000) : 0;
+    if (remaining > 0) {
+        parts.push(t.progress_eta.replace('{seconds}', remaining.toString()));
+    }
+    if (parts.length === 0) return null;
+
+    if (compact) {
+        return <span className={className}>{parts.join(' · ')}</span>;
+    }
+
+    return (
+        <div className={`flex flex-col items-center gap-1.5 ${className}`}>
+            <p className="text-xs text-white/60">{parts.join(' · ')}</p>
+            {hasSteps && (
+                <div className="w-40 h-1 rounded-full bg-white/10 overflow-hidden">
+                    <div
+                        className="h-full bg-purple-500 transition-[width] duration-300"
+                        style={{ width: `${Math.min(100, progress.step! / progress.totalSteps! * 100)}%` }}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,299 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { X, Clapperboard, Film, Loader2, Square } from 'lucide-react';
+import { GeneratedImage, TaskProgress, VideoClipParams } from '../types';
+import { DEFAULT_VIDEO_NEGATIVE_PROMPT } from '../constants';
+import { useAppStore } from '../store/appStore';
+import { translations } from '../translations';
+import { Select, OptionGroup } from './Select';
+import { LiveClipFields } from './LiveClipDialog';
+import { TaskProgressInfo } from './TaskProgressInfo';
+import { getAvailableProviders, hasCapability, getMaxKeyframes, supportsVideoResolution } from '../services/providerRegistry';
+import { getLiveModelConfig, getVideoSettings, generateUUID, prepareResultBlob } from '../services/utils';
+import { saveTempFileToOPFS } from '../services/storageService';
+import { composeVideo, planSegments, ComposeMode, ComposeStage } from '../services/videoComposer';
+import { getVideoExtension, getStitchMimeType } from '../services/videoStitcher';
+
+interface VideoComposerModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+// "provider:model", split on the first colon since custom model ids may contain more
+const splitModelValue = (value: string) => {
+    const index = value.indexOf(':');
+    return { provider: value.slice(0, index), model: value.slice(index + 1) };
+};
+
+const createDefaultClip = (provider: string): VideoClipParams => {
+    const settings = getVideoSettings(provider);
+    return {
+        prompt: settings.prompt,
+        negativePrompt: DEFAULT_VIDEO_NEGATIVE_PROMPT,
+        seed: Math.floor(Math.random() * 2147483647),
+        duration: settings.duration,
+        resolution: 720
+    };
+};
+
+// Joins history images into one video: a transition between two keyframes, or a whole storyboard
+export const VideoComposerModal: React.FC<VideoComposerModalProps> = ({ isOpen, onClose }) => {
+    const { language, history, setHistory, setCurrentImage, setIsLiveMode } = useAppStore();
+    const t = translations[language];
+
+    const [mode, setMode] = useState<ComposeMode>('keyframes');
+    const [modelValue, setModelValue] = useState('');
+    const [frameIds, setFrameIds] = useState<string[]>([]);
+    const [clip, setClip] = useState<VideoClipParams | null>(null);
+    const [isComposing, setIsComposing] = useState(false);
+    const [stage, setStage] = useState<{ stage: ComposeStage, index: number } | null>(null);
+    const [progress, setProgress] = useState<TaskProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const modelGroups = useMemo<OptionGroup[]>(() => {
+        if (!isOpen) return [];
+        return getAvailableProviders()
+            .filter(p => hasCapability(p, 'video'))
+            .map(p => ({ label: p.name, options: p.models.video!.map(m => ({ value: `${p.id}:${m.value}`, label: m.label })) }));
+    }, [isOpen]);
+
+    // Start from the Live model in the settings, like the Live button does
+    useEffect(() => {
+        if (!isOpen) return;
+        const values = modelGroups.flatMap(g => g.options.map(o => o.value));
+        const live = getLiveModelConfig();
+        const initial = values.includes(`${live.provider}:${live.model}`) ? `${live.provider}:${live.model}` : (values[0] || '');
+        setModelValue(initial);
+        setClip(initial ? createDefaultClip(splitModelValue(initial).provider) : null);
+        // Image-to-video models can't interpolate, their frames are joined with cuts
+        const { provider, model } = splitModelValue(initial);
+        setMode(initial && getMaxKeyframes(provider, model) >= 2 ? 'keyframes' : 'sequence');
+        setFrameIds([]);
+        setError(null);
+    }, [isOpen, modelGroups]);
+
+    if (!isOpen) return null;
+
+    const { provider, model } = splitModelValue(modelValue);
+    const maxKeyframes = modelValue ? getMaxKeyframes(provider, model) : 1;
+    const frames = frameIds.map(id => history.find(img => img.id === id)).filter((img): img is GeneratedImage => !!img);
+    const segments = planSegments<GeneratedImage>(frames, mode === 'keyframes' ? Math.min(maxKeyframes, 2) : maxKeyframes);
+    const canInterpolate = maxKeyframes >= 2;
+    // Joined clips are re-encoded by the browser, which may not record MP4
+    const stitchesToWebm = segments.length > 1 && !!getStitchMimeType()?.startsWith('video/webm');
+    const canCompose = !isComposing && !!clip?.prompt.trim() && frames.length >= 2 && (mode === 'sequence' || canInterpolate);
+
+    const handleModelChange = (value: string) => {
+        setModelValue(value);
+        if (clip) {
+            const defaults = createDefaultClip(splitModelValue(value).provider);
+            setClip({ ...clip, prompt: defaults.prompt, duration: defaults.duration });
+        }
+    };
+
+    const handleModeChange = (next: ComposeMode) => {
+        setMode(next);
+        if (next === 'keyframes') setFrameIds(prev => prev.slice(0, 2));
+    };
+
+    // Keyframe mode holds a start and an end frame, a third pick replaces the end
+    const handleToggleFrame = (id: string) => {
+        if (isComposing) return;
+        setFrameIds(prev => {
+            if (prev.includes(id)) return prev.filter(f => f !== id);
+            if (mode === 'keyframes' && prev.length >= 2) return [prev[0], id];
+            return [...prev, id];
+        });
+    };
+
+    const handleClose = () => {
+        abortRef.current?.abort();
+        onClose();
+    };
+
+    const handleCompose = async () => {
+        if (!canCompose || !clip) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsComposing(true);
+        setError(null);
+
+        try {
+            const video = await composeVideo(
+                provider,
+                model,
+                segments,
+                clip,
+                controller.signal,
+                (nextStage, index) => setStage({ stage: nextStage, index }),
+                setProgress
+            );
+
+            // Lands in the history as a Live image, with the first keyframe as its still
+            const first = frames[0];
+            const id = generateUUID();
+            const { blob, ext } = await prepareResultBlob(first);
+            const fileName = `${id}.${ext}`;
+            const videoFileName = `live-${id}.${getVideoExtension(video)}`;
+            await saveTempFileToOPFS(blob, fileName);
+            await saveTempFileToOPFS(video, videoFileName);
+
+            const composed: GeneratedImage = {
+                id,
+                url: URL.createObjectURL(blob),
+                fileName,
+                prompt: clip.prompt,
+                aspectRatio: first.aspectRatio,
+                timestamp: Date.now(),
+                model: first.model,
+                width: first.width,
+                height: first.height,
+                provider: first.provider,
+                videoStatus: 'success',
+                videoUrl: URL.createObjectURL(video),
+                videoFileName,
+                videoProvider: provider,
+                videoParams: clip
+            };
+            setHistory(prev => [composed, ...prev]);
+            setCurrentImage(composed);
+            setIsLiveMode(true);
+            onClose();
+        } catch (e: any) {
+            if (e?.name !== 'AbortError') {
+                console.error("Video composition failed", e);
+                setError((t as any)[e.message] || e.message || t.liveError);
+            }
+        } finally {
+            abortRef.current = null;
+            setIsComposing(false);
+            setStage(null);
+            setProgress(null);
+        }
+    };
+
+    const stageLabel = stage?.stage === 'stitch'
+        ? t.composer_stitching
+        : t.composer_rendering.replace('{index}', ((stage?.index ?? 0) + 1).toString()).replace('{total}', segments.length.toString());
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center px-3 md:px-4">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={isComposing ? undefined : handleClose} />
+            <div className="relative w-full max-w-3xl bg-[#0D0B14]/95 backdrop-blur-xl border border-white/[0.08] rounded-2xl shadow-[0_0_50px_-12px_rgba(124,58,237,0.15)] ring-1 ring-white/[0.05] overflow-hidden flex flex-col max-h-[90vh] animate-in zoom-in-95 duration-300">
+                <div className="flex items-center justify-between px-4 py-2 md:px-5 border-b border-white/[0.06] bg-white/[0.02] flex-shrink-0">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-red-500/10 rounded-lg">
+                            <Clapperboard className="w-5 h-5 text-red-400" />
+                        </div>
+                        <h2 className="text-lg font-bold text-white tracking-wide">{t.composer_title}</h2>
+                    </div>
+                    <button onClick={handleClose} className="group p-2 rounded-lg text-white/40 hover:text-white hover:bg-white/[0.08] transition-all duration-200">
+                        <X className="w-5 h-5 transition-transform duration-500 ease-out group-hover:rotate-180" />
+                    </button>
+                </div>
+
+                <div className="flex-1 p-4 md:p-5 overflow-y-auto custom-scrollbar space-y-5">
+                    {modelGroups.length === 0 ? (
+                        <p className="text-sm text-white/50">{t.liveNotSupported}</p>
+                    ) : (
+                        <>
+                            <div className="flex flex-col md:flex-row gap-4">
+                                <div className="flex flex-1 items-center gap-2">
+                                    {(['keyframes', 'sequence'] as ComposeMode[]).map(m => (
+                                        <button
+                                            key={m}
+                                            onClick={() => handleModeChange(m)}
+                                            disabled={isComposing}
+                                            className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium border transition-colors disabled:cursor-not-allowed ${mode === m ? 'bg-purple-500/20 text-purple-300 border-purple-500/40' : 'bg-white/5 text-white/60 border-white/10 hover:bg-white/10'}`}
+                                        >
+                                            {m === 'keyframes' ? t.composer_mode_keyframes : t.composer_mode_sequence}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="flex-1">
+                                    <Select label={t.model_live} value={modelValue} onChange={handleModelChange} options={modelGroups} icon={<Film className="w-4 h-4" />} dense />
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between text-xs">
+                                    <span className="text-white/50">{mode === 'keyframes' ? t.composer_hint_keyframes : t.composer_hint_sequence}</span>
+                                    {frames.length >= 2 && (mode === 'sequence' || canInterpolate) && (
+                                        <span className="text-white/40 font-mono">{t.composer_segments.replace('{count}', segments.length.toString())}</span>
+                                    )}
+                                </div>
+                                {history.length < 2 ? (
+                                    <p className="text-sm text-white/40 py-4 text-center">{t.composer_empty}</p>
+                                ) : (
+                                    <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 max-h-56 overflow-y-auto custom-scrollbar p-1">
+                                        {history.map(img => {
+                                            const order = frameIds.indexOf(img.id);
+                                            return (
+                                                <button
+                                                    key={img.id}
+                                                    onClick={() => handleToggleFrame(img.id)}
+                                                    className={`relative aspect-square rounded-lg overflow-hidden transition-all ${order >= 0 ? 'ring-2 ring-purple-400' : 'ring-1 ring-white/10 hover:ring-white/40'}`}
+                                                >
+                                                    <img src={img.url} alt={img.prompt} className="w-full h-full object-cover" loading="lazy" />
+                                                    {order >= 0 && (
+                                                        <span className="absolute top-1 left-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-purple-600 text-white text-[10px] font-bold flex items-center justify-center">
+                                                            {mode === 'keyframes' ? (order === 0 ? t.composer_start : t.composer_end) : order + 1}
+                                                        </span>
+                                                    )}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                                {mode === 'keyframes' && !canInterpolate && (
+                                    <p className="text-amber-400/80 text-xs">{t.composer_no_keyframes}</p>
+                                )}
+                                {mode === 'sequence' && !canInterpolate && (
+                                    <p className="text-amber-400/80 text-xs">{t.composer_cuts}</p>
+                                )}
+                                {stitchesToWebm && (
+                                    <p className="text-amber-400/80 text-xs">{t.composer_webm}</p>
+                                )}
+                            </div>
+
+                            {clip && (
+                                <LiveClipFields
+                                    params={clip}
+                                    onChange={setClip}
+                                    supportsResolution={supportsVideoResolution(provider, model)}
+                                />
+                            )}
+                        </>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-between gap-3 px-4 py-3 md:px-5 border-t border-white/[0.06] flex-shrink-0">
+                    <div className="min-w-0 flex-1 text-xs">
+                        {error && <p className="text-red-400 truncate" title={error}>{error}</p>}
+                        {isComposing && (
+                            <div className="flex items-center gap-2 text-white/60">
+                                <Loader2 className="w-3.5 h-3.5 animate-spin text-purple-400 shrink-0" />
+                                <span className="truncate">{stageLabel}</span>
+                                <TaskProgressInfo progress={progress} compact className="text-white/40 truncate" />
+                            </div>
+                        )}
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                        {isComposing ? (
+                            <button onClick={() => abortRef.current?.abort()} className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-white/60 hover:text-white hover:bg-white/5 transition-colors">
+                                <Square className="w-3.5 h-3.5" />
+                                {t.cancel}
+                            </button>
+                        ) : (
+                            <button onClick={handleClose} className="px-4 py-2 rounded-lg text-sm text-white/60 hover:text-white hover:bg-white/5 transition-colors">{t.cancel}</button>
+                        )}
+                        <button onClick={handleCompose} disabled={!canCompose} className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white text-sm font-bold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                            <Clapperboard className="w-4 h-4" />
+                            {t.composer_generate}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
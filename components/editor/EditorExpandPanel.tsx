@@ -0,0 +1,117 @@
+
+import React, { useState } from 'react';
+import { Expand, Square, X } from 'lucide-react';
+import { useEditorStore } from '../../store/editorStore';
+import { useAppStore } from '../../store/appStore';
+import { translations } from '../../translations';
+import { ASPECT_RATIOS } from '../../constants';
+import { AspectRatioOption, OutpaintPadding } from '../../types';
+import { getPaddingForAspectRatio, getExpandedSize, hasPadding, MAX_PADDING, ZERO_PADDING } from '../../services/outpaint';
+
+interface EditorExpandPanelProps {
+    imageWidth: number;
+    imageHeight: number;
+    isGenerating: boolean;
+    error: string | null; // Of the last expansion, already translated
+    onExpand: (padding: OutpaintPadding) => void;
+}
+
+const SIDES: (keyof OutpaintPadding)[] = ['top', 'right', 'bottom', 'left'];
+
+export const EditorExpandPanel: React.FC<EditorExpandPanelProps> = ({ imageWidth, imageHeight, isGenerating, error, onExpand }) => {
+    const { outpaintPadding, setOutpaintPadding } = useEditorStore();
+    const { language } = useAppStore();
+    const t = translations[language];
+    const [mode, setMode] = useState<'ratio' | 'margins'>('ratio');
+    const [ratio, setRatio] = useState<AspectRatioOption | null>(null);
+
+    const padding = outpaintPadding || ZERO_PADDING;
+    const size = getExpandedSize(imageWidth, imageHeight, padding);
+
+    const selectRatio = (value: AspectRatioOption) => {
+        setRatio(value);
+        setOutpaintPadding(getPaddingForAspectRatio(imageWidth, imageHeight, value));
+    };
+
+    const setMargin = (side: keyof OutpaintPadding, value: string) => {
+        const px = Math.min(Math.max(Math.round(Number(value) || 0), 0), MAX_PADDING);
+        setRatio(null);
+        setOutpaintPadding({ ...padding, [side]: px });
+    };
+
+    const sideLabels: Record<keyof OutpaintPadding, string> = {
+        top: t.expand_top,
+        right: t.expand_right,
+        bottom: t.expand_bottom,
+        left: t.expand_left
+    };
+
+    return (
+        <div className="absolute top-20 left-4 w-64 p-3 space-y-3 bg-black/60 backdrop-blur-xl border border-white/10 rounded-2xl shadow-2xl z-30 animate-in fade-in slide-in-from-left-4 duration-200">
+            <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 text-xs font-medium text-white/80"><Expand className="w-4 h-4 text-purple-400" />{t.expand_title}</span>
+                <button onClick={() => setOutpaintPadding(null)} className="p-1 rounded-lg text-white/40 hover:text-white hover:bg-white/10 transition-colors">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="flex p-0.5 bg-white/5 rounded-lg">
+                {(['ratio', 'margins'] as const).map(m => (
+                    <button
+                        key={m}
+                        onClick={() => setMode(m)}
+                        className={`flex-1 px-2 py-1 rounded-md text-xs transition-colors ${mode === m ? 'bg-purple-600 text-white' : 'text-white/60 hover:text-white'}`}
+                    >
+                        {m === 'ratio' ? t.expand_by_ratio : t.expand_by_margins}
+                    </button>
+                ))}
+            </div>
+
+            {mode === 'ratio' ? (
+                <div className="grid grid-cols-3 gap-1.5">
+                    {ASPECT_RATIOS.map(value => (
+                        <button
+                            key={value}
+                            onClick={() => selectRatio(value)}
+                            className={`px-2 py-1.5 rounded-lg border font-mono text-xs transition-colors ${
+                                ratio === value ? 'border-purple-500 bg-purple-500/20 text-white' : 'border-white/10 text-white/60 hover:text-white hover:bg-white/5'
+                            }`}
+                        >
+                            {value}
+                        </button>
+                    ))}
+                </div>
+            ) : (
+                <div className="grid grid-cols-2 gap-2">
+                    {SIDES.map(side => (
+                        <label key={side} className="space-y-1">
+                            <span className="text-[10px] text-white/40">{sideLabels[side]}</span>
+                            <input
+                                type="number"
+                                min={0}
+                                max={MAX_PADDING}
+                                value={padding[side]}
+                                onChange={(e) => setMargin(side, e.target.value)}
+                                className="w-full px-2 py-1 bg-white/5 border border-white/10 rounded-lg font-mono text-xs text-white outline-none focus:border-purple-500"
+                            />
+                        </label>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex items-center justify-between text-xs">
+                <span className="text-white/40">{t.expand_new_size}</span>
+                <span className="font-mono text-white/80">{size.width} × {size.height}</span>
+            </div>
+
+            <button
+                onClick={() => onExpand(padding)}
+                disabled={!hasPadding(padding) && !isGenerating}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-xl bg-purple-600 hover:bg-purple-500 text-white text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+                {isGenerating ? <><Square className="w-3.5 h-3.5 fill-current" />{t.expand_stop}</> : <><Expand className="w-4 h-4" />{t.expand_generate}</>}
+            </button>
+            {error && <p className="text-xs text-red-400 text-center">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,126 @@
+
+import React from 'react';
+import { Eye, EyeOff, ChevronUp, ChevronDown, Trash2, Plus, Save, Check, Loader2, X } from 'lucide-react';
+import { Tooltip } from '../Tooltip';
+import { useEditorStore } from '../../store/editorStore';
+import { useAppStore } from '../../store/appStore';
+import { translations } from '../../translations';
+import { EditorLayer } from '../../types';
+
+interface EditorLayersPanelProps {
+    onAddLayer: () => void;
+    onSaveSession: () => void;
+    isSavingSession: boolean;
+    isSessionSaved: boolean;
+}
+
+export const EditorLayersPanel: React.FC<EditorLayersPanelProps> = ({ onAddLayer, onSaveSession, isSavingSession, isSessionSaved }) => {
+    const { layers, activeLayerId, setActiveLayer, execute, setShowLayersPanel } = useEditorStore();
+    const { language } = useAppStore();
+    const t = translations[language];
+
+    const update = (layer: EditorLayer, after: Partial<EditorLayer>) => {
+        const before = Object.fromEntries(Object.keys(after).map(k => [k, layer[k as keyof EditorLayer]])) as Partial<EditorLayer>;
+        execute({ type: 'updateLayer', layerId: layer.id, before, after });
+    };
+
+    // The base image always stays at the bottom
+    const move = (index: number, to: number) => {
+        if (to < 1 || to >= layers.length) return;
+        execute({ type: 'moveLayer', from: index, to });
+    };
+
+    return (
+        <div className="absolute top-20 right-4 w-64 max-h-[60vh] flex flex-col bg-black/60 backdrop-blur-xl border border-white/10 rounded-2xl shadow-2xl z-30 animate-in fade-in slide-in-from-right-4 duration-200">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+                <span className="text-xs font-medium text-white/80">{t.layers_title}</span>
+                <div className="flex items-center gap-0.5">
+                    <Tooltip content={t.layer_add} position="bottom">
+                        <button onClick={onAddLayer} className="p-1.5 rounded-lg text-white/60 hover:text-white hover:bg-white/10 transition-colors">
+                            <Plus className="w-4 h-4" />
+                        </button>
+                    </Tooltip>
+                    <Tooltip content={isSessionSaved ? t.session_saved : t.session_save} position="bottom">
+                        <button onClick={onSaveSession} disabled={isSavingSession} className="p-1.5 rounded-lg text-white/60 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30">
+                            {isSavingSession ? <Loader2 className="w-4 h-4 animate-spin" /> : isSessionSaved ? <Check className="w-4 h-4 text-green-400" /> : <Save className="w-4 h-4" />}
+                        </button>
+                    </Tooltip>
+                    <button onClick={() => setShowLayersPanel(false)} className="p-1.5 rounded-lg text-white/40 hover:text-white hover:bg-white/10 transition-colors">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-1.5 space-y-1">
+                {/* Top layer first, as in most editors */}
+                {layers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => {
+                    const isActive = layer.id === activeLayerId;
+                    const isBase = layer.kind === 'base';
+                    return (
+                        <div
+                            key={layer.id}
+                            onClick={() => layer.kind === 'annotation' && setActiveLayer(layer.id)}
+                            className={`rounded-xl px-2 py-1.5 transition-colors ${
+                                isActive ? 'bg-purple-600/30 border border-purple-500/40' : 'border border-transparent hover:bg-white/5'
+                            } ${layer.kind === 'annotation' ? 'cursor-pointer' : ''}`}
+                        >
+                            <div className="flex items-center gap-1">
+                                <Tooltip content={t.layer_toggle_visibility}>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); update(layer, { visible: !layer.visible }); }}
+                                        className={`p-1 rounded-md hover:bg-white/10 ${layer.visible ? 'text-white/70' : 'text-white/30'}`}
+                                    >
+                                        {layer.visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+                                    </button>
+                                </Tooltip>
+                                <span className={`flex-1 truncate text-xs ${layer.visible ? 'text-white/80' : 'text-white/40'}`}>{layer.name}</span>
+                                {!isBase && (
+                                    <>
+                                        <Tooltip content={t.layer_move_up}>
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); move(index, index + 1); }}
+                                                disabled={index === layers.length - 1}
+                                                className="p-1 rounded-md text-white/50 hover:text-white hover:bg-white/10 disabled:opacity-20"
+                                            >
+                                                <ChevronUp className="w-3.5 h-3.5" />
+                                            </button>
+                                        </Tooltip>
+                                        <Tooltip content={t.layer_move_down}>
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); move(index, index - 1); }}
+                                                disabled={index <= 1}
+                                                className="p-1 rounded-md text-white/50 hover:text-white hover:bg-white/10 disabled:opacity-20"
+                                            >
+                                                <ChevronDown className="w-3.5 h-3.5" />
+                                            </button>
+                                        </Tooltip>
+                                        <Tooltip content={t.layer_delete}>
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); execute({ type: 'removeLayer', layer, index }); }}
+                                                className="p-1 rounded-md text-white/40 hover:text-red-400 hover:bg-red-500/10"
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        </Tooltip>
+                                    </>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-2 pl-7 pr-1" onClick={e => e.stopPropagation()}>
+                                <input
+                                    type="range"
+                                    min={0}
+                                    max={100}
+                                    value={Math.round(layer.opacity * 100)}
+                                    onChange={(e) => update(layer, { opacity: Number(e.target.value) / 100 })}
+                                    aria-label={t.layer_opacity}
+                                    className="flex-1 h-1 accent-purple-500 cursor-pointer"
+                                />
+                                <span className="w-8 text-right font-mono text-[10px] text-white/40">{Math.round(layer.opacity * 100)}%</span>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -1,10 +1,11 @@
 
-import React from 'react';
-import { Hand, Brush, Eraser, Square, Undo2, LogOut } from 'lucide-react';
+import React, { useState } from 'react';
+import { Hand, Brush, Eraser, Square, Circle, ArrowUpRight, Lasso, Type, SquareDashed, Expand, SlidersHorizontal, Undo2, Layers, GitBranch, LogOut } from 'lucide-react';
 import { Tooltip } from '../Tooltip';
 import { useEditorStore } from '../../store/editorStore';
 import { useAppStore } from '../../store/appStore';
 import { translations } from '../../translations';
+import { ZERO_PADDING } from '../../services/outpaint';
 
 interface EditorToolbarProps {
     onUndo: () => void;
@@ -12,13 +13,22 @@ interface EditorToolbarProps {
 }
 
 export const EditorToolbar: React.FC<EditorToolbarProps> = ({ onUndo, canUndo }) => {
-    const { activeTool, setActiveTool, brushColor, setBrushColor, setShowExitDialog } = useEditorStore();
+    const { 
+        activeTool, setActiveTool, brushColor, setBrushColor, 
+        brushSize, setBrushSize, brushHardness, setBrushHardness,
+        inpaintMode, setInpaintMode, outpaintPadding, setOutpaintPadding, showLayersPanel, setShowLayersPanel, showVersionsPanel, setShowVersionsPanel, setShowExitDialog 
+    } = useEditorStore();
     const { language } = useAppStore();
     const t = translations[language];
+    const [showBrushSettings, setShowBrushSettings] = useState(false);
 
     const drawingTools = [
         { id: 'brush', icon: Brush, label: t.tool_brush },
         { id: 'rect', icon: Square, label: t.tool_rect },
+        { id: 'ellipse', icon: Circle, label: t.tool_ellipse },
+        { id: 'arrow', icon: ArrowUpRight, label: t.tool_arrow },
+        { id: 'lasso', icon: Lasso, label: t.tool_lasso },
+        { id: 'text', icon: Type, label: t.tool_text },
         { id: 'eraser', icon: Eraser, label: t.tool_eraser },
     ];
 
@@ -57,6 +67,79 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({ onUndo, canUndo })
                 );
             })}
             
+            <div className="relative">
+                <Tooltip content={t.tool_brush_settings} position="bottom">
+                    <button
+                        onClick={() => setShowBrushSettings(!showBrushSettings)}
+                        className={`p-2 rounded-xl transition-all ${
+                            showBrushSettings
+                            ? 'bg-white/15 text-white'
+                            : 'text-white/60 hover:text-white hover:bg-white/10'
+                        }`}
+                    >
+                        <SlidersHorizontal className="w-5 h-5" />
+                    </button>
+                </Tooltip>
+                {showBrushSettings && (
+                    <div className="absolute top-full mt-3 left-1/2 -translate-x-1/2 w-56 p-3 space-y-3 bg-black/80 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl animate-in fade-in zoom-in-95 duration-150">
+                        <div className="space-y-1.5">
+                            <div className="flex items-center justify-between text-xs">
+                                <span className="text-white/60">{t.tool_size}</span>
+                                <span className="font-mono text-white/80">{brushSize}px</span>
+                            </div>
+                            <input
+                                type="range"
+                                min={1}
+                                max={100}
+                                value={brushSize}
+                                onChange={(e) => setBrushSize(Number(e.target.value))}
+                                className="w-full h-1 accent-purple-500 cursor-pointer"
+                            />
+                        </div>
+                        <div className="space-y-1.5">
+                            <div className="flex items-center justify-between text-xs">
+                                <span className="text-white/60">{t.tool_hardness}</span>
+                                <span className="font-mono text-white/80">{Math.round(brushHardness * 100)}%</span>
+                            </div>
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                value={Math.round(brushHardness * 100)}
+                                onChange={(e) => setBrushHardness(Number(e.target.value) / 100)}
+                                className="w-full h-1 accent-purple-500 cursor-pointer"
+                            />
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <Tooltip content={inpaintMode ? t.tool_inpaint_on : t.tool_inpaint_off} position="bottom">
+                <button
+                    onClick={() => setInpaintMode(!inpaintMode)}
+                    className={`p-2 rounded-xl transition-all ${
+                        inpaintMode
+                        ? 'bg-pink-600/80 text-white shadow-lg'
+                        : 'text-white/60 hover:text-white hover:bg-white/10'
+                    }`}
+                >
+                    <SquareDashed className="w-5 h-5" />
+                </button>
+            </Tooltip>
+
+            <Tooltip content={t.tool_expand} position="bottom">
+                <button
+                    onClick={() => setOutpaintPadding(outpaintPadding ? null : ZERO_PADDING)}
+                    className={`p-2 rounded-xl transition-all ${
+                        outpaintPadding
+                        ? 'bg-purple-600 text-white shadow-lg'
+                        : 'text-white/60 hover:text-white hover:bg-white/10'
+                    }`}
+                >
+                    <Expand className="w-5 h-5" />
+                </button>
+            </Tooltip>
+
             <div className="w-px h-5 bg-white/10 mx-1" />
             
             <Tooltip content={t.tool_undo} position="bottom">
@@ -87,6 +170,32 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({ onUndo, canUndo })
                 </label>
             </Tooltip>
 
+            <Tooltip content={t.tool_layers} position="bottom">
+                <button
+                    onClick={() => setShowLayersPanel(!showLayersPanel)}
+                    className={`p-2 rounded-xl transition-all ${
+                        showLayersPanel
+                        ? 'bg-purple-600 text-white shadow-lg'
+                        : 'text-white/60 hover:text-white hover:bg-white/10'
+                    }`}
+                >
+                    <Layers className="w-5 h-5" />
+                </button>
+            </Tooltip>
+
+            <Tooltip content={t.tool_versions} position="bottom">
+                <button
+                    onClick={() => setShowVersionsPanel(!showVersionsPanel)}
+                    className={`p-2 rounded-xl transition-all ${
+                        showVersionsPanel
+                        ? 'bg-purple-600 text-white shadow-lg'
+                        : 'text-white/60 hover:text-white hover:bg-white/10'
+                    }`}
+                >
+                    <GitBranch className="w-5 h-5" />
+                </button>
+            </Tooltip>
+
             <div className="w-px h-5 bg-white/10 mx-1" />
             
             <Tooltip content={t.tool_exit} position="bottom">
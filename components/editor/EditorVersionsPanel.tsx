@@ -0,0 +1,132 @@
+
+import React, { useState } from 'react';
+import { GitBranch, Columns2, History, CloudUpload, Loader2, X } from 'lucide-react';
+import { Tooltip } from '../Tooltip';
+import { useEditorStore } from '../../store/editorStore';
+import { useAppStore } from '../../store/appStore';
+import { translations } from '../../translations';
+import { EditVersion } from '../../types';
+import { getTreeRows, getVersionChain } from '../../services/versionTree';
+
+interface EditorVersionsPanelProps {
+    onBranch: (version: EditVersion) => void;
+    onCompare: (before: EditVersion, after: EditVersion) => void;
+    onExportHistory: (ids: string[]) => void;
+    onExportCloud?: (ids: string[]) => void; // Only when cloud storage is configured
+    isExporting: boolean;
+    exportError: string | null; // Of the last export, already translated
+}
+
+export const EditorVersionsPanel: React.FC<EditorVersionsPanelProps> = ({ onBranch, onCompare, onExportHistory, onExportCloud, isExporting, exportError }) => {
+    const { versions, currentVersionId, setShowVersionsPanel } = useEditorStore();
+    const { language } = useAppStore();
+    const t = translations[language];
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+
+    const selected = versions.find(v => v.id === (selectedId || currentVersionId));
+    const chainIds = selected ? getVersionChain(versions, selected.id).map(v => v.id) : [];
+
+    const getLabel = (version: EditVersion) => {
+        if (version.kind === 'source') return t.version_source;
+        return t.version_n.replace('{n}', versions.indexOf(version).toString());
+    };
+
+    // Keeps the two most recently ticked versions, in creation order for the comparison
+    const toggleCompare = (id: string) => {
+        setCompareIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id].slice(-2));
+    };
+
+    const startCompare = () => {
+        const [a, b] = versions.filter(v => compareIds.includes(v.id));
+        if (a && b) onCompare(a, b);
+    };
+
+    return (
+        <div className="absolute top-20 right-4 w-72 max-h-[65vh] flex flex-col bg-black/60 backdrop-blur-xl border border-white/10 rounded-2xl shadow-2xl z-30 animate-in fade-in slide-in-from-right-4 duration-200">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+                <span className="flex items-center gap-2 text-xs font-medium text-white/80"><GitBranch className="w-4 h-4 text-purple-400" />{t.versions_title}</span>
+                <div className="flex items-center gap-0.5">
+                    <Tooltip content={t.version_compare} position="bottom">
+                        <button onClick={startCompare} disabled={compareIds.length !== 2} className="p-1.5 rounded-lg text-white/60 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30">
+                            <Columns2 className="w-4 h-4" />
+                        </button>
+                    </Tooltip>
+                    <button onClick={() => setShowVersionsPanel(false)} className="p-1.5 rounded-lg text-white/40 hover:text-white hover:bg-white/10 transition-colors">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-1.5 space-y-1">
+                {getTreeRows(versions).map(({ version, depth }) => {
+                    const isSelected = version.id === selected?.id;
+                    const isCurrent = version.id === currentVersionId;
+                    return (
+                        <div
+                            key={version.id}
+                            onClick={() => setSelectedId(version.id)}
+                            className={`flex items-center gap-2 rounded-xl p-1.5 cursor-pointer transition-colors ${
+                                isSelected ? 'bg-purple-600/30 border border-purple-500/40' : 'border border-transparent hover:bg-white/5'
+                            }`}
+                            style={{ marginLeft: Math.min(depth, 6) * 10 }}
+                        >
+                            <input
+                                type="checkbox"
+                                checked={compareIds.includes(version.id)}
+                                onChange={() => toggleCompare(version.id)}
+                                onClick={e => e.stopPropagation()}
+                                aria-label={t.version_compare}
+                                className="accent-purple-500 cursor-pointer"
+                            />
+                            <img src={version.url} alt={getLabel(version)} className="w-9 h-9 rounded-lg object-cover border border-white/10 flex-shrink-0" />
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-1.5">
+                                    <span className="text-xs font-medium text-white/80">{getLabel(version)}</span>
+                                    {isCurrent && <span className="px-1 rounded bg-purple-500/30 text-[9px] uppercase tracking-wide text-purple-200">{t.version_current}</span>}
+                                </div>
+                                <p className="text-[10px] text-white/40 truncate">{version.prompt || new Date(version.timestamp).toLocaleTimeString()}</p>
+                            </div>
+                            {!isCurrent && (
+                                <Tooltip content={t.version_branch} position="left">
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onBranch(version); }}
+                                        className="p-1 rounded-md text-white/50 hover:text-white hover:bg-white/10"
+                                    >
+                                        <GitBranch className="w-3.5 h-3.5" />
+                                    </button>
+                                </Tooltip>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {selected && selected.kind !== 'source' && (
+                <div className="p-2 border-t border-white/10 space-y-1.5">
+                    <p className="text-[10px] text-white/40">{t.version_export.replace('{name}', getLabel(selected))}</p>
+                    <div className="grid grid-cols-2 gap-1.5">
+                        <button onClick={() => onExportHistory([selected.id])} disabled={isExporting} className="flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-xs text-white/70 hover:text-white transition-colors disabled:opacity-40">
+                            <History className="w-3.5 h-3.5" />{t.version_history_node}
+                        </button>
+                        <button onClick={() => onExportHistory(chainIds)} disabled={isExporting} className="flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-xs text-white/70 hover:text-white transition-colors disabled:opacity-40">
+                            <History className="w-3.5 h-3.5" />{t.version_history_chain}
+                        </button>
+                        {onExportCloud && (
+                            <>
+                                <button onClick={() => onExportCloud([selected.id])} disabled={isExporting} className="flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-xs text-white/70 hover:text-white transition-colors disabled:opacity-40">
+                                    <CloudUpload className="w-3.5 h-3.5" />{t.version_cloud_node}
+                                </button>
+                                <button onClick={() => onExportCloud(chainIds)} disabled={isExporting} className="flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-xs text-white/70 hover:text-white transition-colors disabled:opacity-40">
+                                    <CloudUpload className="w-3.5 h-3.5" />{t.version_cloud_chain}
+                                </button>
+                            </>
+                        )}
+                    </div>
+                    {isExporting && <Loader2 className="w-4 h-4 mx-auto animate-spin text-white/40" />}
+                    {!isExporting && exportError && <p className="text-[10px] text-red-400 text-center">{exportError}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
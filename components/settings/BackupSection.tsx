@@ -0,0 +1,186 @@
+
+import React, { useState, useRef } from 'react';
+import { DatabaseBackup, Download, Upload, Loader2, Check, AlertCircle, Eye, EyeOff } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { translations } from '../../translations';
+import { BackupImportMode, BackupManifest } from '../../types';
+import { exportBackup, importBackup, readBackupManifest } from '../../services/backupService';
+
+export const BackupSection: React.FC = () => {
+    const { language } = useAppStore();
+    const t = translations[language];
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [includeMedia, setIncludeMedia] = useState(true);
+    const [exportPassphrase, setExportPassphrase] = useState('');
+    const [showPassphrase, setShowPassphrase] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+
+    const [pendingFile, setPendingFile] = useState<File | null>(null);
+    const [pendingManifest, setPendingManifest] = useState<BackupManifest | null>(null);
+    const [importPassphrase, setImportPassphrase] = useState('');
+    const [importMode, setImportMode] = useState<BackupImportMode>('merge');
+    const [isImporting, setIsImporting] = useState(false);
+    const [importDone, setImportDone] = useState(false);
+
+    const [message, setMessage] = useState<{ success: boolean; message: string } | null>(null);
+
+    const getErrorMessage = (e: any) => (t as any)[e.message] || e.message || t.backup_failed;
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setMessage(null);
+        try {
+            const blob = await exportBackup({ includeMedia, passphrase: exportPassphrase || undefined });
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `peinture-backup-${new Date().toISOString().split('T')[0]}.zip`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+            setMessage({ success: true, message: exportPassphrase ? t.backup_exported : t.backup_exported_no_tokens });
+        } catch (e: any) {
+            console.error("Backup export failed", e);
+            setMessage({ success: false, message: getErrorMessage(e) });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setMessage(null);
+        setImportDone(false);
+        try {
+            setPendingManifest(await readBackupManifest(file));
+            setPendingFile(file);
+            setImportPassphrase('');
+        } catch (err: any) {
+            setPendingFile(null);
+            setPendingManifest(null);
+            setMessage({ success: false, message: getErrorMessage(err) });
+        }
+    };
+
+    const handleImport = async () => {
+        if (!pendingFile) return;
+        setIsImporting(true);
+        setMessage(null);
+        try {
+            const summary = await importBackup(pendingFile, { mode: importMode, passphrase: importPassphrase || undefined });
+            setMessage({
+                success: true,
+                message: t.backup_imported
+                    .replace('{history}', summary.historyAdded.toString())
+                    .replace('{providers}', summary.providersAdded.toString())
+                    .replace('{styles}', summary.stylesAdded.toString())
+                    .replace('{files}', summary.filesRestored.toString())
+                    + (summary.historyPinned > 0 ? ` ${t.backup_history_pinned.replace('{count}', summary.historyPinned.toString())}` : '')
+                    + (summary.secretsRestored ? '' : ` ${t.backup_tokens_skipped}`)
+            });
+            setPendingFile(null);
+            setPendingManifest(null);
+            setImportDone(true);
+        } catch (err: any) {
+            console.error("Backup import failed", err);
+            setMessage({ success: false, message: getErrorMessage(err) });
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const inputClass = "w-full px-3 py-2 bg-white/[0.03] border border-white/10 rounded-lg text-white text-sm focus:outline-0 focus:border-cyan-500/50 transition-all placeholder:text-white/20";
+
+    return (
+        <div>
+            <label className="flex items-center gap-2 text-xs font-medium text-white/80 mb-2">
+                <DatabaseBackup className="w-3.5 h-3.5 text-cyan-400" />
+                {t.backup_title}
+            </label>
+            <p className="text-xs text-white/40 mb-3">{t.backup_desc}</p>
+
+            <div className="space-y-2">
+                <label className="flex items-center gap-2 text-xs text-white/60 cursor-pointer select-none">
+                    <input type="checkbox" checked={includeMedia} onChange={(e) => setIncludeMedia(e.target.checked)} className="accent-cyan-500" />
+                    {t.backup_include_media}
+                </label>
+                <div className="relative">
+                    <input
+                        type={showPassphrase ? "text" : "password"}
+                        value={exportPassphrase}
+                        onChange={(e) => setExportPassphrase(e.target.value)}
+                        placeholder={t.backup_passphrase_placeholder}
+                        className={`${inputClass} pr-8`}
+                        autoComplete="new-password"
+                    />
+                    <button type="button" onClick={() => setShowPassphrase(!showPassphrase)} className="absolute right-2 top-1/2 -translate-y-1/2 text-white/30 hover:text-white">{showPassphrase ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}</button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <button onClick={handleExport} disabled={isExporting} className="flex items-center justify-center gap-1.5 py-2.5 bg-white/[0.03] hover:bg-white/[0.06] text-white/70 hover:text-white border border-white/10 rounded-xl text-xs font-medium transition-colors disabled:opacity-50">
+                        {isExporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+                        {t.backup_export}
+                    </button>
+                    <button onClick={() => fileInputRef.current?.click()} disabled={isImporting} className="flex items-center justify-center gap-1.5 py-2.5 bg-white/[0.03] hover:bg-white/[0.06] text-white/70 hover:text-white border border-white/10 rounded-xl text-xs font-medium transition-colors disabled:opacity-50">
+                        <Upload className="w-3.5 h-3.5" />
+                        {t.backup_import}
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="application/zip,.zip" onChange={handleFileSelected} className="hidden" />
+                </div>
+            </div>
+
+            {pendingFile && pendingManifest && (
+                <div className="mt-3 p-3 bg-white/[0.02] border border-white/10 rounded-xl space-y-3 animate-in fade-in slide-in-from-top-2 duration-200">
+                    <p className="text-xs text-white/60 truncate">
+                        {pendingFile.name} · {new Date(pendingManifest.createdAt).toLocaleString()}
+                        {pendingManifest.media && ` · ${t.backup_has_media}`}
+                    </p>
+                    <div className="grid grid-cols-2 gap-2">
+                        {(['merge', 'overwrite'] as BackupImportMode[]).map(mode => (
+                            <button
+                                key={mode}
+                                onClick={() => setImportMode(mode)}
+                                className={`px-2 py-2 rounded-lg text-xs font-medium transition-all border ${importMode === mode ? 'bg-cyan-600/90 border-cyan-500/50 text-white' : 'bg-white/[0.03] border-white/10 text-white/60 hover:text-white hover:border-white/20'}`}
+                            >
+                                {mode === 'merge' ? t.backup_mode_merge : t.backup_mode_overwrite}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-white/40">{importMode === 'merge' ? t.backup_mode_merge_desc : t.backup_mode_overwrite_desc}</p>
+                    {pendingManifest.secrets === 'encrypted' && (
+                        <input
+                            type="password"
+                            value={importPassphrase}
+                            onChange={(e) => setImportPassphrase(e.target.value)}
+                            placeholder={t.backup_passphrase_import_placeholder}
+                            className={inputClass}
+                            autoComplete="off"
+                        />
+                    )}
+                    <div className="flex gap-2">
+                        <button onClick={() => { setPendingFile(null); setPendingManifest(null); }} className="flex-1 py-2 bg-white/5 hover:bg-white/10 text-white/60 hover:text-white rounded-lg text-xs font-medium transition-colors">{t.cancel}</button>
+                        <button onClick={handleImport} disabled={isImporting} className="flex-1 flex items-center justify-center gap-1.5 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg text-xs font-bold transition-colors disabled:opacity-50">
+                            {isImporting && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                            {t.confirm}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {message && (
+                <div className={`mt-3 flex items-start gap-2 text-xs ${message.success ? 'text-green-400' : 'text-red-400'}`}>
+                    {message.success ? <Check className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" /> : <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />}
+                    <span className="leading-relaxed">{message.message}</span>
+                </div>
+            )}
+            {importDone && (
+                <button onClick={() => window.location.reload()} className="mt-2 w-full py-2 bg-cyan-600/20 hover:bg-cyan-600/30 text-cyan-300 border border-cyan-500/30 rounded-lg text-xs font-medium transition-colors">
+                    {t.backup_reload}
+                </button>
+            )}
+        </div>
+    );
+};
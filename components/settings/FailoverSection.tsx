@@ -0,0 +1,77 @@
+
+import React from 'react';
+import { ChevronUp, ChevronDown } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { translations } from '../../translations';
+import { FailoverSettings, ProviderId } from '../../types';
+import { getFailoverCandidates, getFailoverChain, getFailoverModels, getModelLabel, getProviderLabel } from '../../services/providerRegistry';
+
+interface FailoverSectionProps {
+    failover: FailoverSettings;
+    setFailover: (failover: FailoverSettings) => void;
+    configured: Record<ProviderId, boolean>; // Whether the form currently has tokens for the provider
+}
+
+export const FailoverSection: React.FC<FailoverSectionProps> = ({ failover, setFailover, configured }) => {
+    const { language } = useAppStore();
+    const t = translations[language];
+
+    const setChain = (model: string, chain: ProviderId[]) => {
+        setFailover({ ...failover, chains: { ...failover.chains, [model]: chain } });
+    };
+
+    const move = (model: string, chain: ProviderId[], index: number, offset: number) => {
+        const next = [...chain];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        setChain(model, next);
+    };
+
+    const toggle = (model: string, chain: ProviderId[], id: ProviderId) => {
+        setChain(model, chain.includes(id) ? chain.filter(p => p !== id) : [...chain, id]);
+    };
+
+    return (
+        <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm text-white/80 cursor-pointer select-none">
+                <input type="checkbox" checked={failover.enabled} onChange={(e) => setFailover({ ...failover, enabled: e.target.checked })} className="accent-purple-500" />
+                {t.failover_enable}
+            </label>
+            <p className="text-xs text-white/40 leading-relaxed">{t.failover_help}</p>
+
+            <div className={`space-y-3 ${failover.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+                {getFailoverModels().map(model => {
+                    const chain = getFailoverChain(model, failover);
+                    const excluded = getFailoverCandidates(model).filter(id => !chain.includes(id));
+                    return (
+                        <div key={model} className="p-3 bg-white/[0.03] border border-white/5 rounded-xl space-y-1.5">
+                            <div className="text-xs font-medium text-white/70">{getModelLabel(model)}</div>
+                            {[...chain, ...excluded].map((id, index) => {
+                                const included = index < chain.length;
+                                return (
+                                    <div key={id} className="flex items-center gap-2 text-xs">
+                                        <input type="checkbox" checked={included} onChange={() => toggle(model, chain, id)} className="accent-purple-500" />
+                                        <span className={`w-4 font-mono ${included ? 'text-white/40' : 'text-transparent'}`}>{index + 1}</span>
+                                        <span className={`flex-1 ${included ? 'text-white/80' : 'text-white/30'}`}>
+                                            {getProviderLabel(id)}
+                                            {!configured[id] && <span className="ml-2 text-[10px] text-amber-400/70">{t.failover_no_token}</span>}
+                                        </span>
+                                        {included && (
+                                            <>
+                                                <button onClick={() => move(model, chain, index, -1)} disabled={index === 0} title={t.failover_move_up} className="p-1 rounded-md text-white/40 hover:text-white hover:bg-white/10 disabled:opacity-20 disabled:hover:bg-transparent">
+                                                    <ChevronUp className="w-3.5 h-3.5" />
+                                                </button>
+                                                <button onClick={() => move(model, chain, index, 1)} disabled={index === chain.length - 1} title={t.failover_move_down} className="p-1 rounded-md text-white/40 hover:text-white hover:bg-white/10 disabled:opacity-20 disabled:hover:bg-transparent">
+                                                    <ChevronDown className="w-3.5 h-3.5" />
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
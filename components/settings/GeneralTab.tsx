@@ -1,15 +1,24 @@
 
-import React, { useState } from 'react';
-import { Languages, Router, HardDrive, Trash2, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Languages, Router, HardDrive, Trash2, AlertCircle, Archive, AlertTriangle, Pin } from 'lucide-react';
 import { useAppStore } from '../../store/appStore';
 import { translations } from '../../translations';
-import { ServiceMode, StorageType } from '../../types';
+import { ServiceMode, StorageType, RetentionPolicy } from '../../types';
+import { listTempFiles } from '../../services/storageService';
+import { findExpiringSoon, getImageBytes } from '../../services/retentionService';
+import { BackupSection } from './BackupSection';
+
+const MB = 1024 * 1024;
+
+const formatMB = (bytes: number) => `${(bytes / MB).toFixed(1)} MB`;
 
 interface GeneralTabProps {
     serviceMode: ServiceMode;
     setServiceMode: (mode: ServiceMode) => void;
     storageType: StorageType;
     setStorageType: (type: StorageType) => void;
+    retentionPolicy: RetentionPolicy;
+    setRetentionPolicy: (policy: RetentionPolicy) => void;
     onClearData: () => void;
     setActiveTab: (tab: any) => void;
 }
@@ -17,11 +26,46 @@ interface GeneralTabProps {
 export const GeneralTab: React.FC<GeneralTabProps> = ({ 
     serviceMode, setServiceMode, 
     storageType, setStorageType, 
+    retentionPolicy, setRetentionPolicy,
     onClearData, setActiveTab 
 }) => {
-    const { language, setLanguage } = useAppStore();
+    const { language, setLanguage, history, setHistory, setCurrentImage } = useAppStore();
     const t = translations[language];
     const [showClearConfirm, setShowClearConfirm] = useState(false);
+    const [fileSizes, setFileSizes] = useState<Map<string, number>>(new Map());
+
+    useEffect(() => {
+        listTempFiles()
+            .then(files => setFileSizes(new Map(files.map(f => [f.name, f.size] as [string, number]))))
+            .catch(e => console.warn("Failed to read local storage usage", e));
+    }, []);
+
+    // Evaluated against the draft policy so the user sees the effect before saving
+    const expiringSoon = useMemo(
+        () => findExpiringSoon(history, retentionPolicy, fileSizes),
+        [history, retentionPolicy, fileSizes]
+    );
+    const usedBytes = useMemo(
+        () => history.reduce((sum, img) => sum + getImageBytes(img, fileSizes), 0),
+        [history, fileSizes]
+    );
+
+    const retentionFields: { key: keyof RetentionPolicy; label: string; unit: string; scale: number }[] = [
+        { key: 'maxAgeDays', label: t.retention_max_age, unit: t.retention_unit_days, scale: 1 },
+        { key: 'maxCount', label: t.retention_max_count, unit: t.retention_unit_items, scale: 1 },
+        { key: 'maxBytes', label: t.retention_max_size, unit: 'MB', scale: MB }
+    ];
+
+    const handleLimitChange = (key: keyof RetentionPolicy, raw: string, scale: number) => {
+        const value = parseInt(raw, 10);
+        setRetentionPolicy({ ...retentionPolicy, [key]: isNaN(value) || value <= 0 ? null : value * scale });
+    };
+
+    // Pinning applies right away, it is a property of the image rather than a setting
+    const handlePin = (id: string) => {
+        setHistory(prev => prev.map(img => img.id === id ? { ...img, pinned: true } : img));
+        setCurrentImage(prev => prev?.id === id ? { ...prev, pinned: true } : prev);
+    };
 
     return (
         <div className="space-y-6">
@@ -94,6 +138,63 @@ export const GeneralTab: React.FC<GeneralTabProps> = ({
                 </div>
             </div>
 
+            <div>
+                <label className="flex items-center gap-2 text-xs font-medium text-white/80 mb-2">
+                    <Archive className="w-3.5 h-3.5 text-amber-400" />
+                    {t.retention_title}
+                </label>
+                <p className="text-xs text-white/40 mb-3">{t.retention_desc}</p>
+                <div className="grid grid-cols-3 gap-2">
+                    {retentionFields.map(field => {
+                        const value = retentionPolicy[field.key];
+                        return (
+                            <div key={field.key} className="space-y-1">
+                                <label className="text-[10px] font-medium text-white/60 block truncate">{field.label}</label>
+                                <div className="relative">
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={value === null ? '' : Math.round(value / field.scale)}
+                                        onChange={(e) => handleLimitChange(field.key, e.target.value, field.scale)}
+                                        placeholder={t.retention_no_limit}
+                                        className="w-full pl-3 pr-10 py-2 bg-white/[0.03] border border-white/10 rounded-lg text-white text-sm focus:outline-0 focus:border-amber-500/50 transition-all placeholder:text-white/20 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                                    />
+                                    <span className="absolute right-2.5 top-1/2 -translate-y-1/2 text-[10px] text-white/30 pointer-events-none">{field.unit}</span>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+                <p className="text-[10px] text-white/40 mt-2">
+                    {t.retention_usage.replace('{n}', history.length.toString()).replace('{size}', formatMB(usedBytes))}
+                </p>
+                {expiringSoon.length > 0 && (
+                    <div className="mt-3 p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl">
+                        <div className="flex items-start gap-2 mb-2">
+                            <AlertTriangle className="w-4 h-4 text-amber-400 flex-shrink-0 mt-0.5" />
+                            <span className="text-xs text-amber-200 leading-relaxed">{t.retention_expiring.replace('{n}', expiringSoon.length.toString())}</span>
+                        </div>
+                        <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+                            {expiringSoon.map(img => (
+                                <div key={img.id} className="flex items-center gap-2 p-1 rounded-lg hover:bg-white/5">
+                                    <img src={img.url} alt="" className={`w-8 h-8 rounded object-cover flex-shrink-0 ${img.isBlurred ? 'blur-sm' : ''}`} />
+                                    <span className="flex-1 min-w-0 text-[11px] text-white/60 truncate">{img.prompt}</span>
+                                    <button
+                                        onClick={() => handlePin(img.id)}
+                                        title={t.pin_keep}
+                                        className="p-1.5 rounded-md text-white/50 hover:text-amber-300 hover:bg-white/10 transition-colors"
+                                    >
+                                        <Pin className="w-3.5 h-3.5" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <BackupSection />
+
             <div className="pt-2 border-t border-white/5">
                 <label className="flex items-center gap-2 text-xs font-medium text-red-400 mb-2">
                     <Trash2 className="w-3.5 h-3.5" />
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { ArrowRightLeft, ArrowRight, Play, Pause, Loader2, Check, AlertCircle } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { useMigrationStore } from '../../store/migrationStore';
+import { translations } from '../../translations';
+import { StorageType } from '../../types';
+import { startMigration, pauseMigration, resumeMigration, resetMigration } from '../../services/migrationService';
+
+interface MigrateSectionProps {
+    defaultTarget: StorageType;
+    accent: string; // Text color class of the tab
+}
+
+const BACKENDS: StorageType[] = ['opfs', 's3', 'webdav'];
+
+export const MigrateSection: React.FC<MigrateSectionProps> = ({ defaultTarget, accent }) => {
+    const { language } = useAppStore();
+    const t = translations[language];
+    const migration = useMigrationStore();
+
+    const [source, setSource] = useState<StorageType>(defaultTarget === 'opfs' ? 's3' : 'opfs');
+    const [target, setTarget] = useState<StorageType>(defaultTarget);
+    const [deleteSource, setDeleteSource] = useState(false);
+    const [startError, setStartError] = useState<string | null>(null);
+    const [isStarting, setIsStarting] = useState(false);
+
+    const labels: Record<string, string> = { opfs: t.storage_opfs, s3: t.storage_s3, webdav: t.storage_webdav };
+    const isActive = migration.status === 'running' || migration.status === 'paused';
+    const percent = migration.total > 0 ? Math.round((migration.done / migration.total) * 100) : 0;
+
+    const handleStart = async () => {
+        setStartError(null);
+        setIsStarting(true);
+        try {
+            await startMigration({ source, target, deleteSource });
+        } catch (e: any) {
+            setStartError((t as any)[e.message] || e.message || t.migrate_failed);
+        } finally {
+            setIsStarting(false);
+        }
+    };
+
+    const selectClass = "flex-1 min-w-0 px-2 py-2 bg-white/[0.03] border border-white/10 rounded-lg text-white text-xs focus:outline-0 [color-scheme:dark] disabled:opacity-50";
+
+    return (
+        <div className="pt-4 border-t border-white/[0.06] space-y-2">
+            <label className="flex items-center gap-2 text-xs font-medium text-white/80">
+                <ArrowRightLeft className={`w-3.5 h-3.5 ${accent}`} />
+                {t.migrate_title}
+            </label>
+            <p className="text-xs text-white/40">{t.migrate_desc}</p>
+
+            <div className="flex items-center gap-2">
+                <select value={source} onChange={(e) => setSource(e.target.value as StorageType)} disabled={isActive} className={selectClass}>
+                    {BACKENDS.map(b => <option key={b} value={b}>{labels[b]}</option>)}
+                </select>
+                <ArrowRight className="w-3.5 h-3.5 text-white/30 flex-shrink-0" />
+                <select value={target} onChange={(e) => setTarget(e.target.value as StorageType)} disabled={isActive} className={selectClass}>
+                    {BACKENDS.map(b => <option key={b} value={b}>{labels[b]}</option>)}
+                </select>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-white/60 cursor-pointer select-none">
+                <input type="checkbox" checked={deleteSource} onChange={(e) => setDeleteSource(e.target.checked)} disabled={isActive} className="accent-red-500" />
+                {t.migrate_delete_source}
+            </label>
+
+            {migration.status !== 'idle' && (
+                <div className="p-3 bg-white/[0.02] border border-white/10 rounded-xl space-y-2">
+                    <div className="flex items-center justify-between text-[11px] text-white/60">
+                        <span className="truncate">
+                            {migration.options && `${labels[migration.options.source]} → ${labels[migration.options.target]}`}
+                        </span>
+                        <span className="flex-shrink-0 font-mono">{migration.done}/{migration.total}</span>
+                    </div>
+                    <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+                        <div className="h-full bg-purple-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+                    </div>
+                    {migration.current && <p className="text-[10px] text-white/40 truncate font-mono">{migration.current}</p>}
+                    {migration.status === 'done' && (
+                        <p className={`flex items-start gap-1.5 text-xs ${migration.failed.length > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+                            {migration.failed.length > 0 ? <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" /> : <Check className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />}
+                            {t.migrate_done
+                                .replace('{copied}', (migration.done - migration.skipped - migration.failed.length).toString())
+                                .replace('{skipped}', migration.skipped.toString())
+                                .replace('{failed}', migration.failed.length.toString())}
+                        </p>
+                    )}
+                    {migration.status === 'error' && (
+                        <p className="flex items-start gap-1.5 text-xs text-red-400">
+                            <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                            {(migration.error && (t as any)[migration.error]) || t.migrate_failed}
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {startError && (
+                <p className="flex items-start gap-1.5 text-xs text-red-400">
+                    <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                    {startError}
+                </p>
+            )}
+
+            <div className="flex justify-end gap-2">
+                {migration.status === 'running' && (
+                    <button onClick={pauseMigration} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/5 text-white/70 hover:text-white hover:bg-white/10 border border-white/10 transition-all text-xs font-medium">
+                        <Pause className="w-3.5 h-3.5" />{t.migrate_pause}
+                    </button>
+                )}
+                {migration.status === 'paused' && (
+                    <>
+                        <button onClick={resetMigration} className="px-4 py-2 rounded-lg bg-white/5 text-white/60 hover:text-white hover:bg-white/10 transition-all text-xs font-medium">{t.cancel}</button>
+                        <button onClick={resumeMigration} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600/20 text-purple-300 hover:bg-purple-600/30 border border-purple-500/30 transition-all text-xs font-medium">
+                            <Play className="w-3.5 h-3.5" />{t.migrate_resume}
+                        </button>
+                    </>
+                )}
+                {!isActive && (
+                    <button onClick={handleStart} disabled={source === target || isStarting} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600/20 text-purple-300 hover:bg-purple-600/30 border border-purple-500/30 transition-all text-xs font-medium disabled:opacity-50 disabled:cursor-not-allowed">
+                        {isStarting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ArrowRightLeft className="w-3.5 h-3.5" />}
+                        {migration.status === 'done' && migration.failed.length > 0 ? t.migrate_retry : t.migrate_start}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,27 +1,106 @@
 
-import React from 'react';
-import { MessageSquare, Languages, RotateCcw } from 'lucide-react';
+import React, { useState, useRef, useMemo } from 'react';
+import { MessageSquare, Languages, RotateCcw, Palette, Plus, Trash2, Upload, Download, ChevronDown, ChevronUp } from 'lucide-react';
+import { Select, Option, OptionGroup } from '../Select';
 import { useAppStore } from '../../store/appStore';
 import { translations } from '../../translations';
-import { DEFAULT_SYSTEM_PROMPT_CONTENT, DEFAULT_TRANSLATION_SYSTEM_PROMPT } from '../../services/utils';
+import { PromptStyle, AspectRatioOption } from '../../types';
+import { getAvailableProviders, hasCapability, getSupportedAspectRatios } from '../../services/providerRegistry';
+import { ASPECT_RATIO_LABEL_KEYS } from '../../constants';
+import { 
+    DEFAULT_SYSTEM_PROMPT_CONTENT, DEFAULT_TRANSLATION_SYSTEM_PROMPT,
+    generateUUID, exportPromptStyles, parsePromptStyles, mergePromptStyles, extractTemplateVariables
+} from '../../services/utils';
 
 interface PromptTabProps {
     systemPrompt: string;
     setSystemPrompt: (v: string) => void;
     translationPrompt: string;
     setTranslationPrompt: (v: string) => void;
+    promptStyles: PromptStyle[];
+    setPromptStyles: (styles: PromptStyle[]) => void;
 }
 
 export const PromptTab: React.FC<PromptTabProps> = ({ 
     systemPrompt, setSystemPrompt, 
-    translationPrompt, setTranslationPrompt 
+    translationPrompt, setTranslationPrompt,
+    promptStyles, setPromptStyles
 }) => {
-    const { language } = useAppStore();
+    const { language, provider, model } = useAppStore();
     const t = translations[language];
 
+    const [openStyleId, setOpenStyleId] = useState<string | null>(null);
+    const [importMessage, setImportMessage] = useState<{ success: boolean; message: string } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
     const handleRestoreDefault = () => setSystemPrompt(DEFAULT_SYSTEM_PROMPT_CONTENT);
     const handleRestoreTranslationDefault = () => setTranslationPrompt(DEFAULT_TRANSLATION_SYSTEM_PROMPT);
 
+    // Empty value means the style leaves the current setting untouched
+    const modelOptions = useMemo(() => {
+        const groups: (Option | OptionGroup)[] = [{ value: '', label: t.style_keep_current }];
+        getAvailableProviders().forEach(p => {
+            if (!hasCapability(p, 'generate')) return;
+            groups.push({ label: p.name, options: p.models.generate!.map(m => ({ label: m.label, value: `${p.id}:${m.value}` })) });
+        });
+        return groups;
+    }, [t]);
+
+    // Ratios of the style's model, or of the current one when the style keeps it
+    const getAspectRatioOptions = (style: PromptStyle): Option[] => {
+        const [styleProvider, ...rest] = style.model ? style.model.split(':') : [provider, model];
+        return [
+            { value: '', label: t.style_keep_current },
+            ...getSupportedAspectRatios(styleProvider, rest.join(':')).map(value => ({ value, label: t[ASPECT_RATIO_LABEL_KEYS[value] as keyof typeof t] }))
+        ];
+    };
+
+    const updateStyle = (id: string, patch: Partial<PromptStyle>) => {
+        setPromptStyles(promptStyles.map(s => s.id === id ? { ...s, ...patch } : s));
+    };
+
+    const handleAddStyle = () => {
+        const style: PromptStyle = { id: generateUUID(), name: t.style_new_name, template: '{subject}' };
+        setPromptStyles([...promptStyles, style]);
+        setOpenStyleId(style.id);
+    };
+
+    const handleDeleteStyle = (id: string) => {
+        setPromptStyles(promptStyles.filter(s => s.id !== id));
+        if (openStyleId === id) setOpenStyleId(null);
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportPromptStyles(promptStyles)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'peinture-styles.json';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parsePromptStyles(await file.text());
+            setPromptStyles(mergePromptStyles(promptStyles, imported));
+            setImportMessage({ success: true, message: t.style_imported.replace('{n}', imported.length.toString()) });
+        } catch (err: any) {
+            setImportMessage({ success: false, message: (t as any)[err.message] || err.message });
+        }
+    };
+
+    const parseOptionalNumber = (value: string): number | undefined => {
+        if (value.trim() === '') return undefined;
+        const num = Number(value);
+        return isNaN(num) ? undefined : num;
+    };
+
     return (
         <div className="space-y-6">
             <div className="space-y-4">
@@ -38,6 +117,88 @@ export const PromptTab: React.FC<PromptTabProps> = ({
                 </div>
                 <div className="relative group"><textarea value={translationPrompt} onChange={(e) => setTranslationPrompt(e.target.value)} placeholder={t.promptContent} className="w-full h-28 bg-white/[0.03] border border-white/10 rounded-xl p-4 text-sm text-white/80 placeholder:text-white/20 focus:outline-0 focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500/50 hover:border-white/20 resize-none custom-scrollbar leading-relaxed font-mono transition-all duration-300 ease-out" /></div>
             </div>
+            <div className="space-y-4">
+                <div className="flex items-center justify-between pt-2">
+                    <label className="flex items-center gap-2 text-sm font-medium text-white/80"><Palette className="w-4 h-4 text-purple-400" />{t.style_library}</label>
+                    <div className="flex items-center gap-2">
+                        <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-white/50 hover:text-white bg-white/5 hover:bg-white/10 transition-colors border border-transparent hover:border-white/10" title={t.style_import}><Upload className="w-3.5 h-3.5" />{t.style_import}</button>
+                        <button onClick={handleExport} disabled={promptStyles.length === 0} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-white/50 hover:text-white bg-white/5 hover:bg-white/10 transition-colors border border-transparent hover:border-white/10 disabled:opacity-40 disabled:cursor-not-allowed" title={t.style_export}><Download className="w-3.5 h-3.5" />{t.style_export}</button>
+                        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+                    </div>
+                </div>
+                <p className="text-xs text-white/40">{t.style_template_help}</p>
+                {importMessage && (
+                    <p className={`text-xs ${importMessage.success ? 'text-green-400' : 'text-red-400'}`}>{importMessage.message}</p>
+                )}
+
+                <div className="space-y-2">
+                    {promptStyles.map(style => {
+                        const isOpen = openStyleId === style.id;
+                        const variables = extractTemplateVariables(style.template);
+                        return (
+                            <div key={style.id} className="rounded-xl border border-white/10 bg-white/[0.02] overflow-hidden">
+                                <button onClick={() => setOpenStyleId(isOpen ? null : style.id)} className="flex items-center justify-between w-full px-4 py-3 text-left hover:bg-white/5 transition-colors">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium text-white/90 truncate">{style.name || t.style_new_name}</p>
+                                        <p className="text-xs text-white/40 truncate font-mono">{style.template}</p>
+                                    </div>
+                                    {isOpen ? <ChevronUp className="w-4 h-4 text-white/40 flex-shrink-0" /> : <ChevronDown className="w-4 h-4 text-white/40 flex-shrink-0" />}
+                                </button>
+                                {isOpen && (
+                                    <div className="px-4 pb-4 space-y-4 border-t border-white/5 pt-4">
+                                        <div className="space-y-2">
+                                            <label className="text-xs font-medium text-white/60">{t.style_name}</label>
+                                            <input type="text" value={style.name} onChange={(e) => updateStyle(style.id, { name: e.target.value })} className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white focus:outline-0 focus:border-purple-500/50" />
+                                        </div>
+                                        <div className="space-y-2">
+                                            <label className="text-xs font-medium text-white/60">{t.style_template}</label>
+                                            <textarea value={style.template} onChange={(e) => updateStyle(style.id, { template: e.target.value })} rows={3} className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white focus:outline-0 focus:border-purple-500/50 font-mono resize-none custom-scrollbar" />
+                                            {variables.length > 0 && (
+                                                <div className="flex flex-wrap gap-1.5">
+                                                    {variables.map(v => (
+                                                        <span key={v} className="px-1.5 py-0.5 rounded text-[10px] font-mono bg-purple-500/20 text-purple-300">{`{${v}}`}</span>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                        <Select
+                                            label={t.model}
+                                            value={style.model || ''}
+                                            onChange={(val) => updateStyle(style.id, { model: val || undefined })}
+                                            options={modelOptions}
+                                            dense
+                                        />
+                                        <Select
+                                            label={t.aspectRatio}
+                                            value={style.aspectRatio || ''}
+                                            onChange={(val) => updateStyle(style.id, { aspectRatio: (val || undefined) as AspectRatioOption | undefined })}
+                                            options={getAspectRatioOptions(style)}
+                                            dense
+                                        />
+                                        <div className="grid grid-cols-2 gap-4">
+                                            <div className="space-y-2">
+                                                <label className="text-xs font-medium text-white/60">{t.steps}</label>
+                                                <input type="number" value={style.steps ?? ''} onChange={(e) => updateStyle(style.id, { steps: parseOptionalNumber(e.target.value) })} placeholder={t.style_keep_current} className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white placeholder:text-white/30 focus:outline-0 focus:border-purple-500/50 font-mono" />
+                                            </div>
+                                            <div className="space-y-2">
+                                                <label className="text-xs font-medium text-white/60">{t.guidanceScale}</label>
+                                                <input type="number" step="0.1" value={style.guidanceScale ?? ''} onChange={(e) => updateStyle(style.id, { guidanceScale: parseOptionalNumber(e.target.value) })} placeholder={t.style_keep_current} className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white placeholder:text-white/30 focus:outline-0 focus:border-purple-500/50 font-mono" />
+                                            </div>
+                                        </div>
+                                        <div className="flex justify-end">
+                                            <button onClick={() => handleDeleteStyle(style.id)} className="p-2 text-white/40 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors" title={t.style_delete}><Trash2 className="w-4 h-4" /></button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    <button onClick={handleAddStyle} className="flex items-center justify-center gap-2 w-full py-3 rounded-xl border border-dashed border-white/10 text-sm text-white/50 hover:text-white hover:border-white/20 hover:bg-white/5 transition-colors">
+                        <Plus className="w-4 h-4" />{t.style_add}
+                    </button>
+                </div>
+            </div>
         </div>
     );
 };
@@ -3,7 +3,8 @@ import React, { useState } from 'react';
 import { Eye, EyeOff, ShieldCheck, ShieldAlert, ChevronDown, Loader2, RotateCcw, Check, Trash2, Globe, AlertTriangle } from 'lucide-react';
 import { useAppStore } from '../../store/appStore';
 import { translations } from '../../translations';
-import { ServiceMode, CustomProvider, RemoteModelList, ProviderId } from '../../types';
+import { ServiceMode, CustomProvider, RemoteModelList, ProviderId, FailoverSettings } from '../../types';
+import { FailoverSection } from './FailoverSection';
 
 interface ProviderTabProps {
     serviceMode: ServiceMode;
@@ -14,6 +15,7 @@ interface ProviderTabProps {
     a4fToken: string; a4fStats: any;
     // Update Handler
     updateToken: (type: ProviderId, val: string) => void;
+    failover: FailoverSettings; setFailover: (v: FailoverSettings) => void;
     // Custom Provider Props
     customProviders: CustomProvider[];
     handleUpdateCustomProvider: (id: string, updates: Partial<CustomProvider>) => void;
@@ -21,12 +23,13 @@ interface ProviderTabProps {
     handleRefreshCustomModels: (id: string) => void;
     refreshingProviders: Record<string, boolean>;
     refreshSuccessProviders: Record<string, boolean>;
-    refreshErrorProviders: Record<string, boolean>;
+    refreshErrorProviders: Record<string, string>;
     // Add New Custom Provider Props
     newProviderName: string; setNewProviderName: (v: string) => void;
     newProviderUrl: string; setNewProviderUrl: (v: string) => void;
     newProviderToken: string; setNewProviderToken: (v: string) => void;
     fetchStatus: string;
+    fetchError: string;
     fetchedModels: RemoteModelList | null;
     handleFetchCustomModels: () => void;
     handleAddCustomProvider: () => void;
@@ -157,6 +160,12 @@ export const ProviderTab: React.FC<ProviderTabProps> = (props) => {
                         renderTokenInput('ms', props.msToken, (v) => props.updateToken('modelscope', v), props.msStats, 'ms-...,ms-...', t.msTokenHelp, t.msTokenLink, t.msTokenHelpEnd, "https://modelscope.cn/my/myaccesstoken"))}
                     {renderProviderPanel('a4f', t.provider_a4f, 'bg-emerald-500', 
                         renderTokenInput('a4f', props.a4fToken, (v) => props.updateToken('a4f', v), props.a4fStats, 'ddc-...,ddc-...', t.a4fTokenHelp, t.a4fTokenLink, t.a4fTokenHelpEnd, "https://www.a4f.co/api-keys"))}
+                    {renderProviderPanel('failover', t.failover_title, 'bg-orange-500',
+                        <FailoverSection
+                            failover={props.failover}
+                            setFailover={props.setFailover}
+                            configured={{ huggingface: true, gitee: !!props.giteeToken, modelscope: !!props.msToken, a4f: !!props.a4fToken }}
+                        />)}
                 </>
             )}
             {showCustomProviders && (
@@ -184,8 +193,8 @@ export const ProviderTab: React.FC<ProviderTabProps> = (props) => {
                             <div className="flex items-center justify-between">
                                     {props.refreshErrorProviders[cp.id] ? (
                                         <div className="text-xs text-red-400 font-medium flex items-center gap-1.5">
-                                            <AlertTriangle className="w-3 h-3" />
-                                            Model list failed to load
+                                            <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                                            {(t as any)[props.refreshErrorProviders[cp.id]] || props.refreshErrorProviders[cp.id]}
                                         </div>
                                     ) : (
                                         <div className={`text-xs transition-colors duration-300 flex items-center gap-1.5 ${props.refreshSuccessProviders[cp.id] ? 'text-green-400 font-medium' : 'text-white/40'}`}>
@@ -217,6 +226,7 @@ export const ProviderTab: React.FC<ProviderTabProps> = (props) => {
                                     <button type="button" onClick={() => toggleTokenShow('new')} className="absolute right-2 top-1/2 -translate-y-1/2 text-white/30 hover:text-white p-1">{showTokens['new'] ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}</button>
                                 </div>
                             </div>
+                            {props.fetchStatus === 'failed' && props.fetchError && (<div className="p-3 bg-red-500/10 rounded-lg text-xs text-red-400 border border-red-500/20 flex items-start gap-2 break-words"><AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" /><span className="min-w-0">{(t as any)[props.fetchError] || props.fetchError}</span></div>)}
                             {props.fetchedModels && (<div className="p-3 bg-white/5 rounded-lg text-xs text-green-400 border border-green-500/20 flex items-center gap-2"><Check className="w-3 h-3" />{t.models_count.replace('{count}', ((props.fetchedModels.generate?.length || 0) + (props.fetchedModels.edit?.length || 0) + (props.fetchedModels.video?.length || 0) + (props.fetchedModels.text?.length || 0) + (props.fetchedModels.upscaler?.length || 0)).toString())}</div>)}
                             <div className="flex justify-between">
                                 <button onClick={() => { props.handleClearAddForm(); setOpenProvider(''); }} className="p-2 text-white/40 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors" title={t.cancel || "Clear"}><Trash2 className="w-4 h-4" /></button>
@@ -1,9 +1,11 @@
 
 import React, { useState } from 'react';
-import { Eye, EyeOff, PlugZap, Loader2, Check, AlertCircle } from 'lucide-react';
+import { Eye, EyeOff, PlugZap, Loader2, Check, AlertCircle, RefreshCw } from 'lucide-react';
 import { useAppStore } from '../../store/appStore';
 import { translations } from '../../translations';
 import { S3Config, WebDAVConfig } from '../../types';
+import { SyncStatusBadge } from '../SyncStatusBadge';
+import { MigrateSection } from './MigrateSection';
 
 interface StorageTabProps {
     activeTab: string;
@@ -15,10 +17,11 @@ interface StorageTabProps {
     testWebDAVResult: { success: boolean; message: string } | null;
     isTestingWebDAV: boolean;
     handleTestWebDAV: () => void;
+    syncEnabled: boolean; setSyncEnabled: (v: boolean) => void;
 }
 
 export const StorageTab: React.FC<StorageTabProps> = (props) => {
-    const { language } = useAppStore();
+    const { language, storageType, syncEnabled: savedSyncEnabled } = useAppStore();
     const t = translations[language];
     const [showS3Secret, setShowS3Secret] = useState(false);
     const [showWebdavPass, setShowWebdavPass] = useState(false);
@@ -28,6 +31,24 @@ export const StorageTab: React.FC<StorageTabProps> = (props) => {
          return `https://s3.${region}.amazonaws.com`;
     };
 
+    // Shared by both remotes: the status only applies once the saved settings have sync on for this tab
+    const renderSyncSection = (accent: string) => (
+        <div className="pt-4 border-t border-white/[0.06] space-y-2">
+            <label className="flex items-center gap-2 text-xs font-medium text-white/80">
+                <RefreshCw className={`w-3.5 h-3.5 ${accent}`} />
+                {t.sync_title}
+            </label>
+            <p className="text-xs text-white/40">{t.sync_desc}</p>
+            <div className="flex items-center justify-between gap-4">
+                <label className="flex items-center gap-2 text-xs text-white/60 cursor-pointer select-none">
+                    <input type="checkbox" checked={props.syncEnabled} onChange={(e) => props.setSyncEnabled(e.target.checked)} className="accent-purple-500" />
+                    {t.sync_enable}
+                </label>
+                {savedSyncEnabled && storageType === props.activeTab && <SyncStatusBadge />}
+            </div>
+        </div>
+    );
+
     if (props.activeTab === 's3') {
         return (
             <div className="space-y-6">
@@ -80,6 +101,8 @@ export const StorageTab: React.FC<StorageTabProps> = (props) => {
                             </div>
                         )}
                     </div>
+                    {renderSyncSection('text-green-400')}
+                    <MigrateSection defaultTarget="s3" accent="text-green-400" />
                 </div>
             </div>
         );
@@ -121,6 +144,8 @@ export const StorageTab: React.FC<StorageTabProps> = (props) => {
                             </div>
                         )}
                     </div>
+                    {renderSyncSection('text-blue-400')}
+                    <MigrateSection defaultTarget="webdav" accent="text-blue-400" />
                 </div>
             </div>
         );
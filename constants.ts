@@ -1,5 +1,5 @@
 
-import { ModelOption, ProviderOption, UnifiedModelOption } from './types';
+import { ModelOption, ProviderOption, UnifiedModelOption, RetentionPolicy, AspectRatioOption, GalleryFilters, FailoverSettings, VideoResolution } from './types';
 
 // Map standardized UI IDs to Provider Specific API Strings
 export const API_MODEL_MAP: Record<ProviderOption, Record<string, string>> = {
@@ -25,6 +25,7 @@ export const API_MODEL_MAP: Record<ProviderOption, Record<string, string>> = {
     'qwen-3': 'Qwen3-Next-80B-A3B-Instruct', // text
     'qwen-image-edit': 'Qwen-Image-Edit', // edit
     'wan2_2-i2v': 'Wan2_2-I2V-A14B', // video
+    'wan2_1-flf2v': 'Wan2.1-FLF2V-14B-720P', // video, first and last frame
   },
   modelscope: {
     'z-image-turbo': 'Tongyi-MAI/Z-Image-Turbo',
@@ -97,6 +98,53 @@ export const FLUX_MODELS = [
 
 export const Z_IMAGE_MODELS = ['z-image-turbo', 'z-image'];
 
+export const MAX_BATCH_COUNT = 8;
+
+export const ASPECT_RATIOS: AspectRatioOption[] = ['1:1', '3:2', '2:3', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9'];
+
+// The dimension tables of the built-in services have no 4:5 or 5:4 entry
+export const BUILTIN_ASPECT_RATIOS: AspectRatioOption[] = ['1:1', '3:2', '2:3', '3:4', '4:3', '9:16', '16:9'];
+
+// Translation keys of the aspect ratio labels, so every picker lists the same ratios
+export const ASPECT_RATIO_LABEL_KEYS: Record<AspectRatioOption, string> = {
+  '1:1': 'ar_square',
+  '3:2': 'ar_portrait_3_2',
+  '2:3': 'ar_landscape_2_3',
+  '3:4': 'ar_portrait_3_4',
+  '4:3': 'ar_landscape_4_3',
+  '4:5': 'ar_portrait_4_5',
+  '5:4': 'ar_landscape_5_4',
+  '9:16': 'ar_photo_9_16',
+  '16:9': 'ar_movie'
+};
+
+// Matches the old fixed 24h purge until the user changes it
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  maxAgeDays: 1,
+  maxCount: null,
+  maxBytes: null
+};
+
+export const VIDEO_RESOLUTIONS: VideoResolution[] = [480, 720];
+
+export const DEFAULT_VIDEO_NEGATIVE_PROMPT = "Vivid colors, overexposed, static, blurry details, subtitles, style, artwork, painting, image, still, overall grayish tone, worst quality, low quality, JPEG compression artifacts, ugly, incomplete, extra fingers, poorly drawn hands, poorly drawn face, deformed, disfigured, malformed limbs, fused fingers, still image, cluttered background, three legs, many people in the background, walking backward, Screen shaking";
+
+export const DEFAULT_FAILOVER_SETTINGS: FailoverSettings = {
+  enabled: false,
+  chains: {}
+};
+
+export const DEFAULT_GALLERY_FILTERS: GalleryFilters = {
+  query: '',
+  model: '',
+  provider: '',
+  dateFrom: '',
+  dateTo: '',
+  mediaType: 'all',
+  nsfw: 'all',
+  sort: 'newest'
+};
+
 export const getModelConfig = (provider: ProviderOption, model: ModelOption) => {
   if (provider === 'gitee') {
     if (model === 'z-image-turbo') return { min: 1, max: 20, default: 9 };
@@ -152,6 +200,7 @@ export const EDIT_MODELS: UnifiedModelOption[] = [
 export const LIVE_MODELS: UnifiedModelOption[] = [
     { label: 'Wan 2.2', value: 'huggingface:wan2_2-i2v', provider: 'huggingface' },
     { label: 'Wan 2.2', value: 'gitee:wan2_2-i2v', provider: 'gitee' },
+    { label: 'Wan 2.1 FLF2V', value: 'gitee:wan2_1-flf2v', provider: 'gitee' },
 ];
 
 export const TEXT_MODELS: UnifiedModelOption[] = [
@@ -1,12 +1,17 @@
 
 import { useState, useEffect } from 'react';
 import { useAppStore } from '../store/appStore';
-import { initOpfsDirs, readTempFileFromOPFS, deleteTempFileFromOPFS, saveTempFileToOPFS, cleanupOldTempFiles } from '../services/storageService';
+import { useQueueStore } from '../store/queueStore';
+import { initOpfsDirs, readTempFileFromOPFS, deleteTempFileFromOPFS, saveTempFileToOPFS, cleanupOldTempFiles, listTempFiles, getRetentionPolicy } from '../services/storageService';
+import { planRetention, getImageFileNames } from '../services/retentionService';
 import { GeneratedImage, CustomProvider, ModelOption } from '../types';
 import { getServiceMode, getCustomProviders, addCustomProvider, generateUUID, fetchBlob } from '../services/utils';
-import { fetchServerModels, getCustomTaskStatus } from '../services/customService';
-import { getGiteeTaskStatus } from '../services/giteeService';
-import { HF_MODEL_OPTIONS, GITEE_MODEL_OPTIONS, MS_MODEL_OPTIONS, A4F_MODEL_OPTIONS, getModelConfig, getGuidanceScaleConfig } from '../constants';
+import { fetchServerModels } from '../services/customService';
+import { getProvider, getStepsConfig, getGuidanceConfig, getVideoTaskStatus } from '../services/providerRegistry';
+import { recoverInterruptedJobs } from '../services/jobQueue';
+import { migrateSessionPromptHistory } from '../services/promptHistoryService';
+import { initSync } from '../services/syncService';
+import { HF_MODEL_OPTIONS } from '../constants';
 
 export const useAppInit = () => {
     const {
@@ -30,43 +35,46 @@ export const useAppInit = () => {
     useEffect(() => {
         const hydrateHistory = async () => {
             await initOpfsDirs();
-            await cleanupOldTempFiles();
             
             const currentHistory = useAppStore.getState().history;
-            const now = Date.now();
-            const oneDayInMs = 24 * 60 * 60 * 1000;
+            const policy = getRetentionPolicy();
+            const tempFiles = await listTempFiles();
+            const fileSizes = new Map(tempFiles.map(f => [f.name, f.size] as [string, number]));
+            const plan = planRetention(currentHistory, policy, fileSizes);
             
             const validHistory: GeneratedImage[] = [];
             let hasChanges = false;
+
+            for (const img of plan.expire) {
+                for (const name of getImageFileNames(img)) {
+                    await deleteTempFileFromOPFS(name);
+                }
+                hasChanges = true;
+            }
+
+            await cleanupOldTempFiles(policy, new Set(plan.keep.flatMap(getImageFileNames)));
             
-            for (const img of currentHistory) {
-                if ((now - img.timestamp) >= oneDayInMs) {
-                    const filenameToDelete = img.fileName || `${img.id}.png`; 
-                    await deleteTempFileFromOPFS(filenameToDelete);
-                    if (img.videoFileName) await deleteTempFileFromOPFS(img.videoFileName);
-                    hasChanges = true;
-                } else {
-                    const filenameToLoad = img.fileName || `${img.id}.png`;
-                    const opfsBlob = await readTempFileFromOPFS(filenameToLoad);
+            for (const img of plan.keep) {
+                const filenameToLoad = img.fileName || `${img.id}.png`;
+                const opfsBlob = await readTempFileFromOPFS(filenameToLoad);
+                
+                if (opfsBlob) {
+                    img.url = URL.createObjectURL(opfsBlob);
                     
-                    if (opfsBlob) {
-                        img.url = URL.createObjectURL(opfsBlob);
-                        
-                        // Hydrate video URL if exists locally
-                        if (img.videoFileName) {
-                            const videoBlob = await readTempFileFromOPFS(img.videoFileName);
-                            if (videoBlob) {
-                                img.videoUrl = URL.createObjectURL(videoBlob);
-                            }
+                    // Hydrate video URL if exists locally
+                    if (img.videoFileName) {
+                        const videoBlob = await readTempFileFromOPFS(img.videoFileName);
+                        if (videoBlob) {
+                            img.videoUrl = URL.createObjectURL(videoBlob);
                         }
-                        
+                    }
+                    
+                    validHistory.push(img);
+                } else {
+                    if (!img.url.startsWith('blob:')) {
                         validHistory.push(img);
                     } else {
-                        if (!img.url.startsWith('blob:')) {
-                            validHistory.push(img);
-                        } else {
-                            hasChanges = true;
-                        }
+                        hasChanges = true;
                     }
                 }
             }
@@ -85,9 +93,14 @@ export const useAppInit = () => {
             }
         };
 
-        hydrateHistory();
+        // Resume the job queue only after history is settled, so results aren't overwritten
+        hydrateHistory().then(recoverInterruptedJobs);
+        migrateSessionPromptHistory().catch(e => console.warn("Prompt history migration failed", e));
     }, []);
 
+    // Keep the OPFS gallery mirrored to the remote while sync is enabled
+    useEffect(() => initSync(), []);
+
     // 2. Server Mode Initialization
     useEffect(() => {
         const initServiceMode = async () => {
@@ -211,16 +224,9 @@ export const useAppInit = () => {
             const updates = await Promise.all(readyToPoll.map(async (img) => {
                 if (!img.videoTaskId) return null;
                 try {
-                    let result = null;
-                    if (img.videoProvider === 'gitee') {
-                        result = await getGiteeTaskStatus(img.videoTaskId);
-                    } else if (img.videoProvider) {
-                        const customProviders = getCustomProviders();
-                        const provider = customProviders.find(p => p.id === img.videoProvider);
-                        if (provider) {
-                            result = await getCustomTaskStatus(provider, img.videoTaskId);
-                        }
-                    }
+                    const result = img.videoProvider ? await getVideoTaskStatus(img.videoProvider, img.videoTaskId) : null;
+                    // Shown on the Live badge until the task settles
+                    useQueueStore.getState().setProgress(img.id, result?.progress ?? null);
                     
                     if (result && (result.status === 'success' || result.status === 'failed')) {
                         // If success, download video to OPFS
@@ -290,18 +296,7 @@ export const useAppInit = () => {
     // 5. Model/Steps Initialization on View Change
     useEffect(() => {
         if (currentView === 'creation') {
-            let options: { value: string; label: string }[] = [];
-            if (provider === 'gitee') options = GITEE_MODEL_OPTIONS;
-            else if (provider === 'modelscope') options = MS_MODEL_OPTIONS;
-            else if (provider === 'huggingface') options = HF_MODEL_OPTIONS;
-            else if (provider === 'a4f') options = A4F_MODEL_OPTIONS;
-            else {
-                const customProviders = getCustomProviders();
-                const activeCustom = customProviders.find(p => p.id === provider);
-                if (activeCustom?.models?.generate) {
-                    options = activeCustom.models.generate.map(m => ({ value: m.id, label: m.name }));
-                }
-            }
+            const options = getProvider(provider)?.models.generate || [];
 
             if (options.length > 0) {
                 const isValid = options.some(o => o.value === model);
@@ -309,9 +304,9 @@ export const useAppInit = () => {
                     const defaultModel = options[0].value as ModelOption;
                     setModel(defaultModel);
                     
-                    const config = getModelConfig(provider, defaultModel);
-                    setSteps(config.default);
-                    const gsConfig = getGuidanceScaleConfig(defaultModel, provider);
+                    const config = getStepsConfig(provider, defaultModel);
+                    if (config) setSteps(config.default);
+                    const gsConfig = getGuidanceConfig(provider, defaultModel);
                     if (gsConfig) setGuidanceScale(gsConfig.default);
                 }
             }
@@ -320,10 +315,18 @@ export const useAppInit = () => {
 
     // 6. Update steps/guidance when provider/model changes
     useEffect(() => {
-        const config = getModelConfig(provider, model);
-        setSteps(config.default);
+        // A style switched to this model with its own steps/guidance, keep those
+        const state = useAppStore.getState();
+        if (state.presetModelKey) {
+            const isPreset = state.presetModelKey === `${provider}:${model}`;
+            useAppStore.setState({ presetModelKey: null });
+            if (isPreset) return;
+        }
+
+        const config = getStepsConfig(provider, model);
+        if (config) setSteps(config.default);
 
-        const gsConfig = getGuidanceScaleConfig(model, provider);
+        const gsConfig = getGuidanceConfig(provider, model);
         if (gsConfig) {
             setGuidanceScale(gsConfig.default);
         }
@@ -14,7 +14,9 @@ export const useCloudUpload = () => {
         cloudHistory,
         setCloudHistory,
         isUploading,
-        setIsUploading
+        setIsUploading,
+        uploadProgress,
+        setUploadProgress
     } = useAppStore();
     
     const [uploadError, setUploadError] = useState<string | null>(null);
@@ -23,6 +25,7 @@ export const useCloudUpload = () => {
     const handleUploadToCloud = async (imageBlobOrUrl: Blob | string, fileName?: string, metadata?: any) => {
         if (isUploading) return;
         setIsUploading(true);
+        setUploadProgress(null);
         setUploadError(null);
         
         try {
@@ -53,7 +56,9 @@ export const useCloudUpload = () => {
                  finalFileName += `.${ext}`;
             }
     
-            const uploadedUrl = await uploadToCloud(blob, finalFileName, finalMetadata);
+            const uploadedUrl = await uploadToCloud(blob, finalFileName, finalMetadata, (loaded, total) => {
+                setUploadProgress(total > 0 ? loaded / total : null);
+            });
     
             const cloudImage: CloudImage = {
                 id: generateUUID(),
@@ -73,12 +78,14 @@ export const useCloudUpload = () => {
             throw e; // Re-throw to allow callers to handle specific UI updates if needed
         } finally {
             setIsUploading(false);
+            setUploadProgress(null);
         }
     };
 
     return {
         handleUploadToCloud,
         isUploading,
+        uploadProgress,
         uploadError,
         setUploadError
     };
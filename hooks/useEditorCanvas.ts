@@ -2,147 +2,206 @@
 // Import React to resolve namespace errors
 import React, { useRef, useState, useCallback, useEffect } from 'react';
 import { useEditorStore, ToolType } from '../store/editorStore';
+import { useAppStore } from '../store/appStore';
+import { translations } from '../translations';
+import { EditorSession, EditorShape, OutpaintPadding } from '../types';
+import { translateShape } from '../services/outpaint';
+import { createSourceVersion } from '../services/versionTree';
+import { createLayer, isBitmapLayer, drawShape, renderShapes, isEmptyShape, loadImageElement } from '../services/editorDocument';
 
 export const useEditorCanvas = (containerRef: React.RefObject<HTMLDivElement>) => {
-    const canvasRef = useRef<HTMLCanvasElement>(null);
-    const snapshotRef = useRef<ImageData | null>(null);
+    const stageRef = useRef<HTMLDivElement>(null);
+    // Annotation layers by id, and the shapes each canvas currently shows
+    const layerCanvasesRef = useRef(new Map<string, HTMLCanvasElement>());
+    const renderedShapesRef = useRef(new WeakMap<HTMLCanvasElement, EditorShape[]>());
+    const draftRef = useRef<{ layerId: string; shape: EditorShape } | null>(null);
     const lastTouchDistance = useRef<number | null>(null);
     
     // Store
     const { 
-        activeTool, brushColor, scale, offset, 
-        setScale, setOffset, setActiveTool 
+        activeTool, brushColor, brushSize, brushHardness, inpaintMode, scale, offset, 
+        setScale, setOffset, setActiveTool,
+        layers, activeLayerId, loadDocument, execute, undo, redo,
+        initVersions, setCurrentVersion,
+        setPrompt, setInpaintMode
     } = useEditorStore();
+    const { language } = useAppStore();
+    const t = translations[language];
 
     // Local State
     const [image, setImage] = useState<HTMLImageElement | null>(null);
-    const [historyStates, setHistoryStates] = useState<ImageData[]>([]);
-    const [historyIndex, setHistoryIndex] = useState(-1);
     const [isDragging, setIsDragging] = useState(false);
     const [isDrawing, setIsDrawing] = useState(false);
     const [lastPosition, setLastPosition] = useState({ x: 0, y: 0 });
-    const [startPosition, setStartPosition] = useState({ x: 0, y: 0 });
+    // Text waiting for the user to type it, placed where they clicked
+    const [textDraft, setTextDraftState] = useState<{ layerId: string; shape: Extract<EditorShape, { type: 'text' }> } | null>(null);
+    // Enter and the blur that follows both commit, the ref lets only the first one through
+    const textDraftRef = useRef<typeof textDraft>(null);
+    const setTextDraft = (draft: typeof textDraft) => {
+        textDraftRef.current = draft;
+        setTextDraftState(draft);
+    };
 
-    // History Logic
-    const saveToHistory = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number) => {
-        const imageData = ctx.getImageData(0, 0, width, height);
-        const newHistory = historyStates.slice(0, historyIndex + 1);
-        newHistory.push(imageData);
-        if (newHistory.length > 20) {
-            newHistory.shift();
-        } else {
-            setHistoryIndex(newHistory.length - 1);
-        }
-        setHistoryStates(newHistory);
-    }, [historyStates, historyIndex]);
+    // Annotation layers are redrawn from their shapes whenever those change (draw, undo, redo, load)
+    useEffect(() => {
+        layers.forEach(layer => {
+            if (layer.kind !== 'annotation') return;
+            const canvas = layerCanvasesRef.current.get(layer.id);
+            if (!canvas || renderedShapesRef.current.get(canvas) === layer.shapes) return;
+            renderShapes(canvas, layer.shapes);
+            renderedShapesRef.current.set(canvas, layer.shapes);
+        });
+    }, [layers]);
 
-    const undo = useCallback(() => {
-        if (historyIndex > 0 && canvasRef.current) {
-            const newIndex = historyIndex - 1;
-            setHistoryIndex(newIndex);
-            const ctx = canvasRef.current.getContext('2d');
-            if (ctx) ctx.putImageData(historyStates[newIndex], 0, 0);
+    // Freshly mounted canvases pick up their shapes here, the effect above only sees later changes
+    const registerLayerCanvas = useCallback((layerId: string) => (el: HTMLCanvasElement | null) => {
+        if (!el) {
+            layerCanvasesRef.current.delete(layerId);
+            return;
         }
-    }, [historyStates, historyIndex]);
-
-    const redo = useCallback(() => {
-        if (historyIndex < historyStates.length - 1 && canvasRef.current) {
-            const newIndex = historyIndex + 1;
-            setHistoryIndex(newIndex);
-            const ctx = canvasRef.current.getContext('2d');
-            if (ctx) ctx.putImageData(historyStates[newIndex], 0, 0);
+        layerCanvasesRef.current.set(layerId, el);
+        const layer = useEditorStore.getState().layers.find(l => l.id === layerId);
+        if (layer && renderedShapesRef.current.get(el) !== layer.shapes) {
+            renderShapes(el, layer.shapes);
+            renderedShapesRef.current.set(el, layer.shapes);
         }
-    }, [historyStates, historyIndex]);
+    }, []);
+
+    const fitView = useCallback((width: number, height: number) => {
+        if (!containerRef.current) return;
+        const { width: contW, height: contH } = containerRef.current.getBoundingClientRect();
+        const newScale = Math.min(contH / height, contW / width, 1);
+        setScale(newScale);
+        setOffset({
+            x: (contW - width * newScale) / 2,
+            y: (contH - height * newScale) / 2
+        });
+    }, [containerRef, setScale, setOffset]);
+
+    // Fresh document on top of the given image
+    const loadBaseImage = useCallback((img: HTMLImageElement) => {
+        setImage(img);
+        loadDocument([
+            createLayer('base', t.layer_base, img.src),
+            createLayer('annotation', t.layer_annotation.replace('{n}', '1'))
+        ], null);
+        fitView(img.width, img.height);
+    }, [loadDocument, fitView, t]);
 
     const initCanvas = useCallback((img: HTMLImageElement) => {
-        // Set the image state first to ensure it's available
+        loadBaseImage(img);
+        initVersions(createSourceVersion(img.src));
+    }, [loadBaseImage, initVersions]);
+
+    // Continues editing from any version, later edits branch off it
+    const branchFromVersion = useCallback((img: HTMLImageElement, versionId: string) => {
+        loadBaseImage(img);
+        setCurrentVersion(versionId);
+    }, [loadBaseImage, setCurrentVersion]);
+
+    const addAnnotationLayer = useCallback(() => {
+        const { layers } = useEditorStore.getState();
+        const count = layers.filter(l => l.kind === 'annotation').length;
+        const layer = createLayer('annotation', t.layer_annotation.replace('{n}', (count + 1).toString()));
+        execute({ type: 'addLayer', layer, index: layers.length });
+        return layer.id;
+    }, [execute, t]);
+
+    // Results go above the existing bitmaps, under the annotations drawn on top of them
+    const addResultLayer = useCallback((url: string) => {
+        const { layers } = useEditorStore.getState();
+        const bitmaps = layers.filter(isBitmapLayer);
+        const index = layers.indexOf(bitmaps[bitmaps.length - 1]) + 1;
+        const layer = createLayer('result', t.layer_result.replace('{n}', bitmaps.length.toString()), url);
+        execute({ type: 'addLayer', layer, index });
+    }, [execute, t]);
+
+    // An accepted expansion becomes the new base, annotations keep their place on the image
+    const expandDocument = useCallback((img: HTMLImageElement, padding: OutpaintPadding) => {
+        const { layers, activeLayerId } = useEditorStore.getState();
+        const annotations = layers
+            .filter(l => l.kind === 'annotation')
+            .map(l => ({ ...l, shapes: l.shapes.map(shape => translateShape(shape, padding.left, padding.top)) }));
         setImage(img);
+        loadDocument([createLayer('base', t.layer_base, img.src), ...annotations], activeLayerId);
+        fitView(img.width, img.height);
+    }, [loadDocument, fitView, t]);
 
-        if (canvasRef.current && containerRef.current) {
-            canvasRef.current.width = img.width;
-            canvasRef.current.height = img.height;
-            const ctx = canvasRef.current.getContext('2d');
-            if (ctx) {
-                ctx.clearRect(0, 0, img.width, img.height);
-                // Try catch for CORS tainted images
-                try {
-                    const initialData = ctx.getImageData(0, 0, img.width, img.height);
-                    setHistoryStates([initialData]);
-                    setHistoryIndex(0);
-                } catch (e) {
-                    setHistoryStates([]);
-                    setHistoryIndex(-1);
-                }
-            }
-            
-            // Auto Fit
-            const { width: contW, height: contH } = containerRef.current.getBoundingClientRect();
-            const scaleH = contH / img.height;
-            const scaleW = contW / img.width;
-            const newScale = Math.min(scaleH, scaleW, 1);
-            
-            setScale(newScale);
-            setOffset({
-                x: (contW - img.width * newScale) / 2,
-                y: (contH - img.height * newScale) / 2
-            });
-        }
-    }, [containerRef, setScale, setOffset]);
+    const restoreSession = useCallback(async (session: EditorSession) => {
+        const base = session.layers.find(l => l.kind === 'base');
+        if (!base?.src) throw new Error("error_session_invalid");
+        const img = await loadImageElement(base.src);
+        setImage(img);
+        loadDocument(session.layers, session.activeLayerId);
+        initVersions(createSourceVersion(base.src));
+        setPrompt(session.prompt);
+        setInpaintMode(session.inpaintMode);
+        fitView(img.width, img.height);
+    }, [loadDocument, initVersions, setPrompt, setInpaintMode, fitView]);
 
     // Draw Helpers
     const getCanvasCoordinates = (e: React.MouseEvent | React.TouchEvent) => {
-        if (!canvasRef.current) return { x: 0, y: 0 };
-        const rect = canvasRef.current.getBoundingClientRect();
+        if (!stageRef.current || !image) return { x: 0, y: 0 };
+        const rect = stageRef.current.getBoundingClientRect();
         const clientX = 'touches' in e ? e.touches[0].clientX : (e as React.MouseEvent).clientX;
         const clientY = 'touches' in e ? e.touches[0].clientY : (e as React.MouseEvent).clientY;
         return {
-            x: (clientX - rect.left) * (canvasRef.current.width / rect.width),
-            y: (clientY - rect.top) * (canvasRef.current.height / rect.height)
+            x: (clientX - rect.left) * (image.width / rect.width),
+            y: (clientY - rect.top) * (image.height / rect.height)
         };
     };
 
     const getDynamicLineWidth = (baseSize: number) => baseSize / scale;
 
+    // Strokes land on the active annotation layer, one is created when there is none.
+    // Hidden layers are not drawn on.
+    const getDrawingLayerId = () => {
+        const active = layers.find(l => l.id === activeLayerId);
+        if (active?.kind === 'annotation') return active.visible ? active.id : null;
+        return addAnnotationLayer();
+    };
+
     // Event Handlers
     const handleMouseDown = (e: React.MouseEvent | React.TouchEvent) => {
-        if (!canvasRef.current) return;
-        const ctx = canvasRef.current.getContext('2d');
-        if (!ctx) return;
-        const coords = getCanvasCoordinates(e);
+        if (!image) return;
 
         if (activeTool === 'move') {
             setIsDragging(true);
             const clientX = 'touches' in e ? e.touches[0].clientX : (e as React.MouseEvent).clientX;
             const clientY = 'touches' in e ? e.touches[0].clientY : (e as React.MouseEvent).clientY;
             setLastPosition({ x: clientX, y: clientY });
-        } else if (['brush', 'eraser', 'rect'].includes(activeTool)) {
-            setIsDrawing(true);
-            ctx.lineCap = 'round';
-            ctx.lineJoin = 'round';
-            if (activeTool === 'brush') {
-                ctx.globalCompositeOperation = 'source-over';
-                ctx.lineWidth = getDynamicLineWidth(2);
-                ctx.strokeStyle = brushColor;
-                ctx.beginPath();
-                ctx.moveTo(coords.x, coords.y);
-            } else if (activeTool === 'eraser') {
-                ctx.globalCompositeOperation = 'destination-out';
-                ctx.lineWidth = getDynamicLineWidth(16);
-                ctx.beginPath();
-                ctx.moveTo(coords.x, coords.y);
-            } else if (activeTool === 'rect') {
-                ctx.globalCompositeOperation = 'source-over';
-                ctx.lineWidth = getDynamicLineWidth(2);
-                ctx.strokeStyle = brushColor;
-                setStartPosition(coords);
-                snapshotRef.current = ctx.getImageData(0, 0, canvasRef.current.width, canvasRef.current.height);
+        } else if (activeTool !== 'select') {
+            const layerId = getDrawingLayerId();
+            if (!layerId) return;
+            const { x, y } = getCanvasCoordinates(e);
+            const color = brushColor;
+            const width = getDynamicLineWidth(brushSize);
+            // In inpaint mode closed shapes are filled, since they mark an area rather than outline it
+            const filled = inpaintMode;
+            let shape: EditorShape;
+            switch (activeTool) {
+                case 'text':
+                    setTextDraft({ layerId, shape: { type: 'text', color, size: getDynamicLineWidth(Math.max(brushSize * 3, 12)), x, y, text: '' } });
+                    return;
+                case 'rect':
+                case 'ellipse':
+                    shape = { type: activeTool, color, width, x, y, w: 0, h: 0, filled };
+                    break;
+                case 'arrow':
+                    shape = { type: 'arrow', color, width, x1: x, y1: y, x2: x, y2: y };
+                    break;
+                case 'lasso':
+                    shape = { type: 'lasso', color, width, points: [x, y], filled };
+                    break;
+                default:
+                    shape = { type: 'path', tool: activeTool, color, width, hardness: brushHardness, points: [x, y] };
             }
+            draftRef.current = { layerId, shape };
+            setIsDrawing(true);
         }
     };
 
     const handleMouseMove = (e: React.MouseEvent | React.TouchEvent) => {
-        if (!canvasRef.current) return;
-        
         if (isDragging && activeTool === 'move') {
             const clientX = 'touches' in e ? e.touches[0].clientX : (e as React.MouseEvent).clientX;
             const clientY = 'touches' in e ? e.touches[0].clientY : (e as React.MouseEvent).clientY;
@@ -150,19 +209,31 @@ export const useEditorCanvas = (containerRef: React.RefObject<HTMLDivElement>) =
             const dy = clientY - lastPosition.y;
             setOffset(prev => ({ x: prev.x + dx, y: prev.y + dy }));
             setLastPosition({ x: clientX, y: clientY });
-        } else if (isDrawing) {
-            const ctx = canvasRef.current.getContext('2d');
-            if (!ctx) return;
-            const coords = getCanvasCoordinates(e);
-            
-            if (['brush', 'eraser'].includes(activeTool)) {
-                ctx.lineTo(coords.x, coords.y);
-                ctx.stroke();
-            } else if (activeTool === 'rect' && snapshotRef.current) {
-                ctx.putImageData(snapshotRef.current, 0, 0);
-                const width = coords.x - startPosition.x;
-                const height = coords.y - startPosition.y;
-                ctx.strokeRect(startPosition.x, startPosition.y, width, height);
+        } else if (isDrawing && draftRef.current) {
+            const { layerId, shape } = draftRef.current;
+            const { x, y } = getCanvasCoordinates(e);
+            // A layer created on mouse down may not be mounted yet, its shapes render once it is
+            const canvas = layerCanvasesRef.current.get(layerId);
+            const ctx = canvas?.getContext('2d');
+
+            if (shape.type === 'path') {
+                shape.points.push(x, y);
+                // Only the new segment is stroked, the full path is rendered on commit
+                if (ctx) drawShape(ctx, { ...shape, points: shape.points.slice(-4) });
+                return;
+            }
+
+            let next: EditorShape;
+            if (shape.type === 'rect' || shape.type === 'ellipse') next = { ...shape, w: x - shape.x, h: y - shape.y };
+            else if (shape.type === 'arrow') next = { ...shape, x2: x, y2: y };
+            else if (shape.type === 'lasso') next = { ...shape, points: [...shape.points, x, y] };
+            else return;
+            draftRef.current = { layerId, shape: next };
+            // Shapes are previewed over the layer as it was before the drag
+            const layer = layers.find(l => l.id === layerId);
+            if (canvas && layer) {
+                renderShapes(canvas, [...layer.shapes, next]);
+                renderedShapesRef.current.delete(canvas);
             }
         }
     };
@@ -172,12 +243,19 @@ export const useEditorCanvas = (containerRef: React.RefObject<HTMLDivElement>) =
         lastTouchDistance.current = null;
         if (isDrawing) {
             setIsDrawing(false);
-            const ctx = canvasRef.current?.getContext('2d');
-            if (ctx && canvasRef.current) {
-                if (['brush', 'eraser'].includes(activeTool)) ctx.closePath();
-                ctx.globalCompositeOperation = 'source-over';
-                saveToHistory(ctx, canvasRef.current.width, canvasRef.current.height);
-                snapshotRef.current = null;
+            const draft = draftRef.current;
+            draftRef.current = null;
+            if (!draft) return;
+            if (!isEmptyShape(draft.shape)) {
+                execute({ type: 'addShape', layerId: draft.layerId, shape: draft.shape });
+            } else {
+                // Nothing to commit, drop the preview
+                const canvas = layerCanvasesRef.current.get(draft.layerId);
+                const layer = layers.find(l => l.id === draft.layerId);
+                if (canvas && layer) {
+                    renderShapes(canvas, layer.shapes);
+                    renderedShapesRef.current.set(canvas, layer.shapes);
+                }
             }
         }
     };
@@ -227,7 +305,7 @@ export const useEditorCanvas = (containerRef: React.RefObject<HTMLDivElement>) =
     };
 
     const zoomReset = () => {
-        if (image) initCanvas(image);
+        if (image) fitView(image.width, image.height);
         else {
             setScale(1);
             setOffset({ x: 0, y: 0 });
@@ -243,10 +321,20 @@ export const useEditorCanvas = (containerRef: React.RefObject<HTMLDivElement>) =
         }
     }
 
+    const commitText = (text: string) => {
+        const draft = textDraftRef.current;
+        if (draft && text.trim()) {
+            execute({ type: 'addShape', layerId: draft.layerId, shape: { ...draft.shape, text } });
+        }
+        setTextDraft(null);
+    };
+
+    const cancelText = () => setTextDraft(null);
+
     const resetCanvas = () => {
         setImage(null);
-        setHistoryStates([]);
-        setHistoryIndex(-1);
+        setTextDraft(null);
+        draftRef.current = null;
     };
 
     // Attach passive: false wheel listener
@@ -263,16 +351,23 @@ export const useEditorCanvas = (containerRef: React.RefObject<HTMLDivElement>) =
     }, [handleWheel, containerRef]);
 
     return {
-        canvasRef,
+        stageRef,
+        registerLayerCanvas,
         image,
         setImage,
-        historyIndex,
-        historyStates,
         handleMouseDown,
         handleMouseMove,
         handleMouseUp,
         initCanvas,
         resetCanvas,
+        restoreSession,
+        expandDocument,
+        branchFromVersion,
+        textDraft,
+        commitText,
+        cancelText,
+        addAnnotationLayer,
+        addResultLayer,
         undo,
         redo,
         zoomIn,
@@ -3,22 +3,22 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useEditorStore } from '../store/editorStore';
 import { useAppStore } from '../store/appStore';
-import { fetchBlob, downloadImage, getTextModelConfig, getEditModelConfig, getCustomProviders } from '../services/utils';
+import { fetchBlob, downloadImage, getTextModelConfig, getEditModelConfig } from '../services/utils';
 import { translations } from '../translations';
-import { editImageQwen } from '../services/hfService';
-import { editImageGitee, optimizePromptGitee } from '../services/giteeService';
-import { editImageMS, optimizePromptMS } from '../services/msService';
-import { editImageCustom, optimizePromptCustom } from '../services/customService';
+import { getProvider, editWithProvider, optimizePromptWithProvider, supportsMaskedEdit } from '../services/providerRegistry';
 import { optimizeEditPrompt, getExtensionFromUrl } from '../services/utils';
 import { saveTempFileToOPFS } from '../services/storageService';
+import { createAlphaMask, createBinaryMaskBlob, compositeMasked } from '../services/inpaintMask';
+import { flattenLayers, hasVisibleAnnotations } from '../services/editorDocument';
+import { createPaddedCanvas, createPaddingMask } from '../services/outpaint';
+import { createVersion } from '../services/versionTree';
+import { EditVersion, GeneratedImage, OutpaintPadding, TaskProgress } from '../types';
 
 export const useEditorGeneration = (
     image: HTMLImageElement | null, 
-    canvasRef: React.RefObject<HTMLCanvasElement>,
-    historyIndex: number,
     handleUploadToS3?: (blob: Blob, fileName: string, metadata?: any) => Promise<void>
 ) => {
-    const { prompt, setPrompt, attachedImages } = useEditorStore();
+    const { prompt, setPrompt, attachedImages, inpaintMode, layers, currentVersionId, addVersion, outpaintPadding } = useEditorStore();
     const { language, provider, isUploading } = useAppStore();
     const t = translations[language];
 
@@ -26,7 +26,14 @@ export const useEditorGeneration = (
     const [generatedResult, setGeneratedResult] = useState<string | null>(null);
     const [isOptimizing, setIsOptimizing] = useState(false);
     const [elapsedTime, setElapsedTime] = useState(0);
+    const [progress, setProgress] = useState<TaskProgress | null>(null); // Reported by the edit provider
     const [isDownloading, setIsDownloading] = useState(false);
+    // Set when the shown result is a canvas expansion, previewUrl is the padded input
+    const [expansion, setExpansion] = useState<{ padding: OutpaintPadding; previewUrl: string } | null>(null);
+    // Shown in the expand panel, cleared once the padding changes
+    const [outpaintError, setOutpaintError] = useState<string | null>(null);
+    // Version tree node of the shown result
+    const [resultVersionId, setResultVersionId] = useState<string | null>(null);
     const abortControllerRef = useRef<AbortController | null>(null);
 
     // Timer
@@ -34,6 +41,7 @@ export const useEditorGeneration = (
         let interval: ReturnType<typeof setInterval>;
         if (isGenerating) {
             setElapsedTime(0);
+            setProgress(null);
             const startTime = Date.now();
             interval = setInterval(() => {
                 setElapsedTime((Date.now() - startTime) / 1000);
@@ -46,17 +54,20 @@ export const useEditorGeneration = (
         return () => abortControllerRef.current?.abort();
     }, []);
 
-    // Helper: Merge Original + Canvas
-    const getMergedLayer = (): HTMLCanvasElement | null => {
-        if (!image || !canvasRef.current) return null;
-        const canvas = document.createElement('canvas');
-        canvas.width = image.naturalWidth;
-        canvas.height = image.naturalHeight;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return null;
-        ctx.drawImage(image, 0, 0);
-        ctx.drawImage(canvasRef.current, 0, 0);
-        return canvas;
+    useEffect(() => {
+        if (generatedResult) return;
+        setExpansion(null);
+        setResultVersionId(null);
+    }, [generatedResult]);
+
+    useEffect(() => {
+        setOutpaintError(null);
+    }, [outpaintPadding]);
+
+    // Helper: Flatten the visible layers
+    const getMergedLayer = async (): Promise<HTMLCanvasElement | null> => {
+        if (!image) return null;
+        return flattenLayers(layers, image.naturalWidth, image.naturalHeight);
     };
 
     const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> => {
@@ -68,6 +79,44 @@ export const useEditorGeneration = (
         });
     };
 
+    // Cache result to OPFS and use local Object URL.
+    // With a mask, pixels outside it are taken from the source unchanged.
+    const cacheResult = async (url: string, source?: HTMLImageElement | HTMLCanvasElement, alphaMask?: HTMLCanvasElement | null): Promise<{ url: string; fileName?: string }> => {
+        try {
+            let blob = await fetchBlob(url);
+            if (source && alphaMask) blob = await compositeMasked(source, blob, alphaMask);
+            const fileName = `edit-${Date.now()}.png`; 
+            await saveTempFileToOPFS(blob, fileName);
+            return { url: URL.createObjectURL(blob), fileName };
+        } catch (e) {
+            console.warn("Failed to cache edited image", e);
+            return { url };
+        }
+    };
+
+    // Every result is kept as a child of the version it was made from
+    const showResult = (
+        cached: { url: string; fileName?: string },
+        result: GeneratedImage,
+        kind: EditVersion['kind'],
+        config: { provider: EditVersion['provider']; model: string }
+    ) => {
+        const version = createVersion({
+            parentId: currentVersionId,
+            kind,
+            url: cached.url,
+            fileName: cached.fileName,
+            prompt,
+            referenceImages: kind === 'edit' ? attachedImages : [],
+            seed: result.seed,
+            provider: config.provider,
+            model: config.model
+        });
+        addVersion(version);
+        setResultVersionId(version.id);
+        setGeneratedResult(cached.url);
+    };
+
     const scaleToConstraints = (w: number, h: number, maxVal: number = 2048) => {
         let width = w;
         let height = h;
@@ -94,7 +143,7 @@ export const useEditorGeneration = (
         if (!image || !prompt.trim()) return;
         setIsOptimizing(true);
         try {
-            const mergedCanvas = getMergedLayer();
+            const mergedCanvas = await getMergedLayer();
             if (!mergedCanvas) throw new Error("Could not get image data");
             
             // Resize for vision analysis
@@ -117,20 +166,11 @@ export const useEditorGeneration = (
             const textConfig = getTextModelConfig();
             let optimized = '';
 
-            if (textConfig.provider === 'huggingface') {
+            // Hugging Face (and unknown providers) get the vision-aware prompt with the merged image
+            if (textConfig.provider === 'huggingface' || !getProvider(textConfig.provider)) {
                  optimized = await optimizeEditPrompt(base64, prompt, textConfig.model);
-            } else if (textConfig.provider === 'gitee') {
-                 optimized = await optimizePromptGitee(prompt, textConfig.model);
-            } else if (textConfig.provider === 'modelscope') {
-                 optimized = await optimizePromptMS(prompt, textConfig.model);
             } else {
-                 const customProviders = getCustomProviders();
-                 const activeCustom = customProviders.find(p => p.id === textConfig.provider);
-                 if (activeCustom) {
-                     optimized = await optimizePromptCustom(activeCustom, textConfig.model, prompt);
-                 } else {
-                     optimized = await optimizeEditPrompt(base64, prompt, textConfig.model);
-                 }
+                 optimized = await optimizePromptWithProvider(textConfig.provider, textConfig.model, prompt);
             }
 
             if (optimized) setPrompt(optimized);
@@ -154,21 +194,31 @@ export const useEditorGeneration = (
         try {        
             const maxDimension = 2048;
             const { width, height } = scaleToConstraints(image.naturalWidth, image.naturalHeight, maxDimension);
-            const hasDrawings = historyIndex > 0;
+            const hasDrawings = hasVisibleAnnotations(layers);
             const imageBlobs: Blob[] = [];
             let promptSuffix = `\n${t.prompt_original_image}`;
             let currentImageIndexInAPI = 1;
             
-            const originalBlob = await fetchBlob(image.src);
+            // Visible result layers are part of the picture being edited, annotations never are
+            const hasResultLayers = layers.some(l => l.kind === 'result' && l.visible && l.opacity > 0);
+            const sourceCanvas = hasResultLayers ? await flattenLayers(layers, image.naturalWidth, image.naturalHeight, ['base', 'result']) : null;
+            const originalBlob = sourceCanvas ? await canvasToBlob(sourceCanvas) : await fetchBlob(image.src);
             imageBlobs.push(originalBlob);
+
+            const config = getEditModelConfig();
+            // In inpaint mode the strokes are a mask: the result only replaces the painted area
+            const annotationCanvas = inpaintMode && hasDrawings ? await flattenLayers(layers, image.naturalWidth, image.naturalHeight, ['annotation']) : null;
+            const alphaMask = annotationCanvas ? createAlphaMask(annotationCanvas) : null;
+            const maskBlob = alphaMask && supportsMaskedEdit(config.provider, config.model) ? await createBinaryMaskBlob(alphaMask) : undefined;
             
-            if (hasDrawings) {
-                const mergedCanvas = getMergedLayer();
+            // Models without mask input see the painted area on a copy of the original instead
+            if (hasDrawings && !maskBlob) {
+                const mergedCanvas = await getMergedLayer();
                 if (mergedCanvas) {
                     const mergedBlob = await canvasToBlob(mergedCanvas);
                     imageBlobs.push(mergedBlob);
                     currentImageIndexInAPI++;
-                    const editLayerDesc = t.prompt_edit_layer.replace('{n}', currentImageIndexInAPI.toString());
+                    const editLayerDesc = (alphaMask ? t.prompt_mask_layer : t.prompt_edit_layer).replace('{n}', currentImageIndexInAPI.toString());
                     promptSuffix += `\n${editLayerDesc}`;
                 }
             }
@@ -183,39 +233,20 @@ export const useEditorGeneration = (
             }
             
             const finalPrompt = prompt + promptSuffix;
-            let result;
 
-            const config = getEditModelConfig();
-            const activeProvider = config.provider;
-
-            if (activeProvider === 'gitee') {
-                result = await editImageGitee(imageBlobs, finalPrompt, width, height, 16, 4, controller.signal);
-            } else if (activeProvider === 'modelscope') {
-                result = await editImageMS(imageBlobs, finalPrompt, width, height, 16, 4, controller.signal);
-            } else if (activeProvider === 'huggingface') {
-                result = await editImageQwen(imageBlobs, finalPrompt, width, height, 4, 1, controller.signal);
-            } else {
-                const customProviders = getCustomProviders();
-                const activeCustom = customProviders.find(p => p.id === activeProvider);
-                if (activeCustom) {
-                    result = await editImageCustom(activeCustom, config.model, imageBlobs, finalPrompt, undefined, undefined, undefined);
-                } else {
-                    result = await editImageQwen(imageBlobs, finalPrompt, width, height, 4, 1, controller.signal);
-                }
-            }
+            const result = await editWithProvider(config.provider, {
+                model: config.model,
+                imageBlobs,
+                prompt: finalPrompt,
+                width,
+                height,
+                mask: maskBlob,
+                signal: controller.signal,
+                onProgress: (p) => { if (!controller.signal.aborted) setProgress(p); }
+            });
             
-            // Cache result to OPFS and use local Object URL
-            let finalUrl = result.url;
-            try {
-                const blob = await fetchBlob(result.url);
-                const fileName = `edit-${Date.now()}.png`; 
-                await saveTempFileToOPFS(blob, fileName);
-                finalUrl = URL.createObjectURL(blob);
-            } catch (e) {
-                console.warn("Failed to cache edited image", e);
-            }
-            
-            setGeneratedResult(finalUrl);
+            setExpansion(null);
+            showResult(await cacheResult(result.url, sourceCanvas || image, alphaMask), result, 'edit', config);
         } catch (e: any) {
             if (e.name !== 'AbortError') {
                 console.error("Generation failed", e);
@@ -226,6 +257,57 @@ export const useEditorGeneration = (
         }
     };
 
+    // Canvas expansion: the image is padded and only the padding is generated
+    const handleOutpaint = async (padding: OutpaintPadding) => {
+        if (isGenerating) {
+            abortControllerRef.current?.abort();
+            setIsGenerating(false);
+            return;
+        }
+        if (!image) return;
+        setIsGenerating(true);
+        setOutpaintError(null);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        try {
+            // Annotations are instructions, they are not extended into the new area
+            const source = await flattenLayers(layers, image.naturalWidth, image.naturalHeight, ['base', 'result']);
+            if (!source) throw new Error("Could not get image data");
+            const padded = createPaddedCanvas(source, source.width, source.height, padding);
+            const alphaMask = createPaddingMask(source.width, source.height, padding);
+
+            const config = getEditModelConfig();
+            const maskBlob = supportsMaskedEdit(config.provider, config.model) ? await createBinaryMaskBlob(alphaMask) : undefined;
+            const { width, height } = scaleToConstraints(padded.width, padded.height, 2048);
+            const instruction = maskBlob ? t.prompt_outpaint_mask : t.prompt_outpaint;
+            const finalPrompt = `${prompt.trim() || t.outpaint_default_prompt}\n${instruction}`;
+
+            const result = await editWithProvider(config.provider, {
+                model: config.model,
+                imageBlobs: [await canvasToBlob(padded)],
+                prompt: finalPrompt,
+                width,
+                height,
+                mask: maskBlob,
+                signal: controller.signal,
+                onProgress: (p) => { if (!controller.signal.aborted) setProgress(p); }
+            });
+
+            const cached = await cacheResult(result.url, padded, alphaMask);
+            setExpansion({ padding, previewUrl: padded.toDataURL('image/png') });
+            showResult(cached, result, 'expand', config);
+        } catch (e: any) {
+            setExpansion(null);
+            if (e.name !== 'AbortError') {
+                console.error("Outpainting failed", e);
+                setOutpaintError((t as any)[e.message] || e.message || t.generationFailed);
+            }
+        } finally {
+            setIsGenerating(false);
+            abortControllerRef.current = null;
+        }
+    };
+
     const handleDownloadResult = async (url: string, isSourceNSFW: boolean) => {
         setIsDownloading(true);
         try {
@@ -236,7 +318,7 @@ export const useEditorGeneration = (
                 base += '.NSFW';
             }
             fileName = base + ext;
-            await downloadImage(url, fileName);
+            await downloadImage(url, fileName, { prompt, ...getEditModelConfig() });
         } catch (e) {
             console.error("Download failed", e);
             window.open(url, '_blank');
@@ -279,9 +361,14 @@ export const useEditorGeneration = (
         isDownloading,
         isUploading,
         elapsedTime,
+        progress,
         generatedResult,
         setGeneratedResult,
+        expansion,
+        outpaintError,
+        resultVersionId,
         handleGenerate,
+        handleOutpaint,
         handleOptimize,
         handleDownloadResult,
         onCloudUpload,
@@ -0,0 +1,110 @@
+
+import { useState } from 'react';
+import { useEditorStore } from '../store/editorStore';
+import { useAppStore } from '../store/appStore';
+import { translations } from '../translations';
+import { EditVersion, GeneratedImage } from '../types';
+import { fetchBlob, generateUUID } from '../services/utils';
+import { saveTempFileToOPFS } from '../services/storageService';
+import { getLineage } from '../services/versionTree';
+import { loadImageElement } from '../services/editorDocument';
+
+// Exports version tree nodes to history and the cloud gallery, each with its lineage.
+// The source image is part of the lineage but never exported itself.
+export const useEditorVersions = (
+    handleUploadToS3?: (blob: Blob, fileName: string, metadata?: any) => Promise<void>
+) => {
+    const { versions } = useEditorStore();
+    const { setHistory, language } = useAppStore();
+    const t = translations[language];
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
+
+    const getExportable = (ids: string[]) => {
+        return ids
+            .map(id => versions.find(v => v.id === id))
+            .filter((v): v is EditVersion => !!v && v.kind !== 'source');
+    };
+
+    const toGeneratedImage = async (version: EditVersion): Promise<GeneratedImage> => {
+        const img = await loadImageElement(version.url);
+        let fileName = version.fileName;
+        // Results that could not be cached when they were made are cached now, so history survives a reload
+        if (!fileName) {
+            fileName = `edit-${version.id}.png`;
+            await saveTempFileToOPFS(await fetchBlob(version.url), fileName);
+        }
+        return {
+            id: generateUUID(),
+            url: version.url,
+            prompt: version.prompt,
+            aspectRatio: 'custom',
+            timestamp: version.timestamp,
+            model: version.model || '',
+            seed: version.seed,
+            provider: version.provider,
+            width: img.naturalWidth,
+            height: img.naturalHeight,
+            fileName,
+            lineage: getLineage(versions, version.id)
+        };
+    };
+
+    const exportToHistory = async (ids: string[]) => {
+        if (isExporting) return;
+        setIsExporting(true);
+        setExportError(null);
+        try {
+            const exported = new Set(useAppStore.getState().history.map(h => h.lineage?.versionId).filter(Boolean));
+            const items: GeneratedImage[] = [];
+            for (const version of getExportable(ids)) {
+                if (exported.has(version.id)) continue;
+                items.push(await toGeneratedImage(version));
+            }
+            // Newest first, like every other history entry
+            if (items.length > 0) setHistory(prev => [...items.reverse(), ...prev]);
+        } catch (e: any) {
+            console.error("Failed to export versions to history", e);
+            setExportError((t as any)[e.message] || e.message);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const exportToCloud = async (ids: string[], isSourceNSFW: boolean) => {
+        if (isExporting || !handleUploadToS3) return;
+        setIsExporting(true);
+        setExportError(null);
+        try {
+            for (const version of getExportable(ids)) {
+                const blob = await fetchBlob(version.url);
+                const img = await loadImageElement(version.url);
+                let fileName = `edited-${version.timestamp}-${version.id.slice(0, 8)}`;
+                if (isSourceNSFW) fileName += '.NSFW';
+                fileName += '.png';
+                await handleUploadToS3(blob, fileName, {
+                    prompt: version.prompt,
+                    provider: version.provider,
+                    model: version.model,
+                    seed: version.seed,
+                    timestamp: version.timestamp,
+                    width: img.naturalWidth,
+                    height: img.naturalHeight,
+                    lineage: getLineage(versions, version.id)
+                });
+            }
+        } catch (e: any) {
+            console.error("Failed to export versions to cloud", e);
+            setExportError((t as any)[e.message] || e.message);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return {
+        isExporting,
+        exportError,
+        exportToHistory,
+        exportToCloud
+    };
+};
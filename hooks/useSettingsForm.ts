@@ -2,27 +2,32 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAppStore } from '../store/appStore';
 import { 
-    S3Config, WebDAVConfig, StorageType, CustomProvider, RemoteModelList, ServiceMode, VideoSettings, UnifiedModelOption, ProviderId 
+    S3Config, WebDAVConfig, StorageType, CustomProvider, RemoteModelList, ServiceMode, VideoSettings, UnifiedModelOption, ProviderId, PromptStyle, RetentionPolicy, FailoverSettings 
 } from '../types';
 import {
     getSystemPromptContent, saveSystemPromptContent, DEFAULT_SYSTEM_PROMPT_CONTENT,
     getTranslationPromptContent, saveTranslationPromptContent, DEFAULT_TRANSLATION_SYSTEM_PROMPT,
+    getPromptStyles, savePromptStyles,
     getVideoSettings, saveVideoSettings, DEFAULT_VIDEO_SETTINGS,
     getEditModelConfig, saveEditModelConfig,
     getLiveModelConfig, saveLiveModelConfig,
     getTextModelConfig, saveTextModelConfig,
     getUpscalerModelConfig, saveUpscalerModelConfig,
     getCustomProviders, addCustomProvider, removeCustomProvider, saveCustomProviders,
+    getFailoverSettings, saveFailoverSettings,
     generateUUID, getServiceMode, saveServiceMode
 } from '../services/utils';
 import { transformModelList } from '../services/customService';
 import {
     getS3Config, saveS3Config, DEFAULT_S3_CONFIG,
     getWebDAVConfig, saveWebDAVConfig, DEFAULT_WEBDAV_CONFIG,
-    getStorageType, saveStorageType,
+    getConfiguredStorageType, saveStorageType,
+    getSyncEnabled, saveSyncEnabled,
+    getRetentionPolicy, saveRetentionPolicy,
     testWebDAVConnection, testS3Connection, clearOPFS
 } from '../services/storageService';
-import { HF_MODEL_OPTIONS, GITEE_MODEL_OPTIONS, MS_MODEL_OPTIONS, A4F_MODEL_OPTIONS, EDIT_MODELS, LIVE_MODELS, TEXT_MODELS, UPSCALER_MODELS } from '../constants';
+import { HF_MODEL_OPTIONS, EDIT_MODELS, LIVE_MODELS, TEXT_MODELS, UPSCALER_MODELS, DEFAULT_RETENTION_POLICY, DEFAULT_FAILOVER_SETTINGS } from '../constants';
+import { BUILTIN_PROVIDERS } from '../services/providerRegistry';
 
 export const useSettingsForm = (isOpen: boolean, onClose: () => void) => {
     const { 
@@ -43,6 +48,7 @@ export const useSettingsForm = (isOpen: boolean, onClose: () => void) => {
     const [msStats, setMsStats] = useState({ total: 0, active: 0, exhausted: 0 });
     const [a4fToken, setA4FToken] = useState('');
     const [a4fStats, setA4FStats] = useState({ total: 0, active: 0, exhausted: 0 });
+    const [failover, setFailover] = useState<FailoverSettings>(DEFAULT_FAILOVER_SETTINGS);
 
     // Custom Providers
     const [customProviders, setCustomProviders] = useState<CustomProvider[]>([]);
@@ -50,14 +56,16 @@ export const useSettingsForm = (isOpen: boolean, onClose: () => void) => {
     const [newProviderUrl, setNewProviderUrl] = useState('');
     const [newProviderToken, setNewProviderToken] = useState('');
     const [fetchStatus, setFetchStatus] = useState<'idle' | 'loading' | 'success' | 'failed'>('idle');
+    const [fetchError, setFetchError] = useState('');
     const [fetchedModels, setFetchedModels] = useState<RemoteModelList | null>(null);
     const [refreshingProviders, setRefreshingProviders] = useState<Record<string, boolean>>({});
     const [refreshSuccessProviders, setRefreshSuccessProviders] = useState<Record<string, boolean>>({});
-    const [refreshErrorProviders, setRefreshErrorProviders] = useState<Record<string, boolean>>({});
+    const [refreshErrorProviders, setRefreshErrorProviders] = useState<Record<string, string>>({}); // Error message per provider
 
     // Prompts
     const [systemPrompt, setSystemPrompt] = useState('');
     const [translationPrompt, setTranslationPrompt] = useState('');
+    const [promptStyles, setPromptStyles] = useState<PromptStyle[]>([]);
 
     // Unified Models
     const [creationModelValue, setCreationModelValue] = useState<string>('');
@@ -73,6 +81,8 @@ export const useSettingsForm = (isOpen: boolean, onClose: () => void) => {
     const [storageType, setStorageType] = useState<StorageType>('opfs');
     const [s3Config, setS3Config] = useState<S3Config>(DEFAULT_S3_CONFIG);
     const [webdavConfig, setWebdavConfig] = useState<WebDAVConfig>(DEFAULT_WEBDAV_CONFIG);
+    const [retentionPolicy, setRetentionPolicy] = useState<RetentionPolicy>(DEFAULT_RETENTION_POLICY);
+    const [syncEnabled, setSyncEnabled] = useState(false);
     
     // Testing
     const [testWebDAVResult, setTestWebDAVResult] = useState<{ success: boolean; message: string } | null>(null);
@@ -95,23 +105,22 @@ export const useSettingsForm = (isOpen: boolean, onClose: () => void) => {
     const performModelRefresh = async (p: CustomProvider) => {
         setRefreshingProviders(prev => ({ ...prev, [p.id]: true }));
         setRefreshSuccessProviders(prev => ({ ...prev, [p.id]: false }));
-        setRefreshErrorProviders(prev => ({ ...prev, [p.id]: false }));
+        setRefreshErrorProviders(prev => ({ ...prev, [p.id]: '' }));
         
         try {
             const url = p.apiUrl.replace(/\/$/, '') + '/v1/models';
             const headers: Record<string, string> = {};
             if (p.token) headers['Authorization'] = `Bearer ${p.token}`;
             const response = await fetch(url, { headers });
-            if (!response.ok) throw new Error('Fetch failed');
-            const rawData = await response.json();
-            const transformedData = transformModelList(rawData);
+            if (!response.ok) throw new Error('error_api_connection');
+            const transformedData = transformModelList(await response.json().catch(() => null));
             
             setCustomProviders(prev => prev.map(cp => cp.id === p.id ? { ...cp, models: transformedData } : cp));
             setRefreshSuccessProviders(prev => ({ ...prev, [p.id]: true }));
             setTimeout(() => setRefreshSuccessProviders(prev => ({ ...prev, [p.id]: false })), 2500);
         } catch (e) {
             console.error(`Failed to refresh models for ${p.name}`, e);
-            setRefreshErrorProviders(prev => ({ ...prev, [p.id]: true }));
+            setRefreshErrorProviders(prev => ({ ...prev, [p.id]: (e as Error).message }));
         } finally {
             setRefreshingProviders(prev => ({ ...prev, [p.id]: false }));
         }
@@ -139,6 +148,8 @@ export const useSettingsForm = (isOpen: boolean, onClose: () => void) => {
             setA4FToken(aTokens.join(','));
             setA4FStats(calculateStats(aTokens, 'a4f'));
 
+            setFailover(getFailoverSettings());
+
             const initProviders = getCustomProviders();
             setCustomProviders(initProviders);
 
@@ -151,12 +162,15 @@ export const useSettingsForm = (isOpen: boolean, onClose: () => void) => {
 
             setSystemPrompt(getSystemPromptContent());
             setTranslationPrompt(getTranslationPromptContent());
+            setPromptStyles(getPromptStyles());
 
             setVideoSettings(getVideoSettings(provider));
 
-            setStorageType(getStorageType());
+            setStorageType(getConfiguredStorageType());
+            setSyncEnabled(getSyncEnabled());
             setS3Config(getS3Config());
             setWebdavConfig(getWebDAVConfig());
+            setRetentionPolicy(getRetentionPolicy());
             
             setTestWebDAVResult(null);
             setTestS3Result(null);
@@ -183,6 +197,7 @@ export const useSettingsForm = (isOpen: boolean, onClose: () => void) => {
             setNewProviderToken('');
             setFetchedModels(null);
             setFetchStatus('idle');
+            setFetchError('');
             setRefreshErrorProviders({});
             setRefreshSuccessProviders({});
             setRefreshingProviders({});
@@ -214,12 +229,9 @@ export const useSettingsForm = (isOpen: boolean, onClose: () => void) => {
             return Array.from(valid);
         };
 
-        const baseCreationList: UnifiedModelOption[] = [
-            ...HF_MODEL_OPTIONS.map(m => ({ label: m.label, value: `huggingface:${m.value}`, provider: 'huggingface' as any })),
-            ...GITEE_MODEL_OPTIONS.map(m => ({ label: m.label, value: `gitee:${m.value}`, provider: 'gitee' as any })),
-            ...MS_MODEL_OPTIONS.map(m => ({ label: m.label, value: `modelscope:${m.value}`, provider: 'modelscope' as any })),
-            ...A4F_MODEL_OPTIONS.map(m => ({ label: m.label, value: `a4f:${m.value}`, provider: 'a4f' as any }))
-        ];
+        const baseCreationList: UnifiedModelOption[] = BUILTIN_PROVIDERS.flatMap(p => 
+            (p.models.generate || []).map(m => ({ label: m.label, value: `${p.id}:${m.value}`, provider: p.id }))
+        );
         
         const validCreation = getValidValues('generate', baseCreationList);
         if (validCreation.length > 0 && (!creationModelValue || !validCreation.includes(creationModelValue))) {
@@ -266,19 +278,20 @@ export const useSettingsForm = (isOpen: boolean, onClose: () => void) => {
     const handleFetchCustomModels = async () => {
         if (!newProviderUrl) return;
         setFetchStatus('loading');
+        setFetchError('');
         try {
             const url = newProviderUrl.replace(/\/$/, '') + '/v1/models';
             const headers: Record<string, string> = {};
             if (newProviderToken) headers['Authorization'] = `Bearer ${newProviderToken}`;
             const response = await fetch(url, { headers });
-            if (!response.ok) throw new Error('Fetch failed');
-            const rawData = await response.json();
-            const transformedData = transformModelList(rawData);
+            if (!response.ok) throw new Error('error_api_connection');
+            const transformedData = transformModelList(await response.json().catch(() => null));
             setFetchedModels(transformedData);
             setFetchStatus('success');
         } catch (e) {
             console.error("Failed to fetch models", e);
             setFetchStatus('failed');
+            setFetchError((e as Error).message);
             setFetchedModels(null);
         }
     };
@@ -311,6 +324,7 @@ export const useSettingsForm = (isOpen: boolean, onClose: () => void) => {
         setNewProviderUrl('');
         setNewProviderToken('');
         setFetchStatus('idle');
+        setFetchError('');
         setFetchedModels(null);
     };
 
@@ -378,14 +392,18 @@ export const useSettingsForm = (isOpen: boolean, onClose: () => void) => {
         setProviderTokens('gitee', giteeToken);
         setProviderTokens('modelscope', msToken);
         setProviderTokens('a4f', a4fToken);
+        saveFailoverSettings(failover);
         
         saveSystemPromptContent(systemPrompt);
         saveTranslationPromptContent(translationPrompt);
+        savePromptStyles(promptStyles);
         saveVideoSettings(provider, videoSettings);
         
         saveStorageType(storageType);
+        saveSyncEnabled(syncEnabled);
         saveS3Config(s3Config);
         saveWebDAVConfig(webdavConfig);
+        saveRetentionPolicy(retentionPolicy);
 
         saveEditModelConfig(editModelValue);
         saveLiveModelConfig(liveModelValue);
@@ -429,23 +447,28 @@ export const useSettingsForm = (isOpen: boolean, onClose: () => void) => {
         activeTab, setActiveTab,
         serviceMode, handleServiceModeChange,
         storageType, setStorageType,
+        retentionPolicy, setRetentionPolicy,
+        syncEnabled, setSyncEnabled,
         
         token, stats, 
         giteeToken, giteeStats, 
         msToken, msStats, 
         a4fToken, a4fStats, 
         updateToken,
+        failover, setFailover,
 
         customProviders, handleUpdateCustomProvider, handleDeleteCustomProvider, handleRefreshCustomModels, refreshingProviders, refreshSuccessProviders, refreshErrorProviders,
-        newProviderName, setNewProviderName, newProviderUrl, setNewProviderUrl, newProviderToken, setNewProviderToken, fetchStatus, fetchedModels, handleFetchCustomModels, handleAddCustomProvider,
+        newProviderName, setNewProviderName, newProviderUrl, setNewProviderUrl, newProviderToken, setNewProviderToken, fetchStatus, fetchError, fetchedModels, handleFetchCustomModels, handleAddCustomProvider,
         handleClearAddForm: () => {
             setNewProviderName('');
             setNewProviderUrl('');
             setNewProviderToken('');
             setFetchedModels(null);
             setFetchStatus('idle');
+            setFetchError('');
         },
         systemPrompt, setSystemPrompt, translationPrompt, setTranslationPrompt,
+        promptStyles, setPromptStyles,
         creationModelValue, setCreationModelValue,
         editModelValue, setEditModelValue,
         liveModelValue, setLiveModelValue,
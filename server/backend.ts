@@ -0,0 +1,28 @@
+import { RemoteModel } from "../types";
+import {
+    EditBody,
+    EditResponse,
+    GenerateBody,
+    GenerateResponse,
+    TaskStatusResponse,
+    TextBody,
+    UpscaleBody,
+    VideoBody,
+    VideoResponse
+} from "../services/customProtocol";
+
+/**
+ * What the HTTP handler serves the protocol from. Errors are thrown as `new Error("error_key")`
+ * like in the app, and the handler turns the key into a status code and a plain text body.
+ * Request bodies reach the backend already checked against the protocol schemas.
+ */
+export interface ServerBackend {
+    name: string;
+    listModels: () => Promise<RemoteModel[]>;
+    generate: (body: GenerateBody, signal?: AbortSignal) => Promise<GenerateResponse>;
+    edit: (body: EditBody, signal?: AbortSignal) => Promise<EditResponse>;
+    createVideo: (body: VideoBody) => Promise<VideoResponse>;
+    getTaskStatus: (taskId: string) => Promise<TaskStatusResponse>;
+    optimizePrompt: (body: TextBody) => Promise<string>;
+    upscale: (body: UpscaleBody) => Promise<string>;
+}
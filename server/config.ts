@@ -0,0 +1,32 @@
+import { createHandler, RequestHandler } from "./handler";
+import { createMockBackend } from "./mockBackend";
+import { createProviderBackend } from "./providerBackend";
+
+/**
+ * Environment variables shared by every entry:
+ * - SERVER_BACKEND: "providers" (default) or "mock"
+ * - ACCESS_PASSWORD: Bearer password clients must send; unset leaves the server open
+ * - HF_TOKENS, GITEE_TOKENS, MODELSCOPE_TOKENS, A4F_TOKENS: comma separated, like in the settings
+ * - FAILOVER: "false" keeps each model on its first provider when quota runs out
+ */
+export type ServerEnv = Record<string, string | undefined>;
+
+export const createHandlerFromEnv = (env: ServerEnv): RequestHandler => {
+    const backend = env.SERVER_BACKEND === 'mock'
+        ? createMockBackend()
+        : createProviderBackend(
+            {
+                huggingface: env.HF_TOKENS,
+                gitee: env.GITEE_TOKENS,
+                modelscope: env.MODELSCOPE_TOKENS,
+                a4f: env.A4F_TOKENS
+            },
+            { failover: env.FAILOVER !== 'false' }
+        );
+
+    if (!env.ACCESS_PASSWORD) {
+        console.warn("ACCESS_PASSWORD is not set, the server accepts requests from anyone");
+    }
+    console.log(`Serving the /v1 protocol from the ${backend.name} backend`);
+    return createHandler({ backend, accessPassword: env.ACCESS_PASSWORD });
+};
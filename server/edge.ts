@@ -0,0 +1,19 @@
+import { createHandlerFromEnv, ServerEnv } from './config';
+import { RequestHandler } from './handler';
+
+// Entry for fetch-style runtimes such as Cloudflare Workers, Deno or Vercel Edge.
+// Workers pass their bindings as `env`; elsewhere the process environment is used if there is one.
+
+let handler: RequestHandler | null = null;
+
+const getProcessEnv = (): ServerEnv => {
+    return typeof process !== 'undefined' ? process.env : {};
+};
+
+export default {
+    fetch: (request: Request, env?: ServerEnv): Promise<Response> => {
+        // Token rotation state lives in the backend, so it is created once per isolate
+        handler ??= createHandlerFromEnv(env ?? getProcessEnv());
+        return handler(request);
+    }
+};
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHandler, RequestHandler } from './handler';
+import { createMockBackend } from './mockBackend';
+import { PROTOCOL_VERSION } from '../services/customProtocol';
+
+const BASE = 'http://localhost';
+const PASSWORD = 'secret';
+
+const get = (path: string, headers: Record<string, string> = {}) => new Request(`${BASE}${path}`, { headers });
+
+const post = (path: string, body: unknown, headers: Record<string, string> = {}) => new Request(`${BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+});
+
+const expectError = async (response: Response, status: number, message: string) => {
+    expect(response.status).toBe(status);
+    expect(await response.text()).toBe(message);
+};
+
+describe('createHandler with the mock backend', () => {
+    let handle: RequestHandler;
+
+    beforeEach(() => {
+        handle = createHandler({ backend: createMockBackend() });
+    });
+
+    it('answers CORS preflights without authentication', async () => {
+        const secured = createHandler({ backend: createMockBackend(), accessPassword: PASSWORD });
+        const response = await secured(new Request(`${BASE}/v1/generate`, { method: 'OPTIONS' }));
+        expect(response.status).toBe(204);
+        expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    });
+
+    it('lists the models with the protocol version', async () => {
+        const response = await handle(get('/v1/models'));
+        expect(response.status).toBe(200);
+        const body = await response.json();
+        expect(body.protocolVersion).toBe(PROTOCOL_VERSION);
+        expect(body.models.map((m: { id: string }) => m.id)).toEqual(['mock-image', 'mock-edit', 'mock-video', 'mock-text', 'mock-upscaler']);
+    });
+
+    it('serves the /api prefix and trailing slashes of the app server mode', async () => {
+        expect((await handle(get('/api/v1/models'))).status).toBe(200);
+        expect((await handle(get('/v1/models/'))).status).toBe(200);
+    });
+
+    it('answers unknown routes with 404', async () => {
+        await expectError(await handle(get('/v1/nothing')), 404, 'error_not_found');
+        await expectError(await handle(post('/v1/models', {})), 404, 'error_not_found');
+    });
+
+    describe('authentication', () => {
+        beforeEach(() => {
+            handle = createHandler({ backend: createMockBackend(), accessPassword: PASSWORD });
+        });
+
+        it('rejects requests without the password', async () => {
+            await expectError(await handle(get('/v1/models')), 401, 'error_unauthorized');
+        });
+
+        it('rejects a wrong password', async () => {
+            await expectError(await handle(get('/v1/models', { Authorization: 'Bearer secreT' })), 401, 'error_unauthorized');
+        });
+
+        it('accepts the password as a bearer token', async () => {
+            expect((await handle(get('/v1/models', { Authorization: `Bearer ${PASSWORD}` }))).status).toBe(200);
+        });
+    });
+
+    describe('POST /v1/generate', () => {
+        it('returns an image sized after the aspect ratio with the parameters it used', async () => {
+            const response = await handle(post('/v1/generate', { model: 'mock-image', prompt: 'a fox', ar: '16:9', seed: 42, steps: 12 }));
+            expect(response.status).toBe(200);
+            const body = await response.json();
+            expect(body).toMatchObject({ width: 1024, height: 576, seed: 42, steps: 12, guidance: 3.5 });
+            expect(body.url).toMatch(/^data:image\/svg\+xml;base64,/);
+        });
+
+        it('rejects an aspect ratio the model does not advertise', async () => {
+            await expectError(await handle(post('/v1/generate', { model: 'mock-image', prompt: 'a fox', ar: '3:2' })), 400, 'error_invalid_request');
+        });
+
+        it('rejects an unknown model', async () => {
+            await expectError(await handle(post('/v1/generate', { model: 'nope', prompt: 'a fox', ar: '1:1' })), 404, 'error_model_not_found');
+        });
+
+        it('names the field that fails the schema', async () => {
+            await expectError(await handle(post('/v1/generate', { model: 'mock-image', ar: '1:1' })), 400, 'prompt: expected a string');
+            await expectError(await handle(post('/v1/generate', { model: 'mock-image', prompt: 'a fox', ar: '1:1', seed: 1.5 })), 400, 'seed: expected an integer');
+        });
+
+        it('rejects a body that is not JSON', async () => {
+            await expectError(await handle(post('/v1/generate', '{ nope')), 400, 'error_invalid_request');
+        });
+    });
+
+    describe('POST /v1/edit', () => {
+        const editRequest = (fields: Record<string, string | Blob>, images: Blob[]) => {
+            const form = new FormData();
+            Object.entries(fields).forEach(([key, value]) => form.append(key, value));
+            images.forEach(image => form.append('image', image));
+            return new Request(`${BASE}/v1/edit`, { method: 'POST', body: form });
+        };
+        const png = () => new Blob([new Uint8Array([137, 80, 78, 71])], { type: 'image/png' });
+
+        it('edits the uploaded images', async () => {
+            const response = await handle(editRequest({ model: 'mock-edit', prompt: 'make it blue', seed: '7', mask: png() }, [png(), png()]));
+            expect(response.status).toBe(200);
+            expect((await response.json()).url).toMatch(/^data:image\/svg\+xml;base64,/);
+        });
+
+        it('requires at least one image', async () => {
+            const response = await handle(editRequest({ model: 'mock-edit', prompt: 'make it blue' }, []));
+            expect(response.status).toBe(400);
+            expect(await response.text()).toMatch(/^images: /);
+        });
+
+        it('converts numeric form fields before validating them', async () => {
+            await expectError(await handle(editRequest({ model: 'mock-edit', prompt: 'x', steps: 'many' }, [png()])), 400, 'steps: expected a number');
+        });
+    });
+
+    describe('video tasks', () => {
+        beforeEach(() => {
+            vi.useFakeTimers();
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('creates a task that reports progress, then the video', async () => {
+            const created = await handle(post('/v1/video', { model: 'mock-video', imageUrl: 'https://example.com/a.png', images: ['https://example.com/b.png'] }));
+            expect(created.status).toBe(200);
+            const { taskId, predict } = await created.json();
+            expect(typeof taskId).toBe('string');
+
+            const running = await (await handle(get(`/v1/task-status?taskId=${taskId}`))).json();
+            expect(running.status).toBe('processing');
+            expect(running.progress.totalSteps).toBe(10);
+
+            vi.advanceTimersByTime(predict * 1000);
+            const done = await (await handle(get(`/v1/task-status?taskId=${taskId}`))).json();
+            expect(done).toEqual({ status: 'success', url: 'https://example.com/a.png' });
+        });
+
+        it('rejects more keyframes than the model advertises', async () => {
+            const images = ['b', 'c', 'd', 'e'].map(name => `https://example.com/${name}.png`);
+            await expectError(await handle(post('/v1/video', { model: 'mock-video', imageUrl: 'https://example.com/a.png', images })), 400, 'error_keyframes_unsupported');
+        });
+
+        it('validates the keyframe list', async () => {
+            await expectError(await handle(post('/v1/video', { model: 'mock-video', imageUrl: 'https://example.com/a.png', images: 'b.png' })), 400, 'images: expected an array');
+        });
+
+        it('needs a known task id', async () => {
+            await expectError(await handle(get('/v1/task-status')), 400, 'error_invalid_request');
+            await expectError(await handle(get('/v1/task-status?taskId=missing')), 404, 'error_task_not_found');
+        });
+    });
+
+    it('optimizes prompts through POST /v1/text', async () => {
+        const response = await handle(post('/v1/text', { model: 'mock-text', prompt: ' a fox ' }));
+        expect(await response.json()).toEqual({ text: 'a fox, cinematic lighting, intricate detail, sharp focus' });
+    });
+
+    it('upscales through POST /v1/upscaler', async () => {
+        const response = await handle(post('/v1/upscaler', { model: 'mock-upscaler', imageUrl: 'https://example.com/a.png' }));
+        expect(await response.json()).toEqual({ url: 'https://example.com/a.png' });
+        await expectError(await handle(post('/v1/upscaler', { model: 'mock-text', imageUrl: 'https://example.com/a.png' })), 404, 'error_model_not_found');
+    });
+});
@@ -0,0 +1,159 @@
+import { ServerBackend } from "./backend";
+import {
+    PROTOCOL_VERSION,
+    Schema,
+    EditBody,
+    ModelListResponse,
+    isProtocolError,
+    generateBodySchema,
+    editBodySchema,
+    videoBodySchema,
+    textBodySchema,
+    upscaleBodySchema
+} from "../services/customProtocol";
+
+// Fetch-style handler for the custom provider protocol. It only relies on the standard
+// Request/Response APIs, so the same code runs under Node (see node.ts) and edge runtimes.
+
+export interface ServerOptions {
+    backend: ServerBackend;
+    accessPassword?: string; // Required as `Authorization: Bearer <password>` on every route when set
+}
+
+export type RequestHandler = (request: Request) => Promise<Response>;
+
+// Providers added from the settings live on another origin than the app
+const CORS_HEADERS: Record<string, string> = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Max-Age': '86400'
+};
+
+// Error keys the app already translates keep their meaning as HTTP statuses
+const ERROR_STATUS: Record<string, number> = {
+    error_unauthorized: 401,
+    error_invalid_request: 400,
+    error_not_found: 404,
+    error_model_not_found: 404,
+    error_keyframes_unsupported: 400,
+    error_task_not_found: 404,
+    error_quota_exhausted: 429,
+    error_gitee_token_exhausted: 429,
+    error_ms_token_exhausted: 429,
+    error_a4f_token_exhausted: 429
+};
+
+const json = (data: unknown, status = 200) => new Response(JSON.stringify(data), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+});
+
+// The client shows the body of a failed request as the error message
+const text = (message: string, status: number) => new Response(message, {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'text/plain; charset=utf-8' }
+});
+
+// Compares without returning early, so response timing doesn't leak the password
+const safeEqual = (a: string, b: string) => {
+    const length = Math.max(a.length, b.length);
+    let diff = a.length ^ b.length;
+    for (let i = 0; i < length; i++) {
+        diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+    }
+    return diff === 0;
+};
+
+const isAuthorized = (request: Request, password?: string) => {
+    if (!password) return true;
+    return safeEqual(request.headers.get('Authorization') || '', `Bearer ${password}`);
+};
+
+// --- Body Parsing ---
+
+// Schema failures are protocol errors, answered with 400 and the offending field
+const readJson = async <T>(request: Request, schema: Schema<T>): Promise<T> => {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        throw new Error("error_invalid_request");
+    }
+    return schema(body, '');
+};
+
+const readEditForm = async (request: Request): Promise<EditBody> => {
+    let form: FormData;
+    try {
+        form = await request.formData();
+    } catch {
+        throw new Error("error_invalid_request");
+    }
+    // Form fields are always text, numbers are converted before the schema sees them
+    const toNumber = (value: FormDataEntryValue | null) => {
+        return typeof value === 'string' && value !== '' ? Number(value) : value;
+    };
+    return editBodySchema({
+        model: form.get('model'),
+        prompt: form.get('prompt'),
+        seed: toNumber(form.get('seed')),
+        steps: toNumber(form.get('steps')),
+        guidance: toNumber(form.get('guidance')),
+        images: form.getAll('image'),
+        mask: form.get('mask')
+    }, '');
+};
+
+// --- Routing ---
+
+const route = async (request: Request, backend: ServerBackend): Promise<Response> => {
+    const url = new URL(request.url);
+    // The app's server mode calls /api/v1/*, providers added by url call <url>/v1/*
+    const path = url.pathname.replace(/^\/api(?=\/v1\/)/, '').replace(/\/+$/, '');
+
+    switch (`${request.method} ${path}`) {
+        case 'GET /v1/models': {
+            const body: ModelListResponse = { protocolVersion: PROTOCOL_VERSION, models: await backend.listModels() };
+            return json(body);
+        }
+        case 'POST /v1/generate':
+            return json(await backend.generate(await readJson(request, generateBodySchema), request.signal));
+        case 'POST /v1/edit':
+            return json(await backend.edit(await readEditForm(request), request.signal));
+        case 'POST /v1/video':
+            return json(await backend.createVideo(await readJson(request, videoBodySchema)));
+        case 'GET /v1/task-status': {
+            const taskId = url.searchParams.get('taskId');
+            if (!taskId) throw new Error("error_invalid_request");
+            return json(await backend.getTaskStatus(taskId));
+        }
+        case 'POST /v1/text':
+            return json({ text: await backend.optimizePrompt(await readJson(request, textBodySchema)) });
+        case 'POST /v1/upscaler':
+            return json({ url: await backend.upscale(await readJson(request, upscaleBodySchema)) });
+        default:
+            throw new Error("error_not_found");
+    }
+};
+
+export const createHandler = ({ backend, accessPassword }: ServerOptions): RequestHandler => {
+    return async (request) => {
+        if (request.method === 'OPTIONS') {
+            return new Response(null, { status: 204, headers: CORS_HEADERS });
+        }
+        if (!isAuthorized(request, accessPassword)) {
+            return text("error_unauthorized", 401);
+        }
+        try {
+            return await route(request, backend);
+        } catch (error: any) {
+            if (error?.name === 'AbortError') return text("Request aborted", 499);
+            if (isProtocolError(error)) return text(error.message, 400);
+            const message = error?.message || "error_api_connection";
+            const status = ERROR_STATUS[message] ?? (error?.status === 429 ? 429 : 502);
+            if (status >= 500) console.error(`${request.method} ${new URL(request.url).pathname} failed`, error);
+            return text(message, status);
+        }
+    };
+};
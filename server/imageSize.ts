@@ -0,0 +1,63 @@
+// Reads pixel dimensions from an image header, since the server has no canvas to decode with.
+// Built-in edit and video endpoints need the source size to pick their output size.
+
+const DEFAULT_SIZE = { width: 1024, height: 1024 };
+
+const readPngSize = (view: DataView) => {
+    // The IHDR chunk always comes first, right after the 8 byte signature
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+};
+
+const readJpegSize = (view: DataView) => {
+    let offset = 2;
+    while (offset + 9 < view.byteLength) {
+        if (view.getUint8(offset) !== 0xFF) return null;
+        const marker = view.getUint8(offset + 1);
+        // Start-of-frame markers, excluding DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+            return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+        }
+        offset += 2 + view.getUint16(offset + 2);
+    }
+    return null;
+};
+
+const readWebpSize = (view: DataView) => {
+    const chunk = String.fromCharCode(view.getUint8(12), view.getUint8(13), view.getUint8(14), view.getUint8(15));
+    if (chunk === 'VP8X') {
+        const read24 = (at: number) => view.getUint8(at) | (view.getUint8(at + 1) << 8) | (view.getUint8(at + 2) << 16);
+        return { width: read24(24) + 1, height: read24(27) + 1 };
+    }
+    if (chunk === 'VP8L') {
+        const bits = view.getUint32(21, true);
+        return { width: (bits & 0x3FFF) + 1, height: ((bits >> 14) & 0x3FFF) + 1 };
+    }
+    if (chunk === 'VP8 ') {
+        return { width: view.getUint16(26, true) & 0x3FFF, height: view.getUint16(28, true) & 0x3FFF };
+    }
+    return null;
+};
+
+export const getImageSize = (buffer: ArrayBuffer): { width: number; height: number } => {
+    const view = new DataView(buffer);
+    if (view.byteLength < 30) return DEFAULT_SIZE;
+    try {
+        let size: { width: number; height: number } | null = null;
+        if (view.getUint32(0) === 0x89504E47) size = readPngSize(view);
+        else if (view.getUint16(0) === 0xFFD8) size = readJpegSize(view);
+        else if (view.getUint32(0) === 0x52494646 && view.getUint32(8) === 0x57454250) size = readWebpSize(view);
+        return size && size.width > 0 && size.height > 0 ? size : DEFAULT_SIZE;
+    } catch {
+        return DEFAULT_SIZE;
+    }
+};
+
+export const fetchImageSize = async (url: string) => {
+    try {
+        const response = await fetch(url);
+        if (!response.ok) return DEFAULT_SIZE;
+        return getImageSize(await response.arrayBuffer());
+    } catch {
+        return DEFAULT_SIZE;
+    }
+};
@@ -0,0 +1,17 @@
+// The app store persists to localStorage. Outside a browser it gets this in-memory stand-in,
+// so token rotation state lasts for the life of the process. Import before the store.
+
+if (typeof globalThis.localStorage === 'undefined') {
+    const items = new Map<string, string>();
+    const storage: Storage = {
+        get length() { return items.size; },
+        key: (index) => Array.from(items.keys())[index] ?? null,
+        getItem: (key) => items.get(key) ?? null,
+        setItem: (key, value) => { items.set(key, String(value)); },
+        removeItem: (key) => { items.delete(key); },
+        clear: () => items.clear()
+    };
+    globalThis.localStorage = storage;
+}
+
+export {};
@@ -0,0 +1,118 @@
+import { AspectRatioOption, RemoteModel } from "../types";
+import { ServerBackend } from "./backend";
+
+// Offline stand-in for real providers, so the protocol and the app's server mode can be tried
+// without tokens or network access. Images are SVG placeholders labelled with the request.
+
+const MOCK_TASK_SECONDS = 5;
+
+// mock-image advertises capabilities, so clients can exercise capability negotiation
+const MOCK_MODELS: RemoteModel[] = [
+    {
+        id: 'mock-image',
+        name: 'Mock Image',
+        type: ['text2image'],
+        steps: { range: [1, 50], default: 9 },
+        guidance: { range: [1, 10], default: 3.5 },
+        capabilities: { aspectRatios: ['1:1', '16:9', '9:16', '4:3', '3:4'], negativePrompt: false, seed: true, maxBatchSize: 4 }
+    },
+    { id: 'mock-edit', name: 'Mock Edit', type: ['image2image', 'inpainting'] },
+    { id: 'mock-video', name: 'Mock Video', type: ['image2video'], capabilities: { maxKeyframes: 4 } },
+    { id: 'mock-text', name: 'Mock Text', type: ['text2text'] },
+    { id: 'mock-upscaler', name: 'Mock Upscaler', type: ['upscaler'] }
+];
+
+const requireModel = (model: string, type: string) => {
+    if (!MOCK_MODELS.some(m => m.id === model && m.type.includes(type))) {
+        throw new Error("error_model_not_found");
+    }
+};
+
+const getMockSize = (ratio: AspectRatioOption, enableHD?: boolean) => {
+    const [w, h] = ratio.split(':').map(Number);
+    const base = enableHD ? 2048 : 1024;
+    if (!w || !h) return { width: base, height: base };
+    return w >= h
+        ? { width: base, height: Math.round(base * h / w) }
+        : { width: Math.round(base * w / h), height: base };
+};
+
+const escapeXml = (text: string) => text.replace(/[<>&'"]/g, c => `&#${c.charCodeAt(0)};`);
+
+// Same seed, same colors: lets clients check that parameters round-trip
+const createPlaceholder = (width: number, height: number, label: string, seed: number) => {
+    const hue = seed % 360;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},60%,35%)"/><stop offset="1" stop-color="hsl(${(hue + 120) % 360},60%,20%)"/></linearGradient></defs>`
+        + `<rect width="100%" height="100%" fill="url(#g)"/>`
+        + `<text x="50%" y="50%" fill="#fff" font-family="sans-serif" font-size="${Math.round(Math.min(width, height) / 24)}" text-anchor="middle">${escapeXml(label.slice(0, 80))}</text>`
+        + `</svg>`;
+    const bytes = new TextEncoder().encode(svg);
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return `data:image/svg+xml;base64,${btoa(binary)}`;
+};
+
+export const createMockBackend = (): ServerBackend => {
+    // Video tasks finish after a fixed delay; there is no real video, so they return the input image
+    const tasks = new Map<string, { createdAt: number; url: string }>();
+
+    return {
+        name: 'mock',
+
+        listModels: async () => MOCK_MODELS,
+
+        generate: async (body) => {
+            requireModel(body.model, 'text2image');
+            const { capabilities } = MOCK_MODELS.find(m => m.id === body.model)!;
+            if (capabilities?.aspectRatios && !capabilities.aspectRatios.includes(body.ar)) throw new Error("error_invalid_request");
+            const { width, height } = getMockSize(body.ar, body.enableHD);
+            const seed = body.seed ?? Math.floor(Math.random() * 2147483647);
+            return {
+                id: crypto.randomUUID(),
+                url: createPlaceholder(width, height, body.prompt, seed),
+                width,
+                height,
+                seed,
+                steps: body.steps ?? 9,
+                guidance: body.guidance ?? 3.5
+            };
+        },
+
+        edit: async (body) => {
+            requireModel(body.model, 'image2image');
+            const label = `${body.mask ? 'Inpaint' : 'Edit'} (${body.images.length}): ${body.prompt}`;
+            return { id: crypto.randomUUID(), url: createPlaceholder(1024, 1024, label, body.seed ?? 0) };
+        },
+
+        createVideo: async (body) => {
+            requireModel(body.model, 'image2video');
+            const { capabilities } = MOCK_MODELS.find(m => m.id === body.model)!;
+            if ((body.images?.length ?? 0) >= (capabilities?.maxKeyframes ?? 1)) throw new Error("error_keyframes_unsupported");
+            const taskId = crypto.randomUUID();
+            tasks.set(taskId, { createdAt: Date.now(), url: body.imageUrl });
+            return { taskId, predict: MOCK_TASK_SECONDS };
+        },
+
+        getTaskStatus: async (taskId) => {
+            const task = tasks.get(taskId);
+            if (!task) throw new Error("error_task_not_found");
+            const elapsed = (Date.now() - task.createdAt) / 1000;
+            if (elapsed < MOCK_TASK_SECONDS) {
+                const totalSteps = 10;
+                return { status: 'processing', progress: { step: Math.floor(elapsed / MOCK_TASK_SECONDS * totalSteps), totalSteps, eta: MOCK_TASK_SECONDS - elapsed } };
+            }
+            return { status: 'success', url: task.url };
+        },
+
+        optimizePrompt: async (body) => {
+            requireModel(body.model, 'text2text');
+            return `${body.prompt.trim()}, cinematic lighting, intricate detail, sharp focus`;
+        },
+
+        upscale: async (body) => {
+            requireModel(body.model, 'upscaler');
+            return body.imageUrl;
+        }
+    };
+};
@@ -0,0 +1,48 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import { createHandlerFromEnv } from './config';
+
+// Node entry: adapts node:http to the fetch-style handler. Build with `npm run server:build`,
+// then start with `npm run server`. PORT (default 8787) and HOST pick the address.
+
+const toRequest = (req: IncomingMessage, signal: AbortSignal): Request => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+        if (value !== undefined) headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+    });
+    const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+    return new Request(url, {
+        method: req.method,
+        headers,
+        body: hasBody ? Readable.toWeb(req) as ReadableStream : undefined,
+        signal,
+        duplex: 'half' // Required by Node to stream a request body
+    } as RequestInit);
+};
+
+const sendResponse = async (res: ServerResponse, response: Response) => {
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(Buffer.from(await response.arrayBuffer()));
+};
+
+const handler = createHandlerFromEnv(process.env);
+const port = Number(process.env.PORT) || 8787;
+const host = process.env.HOST || '0.0.0.0';
+
+createServer(async (req, res) => {
+    // Lets providers stop work for clients that went away
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+    try {
+        await sendResponse(res, await handler(toRequest(req, controller.signal)));
+    } catch (e) {
+        console.error("Failed to handle request", e);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+    }
+}).listen(port, host, () => {
+    console.log(`Listening on http://${host}:${port}`);
+});
@@ -0,0 +1,178 @@
+import { ImageProvider, ProviderCapability, ProviderId, RemoteModel } from "../types";
+import { DEFAULT_VIDEO_NEGATIVE_PROMPT, VIDEO_RESOLUTIONS } from "../constants";
+import "./memoryStorage";
+// The store goes first: services/utils and the store import each other, and the app loads the store first
+import { useAppStore } from "../store/appStore";
+import {
+    BUILTIN_PROVIDERS,
+    hasCapability,
+    generateWithFailover,
+    editWithProvider,
+    createVideoWithProvider,
+    getVideoTaskStatus,
+    optimizePromptWithProvider,
+    upscaleWithProvider
+} from "../services/providerRegistry";
+import { getVideoSettings, saveFailoverSettings } from "../services/utils";
+import { TaskStatusProgress } from "../services/customProtocol";
+import { ServerBackend } from "./backend";
+import { fetchImageSize, getImageSize } from "./imageSize";
+
+// Model types of the protocol's model list, see transformModelList in customService
+const CAPABILITY_TYPES: Record<ProviderCapability, string> = {
+    generate: 'text2image',
+    edit: 'image2image',
+    video: 'image2video',
+    text: 'text2text',
+    upscaler: 'upscaler'
+};
+
+/**
+ * Serves the protocol from the built-in providers, through the same registry and services as the app.
+ * Model ids are the app's canonical ids, translated per provider by API_MODEL_MAP, and tokens rotate
+ * and fail over exactly as they do in the browser. Token state lives in memory for the process.
+ */
+export const createProviderBackend = (
+    tokens: Partial<Record<ProviderId, string>>,
+    options: { failover?: boolean } = {}
+): ServerBackend => {
+    const store = useAppStore.getState();
+    (Object.keys(tokens) as ProviderId[]).forEach(id => store.setProviderTokens(id, tokens[id] || ''));
+    saveFailoverSettings({ enabled: options.failover ?? true, chains: {} });
+
+    // Token-gated providers are only offered once they have a token, like in the settings
+    const providers = BUILTIN_PROVIDERS.filter(p => !p.requiresToken || (useAppStore.getState().tokens[p.id as ProviderId]?.length ?? 0) > 0);
+
+    const findProvider = (capability: ProviderCapability, model: string): ImageProvider => {
+        const provider = providers.find(p => hasCapability(p, capability) && p.models[capability]!.some(o => o.value === model));
+        if (!provider) throw new Error("error_model_not_found");
+        return provider;
+    };
+
+    return {
+        name: 'providers',
+
+        listModels: async () => {
+            const models = new Map<string, RemoteModel>();
+            (Object.keys(CAPABILITY_TYPES) as ProviderCapability[]).forEach(capability => {
+                const type = CAPABILITY_TYPES[capability];
+                providers.filter(p => hasCapability(p, capability)).forEach(p => {
+                    p.models[capability]!.forEach(option => {
+                        const existing = models.get(option.value);
+                        if (existing) {
+                            if (!existing.type.includes(type)) existing.type.push(type);
+                            return;
+                        }
+                        const model: RemoteModel = { id: option.value, name: option.label, type: [type] };
+                        if (capability === 'generate') {
+                            const steps = p.getStepsConfig(option.value);
+                            const guidance = p.getGuidanceScaleConfig(option.value);
+                            if (steps) model.steps = { range: [steps.min, steps.max], default: steps.default };
+                            if (guidance) model.guidance = { range: [guidance.min, guidance.max], default: guidance.default };
+                            model.capabilities = {
+                                negativePrompt: p.supportsNegativePrompt(option.value),
+                                aspectRatios: p.getAspectRatios?.(option.value) ?? undefined
+                            };
+                        } else if (capability === 'video') {
+                            model.capabilities = { maxKeyframes: p.getMaxKeyframes?.(option.value) ?? 1 };
+                        }
+                        models.set(option.value, model);
+                    });
+                });
+            });
+            return Array.from(models.values());
+        },
+
+        generate: async (body, signal) => {
+            const provider = findProvider('generate', body.model);
+            const result = await generateWithFailover(provider.id, {
+                model: body.model,
+                prompt: body.prompt,
+                aspectRatio: body.ar,
+                seed: body.seed,
+                steps: body.steps,
+                guidanceScale: body.guidance,
+                negativePrompt: provider.supportsNegativePrompt(body.model) ? body.negative_prompt : undefined,
+                enableHD: body.enableHD,
+                signal
+            });
+            return {
+                id: result.id,
+                url: result.url,
+                width: result.width,
+                height: result.height,
+                seed: result.seed,
+                steps: result.steps,
+                guidance: result.guidanceScale
+            };
+        },
+
+        edit: async (body, signal) => {
+            const provider = findProvider('edit', body.model);
+            const { width, height } = getImageSize(await body.images[0].arrayBuffer());
+            const result = await editWithProvider(provider.id, {
+                model: body.model,
+                imageBlobs: body.images,
+                prompt: body.prompt,
+                width,
+                height,
+                mask: provider.supportsMask?.(body.model) ? body.mask : undefined,
+                signal
+            });
+            return { id: result.id, url: result.url };
+        },
+
+        createVideo: async (body) => {
+            const provider = findProvider('video', body.model);
+            const settings = getVideoSettings(provider.id);
+            const { width, height } = await fetchImageSize(body.imageUrl);
+            const result = await createVideoWithProvider(provider.id, {
+                model: body.model,
+                image: body.imageUrl,
+                imageUrl: body.imageUrl,
+                width,
+                height,
+                clip: {
+                    prompt: body.prompt ?? settings.prompt,
+                    negativePrompt: body.negativePrompt ?? DEFAULT_VIDEO_NEGATIVE_PROMPT,
+                    seed: body.seed ?? Math.floor(Math.random() * 2147483647),
+                    duration: body.duration ?? settings.duration,
+                    resolution: VIDEO_RESOLUTIONS.find(r => r === body.resolution) ?? 720,
+                    steps: body.steps,
+                    guidance: body.guidance
+                },
+                keyframes: body.images
+            });
+            // Task ids carry their provider, so status checks reach the right one
+            return result.taskId
+                ? { taskId: `${provider.id}:${result.taskId}`, predict: result.predict }
+                : { url: result.url };
+        },
+
+        getTaskStatus: async (taskId) => {
+            const separator = taskId.indexOf(':');
+            const status = separator > 0
+                ? await getVideoTaskStatus(taskId.slice(0, separator), taskId.slice(separator + 1))
+                : null;
+            if (!status) throw new Error("error_task_not_found");
+            // The eta goes out relative, clocks of server and client may differ
+            let progress: TaskStatusProgress | undefined;
+            if (status.progress) {
+                const { stage, etaAt, ...rest } = status.progress;
+                progress = { ...rest, eta: etaAt !== undefined ? Math.max(0, (etaAt - Date.now()) / 1000) : undefined };
+            }
+            return { status: status.status, url: status.videoUrl, error: status.error, progress };
+        },
+
+        optimizePrompt: async (body) => {
+            const provider = findProvider('text', body.model);
+            return optimizePromptWithProvider(provider.id, body.model, body.prompt);
+        },
+
+        upscale: async (body) => {
+            const provider = findProvider('upscaler', body.model);
+            const { url } = await upscaleWithProvider(provider.id, body.model, body.imageUrl);
+            return url;
+        }
+    };
+};
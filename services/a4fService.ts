@@ -107,7 +107,8 @@ export const generateA4FImage = async (
   seed?: number,
   steps?: number,
   enableHD: boolean = false,
-  guidanceScale?: number
+  guidanceScale?: number,
+  signal?: AbortSignal
 ): Promise<GeneratedImage> => {
   const { width, height } = getDimensions(aspectRatio, enableHD, model);
   const sizeString = `${width}x${height}`;
@@ -136,7 +137,8 @@ export const generateA4FImage = async (
           "Content-Type": "application/json",
           "Authorization": `Bearer ${token}`
         },
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify(requestBody),
+        signal
       });
 
       if (!response.ok) {
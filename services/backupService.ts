@@ -0,0 +1,278 @@
+import { useAppStore } from "../store/appStore";
+import { BackupImportMode, BackupImportSummary, BackupManifest, ProviderId } from "../types";
+import { createZip, readZip, ZipInput } from "./zipService";
+import { listOpfsFiles, readOpfsFile, writeOpfsFile, OpfsDirName } from "./storageService";
+import { planRetention } from "./retentionService";
+
+const BACKUP_VERSION = 1;
+const MEDIA_DIRS: OpfsDirName[] = ['tmp', 'gallery'];
+const PBKDF2_ITERATIONS = 250000;
+
+type AppSnapshot = Partial<ReturnType<typeof useAppStore.getState>>;
+
+// Daily exhaustion flags are meaningless in another browser
+const EXCLUDED_KEYS: (keyof AppSnapshot)[] = ['tokenStatus'];
+
+interface BackupSecrets {
+    tokens: Record<string, string[]>;
+    customProviderTokens: Record<string, string>;
+    s3: { accessKeyId: string; secretAccessKey: string };
+    webdavPassword: string;
+}
+
+interface EncryptedPayload {
+    salt: string;
+    iv: string;
+    data: string;
+}
+
+// --- Encryption (PBKDF2 + AES-GCM) ---
+
+const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    bytes.forEach(b => binary += String.fromCharCode(b));
+    return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const encryptSecrets = async (secrets: BackupSecrets, passphrase: string): Promise<EncryptedPayload> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt);
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(secrets)));
+    return { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decryptSecrets = async (payload: EncryptedPayload, passphrase: string): Promise<BackupSecrets> => {
+    try {
+        const key = await deriveKey(passphrase, fromBase64(payload.salt));
+        const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+        return JSON.parse(new TextDecoder().decode(data));
+    } catch (e) {
+        // AES-GCM fails authentication when the passphrase is wrong
+        throw new Error("error_backup_passphrase");
+    }
+};
+
+// --- Snapshot Helpers ---
+
+// Uses the persist partialize list so the backup always matches what the app itself keeps
+const getPersistedSnapshot = (): AppSnapshot => {
+    const { partialize } = useAppStore.persist.getOptions();
+    const snapshot: AppSnapshot = { ...(partialize ? partialize(useAppStore.getState()) as AppSnapshot : {}) };
+    EXCLUDED_KEYS.forEach(key => delete snapshot[key]);
+    return snapshot;
+};
+
+// Splits credentials out of the snapshot, leaving blanks in their place
+const extractSecrets = (snapshot: AppSnapshot): { state: AppSnapshot, secrets: BackupSecrets } => {
+    const secrets: BackupSecrets = {
+        tokens: { ...(snapshot.tokens || {}) },
+        customProviderTokens: {},
+        s3: { accessKeyId: snapshot.s3Config?.accessKeyId || '', secretAccessKey: snapshot.s3Config?.secretAccessKey || '' },
+        webdavPassword: snapshot.webdavConfig?.password || ''
+    };
+    (snapshot.customProviders || []).forEach(p => {
+        if (p.token) secrets.customProviderTokens[p.id] = p.token;
+    });
+
+    const state: AppSnapshot = { ...snapshot };
+    delete state.tokens;
+    if (state.customProviders) state.customProviders = state.customProviders.map(p => ({ ...p, token: '' }));
+    if (state.s3Config) state.s3Config = { ...state.s3Config, accessKeyId: '', secretAccessKey: '' };
+    if (state.webdavConfig) state.webdavConfig = { ...state.webdavConfig, password: '' };
+    return { state, secrets };
+};
+
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[], preferIncoming: boolean): { merged: T[], added: number } => {
+    const currentIds = new Set(current.map(item => item.id));
+    const added = incoming.filter(item => !currentIds.has(item.id));
+    if (!preferIncoming) return { merged: [...current, ...added], added: added.length };
+
+    const incomingById = new Map(incoming.map(item => [item.id, item]));
+    return {
+        merged: [...current.map(item => incomingById.get(item.id) || item), ...added],
+        added: added.length
+    };
+};
+
+const mergeTokens = (current: Record<string, string[]>, incoming: Record<string, string[]>, preferIncoming: boolean) => {
+    const result: Record<string, string[]> = { ...current };
+    Object.entries(incoming).forEach(([provider, list]) => {
+        if (!list || list.length === 0) return;
+        result[provider] = preferIncoming ? list : Array.from(new Set([...(current[provider] || []), ...list]));
+    });
+    return result;
+};
+
+// --- Public API ---
+
+export const exportBackup = async (options: { includeMedia: boolean; passphrase?: string }): Promise<Blob> => {
+    const { state, secrets } = extractSecrets(getPersistedSnapshot());
+    const manifest: BackupManifest = {
+        format: 'peinture-backup',
+        version: BACKUP_VERSION,
+        createdAt: Date.now(),
+        secrets: options.passphrase ? 'encrypted' : 'excluded',
+        media: options.includeMedia
+    };
+
+    const entries: ZipInput[] = [
+        { name: 'manifest.json', data: JSON.stringify(manifest, null, 2), compress: true },
+        { name: 'state.json', data: JSON.stringify(state), compress: true }
+    ];
+
+    if (options.passphrase) {
+        const payload = await encryptSecrets(secrets, options.passphrase);
+        entries.push({ name: 'secrets.json', data: JSON.stringify(payload), compress: true });
+    }
+
+    if (options.includeMedia) {
+        for (const dirName of MEDIA_DIRS) {
+            for (const info of await listOpfsFiles(dirName)) {
+                const blob = await readOpfsFile(dirName, info.name);
+                if (blob) entries.push({ name: `media/${dirName}/${info.name}`, data: blob });
+            }
+        }
+    }
+
+    return createZip(entries);
+};
+
+export const readBackupManifest = async (file: Blob): Promise<BackupManifest> => {
+    const entries = await readZip(file);
+    const entry = entries.get('manifest.json');
+    if (!entry) throw new Error("error_invalid_backup");
+
+    let manifest: BackupManifest;
+    try {
+        manifest = JSON.parse(await (await entry.read()).text());
+    } catch (e) {
+        throw new Error("error_invalid_backup");
+    }
+    if (manifest.format !== 'peinture-backup' || manifest.version > BACKUP_VERSION) {
+        throw new Error("error_invalid_backup");
+    }
+    return manifest;
+};
+
+/**
+ * Restores a backup into the store and OPFS.
+ * Without a passphrase (or for backups made without one) current credentials are kept.
+ * The page should be reloaded afterwards so restored history files get hydrated.
+ */
+export const importBackup = async (
+    file: Blob,
+    options: { mode: BackupImportMode; passphrase?: string }
+): Promise<BackupImportSummary> => {
+    const manifest = await readBackupManifest(file);
+    const entries = await readZip(file);
+    const stateEntry = entries.get('state.json');
+    if (!stateEntry) throw new Error("error_invalid_backup");
+
+    let incoming: AppSnapshot;
+    try {
+        incoming = JSON.parse(await (await stateEntry.read()).text());
+    } catch (e) {
+        throw new Error("error_invalid_backup");
+    }
+
+    let secrets: BackupSecrets | null = null;
+    const secretsEntry = entries.get('secrets.json');
+    if (manifest.secrets === 'encrypted' && secretsEntry && options.passphrase) {
+        secrets = await decryptSecrets(JSON.parse(await (await secretsEntry.read()).text()), options.passphrase);
+    }
+
+    const current = useAppStore.getState();
+    const overwrite = options.mode === 'overwrite';
+    const summary: BackupImportSummary = { historyAdded: 0, historyPinned: 0, providersAdded: 0, stylesAdded: 0, filesRestored: 0, secretsRestored: !!secrets };
+
+    // Plain settings only change when the backup is allowed to win
+    const { history, cloudHistory, customProviders, promptStyles, videoSettings, s3Config, webdavConfig, ...settings } = incoming;
+    const next: AppSnapshot = overwrite ? { ...settings } : {};
+
+    if (history) {
+        const result = mergeById(current.history, history, overwrite);
+        next.history = result.merged.sort((a, b) => b.timestamp - a.timestamp);
+        summary.historyAdded = result.added;
+    }
+    if (cloudHistory) {
+        next.cloudHistory = mergeById(current.cloudHistory, cloudHistory, overwrite).merged.sort((a, b) => b.timestamp - a.timestamp);
+    }
+    if (customProviders) {
+        const withTokens = customProviders.map(p => {
+            const currentToken = current.customProviders.find(cp => cp.id === p.id)?.token || '';
+            return { ...p, token: secrets?.customProviderTokens[p.id] || currentToken };
+        });
+        const result = mergeById(current.customProviders, withTokens, overwrite);
+        next.customProviders = result.merged;
+        summary.providersAdded = result.added;
+    }
+    if (promptStyles) {
+        const result = mergeById(current.promptStyles, promptStyles, overwrite);
+        next.promptStyles = result.merged;
+        summary.stylesAdded = result.added;
+    }
+    if (videoSettings) {
+        next.videoSettings = overwrite ? { ...current.videoSettings, ...videoSettings } : { ...videoSettings, ...current.videoSettings };
+    }
+
+    // Storage configs carry credentials, fall back to the current ones when the backup has none
+    if (s3Config && overwrite) {
+        next.s3Config = {
+            ...s3Config,
+            accessKeyId: secrets?.s3.accessKeyId || current.s3Config.accessKeyId,
+            secretAccessKey: secrets?.s3.secretAccessKey || current.s3Config.secretAccessKey
+        };
+    }
+    if (webdavConfig && overwrite) {
+        next.webdavConfig = { ...webdavConfig, password: secrets?.webdavPassword || current.webdavConfig.password };
+    }
+    if (secrets) {
+        next.tokens = mergeTokens(current.tokens, secrets.tokens, overwrite) as Record<ProviderId, string[]>;
+    }
+
+    if (manifest.media) {
+        for (const dirName of MEDIA_DIRS) {
+            const prefix = `media/${dirName}/`;
+            const existing = new Set((await listOpfsFiles(dirName)).map(f => f.name));
+            for (const [name, entry] of entries) {
+                if (!name.startsWith(prefix)) continue;
+                const fileName = name.slice(prefix.length);
+                if (!fileName || fileName.includes('/')) continue;
+                if (existing.has(fileName) && !overwrite) continue;
+                await writeOpfsFile(dirName, fileName, await entry.read());
+                summary.filesRestored++;
+            }
+        }
+    }
+
+    // The startup purge runs before anyone can look at the restored images, so the ones
+    // the retention policy would expire right away are pinned instead of lost
+    if (history && next.history) {
+        const restoredIds = new Set(history.map(img => img.id));
+        const fileSizes = new Map((await listOpfsFiles('tmp')).map(f => [f.name, f.size] as [string, number]));
+        const policy = next.retentionPolicy ?? current.retentionPolicy;
+        const expiring = new Set(planRetention(next.history, policy, fileSizes).expire.map(img => img.id));
+        next.history = next.history.map(img => {
+            if (!restoredIds.has(img.id) || !expiring.has(img.id)) return img;
+            summary.historyPinned++;
+            return { ...img, pinned: true };
+        });
+    }
+
+    useAppStore.setState(next);
+    return summary;
+};
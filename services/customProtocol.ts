@@ -0,0 +1,291 @@
+import { AspectRatioOption, ModelCapabilities, RemoteModel } from "../types";
+import { ASPECT_RATIOS } from "../constants";
+
+// Wire format of the custom provider protocol, shared by customService and the reference server.
+// Every route lives under /v1; the app's server mode reaches them through /api/v1.
+//
+// Versions:
+// 0 - /v1/models answers with a bare array of models
+// 1 - /v1/models answers with { protocolVersion, models }, and models may list their capabilities.
+//     Video models with a maxKeyframes capability take further keyframes in /v1/video's `images`.
+
+export const PROTOCOL_VERSION = 1;
+
+// --- Messages ---
+
+export interface ModelListResponse {
+    protocolVersion: number;
+    models: RemoteModel[];
+}
+
+export interface GenerateBody {
+    model: string;
+    prompt: string;
+    negative_prompt?: string;
+    ar: AspectRatioOption;
+    seed?: number;
+    steps?: number;
+    guidance?: number;
+    enableHD?: boolean;
+}
+
+export interface GenerateResponse {
+    id?: string;
+    url: string;
+    width?: number;
+    height?: number;
+    seed?: number;
+    steps?: number;
+    guidance?: number;
+}
+
+// Sent as multipart/form-data: repeated `image` files and an optional `mask` (white = repaint)
+export interface EditBody {
+    model: string;
+    prompt: string;
+    seed?: number;
+    steps?: number;
+    guidance?: number;
+    images: Blob[];
+    mask?: Blob;
+}
+
+export interface EditResponse {
+    id?: string;
+    url: string;
+}
+
+export interface VideoBody {
+    model: string;
+    imageUrl: string;
+    images?: string[]; // Keyframes after imageUrl, in order, the clip ends on the last one
+    prompt?: string;
+    negativePrompt?: string;
+    duration?: number;
+    resolution?: number; // Short side in pixels
+    seed?: number;
+    steps?: number;
+    guidance?: number;
+}
+
+// Either the finished video, or a task to poll through /v1/task-status
+export interface VideoResponse {
+    url?: string;
+    taskId?: string;
+    predict?: number; // Seconds before polling is worthwhile
+}
+
+export interface TaskStatusResponse {
+    status: string; // 'success' and 'failed' are final, anything else means still running
+    url?: string;
+    error?: string;
+    progress?: TaskStatusProgress;
+}
+
+// Optional while a task runs, every field may be left out
+export interface TaskStatusProgress {
+    queuePosition?: number; // 0 = next in line
+    queueSize?: number;
+    eta?: number; // Seconds until done
+    step?: number;
+    totalSteps?: number;
+    previewUrl?: string;
+}
+
+export interface TextBody {
+    model: string;
+    prompt: string;
+}
+
+export interface TextResponse {
+    text: string;
+}
+
+export interface UpscaleBody {
+    model: string;
+    imageUrl: string;
+}
+
+export interface UpscaleResponse {
+    url: string;
+}
+
+// --- Schemas ---
+
+/**
+ * Checks an untrusted value and returns it typed, without unknown fields. Failures throw an
+ * Error named 'ProtocolError' whose message names the offending field, e.g. "models[2].type: expected an array".
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+const fail = (path: string, expected: string): never => {
+    const error = new Error(`${path || 'body'}: expected ${expected}`);
+    error.name = 'ProtocolError';
+    throw error;
+};
+
+const string: Schema<string> = (value, path) => typeof value === 'string' ? value : fail(path, 'a string');
+
+const nonEmptyString: Schema<string> = (value, path) => typeof value === 'string' && value.length > 0 ? value : fail(path, 'a non-empty string');
+
+const number: Schema<number> = (value, path) => typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'a number');
+
+const integer: Schema<number> = (value, path) => Number.isInteger(value) ? value as number : fail(path, 'an integer');
+
+const boolean: Schema<boolean> = (value, path) => typeof value === 'boolean' ? value : fail(path, 'true or false');
+
+const blob: Schema<Blob> = (value, path) => value instanceof Blob ? value : fail(path, 'a file');
+
+const aspectRatio: Schema<AspectRatioOption> = (value, path) => {
+    return ASPECT_RATIOS.includes(value as AspectRatioOption) ? value as AspectRatioOption : fail(path, `one of ${ASPECT_RATIOS.join(', ')}`);
+};
+
+const range: Schema<[number, number]> = (value, path) => {
+    if (!Array.isArray(value) || value.length !== 2) return fail(path, 'a [min, max] pair');
+    return [number(value[0], `${path}[0]`), number(value[1], `${path}[1]`)];
+};
+
+// null is treated like a missing field, which is how most JSON serializers write "no value"
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) => {
+    return value === undefined || value === null ? undefined : schema(value, path);
+};
+
+const arrayOf = <T>(schema: Schema<T>, minLength = 0): Schema<T[]> => (value, path) => {
+    if (!Array.isArray(value) || value.length < minLength) {
+        return fail(path, minLength > 0 ? `an array with at least ${minLength} item(s)` : 'an array');
+    }
+    return value.map((item, i) => schema(item, `${path}[${i}]`));
+};
+
+const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return fail(path, 'an object');
+    const result: Partial<T> = {};
+    for (const key in shape) {
+        const field = shape[key]((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+        if (field !== undefined) result[key] = field;
+    }
+    return result as T;
+};
+
+const positiveInteger: Schema<number> = (value, path) => integer(value, path) >= 1 ? value as number : fail(path, 'an integer of at least 1');
+
+const capabilitiesSchema = object<ModelCapabilities>({
+    aspectRatios: optional(arrayOf(aspectRatio, 1)),
+    negativePrompt: optional(boolean),
+    seed: optional(boolean),
+    maxBatchSize: optional(positiveInteger),
+    maxKeyframes: optional(positiveInteger)
+});
+
+const remoteModelSchema = object<RemoteModel>({
+    id: nonEmptyString,
+    name: string,
+    type: arrayOf(string),
+    steps: optional(object<{ range: [number, number]; default: number }>({ range, default: number })),
+    guidance: optional(object<{ range: [number, number]; default: number }>({ range, default: number })),
+    capabilities: optional(capabilitiesSchema)
+});
+
+/**
+ * The version a /v1/models answer was written for. Checked before the models themselves,
+ * since a newer version may change their shape.
+ */
+export const getProtocolVersion: Schema<number> = (value, path) => {
+    if (Array.isArray(value)) return 0;
+    return object<{ protocolVersion: number }>({ protocolVersion: integer })(value, path).protocolVersion;
+};
+
+// Accepts both the versioned envelope and the bare array of version 0
+export const modelListSchema: Schema<RemoteModel[]> = (value, path) => {
+    if (Array.isArray(value)) return arrayOf(remoteModelSchema)(value, 'models');
+    return object<ModelListResponse>({ protocolVersion: integer, models: arrayOf(remoteModelSchema) })(value, path).models;
+};
+
+export const generateBodySchema = object<GenerateBody>({
+    model: nonEmptyString,
+    prompt: string,
+    negative_prompt: optional(string),
+    ar: aspectRatio,
+    seed: optional(integer),
+    steps: optional(number),
+    guidance: optional(number),
+    enableHD: optional(boolean)
+});
+
+export const generateResponseSchema = object<GenerateResponse>({
+    id: optional(string),
+    url: nonEmptyString,
+    width: optional(number),
+    height: optional(number),
+    seed: optional(integer),
+    steps: optional(number),
+    guidance: optional(number)
+});
+
+export const editBodySchema = object<EditBody>({
+    model: nonEmptyString,
+    prompt: string,
+    seed: optional(integer),
+    steps: optional(number),
+    guidance: optional(number),
+    images: arrayOf(blob, 1),
+    mask: optional(blob)
+});
+
+export const editResponseSchema = object<EditResponse>({
+    id: optional(string),
+    url: nonEmptyString
+});
+
+export const videoBodySchema = object<VideoBody>({
+    model: nonEmptyString,
+    imageUrl: nonEmptyString,
+    images: optional(arrayOf(nonEmptyString)),
+    prompt: optional(string),
+    negativePrompt: optional(string),
+    duration: optional(number),
+    resolution: optional(integer),
+    seed: optional(integer),
+    steps: optional(number),
+    guidance: optional(number)
+});
+
+// Version 0 servers may answer with the bare video url
+export const videoResponseSchema: Schema<VideoResponse> = (value, path) => {
+    if (typeof value === 'string') return { url: nonEmptyString(value, path) };
+    const data = object<VideoResponse>({ url: optional(string), taskId: optional(string), predict: optional(number) })(value, path);
+    return data.url || data.taskId ? data : fail(path, 'a url or a taskId');
+};
+
+const taskStatusProgressSchema = object<TaskStatusProgress>({
+    queuePosition: optional(integer),
+    queueSize: optional(integer),
+    eta: optional(number),
+    step: optional(integer),
+    totalSteps: optional(integer),
+    previewUrl: optional(string)
+});
+
+export const taskStatusResponseSchema: Schema<TaskStatusResponse> = (value, path) => {
+    // Some servers list every output file, the first one is the video
+    const firstUrl: Schema<string | undefined> = (url, urlPath) => Array.isArray(url) ? optional(string)(url[0], `${urlPath}[0]`) : optional(string)(url, urlPath);
+    const data = object<{ status?: string; url?: string; error?: string; progress?: TaskStatusProgress }>({
+        status: optional(string),
+        url: firstUrl,
+        error: optional(string),
+        progress: optional(taskStatusProgressSchema)
+    })(value, path);
+    return { ...data, status: data.status || 'processing' };
+};
+
+export const textBodySchema = object<TextBody>({ model: nonEmptyString, prompt: string });
+
+export const textResponseSchema = object<TextResponse>({ text: string });
+
+export const upscaleBodySchema = object<UpscaleBody>({ model: nonEmptyString, imageUrl: nonEmptyString });
+
+export const upscaleResponseSchema = object<UpscaleResponse>({ url: nonEmptyString });
+
+export const isProtocolError = (error: unknown): error is Error => {
+    return error instanceof Error && error.name === 'ProtocolError';
+};
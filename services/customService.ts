@@ -1,13 +1,58 @@
 
-import { CustomProvider, GeneratedImage, AspectRatioOption, RemoteModelList, RemoteModel } from "../types";
+import { CustomProvider, GeneratedImage, AspectRatioOption, RemoteModelList, VideoTaskStatus, VideoClipParams } from "../types";
 import { generateUUID } from "./utils";
+import { useAppStore } from "../store/appStore";
+import { translations } from "../translations";
+import {
+    PROTOCOL_VERSION,
+    Schema,
+    VideoBody,
+    isProtocolError,
+    getProtocolVersion,
+    modelListSchema,
+    generateResponseSchema,
+    editResponseSchema,
+    videoResponseSchema,
+    taskStatusResponseSchema,
+    textResponseSchema,
+    upscaleResponseSchema
+} from "./customProtocol";
 
 const cleanUrl = (url: string) => url.replace(/\/+$/, '');
 
-// Helper to transform flat model array to categorized list
-export const transformModelList = (models: RemoteModel[]): RemoteModelList => {
-    if (!Array.isArray(models)) return {};
-    
+const getTranslations = () => translations[useAppStore.getState().language];
+
+// Checks a response body against the protocol, failing with a localized message that names the bad field
+const parseResponse = <T>(endpoint: string, schema: Schema<T>, data: unknown): T => {
+    try {
+        return schema(data, '');
+    } catch (e) {
+        if (!isProtocolError(e)) throw e;
+        console.error(`Invalid response from ${endpoint}`, data);
+        throw new Error(getTranslations().error_protocol_response.replace('{endpoint}', endpoint).replace('{detail}', e.message));
+    }
+};
+
+const readResponse = async <T>(response: Response, endpoint: string, schema: Schema<T>): Promise<T> => {
+    let data: unknown;
+    try {
+        data = await response.json();
+    } catch {
+        throw new Error(getTranslations().error_protocol_response.replace('{endpoint}', endpoint).replace('{detail}', 'not JSON'));
+    }
+    return parseResponse(endpoint, schema, data);
+};
+
+// Validates a /v1/models answer and sorts the models by what they can be used for
+export const transformModelList = (data: unknown): RemoteModelList => {
+    const version = parseResponse('/v1/models', getProtocolVersion, data);
+    if (version > PROTOCOL_VERSION) {
+        throw new Error(getTranslations().error_protocol_version
+            .replace('{version}', version.toString())
+            .replace('{supported}', PROTOCOL_VERSION.toString()));
+    }
+    const models = parseResponse('/v1/models', modelListSchema, data);
+
     return {
         generate: models.filter(m => m.type && m.type.includes('text2image')),
         edit: models.filter(m => m.type && m.type.includes('image2image')),
@@ -27,8 +72,7 @@ export const fetchServerModels = async (token?: string): Promise<RemoteModelList
         if (response.status === 401) throw new Error('401');
         throw new Error('Failed to fetch server models');
     }
-    const data = await response.json();
-    return transformModelList(data);
+    return transformModelList(await response.json().catch(() => null));
 };
 
 export const generateCustomImage = async (
@@ -39,14 +83,20 @@ export const generateCustomImage = async (
     seed?: number,
     steps?: number,
     guidance?: number,
-    enableHD?: boolean
+    enableHD?: boolean,
+    negativePrompt?: string,
+    signal?: AbortSignal
 ): Promise<GeneratedImage> => {
     const baseUrl = cleanUrl(provider.apiUrl);
+    // Fields the model says it does not take are left out
+    const capabilities = provider.models.generate?.find(m => m.id === model)?.capabilities;
+    const acceptsSeed = capabilities?.seed !== false;
     const body = {
         model,
         prompt,
+        negative_prompt: capabilities?.negativePrompt !== false ? negativePrompt || undefined : undefined,
         ar: aspectRatio,
-        seed: seed ?? Math.floor(Math.random() * 2147483647),
+        seed: acceptsSeed ? seed ?? Math.floor(Math.random() * 2147483647) : undefined,
         steps,
         guidance,
         enableHD
@@ -58,7 +108,8 @@ export const generateCustomImage = async (
             'Content-Type': 'application/json',
             'Authorization': provider.token ? `Bearer ${provider.token}` : ''
         },
-        body: JSON.stringify(body)
+        body: JSON.stringify(body),
+        signal
     });
 
     if (!response.ok) {
@@ -66,14 +117,7 @@ export const generateCustomImage = async (
         throw new Error(text || `Request failed with status ${response.status}`);
     }
     
-    // Parse extended response fields
-    // Structure: { id, url, width, height, seed, steps?, guidance? }
-    const data = await response.json();
-    const { id, url, width, height, seed: responseSeed, steps: responseSteps, guidance: responseGuidance } = data;
-
-    if (typeof url !== 'string') {
-        throw new Error("Invalid response format from custom provider: URL not found");
-    }
+    const { id, url, width, height, seed: responseSeed, steps: responseSteps, guidance: responseGuidance } = await readResponse(response, '/v1/generate', generateResponseSchema);
 
     return {
         id: id || generateUUID(),
@@ -85,12 +129,9 @@ export const generateCustomImage = async (
         seed: responseSeed !== undefined ? responseSeed : body.seed,
         steps: responseSteps !== undefined ? responseSteps : steps,
         guidanceScale: responseGuidance !== undefined ? responseGuidance : guidance,
-        provider: provider.id, // Use custom provider ID
-        // Note: GeneratedImage interface doesn't strictly enforce width/height properties on the root object 
-        // typically, but UI often derives them or uses them if available. 
-        // If needed, we can extend GeneratedImage type or rely on image onLoad in PreviewStage.
-        // However, App.tsx uses `imageDimensions` state.
-        // We will return them here, and update App.tsx to use them if we want to pre-fill dimensions.
+        width,
+        height,
+        provider: provider.id // Use custom provider ID
     };
 };
 
@@ -101,7 +142,8 @@ export const editImageCustom = async (
     prompt: string,
     seed?: number,
     steps?: number,
-    guidance?: number
+    guidance?: number,
+    mask?: Blob
 ): Promise<GeneratedImage> => {
     const baseUrl = cleanUrl(provider.apiUrl);
     const formData = new FormData();
@@ -114,6 +156,8 @@ export const editImageCustom = async (
     imageBlobs.forEach((blob) => {
         formData.append('image', blob);
     });
+    // Same size as the first image, white marks the area to repaint
+    if (mask) formData.append('mask', mask, 'mask.png');
 
     const headers: Record<string, string> = {};
     if (provider.token) headers['Authorization'] = `Bearer ${provider.token}`;
@@ -128,11 +172,7 @@ export const editImageCustom = async (
         const text = await response.text();
         throw new Error(text || `Request failed with status ${response.status}`);
     }
-    const { id, url } = await response.json();
-
-    if (typeof url !== 'string') {
-        throw new Error("Invalid response format from custom provider: URL not found");
-    }
+    const { id, url } = await readResponse(response, '/v1/edit', editResponseSchema);
 
     return {
         id: id || generateUUID(),
@@ -151,19 +191,21 @@ export const generateCustomVideo = async (
     provider: CustomProvider,
     model: string,
     imageUrl: string,
-    prompt: string,
-    duration: number,
-    seed: number,
+    clip: VideoClipParams,
     steps: number,
-    guidance: number
+    guidance: number,
+    keyframes?: string[]
 ): Promise<{ url?: string; taskId?: string, predict?: number }> => {
     const baseUrl = cleanUrl(provider.apiUrl);
-    const body = {
+    const body: VideoBody = {
         model,
         imageUrl,
-        prompt,
-        duration,
-        seed,
+        images: keyframes?.length ? keyframes : undefined,
+        prompt: clip.prompt,
+        negativePrompt: clip.negativePrompt || undefined,
+        duration: clip.duration,
+        resolution: clip.resolution,
+        seed: clip.seed,
         steps,
         guidance
     };
@@ -182,27 +224,19 @@ export const generateCustomVideo = async (
         throw new Error(text || `Request failed with status ${response.status}`);
     }
 
-    const data = await response.json();
+    const data = await readResponse(response, '/v1/video', videoResponseSchema);
 
-    // Check for async task ID
+    // An async task wins over a url
     if (data.taskId) {
         return { taskId: data.taskId, predict: data.predict };
     }
-    
-    // Check for sync URL (string or object with url array or url string)
-    if (typeof data === 'string') {
-        return { url: data };
-    } else if (data.url) {
-        return { url: data.url };
-    }
-    
-    throw new Error("Video URL or Task ID not found in response");
+    return { url: data.url };
 };
 
 export const getCustomTaskStatus = async (
     provider: CustomProvider, 
     taskId: string
-): Promise<{status: string, videoUrl?: string, error?: string}> => {
+): Promise<VideoTaskStatus> => {
     const baseUrl = cleanUrl(provider.apiUrl);
     const headers: Record<string, string> = {};
     if (provider.token) {
@@ -217,15 +251,21 @@ export const getCustomTaskStatus = async (
         
         if (!response.ok) throw new Error('Failed to check task status');
         
-        const data = await response.json();
-        // Expected data structure: { status: "success" | "failed", id?: string, url?: string | string[], error?: string }
-        
-        const result: {status: string, videoUrl?: string, error?: string} = { status: data.status || 'processing' };
+        const data = await readResponse(response, '/v1/task-status', taskStatusResponseSchema);
+
+        const result: VideoTaskStatus = { status: data.status };
         
         if (data.status === 'success' && data.url) {
             result.videoUrl = data.url;
         } else if (data.status === 'failed') {
             result.error = data.error || 'Video generation failed';
+        } else if (data.progress) {
+            const { eta, ...progress } = data.progress;
+            result.progress = {
+                ...progress,
+                stage: progress.queuePosition !== undefined ? 'queued' : 'running',
+                etaAt: eta !== undefined ? Date.now() + eta * 1000 : undefined
+            };
         }
         
         return result;
@@ -259,7 +299,7 @@ export const optimizePromptCustom = async (
         const text = await response.text();
         throw new Error(text || `Request failed with status ${response.status}`);
     }
-    const { text } = await response.json();
+    const { text } = await readResponse(response, '/v1/text', textResponseSchema);
     return text;
 };
 
@@ -288,11 +328,6 @@ export const upscaleImageCustom = async (
         throw new Error(text || `Request failed with status ${response.status}`);
     }
     
-    const data = await response.json();
-    
-    if (!data.url) {
-        throw new Error("Invalid response format from custom upscaler: URL not found");
-    }
-
-    return { url: data.url };
+    const { url } = await readResponse(response, '/v1/upscaler', upscaleResponseSchema);
+    return { url };
 };
\ No newline at end of file
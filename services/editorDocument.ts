@@ -0,0 +1,216 @@
+import { EditorCommand, EditorLayer, EditorLayerKind, EditorShape } from "../types";
+import { generateUUID } from "./utils";
+
+// --- Layers ---
+
+export const createLayer = (kind: EditorLayerKind, name: string, src?: string): EditorLayer => ({
+    id: generateUUID(),
+    kind,
+    name,
+    visible: true,
+    opacity: 1,
+    shapes: [],
+    src
+});
+
+export const isBitmapLayer = (layer: EditorLayer) => layer.kind !== 'annotation';
+
+// Visible annotation layers with at least one stroke
+export const hasVisibleAnnotations = (layers: EditorLayer[]) => {
+    return layers.some(l => l.kind === 'annotation' && l.visible && l.opacity > 0 && l.shapes.length > 0);
+};
+
+// --- Commands ---
+
+const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    return next;
+};
+
+export const applyCommand = (layers: EditorLayer[], command: EditorCommand): EditorLayer[] => {
+    switch (command.type) {
+        case 'addShape':
+            return layers.map(l => l.id === command.layerId ? { ...l, shapes: [...l.shapes, command.shape] } : l);
+        case 'addLayer': {
+            const next = [...layers];
+            next.splice(command.index, 0, command.layer);
+            return next;
+        }
+        case 'removeLayer':
+            return layers.filter(l => l.id !== command.layer.id);
+        case 'updateLayer':
+            return layers.map(l => l.id === command.layerId ? { ...l, ...command.after } : l);
+        case 'moveLayer':
+            return moveItem(layers, command.from, command.to);
+    }
+};
+
+export const revertCommand = (layers: EditorLayer[], command: EditorCommand): EditorLayer[] => {
+    switch (command.type) {
+        case 'addShape':
+            // Shapes are only ever appended, so the last one is the one this command added
+            return layers.map(l => l.id === command.layerId ? { ...l, shapes: l.shapes.slice(0, -1) } : l);
+        case 'addLayer':
+            return layers.filter(l => l.id !== command.layer.id);
+        case 'removeLayer': {
+            const next = [...layers];
+            next.splice(command.index, 0, command.layer);
+            return next;
+        }
+        case 'updateLayer':
+            return layers.map(l => l.id === command.layerId ? { ...l, ...command.before } : l);
+        case 'moveLayer':
+            return moveItem(layers, command.to, command.from);
+    }
+};
+
+// --- Rendering ---
+
+const tracePoints = (ctx: CanvasRenderingContext2D, p: number[]) => {
+    ctx.beginPath();
+    ctx.moveTo(p[0], p[1]);
+    for (let i = 2; i < p.length; i += 2) ctx.lineTo(p[i], p[i + 1]);
+};
+
+const fillOrStroke = (ctx: CanvasRenderingContext2D, filled: boolean) => {
+    if (filled) ctx.fill();
+    else ctx.stroke();
+};
+
+export const drawShape = (ctx: CanvasRenderingContext2D, shape: EditorShape) => {
+    ctx.save();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.strokeStyle = shape.color;
+    ctx.fillStyle = shape.color;
+    if (shape.type !== 'text') ctx.lineWidth = shape.width;
+
+    switch (shape.type) {
+        case 'path': {
+            if (shape.tool === 'eraser') ctx.globalCompositeOperation = 'destination-out';
+            // Soft brushes feather their edge by up to half the brush width
+            const hardness = shape.hardness ?? 1;
+            if (hardness < 1) ctx.filter = `blur(${(shape.width * (1 - hardness)) / 2}px)`;
+            tracePoints(ctx, shape.points);
+            // A single click still leaves a dot
+            if (shape.points.length === 2) ctx.lineTo(shape.points[0] + 0.01, shape.points[1]);
+            ctx.stroke();
+            break;
+        }
+        case 'rect':
+            if (shape.filled) ctx.fillRect(shape.x, shape.y, shape.w, shape.h);
+            else ctx.strokeRect(shape.x, shape.y, shape.w, shape.h);
+            break;
+        case 'ellipse':
+            ctx.beginPath();
+            ctx.ellipse(shape.x + shape.w / 2, shape.y + shape.h / 2, Math.abs(shape.w / 2), Math.abs(shape.h / 2), 0, 0, Math.PI * 2);
+            fillOrStroke(ctx, shape.filled);
+            break;
+        case 'arrow': {
+            const angle = Math.atan2(shape.y2 - shape.y1, shape.x2 - shape.x1);
+            const head = Math.max(shape.width * 4, 12);
+            ctx.beginPath();
+            ctx.moveTo(shape.x1, shape.y1);
+            ctx.lineTo(shape.x2, shape.y2);
+            ctx.moveTo(shape.x2 - head * Math.cos(angle - Math.PI / 6), shape.y2 - head * Math.sin(angle - Math.PI / 6));
+            ctx.lineTo(shape.x2, shape.y2);
+            ctx.lineTo(shape.x2 - head * Math.cos(angle + Math.PI / 6), shape.y2 - head * Math.sin(angle + Math.PI / 6));
+            ctx.stroke();
+            break;
+        }
+        case 'lasso':
+            tracePoints(ctx, shape.points);
+            ctx.closePath();
+            fillOrStroke(ctx, shape.filled);
+            break;
+        case 'text': {
+            ctx.font = `600 ${shape.size}px sans-serif`;
+            ctx.textBaseline = 'top';
+            // A dark outline keeps labels readable on light and dark images alike
+            ctx.lineWidth = Math.max(shape.size / 8, 1);
+            ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+            shape.text.split('\n').forEach((line, i) => {
+                const y = shape.y + i * shape.size * 1.2;
+                ctx.strokeText(line, shape.x, y);
+                ctx.fillText(line, shape.x, y);
+            });
+            break;
+        }
+    }
+    ctx.restore();
+};
+
+// Shapes too small to see are not committed
+export const isEmptyShape = (shape: EditorShape) => {
+    switch (shape.type) {
+        case 'rect':
+        case 'ellipse':
+            return shape.w === 0 || shape.h === 0;
+        case 'arrow':
+            return shape.x1 === shape.x2 && shape.y1 === shape.y2;
+        case 'lasso':
+            return shape.points.length < 6;
+        case 'text':
+            return !shape.text.trim();
+        default:
+            return false;
+    }
+};
+
+// Redraws an annotation layer from its shapes
+export const renderShapes = (canvas: HTMLCanvasElement, shapes: EditorShape[]) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    shapes.forEach(shape => drawShape(ctx, shape));
+};
+
+export const loadImageElement = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load layer image'));
+        img.src = src;
+    });
+};
+
+/**
+ * Flattens the visible layers, bottom to top, into one canvas of the document size.
+ * Bitmaps are stretched to the document, so results of another resolution line up with the base.
+ */
+export const flattenLayers = async (
+    layers: EditorLayer[],
+    width: number,
+    height: number,
+    kinds?: EditorLayerKind[]
+): Promise<HTMLCanvasElement | null> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    for (const layer of layers) {
+        if (!layer.visible || layer.opacity <= 0) continue;
+        if (kinds && !kinds.includes(layer.kind)) continue;
+
+        if (isBitmapLayer(layer)) {
+            if (!layer.src) continue;
+            ctx.globalAlpha = layer.opacity;
+            ctx.drawImage(await loadImageElement(layer.src), 0, 0, width, height);
+        } else {
+            // Erasers only cut into their own layer, so each layer is drawn separately first
+            const layerCanvas = document.createElement('canvas');
+            layerCanvas.width = width;
+            layerCanvas.height = height;
+            renderShapes(layerCanvas, layer.shapes);
+            ctx.globalAlpha = layer.opacity;
+            ctx.drawImage(layerCanvas, 0, 0);
+        }
+    }
+    ctx.globalAlpha = 1;
+    return canvas;
+};
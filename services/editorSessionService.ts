@@ -0,0 +1,66 @@
+import { EditorLayer, EditorSession } from "../types";
+import { listOpfsFiles, readOpfsFile, writeOpfsFile, deleteOpfsFile } from "./storageService";
+import { fetchBlob } from "./utils";
+import { isBitmapLayer } from "./editorDocument";
+
+// One saved editing session lives in the OPFS sessions dir: a JSON document
+// plus one PNG per bitmap layer, named after the layer id.
+const SESSION_FILE = 'editor-session.json';
+const SESSION_VERSION = 1;
+
+const getLayerFileName = (layer: EditorLayer) => `${layer.id}.png`;
+
+export const hasEditorSession = async (): Promise<boolean> => {
+    const files = await listOpfsFiles('sessions');
+    return files.some(f => f.name === SESSION_FILE);
+};
+
+export const saveEditorSession = async (session: Omit<EditorSession, 'version' | 'savedAt'>) => {
+    // Replace the previous session, layer files included
+    for (const info of await listOpfsFiles('sessions')) {
+        await deleteOpfsFile('sessions', info.name);
+    }
+
+    const layers: EditorLayer[] = [];
+    for (const layer of session.layers) {
+        if (isBitmapLayer(layer) && layer.src) {
+            await writeOpfsFile('sessions', getLayerFileName(layer), await fetchBlob(layer.src));
+        }
+        // Object URLs do not survive a reload, bitmaps are restored from their files
+        layers.push({ ...layer, src: undefined });
+    }
+
+    const data: EditorSession = { ...session, layers, version: SESSION_VERSION, savedAt: Date.now() };
+    await writeOpfsFile('sessions', SESSION_FILE, new Blob([JSON.stringify(data)], { type: 'application/json' }));
+};
+
+/**
+ * Reads the saved session back, with bitmap layers pointing at fresh object URLs.
+ * Callers own those URLs. Returns null when nothing was saved.
+ */
+export const loadEditorSession = async (): Promise<EditorSession | null> => {
+    const blob = await readOpfsFile('sessions', SESSION_FILE);
+    if (!blob) return null;
+
+    const session = JSON.parse(await blob.text()) as EditorSession;
+    if (session.version !== SESSION_VERSION || !Array.isArray(session.layers)) {
+        throw new Error("error_session_invalid");
+    }
+
+    const layers: EditorLayer[] = [];
+    for (const layer of session.layers) {
+        if (!isBitmapLayer(layer)) {
+            layers.push(layer);
+            continue;
+        }
+        const file = await readOpfsFile('sessions', getLayerFileName(layer));
+        if (!file) {
+            // Without its base image the session cannot be edited; a lost result is just dropped
+            if (layer.kind === 'base') throw new Error("error_session_invalid");
+            continue;
+        }
+        layers.push({ ...layer, src: URL.createObjectURL(new Blob([file], { type: 'image/png' })) });
+    }
+
+    return { ...session, layers };
+};
@@ -0,0 +1,223 @@
+import { CloudFile, GalleryFilters, GalleryIndexEntry, GallerySort } from "../types";
+import { fetchCloudBlob, getFileId, getStorageScope } from "./storageService";
+
+const DB_NAME = 'peinture_gallery_index';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+
+// Sidecars are tiny, a few parallel requests keep large buckets quick without flooding the server
+const FETCH_CONCURRENCY = 4;
+
+// --- IndexedDB Helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+                    const store = db.createObjectStore(ENTRY_STORE, { keyPath: ['scope', 'key'] });
+                    store.createIndex('scope', 'scope');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const getScopeEntries = async (scope: string): Promise<GalleryIndexEntry[]> => {
+    const db = await openDB();
+    const store = db.transaction(ENTRY_STORE, 'readonly').objectStore(ENTRY_STORE);
+    return promisifyRequest(store.index('scope').getAll(scope) as IDBRequest<GalleryIndexEntry[]>);
+};
+
+const writeEntries = async (put: GalleryIndexEntry[], remove: GalleryIndexEntry[]): Promise<void> => {
+    if (put.length === 0 && remove.length === 0) return;
+    const db = await openDB();
+    const tx = db.transaction(ENTRY_STORE, 'readwrite');
+    const store = tx.objectStore(ENTRY_STORE);
+    remove.forEach(e => store.delete([e.scope, e.key]));
+    put.forEach(e => store.put(e));
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+// --- Entry Helpers ---
+
+// Entries are kept per storage target so switching buckets never mixes results
+export const getGalleryScope = (): string => getStorageScope();
+
+// Sidecar sits next to the media file, named after the id without the NSFW marker
+export const getMetadataUrl = (file: CloudFile): string => {
+    const baseUrl = file.url.substring(0, file.url.lastIndexOf('/') + 1);
+    return `${baseUrl}${getFileId(file.key)}.metadata.json`;
+};
+
+// Entry with only what the listing itself tells us, used until the sidecar is indexed
+export const createBaseEntry = (file: CloudFile, scope: string = getGalleryScope()): GalleryIndexEntry => ({
+    scope,
+    key: file.key,
+    fileId: getFileId(file.key),
+    lastModified: file.lastModified.getTime(),
+    size: file.size,
+    type: file.type,
+    nsfw: file.key.includes('.NSFW.'),
+    hasMetadata: false
+});
+
+const withMetadata = (base: GalleryIndexEntry, meta: any): GalleryIndexEntry => {
+    if (!meta || typeof meta !== 'object') return base;
+    return {
+        ...base,
+        hasMetadata: true,
+        prompt: typeof meta.prompt === 'string' ? meta.prompt : undefined,
+        model: typeof meta.model === 'string' ? meta.model : undefined,
+        provider: typeof meta.provider === 'string' ? meta.provider : undefined,
+        timestamp: typeof meta.timestamp === 'number' ? meta.timestamp : undefined
+    };
+};
+
+const fetchMetadata = async (file: CloudFile): Promise<any> => {
+    try {
+        const blob = await fetchCloudBlob(getMetadataUrl(file));
+        return JSON.parse(await blob.text());
+    } catch (e) {
+        // Manual uploads and older files have no sidecar
+        return null;
+    }
+};
+
+// When the file was created, falling back to when it was stored
+export const getEntryTime = (entry: GalleryIndexEntry): number => entry.timestamp ?? entry.lastModified;
+
+// --- Public API ---
+
+/**
+ * Brings the cached index in line with the current listing and returns entries in listing order.
+ * Unchanged files reuse their cached entry, renamed ones (NSFW toggles) reuse the entry of the
+ * same id, and only new or modified files have their sidecar fetched.
+ */
+export const refreshGalleryIndex = async (
+    files: CloudFile[],
+    onProgress?: (done: number, total: number) => void
+): Promise<GalleryIndexEntry[]> => {
+    const scope = getGalleryScope();
+    let cached: GalleryIndexEntry[] = [];
+    try {
+        cached = await getScopeEntries(scope);
+    } catch (e) {
+        console.warn("Gallery index unavailable, rebuilding in memory", e);
+    }
+
+    const byKey = new Map(cached.map(e => [e.key, e]));
+    const byFileId = new Map(cached.filter(e => e.hasMetadata).map(e => [e.fileId, e]));
+    const result = new Map<string, GalleryIndexEntry>();
+    const changed: GalleryIndexEntry[] = [];
+    const pending: CloudFile[] = [];
+
+    files.forEach(file => {
+        const base = createBaseEntry(file, scope);
+        const existing = byKey.get(file.key);
+        if (existing && existing.lastModified === base.lastModified && existing.size === base.size) {
+            result.set(file.key, existing);
+            return;
+        }
+        const renamed = !existing ? byFileId.get(base.fileId) : undefined;
+        if (renamed) {
+            const entry = withMetadata(base, renamed);
+            result.set(file.key, entry);
+            changed.push(entry);
+            return;
+        }
+        pending.push(file);
+    });
+
+    let done = 0;
+    onProgress?.(done, pending.length);
+    const queue = [...pending];
+    const worker = async () => {
+        let file: CloudFile | undefined;
+        while ((file = queue.shift())) {
+            const entry = withMetadata(createBaseEntry(file, scope), await fetchMetadata(file));
+            result.set(file.key, entry);
+            changed.push(entry);
+            onProgress?.(++done, pending.length);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(FETCH_CONCURRENCY, pending.length) }, worker));
+
+    const listed = new Set(files.map(f => f.key));
+    try {
+        await writeEntries(changed, cached.filter(e => !listed.has(e.key)));
+    } catch (e) {
+        console.warn("Failed to save gallery index", e);
+    }
+
+    return files.map(f => result.get(f.key)!);
+};
+
+/**
+ * Applies the search and facet filters. Every word of the query must appear in the prompt
+ * (or the file name when there is no prompt). Dates are compared in local time, inclusive.
+ */
+export const filterGalleryEntries = (entries: GalleryIndexEntry[], filters: GalleryFilters): GalleryIndexEntry[] => {
+    const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+    const from = filters.dateFrom ? new Date(`${filters.dateFrom}T00:00:00`).getTime() : null;
+    const to = filters.dateTo ? new Date(`${filters.dateTo}T23:59:59.999`).getTime() : null;
+
+    return entries.filter(e => {
+        if (filters.mediaType !== 'all' && e.type !== filters.mediaType) return false;
+        if (filters.nsfw === 'hide' && e.nsfw) return false;
+        if (filters.nsfw === 'only' && !e.nsfw) return false;
+        if (filters.model && e.model !== filters.model) return false;
+        if (filters.provider && e.provider !== filters.provider) return false;
+
+        const time = getEntryTime(e);
+        if (from !== null && time < from) return false;
+        if (to !== null && time > to) return false;
+
+        if (terms.length > 0) {
+            const text = (e.prompt || e.key).toLowerCase();
+            if (!terms.every(term => text.includes(term))) return false;
+        }
+        return true;
+    });
+};
+
+export const sortGalleryEntries = (entries: GalleryIndexEntry[], sort: GallerySort): GalleryIndexEntry[] => {
+    const sorted = [...entries];
+    switch (sort) {
+        case 'oldest': return sorted.sort((a, b) => getEntryTime(a) - getEntryTime(b));
+        case 'largest': return sorted.sort((a, b) => b.size - a.size);
+        case 'smallest': return sorted.sort((a, b) => a.size - b.size);
+        default: return sorted.sort((a, b) => getEntryTime(b) - getEntryTime(a));
+    }
+};
+
+// Distinct models and providers present in the index, for the facet dropdowns
+export const getGalleryFacets = (entries: GalleryIndexEntry[]): { models: string[], providers: string[] } => {
+    const models = new Set<string>();
+    const providers = new Set<string>();
+    entries.forEach(e => {
+        if (e.model) models.add(e.model);
+        if (e.provider) providers.add(e.provider);
+    });
+    return { models: Array.from(models).sort(), providers: Array.from(providers).sort() };
+};
@@ -1,5 +1,5 @@
 
-import { GeneratedImage, AspectRatioOption, ModelOption } from "../types";
+import { GeneratedImage, AspectRatioOption, ModelOption, VideoTaskStatus, VideoClipParams } from "../types";
 import { generateUUID, getSystemPromptContent, FIXED_SYSTEM_PROMPT_SUFFIX, getVideoSettings } from "./utils";
 import { API_MODEL_MAP } from "../constants";
 import { useAppStore } from "../store/appStore";
@@ -112,7 +112,9 @@ export const generateGiteeImage = async (
   seed?: number,
   steps?: number,
   enableHD: boolean = false,
-  guidanceScale?: number
+  guidanceScale?: number,
+  negativePrompt?: string,
+  signal?: AbortSignal
 ): Promise<GeneratedImage> => {
   const { width, height } = getDimensions(aspectRatio, enableHD, model);
   const finalSeed = seed ?? Math.floor(Math.random() * 2147483647);
@@ -141,13 +143,18 @@ export const generateGiteeImage = async (
         requestBody.guidance_scale = guidanceScale;
       }
 
+      if (negativePrompt) {
+        requestBody.negative_prompt = negativePrompt;
+      }
+
       const response = await fetch(GITEE_GENERATE_API_URL, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           "Authorization": `Bearer ${token}`
         },
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify(requestBody),
+        signal
       });
 
       if (!response.ok) {
@@ -295,28 +302,31 @@ export const optimizePromptGitee = async (originalPrompt: string, model: string
 
 // --- Video Generation Services ---
 
-const VIDEO_NEGATIVE_PROMPT = "Vivid colors, overexposed, static, blurry details, subtitles, style, artwork, painting, image, still, overall grayish tone, worst quality, low quality, JPEG compression artifacts, ugly, incomplete, extra fingers, poorly drawn hands, poorly drawn face, deformed, disfigured, malformed limbs, fused fingers, still image, cluttered background, three legs, many people in the background, walking backward, Screen shaking";
-
 export const createVideoTask = async (
   imageInput: string | Blob, 
   width: number, 
-  height: number
+  height: number,
+  clip: VideoClipParams,
+  model: string = 'wan2_2-i2v',
+  lastImage?: Blob // First/last frame models end the clip on it
 ): Promise<string> => {
   return runWithGiteeTokenRetry(async (token) => {
     try {
       const settings = getVideoSettings('gitee');
       // Convert Duration (seconds) to Frames. 1s = 16 frames.
-      const numFrames = Math.round(settings.duration * 16);
-      const apiModel = API_MODEL_MAP.gitee['wan2_2-i2v'];
+      const numFrames = Math.round(clip.duration * 16);
+      const apiModel = API_MODEL_MAP.gitee[model];
 
       const formData = new FormData();
       formData.append('image', imageInput); 
-      formData.append('prompt', settings.prompt);
-      formData.append('negative_prompt', VIDEO_NEGATIVE_PROMPT);
+      if (lastImage) formData.append('last_image', lastImage);
+      formData.append('prompt', clip.prompt);
+      formData.append('negative_prompt', clip.negativePrompt);
+      formData.append('seed', clip.seed.toString());
       formData.append('model', apiModel);
-      formData.append('num_inferenece_steps', settings.steps.toString());
+      formData.append('num_inferenece_steps', (clip.steps ?? settings.steps).toString());
       formData.append('num_frames', numFrames.toString());
-      formData.append('guidance_scale', settings.guidance.toString());
+      formData.append('guidance_scale', (clip.guidance ?? settings.guidance).toString());
       formData.append('height', height.toString());
       formData.append('width', width.toString());
 
@@ -344,7 +354,7 @@ export const createVideoTask = async (
   });
 };
 
-export const getGiteeTaskStatus = async (taskId: string): Promise<{status: string, videoUrl?: string, error?: string}> => {
+export const getGiteeTaskStatus = async (taskId: string): Promise<VideoTaskStatus> => {
   return runWithGiteeTokenRetry(async (token) => {
     try {
       const response = await fetch(`${GITEE_TASK_STATUS_API_URL}/${taskId}`, {
@@ -358,13 +368,15 @@ export const getGiteeTaskStatus = async (taskId: string): Promise<{status: strin
       const data = await response.json();
       // status can be "waiting", "is_process", "success", "failure"
       
-      const result: {status: string, videoUrl?: string, error?: string} = { status: data.status };
+      const result: VideoTaskStatus = { status: data.status };
       
       if (data.status === 'success' && data.output?.file_url) {
         result.videoUrl = data.output.file_url;
       } else if (data.status === 'failure') {
         result.status = 'failed';
         result.error = data.output?.error || data.output?.message || 'Video generation failed';
+      } else {
+        result.progress = { stage: data.status === 'waiting' ? 'queued' : 'running' };
       }
       
       return result;
@@ -1,5 +1,5 @@
 
-import { GeneratedImage, AspectRatioOption, ModelOption } from "../types";
+import { GeneratedImage, AspectRatioOption, ModelOption, TaskProgress, ProgressHandler, VideoClipParams } from "../types";
 import { generateUUID, getSystemPromptContent, FIXED_SYSTEM_PROMPT_SUFFIX, getVideoSettings, fetchBlob } from "./utils";
 import { fetchCloudBlob } from "./storageService";
 import { API_MODEL_MAP } from "../constants";
@@ -131,13 +131,37 @@ interface GradioPayload {
     event_data: null;
 }
 
+// Maps Gradio queue messages to progress updates, each one keeping what earlier ones reported
+const readGradioProgress = (msg: any, last: TaskProgress | null): TaskProgress | null => {
+    const toEtaAt = (seconds: unknown) => typeof seconds === 'number' ? Date.now() + seconds * 1000 : undefined;
+    switch (msg.msg) {
+        case 'estimation':
+            return { stage: 'queued', queuePosition: msg.rank ?? undefined, queueSize: msg.queue_size ?? undefined, etaAt: toEtaAt(msg.rank_eta) };
+        case 'process_starts':
+            return { stage: 'running', etaAt: toEtaAt(msg.eta) ?? last?.etaAt };
+        case 'progress': {
+            // Spaces report tqdm-style trackers, the first one with a length is the sampler
+            const tracker = msg.progress_data?.find((p: any) => typeof p?.index === 'number' && typeof p?.length === 'number');
+            return tracker ? { ...last, stage: 'running', step: tracker.index, totalSteps: tracker.length } : null;
+        }
+        case 'process_generating': {
+            // Streaming spaces send intermediate images before the final output
+            const preview = msg.output?.data?.find((item: any) => typeof item?.url === 'string');
+            return preview ? { ...last, stage: 'running', previewUrl: preview.url } : null;
+        }
+        default:
+            return null;
+    }
+};
+
 const runGradioTask = async <T>(
     baseUrl: string,
     data: any[],
     fn_index: number,
     trigger_id: number,
     token: string | null,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    onProgress?: ProgressHandler
 ): Promise<T> => {
     const session_hash = Date.now().toString(16);
     
@@ -185,6 +209,7 @@ const runGradioTask = async <T>(
 
     const decoder = new TextDecoder();
     let buffer = '';
+    let lastProgress: TaskProgress | null = null;
 
     try {
         while (true) {
@@ -200,6 +225,12 @@ const runGradioTask = async <T>(
                     const jsonStr = line.slice(6).trim();
                     try {
                         const msg = JSON.parse(jsonStr);
+
+                        const progress = readGradioProgress(msg, lastProgress);
+                        if (progress) {
+                            lastProgress = progress;
+                            onProgress?.(progress);
+                        }
                         
                         if (msg.msg === 'process_completed') {
                             if (msg.success) {
@@ -276,7 +307,10 @@ const generateZImageModel = async (
   seed: number = Math.round(Math.random() * 2147483647),
   steps: number = 30,
   guidanceScale: number = 4,
-  enableHD: boolean = false
+  enableHD: boolean = false,
+  negativePrompt?: string,
+  signal?: AbortSignal,
+  onProgress?: ProgressHandler
 ): Promise<GeneratedImage> => {
   const { width, height } = getDimensions(aspectRatio, false);
 
@@ -286,7 +320,7 @@ const generateZImageModel = async (
           ZIMAGE_MODEL_BASE_API_URL,
           [
             prompt,
-            Z_IMAGE_NEGATIVE_PROMPT,
+            negativePrompt || Z_IMAGE_NEGATIVE_PROMPT,
             height,
             width,
             steps,
@@ -296,7 +330,9 @@ const generateZImageModel = async (
           ],
           2, // fn_index
           18, // trigger_id
-          token
+          token,
+          signal,
+          onProgress
       );
 
       const data = output.data;
@@ -325,7 +361,9 @@ const generateZImage = async (
   aspectRatio: AspectRatioOption,
   seed: number = Math.round(Math.random() * 2147483647),
   enableHD: boolean = false,
-  steps: number = 9
+  steps: number = 9,
+  signal?: AbortSignal,
+  onProgress?: ProgressHandler
 ): Promise<GeneratedImage> => {
   let { width, height } = getDimensions(aspectRatio, enableHD);
 
@@ -336,7 +374,9 @@ const generateZImage = async (
           [prompt, height, width, steps, seed, false],
           1, // fn_index
           16, // trigger_id
-          token
+          token,
+          signal,
+          onProgress
       );
 
       const data = output.data;
@@ -364,7 +404,9 @@ const generateFluxSchnellImage = async (
   aspectRatio: AspectRatioOption,
   seed: number = Math.round(Math.random() * 2147483647),
   enableHD: boolean = false,
-  steps: number = 4
+  steps: number = 4,
+  signal?: AbortSignal,
+  onProgress?: ProgressHandler
 ): Promise<GeneratedImage> => {
   let { width, height } = getDimensions(aspectRatio, enableHD);
 
@@ -376,7 +418,9 @@ const generateFluxSchnellImage = async (
           [prompt, seed, false, width, height, steps],
           2, // fn_index
           5, // trigger_id
-          token
+          token,
+          signal,
+          onProgress
       );
 
       const data = output.data;
@@ -403,7 +447,9 @@ const generateQwenImage = async (
   prompt: string,
   aspectRatio: AspectRatioOption,
   seed?: number,
-  steps: number = 8
+  steps: number = 8,
+  signal?: AbortSignal,
+  onProgress?: ProgressHandler
 ): Promise<GeneratedImage> => {
 
   return runWithTokenRetry(async (token) => {
@@ -417,7 +463,9 @@ const generateQwenImage = async (
           [prompt, finalSeed, randomize, aspectRatio, 3, steps],
           1, // fn_index
           6, // trigger_id
-          token
+          token,
+          signal,
+          onProgress
       );
 
       const data = output.data;
@@ -452,7 +500,9 @@ const generateOvisImage = async (
   aspectRatio: AspectRatioOption,
   seed: number = Math.round(Math.random() * 2147483647),
   enableHD: boolean = false,
-  steps: number = 24
+  steps: number = 24,
+  signal?: AbortSignal,
+  onProgress?: ProgressHandler
 ): Promise<GeneratedImage> => {
   let { width, height } = getDimensions(aspectRatio, enableHD);
 
@@ -463,7 +513,9 @@ const generateOvisImage = async (
           [prompt, height, width, seed, steps, 4],
           2, // fn_index
           5, // trigger_id
-          token
+          token,
+          signal,
+          onProgress
       );
 
       const data = output.data;
@@ -493,7 +545,8 @@ export const editImageQwen = async (
   height: number,
   steps: number = 4,
   guidanceScale: number = 1,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  onProgress?: ProgressHandler
 ): Promise<GeneratedImage> => {
   return runWithTokenRetry(async (token) => {
     try {
@@ -535,7 +588,8 @@ export const editImageQwen = async (
           0, // fn_index
           12, // trigger_id
           token,
-          signal
+          signal,
+          onProgress
       );
 
       const data = output.data;
@@ -569,21 +623,24 @@ export const generateImage = async (
   seed?: number,
   enableHD: boolean = false,
   steps?: number,
-  guidanceScale?: number
+  guidanceScale?: number,
+  negativePrompt?: string,
+  signal?: AbortSignal,
+  onProgress?: ProgressHandler
 ): Promise<GeneratedImage> => {
   const finalSeed = seed ?? Math.round(Math.random() * 2147483647);
 
   if (model === 'flux-1-schnell') {
-    return generateFluxSchnellImage(prompt, aspectRatio, finalSeed, enableHD, steps);
+    return generateFluxSchnellImage(prompt, aspectRatio, finalSeed, enableHD, steps, signal, onProgress);
   } else if (model === 'qwen-image') {
-    return generateQwenImage(prompt, aspectRatio, seed, steps);
+    return generateQwenImage(prompt, aspectRatio, seed, steps, signal, onProgress);
   } else if (model === 'ovis-image') {
-    return generateOvisImage(prompt, aspectRatio, finalSeed, enableHD, steps);
+    return generateOvisImage(prompt, aspectRatio, finalSeed, enableHD, steps, signal, onProgress);
   } else if (model === 'z-image') {
-    return generateZImageModel(prompt, aspectRatio, finalSeed, steps, guidanceScale, enableHD);
+    return generateZImageModel(prompt, aspectRatio, finalSeed, steps, guidanceScale, enableHD, negativePrompt, signal, onProgress);
   } else {
     // Default to z-image-turbo
-    return generateZImage(prompt, aspectRatio, finalSeed, enableHD, steps);
+    return generateZImage(prompt, aspectRatio, finalSeed, enableHD, steps, signal, onProgress);
   }
 };
 
@@ -659,12 +716,10 @@ export const optimizePrompt = async (originalPrompt: string, model: string = 'op
 
 // --- Video Generation Services (HF) ---
 
-const VIDEO_NEGATIVE_PROMPT = "Vivid colors, overexposed, static, blurry details, subtitles, style, artwork, painting, image, still, overall grayish tone, worst quality, low quality, JPEG compression artifacts, ugly, incomplete, extra fingers, poorly drawn hands, poorly drawn face, deformed, disfigured, malformed limbs, fused fingers, still image, cluttered background, three legs, many people in the background, walking backward, Screen shaking";
-
-export const createVideoTaskHF = async (imageInput: string | Blob, seed: number = 42): Promise<string> => {
+// The space renders at its own resolution, clip.resolution is not sent
+export const createVideoTaskHF = async (imageInput: string | Blob, clip: VideoClipParams, onProgress?: ProgressHandler): Promise<string> => {
   return runWithTokenRetry(async (token) => {
     try {
-      const finalSeed = seed ?? Math.floor(Math.random() * 2147483647);
       const settings = getVideoSettings('huggingface');
       
       let filePath = '';
@@ -686,18 +741,20 @@ export const createVideoTaskHF = async (imageInput: string | Blob, seed: number
           WAN2_VIDEO_API_URL,
           [
             { "path": filePath, "meta": { "_type": "gradio.FileData" } },
-            settings.prompt,
-            settings.steps,
-            VIDEO_NEGATIVE_PROMPT,
-            settings.duration,
-            settings.guidance, // 1st guidance
-            settings.guidance, // 2nd guidance
-            finalSeed,
+            clip.prompt,
+            clip.steps ?? settings.steps,
+            clip.negativePrompt,
+            clip.duration,
+            clip.guidance ?? settings.guidance, // 1st guidance
+            clip.guidance ?? settings.guidance, // 2nd guidance
+            clip.seed,
             false // Randomize seed
           ],
           0, // fn_index
           16, // trigger_id
-          token
+          token,
+          undefined,
+          onProgress
       );
 
       const data = output.data;
@@ -0,0 +1,71 @@
+// Turns the editor's paint layer into an inpainting mask and puts results back inside it.
+// Any pixel the user touched counts as masked, including anti-aliased stroke edges.
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas not supported');
+    return { canvas, ctx };
+};
+
+/**
+ * Opaque white where the paint layer has any coverage, transparent elsewhere.
+ * Returns null when nothing was painted.
+ */
+export const createAlphaMask = (paintLayer: HTMLCanvasElement): HTMLCanvasElement | null => {
+    const { width, height } = paintLayer;
+    const source = paintLayer.getContext('2d')?.getImageData(0, 0, width, height);
+    if (!source) return null;
+
+    const { canvas, ctx } = createCanvas(width, height);
+    const mask = ctx.createImageData(width, height);
+    let painted = false;
+    for (let i = 3; i < source.data.length; i += 4) {
+        if (source.data[i] === 0) continue;
+        mask.data[i - 3] = 255;
+        mask.data[i - 2] = 255;
+        mask.data[i - 1] = 255;
+        mask.data[i] = 255;
+        painted = true;
+    }
+    if (!painted) return null;
+    ctx.putImageData(mask, 0, 0);
+    return canvas;
+};
+
+// White = repaint, black = keep. The convention of OpenAI-style and diffusers inpainting endpoints.
+export const createBinaryMaskBlob = (alphaMask: HTMLCanvasElement): Promise<Blob> => {
+    const { canvas, ctx } = createCanvas(alphaMask.width, alphaMask.height);
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(alphaMask, 0, 0);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Canvas conversion failed')), 'image/png');
+    });
+};
+
+/**
+ * Puts the edited image over the source only where the mask is set.
+ * The result is scaled to the source size first, since providers may return another resolution.
+ */
+export const compositeMasked = async (source: HTMLImageElement | HTMLCanvasElement, result: Blob, alphaMask: HTMLCanvasElement): Promise<Blob> => {
+    const width = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+    const height = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+
+    const bitmap = await createImageBitmap(result);
+    const layer = createCanvas(width, height);
+    layer.ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    layer.ctx.globalCompositeOperation = 'destination-in';
+    layer.ctx.drawImage(alphaMask, 0, 0, width, height);
+
+    const output = createCanvas(width, height);
+    output.ctx.drawImage(source, 0, 0);
+    output.ctx.drawImage(layer.canvas, 0, 0);
+
+    return new Promise((resolve, reject) => {
+        output.canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Canvas conversion failed')), 'image/png');
+    });
+};
@@ -0,0 +1,203 @@
+import { GeneratedImage, GenerationJob, GenerationParams, ProviderOption } from "../types";
+import { useAppStore } from "../store/appStore";
+import { useQueueStore } from "../store/queueStore";
+import { translations } from "../translations";
+import { generateWithFailover, getMaxConcurrency } from "./providerRegistry";
+import { generateUUID, prepareResultBlob } from "./utils";
+import { saveTempFileToOPFS } from "./storageService";
+import { recordPromptRun } from "./promptHistoryService";
+
+// In-flight requests, keyed by job id. Not persisted: a reload drops them.
+const controllers = new Map<string, AbortController>();
+
+const isPending = (job: GenerationJob) => job.status === 'queued' || job.status === 'running';
+
+const getJob = (id: string) => useQueueStore.getState().jobs.find(job => job.id === id);
+
+// --- Result Handling ---
+
+const storeResult = async (job: GenerationJob, result: GeneratedImage, duration: number): Promise<GeneratedImage> => {
+    const app = useAppStore.getState();
+    const isBatch = !!job.batchId;
+
+    let fileUrl = result.url;
+    let fileName = undefined;
+    try {
+        const { blob, ext } = await prepareResultBlob(result);
+        fileName = `${result.id}.${ext}`;
+        // Batch results stay in memory until one is picked
+        if (!isBatch) await saveTempFileToOPFS(blob, fileName);
+        fileUrl = URL.createObjectURL(blob);
+    } catch (e) {
+        console.warn("Failed to cache generated image, using original URL", e);
+    }
+
+    // A fallback provider reports the parameters it actually received
+    const failedOver = !!result.provider && result.provider !== job.provider;
+    const image: GeneratedImage = {
+        ...result,
+        url: fileUrl,
+        fileName,
+        duration,
+        provider: result.provider || job.provider,
+        guidanceScale: failedOver ? result.guidanceScale : job.params.guidanceScale,
+        negativePrompt: failedOver ? result.negativePrompt : job.params.negativePrompt
+    };
+
+    if (isBatch) {
+        if (useQueueStore.getState().activeBatchId === job.batchId) {
+            app.setBatchResults(prev => [...prev, image]);
+        } else if (fileUrl.startsWith('blob:')) {
+            URL.revokeObjectURL(fileUrl);
+        }
+    } else {
+        app.setImageDimensions(null);
+        app.setIsLiveMode(false);
+        app.setCurrentImage(image);
+        app.setHistory(prev => [image, ...prev]);
+        recordPromptRun(image, job.params.sourcePrompt).catch(e => console.warn("Failed to link prompt history", e));
+    }
+    return image;
+};
+
+const reportFailure = (job: GenerationJob, message: string) => {
+    const { language, setError } = useAppStore.getState();
+    const t = translations[language];
+
+    // A batch only surfaces an error once none of its jobs can still produce a result
+    if (job.batchId) {
+        const siblings = useQueueStore.getState().jobs.filter(j => j.batchId === job.batchId);
+        if (siblings.some(j => isPending(j) || j.status === 'succeeded')) return;
+    }
+    setError((t as any)[message] || message || t.generationFailed);
+};
+
+// --- Runner ---
+
+const runJob = async (job: GenerationJob) => {
+    const { updateJob } = useQueueStore.getState();
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+
+    const startedAt = Date.now();
+    updateJob(job.id, { status: 'running', startedAt, finishedAt: undefined, error: undefined });
+
+    try {
+        const result = await generateWithFailover(job.provider, {
+            ...job.params,
+            enableHD: true,
+            signal: controller.signal,
+            onProgress: (progress) => {
+                if (!controller.signal.aborted) useQueueStore.getState().setProgress(job.id, progress);
+            }
+        });
+        // Not every backend stops on abort, drop late results of canceled jobs
+        if (controller.signal.aborted) throw new DOMException('Aborted', 'AbortError');
+
+        const image = await storeResult(job, result, (Date.now() - startedAt) / 1000);
+        updateJob(job.id, { status: 'succeeded', finishedAt: Date.now(), resultId: image.id });
+    } catch (err: any) {
+        if (controller.signal.aborted) {
+            if (getJob(job.id)?.status === 'running') {
+                updateJob(job.id, { status: 'canceled', finishedAt: Date.now() });
+            }
+        } else {
+            const message = err?.message || 'generationFailed';
+            console.error("Generation job failed", err);
+            updateJob(job.id, { status: 'failed', finishedAt: Date.now(), error: message });
+            reportFailure(job, message);
+        }
+    } finally {
+        controllers.delete(job.id);
+        useQueueStore.getState().setProgress(job.id, null);
+        processQueue();
+    }
+};
+
+/**
+ * Starts queued jobs, oldest first, while each provider stays within its concurrency limit.
+ */
+export const processQueue = () => {
+    const { jobs } = useQueueStore.getState();
+    const running: Record<string, number> = {};
+    jobs.forEach(job => {
+        if (job.status === 'running') running[job.provider] = (running[job.provider] || 0) + 1;
+    });
+
+    // Jobs are stored newest first
+    const queued = jobs.filter(job => job.status === 'queued').reverse();
+    for (const job of queued) {
+        const active = running[job.provider] || 0;
+        if (active >= getMaxConcurrency(job.provider)) continue;
+        running[job.provider] = active + 1;
+        runJob(job);
+    }
+};
+
+// --- Public API ---
+
+export const enqueueGeneration = (
+    provider: ProviderOption,
+    params: GenerationParams,
+    options: { batchId?: string } = {}
+): string => {
+    const job: GenerationJob = {
+        id: generateUUID(),
+        provider,
+        params,
+        status: 'queued',
+        createdAt: Date.now(),
+        batchId: options.batchId
+    };
+    useQueueStore.getState().addJob(job);
+    processQueue();
+    return job.id;
+};
+
+export const cancelJob = (id: string) => {
+    const job = getJob(id);
+    if (!job || !isPending(job)) return;
+
+    useQueueStore.getState().updateJob(id, { status: 'canceled', finishedAt: Date.now() });
+    controllers.get(id)?.abort();
+    processQueue();
+};
+
+export const cancelBatch = (batchId: string) => {
+    useQueueStore.getState().jobs
+        .filter(job => job.batchId === batchId && isPending(job))
+        .forEach(job => cancelJob(job.id));
+};
+
+/**
+ * Re-queues a failed or canceled job with the same provider and params.
+ * It only rejoins its batch if that batch is still on screen.
+ */
+export const retryJob = (id: string): string | undefined => {
+    const job = getJob(id);
+    if (!job || isPending(job) || job.status === 'succeeded') return;
+
+    const { activeBatchId, removeJob } = useQueueStore.getState();
+    removeJob(id);
+    return enqueueGeneration(job.provider, job.params, {
+        batchId: job.batchId && job.batchId === activeBatchId ? job.batchId : undefined
+    });
+};
+
+/**
+ * Called once on startup. Requests that were in flight when the page closed cannot be
+ * resumed, and batch results are not persisted, so only plain queued jobs carry over.
+ */
+export const recoverInterruptedJobs = () => {
+    const { jobs, updateJob } = useQueueStore.getState();
+    const now = Date.now();
+    jobs.forEach(job => {
+        if (controllers.has(job.id)) return;
+        if (job.status === 'running') {
+            updateJob(job.id, { status: 'failed', finishedAt: now, error: 'error_job_interrupted' });
+        } else if (job.status === 'queued' && job.batchId) {
+            updateJob(job.id, { status: 'canceled', finishedAt: now });
+        }
+    });
+    processQueue();
+};
@@ -0,0 +1,129 @@
+import { MigrationOptions } from "../types";
+import { useMigrationStore } from "../store/migrationStore";
+import {
+    listCloudFiles, isBackendConfigured, getCloudFileName, getFileId,
+    readBackendObject, writeBackendObject, deleteBackendObject, getBackendObjectSize
+} from "./storageService";
+
+interface MigrationItem {
+    name: string;
+    size: number;
+}
+
+// Files still to copy, in listing order. Paused runs continue from here.
+let pending: MigrationItem[] = [];
+let pauseRequested = false;
+let running: Promise<void> | null = null;
+
+const getSidecarName = (name: string) => `${getFileId(name)}.metadata.json`;
+
+// Copies a file unless the target already holds it at the same size, then checks the copy.
+// Returns false when nothing had to be copied.
+const copyVerified = async (options: MigrationOptions, name: string, size: number): Promise<boolean> => {
+    if (await getBackendObjectSize(options.target, name) === size) return false;
+
+    const blob = await readBackendObject(options.source, name);
+    if (blob.size !== size) throw new Error("error_migration_size_mismatch");
+    await writeBackendObject(options.target, name, blob);
+
+    // Servers that hide Content-Length on HEAD report null, the upload itself succeeded then
+    const copiedSize = await getBackendObjectSize(options.target, name);
+    if (copiedSize !== null && copiedSize !== size) throw new Error("error_migration_size_mismatch");
+    return true;
+};
+
+const migrateFile = async (options: MigrationOptions, item: MigrationItem): Promise<boolean> => {
+    const copied = await copyVerified(options, item.name, item.size);
+
+    // Manual uploads and older files have no sidecar
+    const sidecarName = getSidecarName(item.name);
+    let sidecar: Blob | null = null;
+    try {
+        sidecar = await readBackendObject(options.source, sidecarName);
+    } catch (e) {
+        sidecar = null;
+    }
+    if (sidecar) await copyVerified(options, sidecarName, sidecar.size);
+
+    if (options.deleteSource) {
+        await deleteBackendObject(options.source, item.name);
+        if (sidecar) await deleteBackendObject(options.source, sidecarName);
+    }
+    return copied;
+};
+
+const processQueue = async (options: MigrationOptions) => {
+    const store = useMigrationStore.getState();
+    while (pending.length > 0) {
+        if (pauseRequested) {
+            store.setCurrent(null);
+            store.setStatus('paused');
+            return;
+        }
+        const item = pending[0];
+        store.setCurrent(item.name);
+        try {
+            const copied = await migrateFile(options, item);
+            store.completeFile(!copied);
+        } catch (e) {
+            console.error(`Failed to migrate ${item.name}`, e);
+            store.failFile(item.name);
+        }
+        pending.shift();
+    }
+    store.setCurrent(null);
+    store.setStatus('done');
+};
+
+const run = (options: MigrationOptions) => {
+    pauseRequested = false;
+    running = processQueue(options)
+        .catch(e => {
+            console.error("Gallery migration failed", e);
+            useMigrationStore.getState().setStatus('error', e.message);
+        })
+        .finally(() => { running = null; });
+    return running;
+};
+
+// --- Public API ---
+
+/**
+ * Copies every gallery file and its metadata sidecar from one backend to another.
+ * Each copy is checked against the source size; files already on the target are skipped,
+ * so running it again after an interruption only copies what is missing.
+ */
+export const startMigration = async (options: MigrationOptions): Promise<void> => {
+    if (running) return running;
+    if (options.source === options.target) throw new Error("error_migration_same_backend");
+    if (!isBackendConfigured(options.source) || !isBackendConfigured(options.target)) {
+        throw new Error("error_migration_not_configured");
+    }
+
+    const files = await listCloudFiles(options.source);
+    pending = files
+        .map(f => ({ name: getCloudFileName(options.source, f), size: f.size }))
+        .filter(item => item.name && !item.name.includes('/'));
+
+    useMigrationStore.getState().start(options, pending.length);
+    return run(options);
+};
+
+// Stops after the file being copied
+export const pauseMigration = () => {
+    if (running) pauseRequested = true;
+};
+
+export const resumeMigration = (): Promise<void> => {
+    const { status, options } = useMigrationStore.getState();
+    if (running || status !== 'paused' || !options) return running || Promise.resolve();
+    useMigrationStore.getState().setStatus('running');
+    return run(options);
+};
+
+// Forgets a paused or finished run
+export const resetMigration = () => {
+    if (running) return;
+    pending = [];
+    useMigrationStore.getState().reset();
+};
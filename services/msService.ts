@@ -1,4 +1,4 @@
-import { GeneratedImage, AspectRatioOption, ModelOption } from "../types";
+import { GeneratedImage, AspectRatioOption, ModelOption, ProgressHandler } from "../types";
 import { generateUUID, getSystemPromptContent, FIXED_SYSTEM_PROMPT_SUFFIX } from "./utils";
 import { uploadToGradio } from "./hfService";
 import { API_MODEL_MAP } from "../constants";
@@ -79,7 +79,7 @@ const runWithMsTokenRetry = async <T>(operation: (token: string) => Promise<T>):
 
 // --- Polling Helper for Async Tasks ---
 
-const pollMsTask = async (taskId: string, token: string, signal?: AbortSignal): Promise<string[]> => {
+const pollMsTask = async (taskId: string, token: string, signal?: AbortSignal, onProgress?: ProgressHandler): Promise<string[]> => {
     const statusUrl = `${MS_BASE_URL}v1/tasks/${taskId}`;
     
     while (true) {
@@ -110,8 +110,17 @@ const pollMsTask = async (taskId: string, token: string, signal?: AbortSignal):
             throw new Error(data.message || "Model Scope generation task failed");
         }
 
-        // Wait 5 seconds before next poll
-        await new Promise(resolve => setTimeout(resolve, 5000));
+        // The task API only tells waiting from running
+        onProgress?.({ stage: status === 'PENDING' ? 'queued' : 'running' });
+
+        // Wait 5 seconds before next poll, waking early if the caller aborts
+        await new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(resolve, 5000);
+            signal?.addEventListener('abort', () => {
+                clearTimeout(timer);
+                reject(new DOMException('Aborted', 'AbortError'));
+            }, { once: true });
+        });
     }
 };
 
@@ -151,7 +160,10 @@ export const generateMSImage = async (
   seed?: number,
   steps?: number,
   enableHD: boolean = false,
-  guidanceScale?: number
+  guidanceScale?: number,
+  negativePrompt?: string,
+  signal?: AbortSignal,
+  onProgress?: ProgressHandler
 ): Promise<GeneratedImage> => {
   const { width, height } = getDimensions(aspectRatio, enableHD);
   const finalSeed = seed ?? Math.floor(Math.random() * 2147483647);
@@ -177,6 +189,10 @@ export const generateMSImage = async (
           requestBody.guidance = guidanceScale;
       }
 
+      if (negativePrompt) {
+          requestBody.negative_prompt = negativePrompt;
+      }
+
       const response = await fetch(MS_GENERATE_ENDPOINT, {
         method: "POST",
         headers: {
@@ -184,7 +200,8 @@ export const generateMSImage = async (
           "Authorization": `Bearer ${token}`,
           "X-ModelScope-Async-Mode": "true"
         },
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify(requestBody),
+        signal
       });
 
       if (!response.ok) {
@@ -198,7 +215,7 @@ export const generateMSImage = async (
       }
 
       // Start Polling
-      const outputImages = await pollMsTask(initData.task_id, token);
+      const outputImages = await pollMsTask(initData.task_id, token, signal, onProgress);
       const imageUrl = outputImages[0];
 
       return {
@@ -228,7 +245,8 @@ export const editImageMS = async (
   height?: number,
   steps: number = 16,
   guidanceScale: number = 4,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  onProgress?: ProgressHandler
 ): Promise<GeneratedImage> => {
   // 1. Upload images to Gradio space to get public URLs. 
   const uploadedFilenames = await Promise.all(imageBlobs.map(blob => 
@@ -271,7 +289,7 @@ export const editImageMS = async (
       }
 
       // Start Polling
-      const outputImages = await pollMsTask(initData.task_id, token, signal);
+      const outputImages = await pollMsTask(initData.task_id, token, signal, onProgress);
       const imageUrl = outputImages[0];
 
       return {
@@ -0,0 +1,77 @@
+import { AspectRatioOption, EditorShape, OutpaintPadding } from "../types";
+
+// Builds the inputs of a canvas expansion: the padded image, and a mask covering only the padding.
+// The mask plugs into the inpainting helpers, so the original pixels come back unchanged.
+
+// Neutral gray reads as "empty" to models that only see the padded image
+const PADDING_FILL = '#808080';
+export const MAX_PADDING = 4096;
+
+export const ZERO_PADDING: OutpaintPadding = { top: 0, right: 0, bottom: 0, left: 0 };
+
+export const hasPadding = (padding: OutpaintPadding) => {
+    return padding.top > 0 || padding.right > 0 || padding.bottom > 0 || padding.left > 0;
+};
+
+export const getExpandedSize = (width: number, height: number, padding: OutpaintPadding) => ({
+    width: width + padding.left + padding.right,
+    height: height + padding.top + padding.bottom
+});
+
+/**
+ * Centered padding that brings the image to the given aspect ratio.
+ * Only one dimension grows; an image already at the ratio gets no padding.
+ */
+export const getPaddingForAspectRatio = (width: number, height: number, ratio: AspectRatioOption): OutpaintPadding => {
+    const [rw, rh] = ratio.split(':').map(Number);
+    const target = rw / rh;
+    if (width / height < target) {
+        const extra = Math.round(height * target) - width;
+        const left = Math.floor(extra / 2);
+        return { top: 0, right: extra - left, bottom: 0, left };
+    }
+    const extra = Math.round(width / target) - height;
+    const top = Math.floor(extra / 2);
+    return { top, right: 0, bottom: extra - top, left: 0 };
+};
+
+export const createPaddedCanvas = (source: HTMLImageElement | HTMLCanvasElement, width: number, height: number, padding: OutpaintPadding) => {
+    const size = getExpandedSize(width, height, padding);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas not supported');
+    ctx.fillStyle = PADDING_FILL;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(source, padding.left, padding.top, width, height);
+    return canvas;
+};
+
+// Opaque white over the padding, transparent over the original image
+export const createPaddingMask = (width: number, height: number, padding: OutpaintPadding) => {
+    const size = getExpandedSize(width, height, padding);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas not supported');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.clearRect(padding.left, padding.top, width, height);
+    return canvas;
+};
+
+// Moves an annotation along with the image when the canvas grows to the top or left
+export const translateShape = (shape: EditorShape, dx: number, dy: number): EditorShape => {
+    const shiftPoints = (points: number[]) => points.map((v, i) => v + (i % 2 === 0 ? dx : dy));
+    switch (shape.type) {
+        case 'path':
+        case 'lasso':
+            return { ...shape, points: shiftPoints(shape.points) };
+        case 'arrow':
+            return { ...shape, x1: shape.x1 + dx, y1: shape.y1 + dy, x2: shape.x2 + dx, y2: shape.y2 + dy };
+        default:
+            return { ...shape, x: shape.x + dx, y: shape.y + dy };
+    }
+};
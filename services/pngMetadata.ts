@@ -0,0 +1,212 @@
+import { ImageParameters } from "../types";
+import { crc32 } from "./utils";
+
+// Keyword used by A1111/Forge/ComfyUI-style tools for the generation settings
+const PARAMETERS_KEYWORD = 'parameters';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+interface PngChunk {
+    type: string;
+    data: Uint8Array;
+}
+
+// --- Chunk Helpers ---
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+const readChunks = (bytes: Uint8Array): PngChunk[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: PngChunk[] = [];
+    let pos = PNG_SIGNATURE.length;
+    while (pos + 8 <= bytes.length) {
+        const length = view.getUint32(pos);
+        const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+        chunks.push({ type, data: bytes.subarray(pos + 8, pos + 8 + length) });
+        pos += 12 + length;
+        if (type === 'IEND') break;
+    }
+    return chunks;
+};
+
+const encodeChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const out = new Uint8Array(12 + data.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+    out.set(data, 8);
+    view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+    return out;
+};
+
+const latin1Encode = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+const latin1Decode = (bytes: Uint8Array) => Array.from(bytes, b => String.fromCharCode(b)).join('');
+const isLatin1 = (text: string) => /^[\u0000-\u00ff]*$/.test(text);
+
+const concat = (...parts: Uint8Array[]) => {
+    const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    parts.forEach(p => { out.set(p, offset); offset += p.length; });
+    return out;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// tEXt for plain Latin-1 text, iTXt (uncompressed UTF-8) otherwise, as the spec requires
+const encodeTextChunk = (keyword: string, text: string): Uint8Array => {
+    if (isLatin1(text)) {
+        return encodeChunk('tEXt', concat(latin1Encode(keyword), new Uint8Array([0]), latin1Encode(text)));
+    }
+    // keyword \0 compression flag, method, language tag \0, translated keyword \0, text
+    return encodeChunk('iTXt', concat(latin1Encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), new TextEncoder().encode(text)));
+};
+
+const decodeTextChunk = async (chunk: PngChunk): Promise<{ keyword: string, text: string } | null> => {
+    const sep = chunk.data.indexOf(0);
+    if (sep < 0) return null;
+    const keyword = latin1Decode(chunk.data.subarray(0, sep));
+    const rest = chunk.data.subarray(sep + 1);
+
+    if (chunk.type === 'tEXt') {
+        return { keyword, text: latin1Decode(rest) };
+    }
+    if (chunk.type === 'zTXt') {
+        return { keyword, text: latin1Decode(await inflate(rest.subarray(1))) };
+    }
+    if (chunk.type === 'iTXt') {
+        const compressed = rest[0] === 1;
+        const langEnd = rest.indexOf(0, 2);
+        const translatedEnd = rest.indexOf(0, langEnd + 1);
+        if (langEnd < 0 || translatedEnd < 0) return null;
+        const body = rest.subarray(translatedEnd + 1);
+        return { keyword, text: new TextDecoder().decode(compressed ? await inflate(body) : body) };
+    }
+    return null;
+};
+
+// --- "parameters" Text Format ---
+
+const quoteValue = (value: string) => /[,:"\n]/.test(value) ? JSON.stringify(value) : value;
+
+/**
+ * Serialises settings the way A1111 does:
+ *   prompt
+ *   Negative prompt: ...
+ *   Steps: 9, CFG scale: 3.5, Seed: 42, Size: 1024x1024, Model: ..., Provider: ...
+ */
+export const formatImageParameters = (params: ImageParameters): string => {
+    const fields: [string, string | number | undefined][] = [
+        ['Steps', params.steps],
+        ['CFG scale', params.guidanceScale],
+        ['Seed', params.seed],
+        ['Size', params.width && params.height ? `${params.width}x${params.height}` : undefined],
+        ['Model', params.model],
+        ['Provider', params.provider],
+        ['Aspect ratio', params.aspectRatio]
+    ];
+    const settings = fields
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => `${key}: ${quoteValue(String(value))}`)
+        .join(', ');
+
+    const lines = [params.prompt];
+    if (params.negativePrompt) lines.push(`Negative prompt: ${params.negativePrompt}`);
+    if (settings) lines.push(settings);
+    return lines.join('\n');
+};
+
+const PARAM_REGEX = /\s*([\w ]+):\s*("(?:\\.|[^\\"])+"|[^,]*)(?:,|$)/g;
+
+export const parseImageParameters = (text: string): ImageParameters => {
+    const lines = text.trim().split('\n');
+    let settingsLine = '';
+    // The settings line is the last one and always lists at least one known key
+    if (lines.length > 0 && /(^|, )(Steps|Seed|Model|CFG scale|Size): /.test(lines[lines.length - 1])) {
+        settingsLine = lines.pop()!;
+    }
+
+    const promptLines: string[] = [];
+    const negativeLines: string[] = [];
+    let inNegative = false;
+    lines.forEach(line => {
+        if (line.startsWith('Negative prompt:')) {
+            inNegative = true;
+            line = line.slice('Negative prompt:'.length).trim();
+        }
+        (inNegative ? negativeLines : promptLines).push(line);
+    });
+
+    const result: ImageParameters = { prompt: promptLines.join('\n').trim() };
+    const negativePrompt = negativeLines.join('\n').trim();
+    if (negativePrompt) result.negativePrompt = negativePrompt;
+
+    for (const match of settingsLine.matchAll(PARAM_REGEX)) {
+        const key = match[1].trim();
+        let value = match[2].trim();
+        if (value.startsWith('"')) {
+            try { value = JSON.parse(value); } catch (e) { /* keep raw */ }
+        }
+        const num = Number(value);
+        if (key === 'Steps' && !isNaN(num)) result.steps = num;
+        else if (key === 'CFG scale' && !isNaN(num)) result.guidanceScale = num;
+        else if (key === 'Seed' && !isNaN(num)) result.seed = num;
+        else if (key === 'Model') result.model = value;
+        else if (key === 'Provider') result.provider = value;
+        else if (key === 'Aspect ratio') result.aspectRatio = value;
+        else if (key === 'Size') {
+            const [w, h] = value.split('x').map(Number);
+            if (w && h) {
+                result.width = w;
+                result.height = h;
+            }
+        }
+    }
+    return result;
+};
+
+// --- Public API ---
+
+/**
+ * Returns a copy of the PNG with a "parameters" text chunk describing how it was made.
+ * Any existing parameters chunk is replaced. Non-PNG blobs are returned unchanged.
+ */
+export const embedImageParameters = async (blob: Blob, params: ImageParameters): Promise<Blob> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (!isPng(bytes) || !params.prompt) return blob;
+
+    const chunks = readChunks(bytes);
+    const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+    let inserted = false;
+
+    for (const chunk of chunks) {
+        if (['tEXt', 'iTXt', 'zTXt'].includes(chunk.type)) {
+            const decoded = await decodeTextChunk(chunk);
+            if (decoded?.keyword === PARAMETERS_KEYWORD) continue;
+        }
+        // Text goes before the image data, where most readers look for it
+        if (!inserted && (chunk.type === 'IDAT' || chunk.type === 'IEND')) {
+            parts.push(encodeTextChunk(PARAMETERS_KEYWORD, formatImageParameters(params)));
+            inserted = true;
+        }
+        parts.push(encodeChunk(chunk.type, chunk.data));
+    }
+
+    return new Blob([concat(...parts)], { type: 'image/png' });
+};
+
+// Reads generation settings back from a PNG, null when it has none
+export const readImageParameters = async (blob: Blob): Promise<ImageParameters | null> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (!isPng(bytes)) return null;
+
+    for (const chunk of readChunks(bytes)) {
+        if (!['tEXt', 'iTXt', 'zTXt'].includes(chunk.type)) continue;
+        const decoded = await decodeTextChunk(chunk);
+        if (decoded?.keyword === PARAMETERS_KEYWORD && decoded.text.trim()) {
+            return parseImageParameters(decoded.text);
+        }
+    }
+    return null;
+};
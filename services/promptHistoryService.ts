@@ -0,0 +1,161 @@
+import { GeneratedImage, PromptHistoryEntry, PromptRun } from "../types";
+
+const DB_NAME = 'peinture_prompts';
+const DB_VERSION = 1;
+const PROMPT_STORE = 'prompts';
+
+// Pinned entries never expire, everything else is trimmed by last use
+const MAX_UNPINNED_ENTRIES = 500;
+const MAX_RUNS_PER_ENTRY = 20;
+
+// --- IndexedDB Helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROMPT_STORE)) {
+                    db.createObjectStore(PROMPT_STORE, { keyPath: 'text' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const getAllEntries = async (): Promise<PromptHistoryEntry[]> => {
+    const db = await openDB();
+    const store = db.transaction(PROMPT_STORE, 'readonly').objectStore(PROMPT_STORE);
+    return promisifyRequest(store.getAll() as IDBRequest<PromptHistoryEntry[]>);
+};
+
+// Read-modify-write of a single entry inside one transaction
+const updateEntry = async (
+    text: string,
+    updater: (entry: PromptHistoryEntry | undefined) => PromptHistoryEntry | undefined
+): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(PROMPT_STORE, 'readwrite');
+    const store = tx.objectStore(PROMPT_STORE);
+    const current = await promisifyRequest(store.get(text) as IDBRequest<PromptHistoryEntry | undefined>);
+    const next = updater(current);
+    if (next) store.put(next);
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+const pruneEntries = async () => {
+    const entries = await getAllEntries();
+    const unpinned = entries.filter(e => !e.pinned).sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    if (unpinned.length <= MAX_UNPINNED_ENTRIES) return;
+
+    const db = await openDB();
+    const store = db.transaction(PROMPT_STORE, 'readwrite').objectStore(PROMPT_STORE);
+    unpinned.slice(MAX_UNPINNED_ENTRIES).forEach(e => store.delete(e.text));
+};
+
+const sortEntries = (entries: PromptHistoryEntry[]) => {
+    return entries.sort((a, b) => {
+        if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+        return b.lastUsedAt - a.lastUsedAt;
+    });
+};
+
+// --- Public API ---
+
+/**
+ * Returns entries whose text contains every word of the query, pinned ones first.
+ * An empty query lists the whole history.
+ */
+export const searchPromptHistory = async (query: string = ''): Promise<PromptHistoryEntry[]> => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const entries = await getAllEntries();
+    const matches = terms.length === 0
+        ? entries
+        : entries.filter(e => {
+            const text = e.text.toLowerCase();
+            return terms.every(term => text.includes(term));
+        });
+    return sortEntries(matches);
+};
+
+export const recordPromptUse = async (prompt: string): Promise<void> => {
+    const text = prompt.trim();
+    if (!text) return;
+    const now = Date.now();
+    await updateEntry(text, (entry) => entry
+        ? { ...entry, lastUsedAt: now, useCount: entry.useCount + 1 }
+        : { text, createdAt: now, lastUsedAt: now, useCount: 1, pinned: false, runs: [] }
+    );
+    await pruneEntries();
+};
+
+// Links a finished generation to the prompt that produced it, the typed one when it was translated
+export const recordPromptRun = async (image: GeneratedImage, sourcePrompt?: string): Promise<void> => {
+    const text = (sourcePrompt ?? image.prompt).trim();
+    if (!text) return;
+    const run: PromptRun = {
+        imageId: image.id,
+        provider: image.provider || 'huggingface',
+        model: image.model,
+        aspectRatio: image.aspectRatio,
+        seed: image.seed,
+        steps: image.steps,
+        guidanceScale: image.guidanceScale,
+        negativePrompt: image.negativePrompt,
+        sentPrompt: image.prompt.trim() !== text ? image.prompt : undefined,
+        timestamp: image.timestamp
+    };
+    await updateEntry(text, (entry) => {
+        const base = entry || { text, createdAt: run.timestamp, lastUsedAt: run.timestamp, useCount: 1, pinned: false, runs: [] };
+        const runs = [run, ...base.runs.filter(r => r.imageId !== run.imageId)].slice(0, MAX_RUNS_PER_ENTRY);
+        return { ...base, runs };
+    });
+};
+
+export const setPromptPinned = async (text: string, pinned: boolean): Promise<void> => {
+    await updateEntry(text, (entry) => entry ? { ...entry, pinned } : undefined);
+};
+
+export const deletePromptHistoryEntry = async (text: string): Promise<void> => {
+    const db = await openDB();
+    const store = db.transaction(PROMPT_STORE, 'readwrite').objectStore(PROMPT_STORE);
+    await promisifyRequest(store.delete(text));
+};
+
+/**
+ * The old history lived in sessionStorage and vanished with the tab.
+ * Carry over whatever the current tab still holds, then drop it.
+ */
+export const migrateSessionPromptHistory = async (): Promise<void> => {
+    let legacy: string[] = [];
+    try {
+        const saved = sessionStorage.getItem('prompt_history');
+        legacy = saved ? JSON.parse(saved) : [];
+    } catch (e) {}
+    if (legacy.length === 0) return;
+
+    // Oldest first so the most recent prompt ends up with the latest timestamp
+    for (const text of [...legacy].reverse()) {
+        await recordPromptUse(text);
+    }
+    sessionStorage.removeItem('prompt_history');
+};
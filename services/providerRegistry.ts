@@ -0,0 +1,447 @@
+
+import {
+    CustomProvider,
+    FailoverSettings,
+    ImageProvider,
+    ProviderCapability,
+    ProviderModelOption,
+    ProviderId,
+    ProviderOption,
+    RemoteModel,
+    AspectRatioOption,
+    UnifiedModelOption,
+    GenerateRequest,
+    EditRequest,
+    VideoRequest,
+    VideoTaskResult,
+    VideoTaskStatus,
+    GeneratedImage,
+    StepsConfig,
+    GuidanceScaleConfig
+} from "../types";
+import {
+    API_MODEL_MAP,
+    HF_MODEL_OPTIONS,
+    GITEE_MODEL_OPTIONS,
+    MS_MODEL_OPTIONS,
+    A4F_MODEL_OPTIONS,
+    EDIT_MODELS,
+    LIVE_MODELS,
+    TEXT_MODELS,
+    UPSCALER_MODELS,
+    getModelConfig,
+    getGuidanceScaleConfig,
+    ASPECT_RATIOS,
+    BUILTIN_ASPECT_RATIOS,
+    MAX_BATCH_COUNT
+} from "../constants";
+import { generateImage, editImageQwen, upscaler, createVideoTaskHF, optimizePrompt as optimizePromptHF } from "./hfService";
+import { generateGiteeImage, editImageGitee, optimizePromptGitee, createVideoTask, getGiteeTaskStatus } from "./giteeService";
+import { generateMSImage, editImageMS, optimizePromptMS } from "./msService";
+import { generateA4FImage, optimizePromptA4F } from "./a4fService";
+import {
+    generateCustomImage,
+    editImageCustom,
+    generateCustomVideo,
+    getCustomTaskStatus,
+    optimizePromptCustom,
+    upscaleImageCustom
+} from "./customService";
+import { getCustomProviders, getServiceMode, getVideoSettings, getFailoverSettings, fetchBlob } from "./utils";
+import { useAppStore } from "../store/appStore";
+
+// Gitee video tasks take several minutes, so skip polling until then
+const GITEE_VIDEO_PREDICT_SECONDS = 400;
+
+// Gitee's Wan 2.1 FLF2V moves from a first to a last frame
+const GITEE_FLF2V_MODEL = 'wan2_1-flf2v';
+
+// Extract the bare model ids of one provider from a unified "provider:model" list
+const pickModels = (list: UnifiedModelOption[], providerId: string): ProviderModelOption[] => {
+    return list
+        .filter(m => m.provider === providerId)
+        .map(m => ({ value: m.value.split(':').slice(1).join(':'), label: m.label }));
+};
+
+const builtinModels = (providerId: string, generate: ProviderModelOption[]) => ({
+    generate,
+    edit: pickModels(EDIT_MODELS, providerId),
+    video: pickModels(LIVE_MODELS, providerId),
+    text: pickModels(TEXT_MODELS, providerId),
+    upscaler: pickModels(UPSCALER_MODELS, providerId),
+});
+
+// Gitee's Wan 2.2 endpoint expects the frame's short side at the chosen resolution, with even dimensions
+const scaleToResolution = (width: number, height: number, resolution: number) => {
+    const imgAspectRatio = width / height;
+    if (width >= height) {
+        height = resolution;
+        width = Math.round(height * imgAspectRatio);
+    } else {
+        width = resolution;
+        height = Math.round(width / imgAspectRatio);
+    }
+    if (width % 2 !== 0) width -= 1;
+    if (height % 2 !== 0) height -= 1;
+    return { width, height };
+};
+
+// --- Built-in Providers ---
+
+const huggingFaceProvider: ImageProvider = {
+    id: 'huggingface',
+    name: 'Hugging Face',
+    requiresToken: false,
+    maxConcurrency: 1, // Shared Gradio spaces queue requests anyway
+    models: builtinModels('huggingface', HF_MODEL_OPTIONS),
+    getStepsConfig: (model) => getModelConfig('huggingface', model),
+    getGuidanceScaleConfig: (model) => getGuidanceScaleConfig(model, 'huggingface'),
+    getAspectRatios: () => BUILTIN_ASPECT_RATIOS,
+    // Of the Gradio spaces only the Z-Image base space has a negative prompt input
+    supportsNegativePrompt: (model) => model === 'z-image',
+    generate: (req) => generateImage(req.model, req.prompt, req.aspectRatio, req.seed, req.enableHD, req.steps, req.guidanceScale, req.negativePrompt, req.signal, req.onProgress),
+    edit: (req) => editImageQwen(req.imageBlobs, req.prompt, req.width, req.height, 4, 1, req.signal, req.onProgress),
+    createVideo: async (req) => ({ url: await createVideoTaskHF(req.image, req.clip, req.onProgress) }),
+    optimizePrompt: (prompt, model) => optimizePromptHF(prompt, model),
+    upscale: (url) => upscaler(url),
+};
+
+const giteeProvider: ImageProvider = {
+    id: 'gitee',
+    name: 'Gitee AI',
+    requiresToken: true,
+    maxConcurrency: 2,
+    models: builtinModels('gitee', GITEE_MODEL_OPTIONS),
+    getStepsConfig: (model) => getModelConfig('gitee', model),
+    getGuidanceScaleConfig: (model) => getGuidanceScaleConfig(model, 'gitee'),
+    getAspectRatios: () => BUILTIN_ASPECT_RATIOS,
+    supportsNegativePrompt: () => true,
+    supportsVideoResolution: () => true,
+    getMaxKeyframes: (model) => model === GITEE_FLF2V_MODEL ? 2 : 1,
+    generate: (req) => generateGiteeImage(req.model, req.prompt, req.aspectRatio, req.seed, req.steps, req.enableHD, req.guidanceScale, req.negativePrompt, req.signal),
+    edit: (req) => editImageGitee(req.imageBlobs, req.prompt, req.width, req.height, 16, 4, req.signal),
+    createVideo: async (req) => {
+        // Gitee requires a Blob for the multipart upload
+        const image = typeof req.image === 'string' ? await fetchBlob(req.image) : req.image;
+        const { width, height } = scaleToResolution(req.width, req.height, req.clip.resolution);
+        let lastImage: Blob | undefined;
+        if (req.model === GITEE_FLF2V_MODEL) {
+            // Without a last frame the clip returns to the first one, which loops well as a Live image
+            lastImage = req.keyframes?.length ? await fetchBlob(req.keyframes[0]) : image;
+        }
+        const taskId = await createVideoTask(image, width, height, req.clip, req.model, lastImage);
+        return { taskId, predict: GITEE_VIDEO_PREDICT_SECONDS };
+    },
+    getTaskStatus: (taskId) => getGiteeTaskStatus(taskId),
+    optimizePrompt: (prompt, model) => optimizePromptGitee(prompt, model),
+};
+
+const modelScopeProvider: ImageProvider = {
+    id: 'modelscope',
+    name: 'Model Scope',
+    requiresToken: true,
+    maxConcurrency: 2,
+    models: builtinModels('modelscope', MS_MODEL_OPTIONS),
+    getStepsConfig: (model) => getModelConfig('modelscope', model),
+    getGuidanceScaleConfig: (model) => getGuidanceScaleConfig(model, 'modelscope'),
+    getAspectRatios: () => BUILTIN_ASPECT_RATIOS,
+    supportsNegativePrompt: () => true,
+    generate: (req) => generateMSImage(req.model, req.prompt, req.aspectRatio, req.seed, req.steps, req.enableHD, req.guidanceScale, req.negativePrompt, req.signal, req.onProgress),
+    edit: (req) => editImageMS(req.imageBlobs, req.prompt, req.width, req.height, 16, 4, req.signal, req.onProgress),
+    optimizePrompt: (prompt, model) => optimizePromptMS(prompt, model),
+};
+
+const a4fProvider: ImageProvider = {
+    id: 'a4f',
+    name: 'A4F',
+    requiresToken: true,
+    maxConcurrency: 2,
+    models: builtinModels('a4f', A4F_MODEL_OPTIONS),
+    getStepsConfig: (model) => getModelConfig('a4f', model),
+    getGuidanceScaleConfig: (model) => getGuidanceScaleConfig(model, 'a4f'),
+    getAspectRatios: () => BUILTIN_ASPECT_RATIOS,
+    supportsNegativePrompt: () => false, // OpenAI-style images endpoint has no such field
+    generate: (req) => generateA4FImage(req.model, req.prompt, req.aspectRatio, req.seed, req.steps, req.enableHD, req.guidanceScale, req.signal),
+    optimizePrompt: (prompt, model) => optimizePromptA4F(prompt, model),
+};
+
+export const BUILTIN_PROVIDERS: ImageProvider[] = [
+    huggingFaceProvider,
+    giteeProvider,
+    modelScopeProvider,
+    a4fProvider
+];
+
+// --- Custom Providers ---
+
+const toModelOptions = (models?: RemoteModel[]): ProviderModelOption[] => {
+    return (models || []).map(m => ({ value: m.id, label: m.name }));
+};
+
+const createCustomProvider = (cp: CustomProvider): ImageProvider => {
+    // Steps and guidance ranges are only known for text2image models
+    const findGenerateModel = (model: string) => cp.models.generate?.find(m => m.id === model);
+    // Edit models listed with the "inpainting" type accept a mask next to the image
+    const findEditModel = (model: string) => cp.models.edit?.find(m => m.id === model);
+    const findVideoModel = (model: string) => cp.models.video?.find(m => m.id === model);
+
+    return {
+        id: cp.id,
+        name: cp.name,
+        requiresToken: false,
+        maxConcurrency: 4,
+        models: {
+            generate: toModelOptions(cp.models.generate),
+            edit: toModelOptions(cp.models.edit),
+            video: toModelOptions(cp.models.video),
+            text: toModelOptions(cp.models.text),
+            upscaler: toModelOptions(cp.models.upscaler),
+        },
+        getStepsConfig: (model): StepsConfig | null => {
+            const remote = findGenerateModel(model);
+            if (!remote?.steps) return null;
+            return { min: remote.steps.range[0], max: remote.steps.range[1], default: remote.steps.default };
+        },
+        getGuidanceScaleConfig: (model): GuidanceScaleConfig | null => {
+            const remote = findGenerateModel(model);
+            if (!remote?.guidance) return null;
+            return { min: remote.guidance.range[0], max: remote.guidance.range[1], step: 0.1, default: remote.guidance.default };
+        },
+        // Capabilities are advertised by protocol version 1 servers, anything unlisted is assumed to work
+        supportsNegativePrompt: (model) => findGenerateModel(model)?.capabilities?.negativePrompt !== false,
+        supportsMask: (model) => !!findEditModel(model)?.type?.includes('inpainting'),
+        supportsVideoResolution: () => true,
+        getMaxKeyframes: (model) => findVideoModel(model)?.capabilities?.maxKeyframes ?? 1,
+        getAspectRatios: (model) => findGenerateModel(model)?.capabilities?.aspectRatios ?? null,
+        supportsSeed: (model) => findGenerateModel(model)?.capabilities?.seed !== false,
+        getMaxBatchSize: (model) => findGenerateModel(model)?.capabilities?.maxBatchSize ?? null,
+        generate: (req) => generateCustomImage(cp, req.model, req.prompt, req.aspectRatio, req.seed, req.steps, req.guidanceScale, req.enableHD, req.negativePrompt, req.signal),
+        edit: (req) => editImageCustom(cp, req.model, req.imageBlobs, req.prompt, undefined, undefined, undefined, req.mask),
+        createVideo: (req) => {
+            const settings = getVideoSettings(cp.id);
+            // generateCustomVideo posts a url, so fall back to the original when the caller prepared a Blob
+            const imageUrl = typeof req.image === 'string' ? req.image : req.imageUrl;
+            return generateCustomVideo(cp, req.model, imageUrl, req.clip, req.clip.steps ?? settings.steps, req.clip.guidance ?? settings.guidance, req.keyframes);
+        },
+        getTaskStatus: (taskId) => getCustomTaskStatus(cp, taskId),
+        optimizePrompt: (prompt, model) => optimizePromptCustom(cp, model, prompt),
+        upscale: (url, model) => upscaleImageCustom(cp, model, url),
+    };
+};
+
+// --- Registry Lookup ---
+
+export const getProvider = (providerId?: ProviderOption): ImageProvider | undefined => {
+    if (!providerId) return undefined;
+    const builtin = BUILTIN_PROVIDERS.find(p => p.id === providerId);
+    if (builtin) return builtin;
+    const custom = getCustomProviders().find(p => p.id === providerId);
+    return custom ? createCustomProvider(custom) : undefined;
+};
+
+// Providers visible under the current service mode, built-in ones first
+export const getAvailableProviders = (): ImageProvider[] => {
+    const serviceMode = getServiceMode();
+    const providers: ImageProvider[] = [];
+    if (serviceMode === 'local' || serviceMode === 'hydration') {
+        providers.push(...BUILTIN_PROVIDERS);
+    }
+    if (serviceMode === 'server' || serviceMode === 'hydration') {
+        providers.push(...getCustomProviders().map(createCustomProvider));
+    }
+    return providers;
+};
+
+export const hasCapability = (provider: ImageProvider, capability: ProviderCapability): boolean => {
+    const hasModels = (provider.models[capability]?.length ?? 0) > 0;
+    switch (capability) {
+        case 'generate': return hasModels && !!provider.generate;
+        case 'edit': return hasModels && !!provider.edit;
+        case 'video': return hasModels && !!provider.createVideo;
+        case 'text': return hasModels && !!provider.optimizePrompt;
+        case 'upscaler': return hasModels && !!provider.upscale;
+    }
+};
+
+export const getStepsConfig = (providerId: ProviderOption, model: string): StepsConfig | null => {
+    return getProvider(providerId)?.getStepsConfig(model) ?? null;
+};
+
+export const getGuidanceConfig = (providerId: ProviderOption, model: string): GuidanceScaleConfig | null => {
+    return getProvider(providerId)?.getGuidanceScaleConfig(model) ?? null;
+};
+
+export const supportsNegativePrompt = (providerId: ProviderOption, model: string): boolean => {
+    return getProvider(providerId)?.supportsNegativePrompt(model) ?? false;
+};
+
+export const getSupportedAspectRatios = (providerId: ProviderOption, model: string): AspectRatioOption[] => {
+    return getProvider(providerId)?.getAspectRatios?.(model) ?? ASPECT_RATIOS;
+};
+
+export const supportsSeed = (providerId: ProviderOption, model: string): boolean => {
+    return getProvider(providerId)?.supportsSeed?.(model) ?? true;
+};
+
+export const getMaxBatchSize = (providerId: ProviderOption, model: string): number => {
+    return Math.min(getProvider(providerId)?.getMaxBatchSize?.(model) ?? MAX_BATCH_COUNT, MAX_BATCH_COUNT);
+};
+
+export const getMaxConcurrency = (providerId: ProviderOption): number => {
+    return getProvider(providerId)?.maxConcurrency ?? 1;
+};
+
+export const getProviderLabel = (providerId?: ProviderOption): string => {
+    if (!providerId) return huggingFaceProvider.name;
+    return getProvider(providerId)?.name ?? providerId;
+};
+
+export const getModelLabel = (model: string, providerId?: ProviderOption): string => {
+    // Built-in generate models share ids across providers, so search them all first
+    const builtin = BUILTIN_PROVIDERS.flatMap(p => p.models.generate || []).find(o => o.value === model);
+    if (builtin) return builtin.label;
+
+    const provider = getProvider(providerId);
+    if (provider) {
+        const all = Object.values(provider.models).flatMap(list => list || []);
+        const option = all.find(o => o.value === model);
+        if (option) return option.label;
+    }
+    return model;
+};
+
+// --- Dispatchers ---
+
+export const generateWithProvider = async (providerId: ProviderOption, request: GenerateRequest): Promise<GeneratedImage> => {
+    const provider = getProvider(providerId);
+    if (!provider?.generate) {
+        throw new Error("Invalid provider");
+    }
+    return provider.generate(request);
+};
+
+// --- Failover ---
+
+// What each built-in service throws once all of its tokens are used up for the day
+const QUOTA_ERRORS = ['error_quota_exhausted', 'error_gitee_token_exhausted', 'error_ms_token_exhausted', 'error_a4f_token_exhausted'];
+
+const isQuotaError = (error: any) => {
+    return QUOTA_ERRORS.includes(error?.message) || error?.status === 429 || !!error?.message?.includes('429');
+};
+
+// Built-in providers that list the model and can translate its canonical id through API_MODEL_MAP
+export const getFailoverCandidates = (model: string): ProviderId[] => {
+    return BUILTIN_PROVIDERS
+        .filter(p => API_MODEL_MAP[p.id]?.[model] && p.models.generate?.some(o => o.value === model))
+        .map(p => p.id as ProviderId);
+};
+
+// Canonical generate models that more than one built-in provider serves
+export const getFailoverModels = (): string[] => {
+    const models = BUILTIN_PROVIDERS.flatMap(p => (p.models.generate || []).map(o => o.value));
+    return Array.from(new Set(models)).filter(model => getFailoverCandidates(model).length > 1);
+};
+
+export const getFailoverChain = (model: string, settings: FailoverSettings): ProviderId[] => {
+    const candidates = getFailoverCandidates(model);
+    const saved = settings.chains[model];
+    return saved ? saved.filter(id => candidates.includes(id)) : candidates;
+};
+
+// Fallback providers have their own steps and guidance ranges, and may not take a negative prompt
+const adaptRequest = (providerId: ProviderId, request: GenerateRequest): GenerateRequest => {
+    const clamp = (value: number | undefined, config: { min: number; max: number } | null) => {
+        if (value === undefined || !config) return undefined;
+        return Math.min(Math.max(value, config.min), config.max);
+    };
+    return {
+        ...request,
+        steps: clamp(request.steps, getStepsConfig(providerId, request.model)),
+        guidanceScale: clamp(request.guidanceScale, getGuidanceConfig(providerId, request.model)),
+        negativePrompt: supportsNegativePrompt(providerId, request.model) ? request.negativePrompt : undefined
+    };
+};
+
+/**
+ * Generates with the selected provider, then walks the model's failover chain while providers
+ * report exhausted quota. The result's `provider` is the one that actually produced it.
+ */
+export const generateWithFailover = async (providerId: ProviderOption, request: GenerateRequest): Promise<GeneratedImage> => {
+    const settings = getFailoverSettings();
+    const { tokens } = useAppStore.getState();
+    const fallbacks = settings.enabled
+        ? getFailoverChain(request.model, settings).filter(id => id !== providerId && (!getProvider(id)?.requiresToken || tokens[id]?.length > 0))
+        : [];
+
+    try {
+        const result = await generateWithProvider(providerId, request);
+        return { ...result, provider: providerId };
+    } catch (error) {
+        if (fallbacks.length === 0 || !isQuotaError(error)) throw error;
+        let lastError = error;
+        for (const id of fallbacks) {
+            if (request.signal?.aborted) break;
+            console.warn(`${getProviderLabel(providerId)} is out of quota, falling back to ${getProviderLabel(id)}`);
+            const adapted = adaptRequest(id, request);
+            try {
+                const result = await generateWithProvider(id, adapted);
+                return { ...result, provider: id, guidanceScale: adapted.guidanceScale, negativePrompt: adapted.negativePrompt };
+            } catch (e) {
+                if (!isQuotaError(e)) throw e;
+                lastError = e;
+            }
+        }
+        throw lastError;
+    }
+};
+
+// Edit, text and upscale fall back to Hugging Face when the configured provider is gone
+export const editWithProvider = async (providerId: ProviderOption, request: EditRequest): Promise<GeneratedImage> => {
+    const provider = getProvider(providerId);
+    if (provider?.edit) return provider.edit(request);
+    return huggingFaceProvider.edit!(request);
+};
+
+// Whether the edit model inpaints with a mask, otherwise the caller marks the area on a second image
+export const supportsMaskedEdit = (providerId: ProviderOption, model: string): boolean => {
+    const provider = getProvider(providerId);
+    return provider?.edit ? !!provider.supportsMask?.(model) : false;
+};
+
+export const optimizePromptWithProvider = async (providerId: ProviderOption, model: string, prompt: string): Promise<string> => {
+    const provider = getProvider(providerId);
+    if (provider?.optimizePrompt) return provider.optimizePrompt(prompt, model);
+    return huggingFaceProvider.optimizePrompt!(prompt, model);
+};
+
+export const upscaleWithProvider = async (providerId: ProviderOption, model: string, url: string): Promise<{ url: string }> => {
+    const provider = getProvider(providerId);
+    if (provider?.upscale) return provider.upscale(url, model);
+    return huggingFaceProvider.upscale!(url, model);
+};
+
+export const supportsVideoResolution = (providerId: ProviderOption, model: string): boolean => {
+    return getProvider(providerId)?.supportsVideoResolution?.(model) ?? false;
+};
+
+// Of the built-in video models only Gitee's Wan 2.1 FLF2V takes a last frame
+export const getMaxKeyframes = (providerId: ProviderOption, model: string): number => {
+    return getProvider(providerId)?.getMaxKeyframes?.(model) ?? 1;
+};
+
+export const createVideoWithProvider = async (providerId: ProviderOption, request: VideoRequest): Promise<VideoTaskResult> => {
+    const provider = getProvider(providerId);
+    if (!provider?.createVideo) {
+        throw new Error("liveNotSupported");
+    }
+    if ((request.keyframes?.length ?? 0) >= (provider.getMaxKeyframes?.(request.model) ?? 1)) {
+        throw new Error("error_keyframes_unsupported");
+    }
+    return provider.createVideo(request);
+};
+
+export const getVideoTaskStatus = async (providerId: ProviderOption, taskId: string): Promise<VideoTaskStatus | null> => {
+    const provider = getProvider(providerId);
+    if (!provider?.getTaskStatus) return null;
+    return provider.getTaskStatus(taskId);
+};
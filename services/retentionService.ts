@@ -0,0 +1,71 @@
+import { GeneratedImage, RetentionPolicy } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead the settings warning looks for images about to expire
+export const EXPIRY_WARNING_WINDOW_MS = DAY_MS;
+
+export interface RetentionPlan {
+    keep: GeneratedImage[];
+    expire: GeneratedImage[];
+}
+
+// OPFS tmp files backing a history item (image and optional live video)
+export const getImageFileNames = (img: GeneratedImage): string[] => {
+    const names = [img.fileName || `${img.id}.png`];
+    if (img.videoFileName) names.push(img.videoFileName);
+    return names;
+};
+
+export const getImageBytes = (img: GeneratedImage, fileSizes: Map<string, number>): number => {
+    return getImageFileNames(img).reduce((sum, name) => sum + (fileSizes.get(name) || 0), 0);
+};
+
+/**
+ * Splits the history into what the policy keeps and what it removes.
+ * Newest items win the count and byte budgets. Pinned items are never expired,
+ * but they still use up the budgets, so the limits bound the real OPFS usage.
+ */
+export const planRetention = (
+    history: GeneratedImage[],
+    policy: RetentionPolicy,
+    fileSizes: Map<string, number>,
+    now: number = Date.now()
+): RetentionPlan => {
+    const pinned = history.filter(img => img.pinned);
+    let keptCount = pinned.length;
+    let keptBytes = pinned.reduce((sum, img) => sum + getImageBytes(img, fileSizes), 0);
+
+    const expiredIds = new Set<string>();
+    const unpinned = history.filter(img => !img.pinned).sort((a, b) => b.timestamp - a.timestamp);
+
+    for (const img of unpinned) {
+        const bytes = getImageBytes(img, fileSizes);
+        const tooOld = policy.maxAgeDays !== null && (now - img.timestamp) >= policy.maxAgeDays * DAY_MS;
+        const overCount = policy.maxCount !== null && keptCount + 1 > policy.maxCount;
+        const overBytes = policy.maxBytes !== null && keptBytes + bytes > policy.maxBytes;
+
+        if (tooOld || overCount || overBytes) {
+            expiredIds.add(img.id);
+        } else {
+            keptCount++;
+            keptBytes += bytes;
+        }
+    }
+
+    // Preserve the original history order in both lists
+    return {
+        keep: history.filter(img => !expiredIds.has(img.id)),
+        expire: history.filter(img => expiredIds.has(img.id))
+    };
+};
+
+// Items the next startup purge would remove if it happened a day from now
+export const findExpiringSoon = (
+    history: GeneratedImage[],
+    policy: RetentionPolicy,
+    fileSizes: Map<string, number>,
+    now: number = Date.now()
+): GeneratedImage[] => {
+    return planRetention(history, policy, fileSizes, now + EXPIRY_WARNING_WINDOW_MS).expire;
+};
@@ -0,0 +1,197 @@
+// AWS Signature Version 4 for the browser, on top of WebCrypto.
+// Follows the canonicalisation rules of the AWS SigV4 test suite; S3 differs from other
+// services only in that its paths are URI-encoded once instead of twice.
+
+export interface SigV4Credentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+}
+
+export interface SigV4Options {
+    credentials: SigV4Credentials;
+    region: string;
+    service: string;
+    date?: Date; // Defaults to now, fixed by callers that need reproducible signatures
+}
+
+export interface SigV4Request {
+    method: string;
+    url: string;
+    headers?: Record<string, string>; // Signed along with host
+    payloadHash?: string; // Hex SHA-256 of the body, or UNSIGNED-PAYLOAD
+}
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+// Presigned URLs may live at most 7 days
+const MAX_PRESIGN_EXPIRES = 7 * 24 * 60 * 60;
+
+// --- Crypto Helpers ---
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+export const sha256Hex = async (data: string | ArrayBuffer): Promise<string> => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    return toHex(await crypto.subtle.digest('SHA-256', bytes));
+};
+
+const hmac = async (key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> => {
+    const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+};
+
+// The derived key only changes once a day, so galleries presigning hundreds of URLs reuse it
+const signingKeyCache = new Map<string, ArrayBuffer>();
+
+const getSigningKey = async (secret: string, dateStamp: string, region: string, service: string) => {
+    const cacheKey = `${secret}|${dateStamp}|${region}|${service}`;
+    let key = signingKeyCache.get(cacheKey);
+    if (!key) {
+        const kDate = await hmac(encoder.encode(`AWS4${secret}`), dateStamp);
+        const kRegion = await hmac(kDate, region);
+        const kService = await hmac(kRegion, service);
+        key = await hmac(kService, 'aws4_request');
+        signingKeyCache.clear();
+        signingKeyCache.set(cacheKey, key);
+    }
+    return key;
+};
+
+// --- Canonicalisation ---
+
+// encodeURIComponent leaves !'()* alone, SigV4 wants everything but unreserved characters escaped
+export const encodeRfc3986 = (value: string) => {
+    return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+};
+
+const safeDecode = (value: string) => {
+    try {
+        return decodeURIComponent(value);
+    } catch (e) {
+        return value;
+    }
+};
+
+const getCanonicalUri = (pathname: string, service: string) => {
+    const encoded = pathname.split('/').map(segment => encodeRfc3986(safeDecode(segment))).join('/');
+    const path = encoded || '/';
+    return service === 's3' ? path : path.split('/').map(segment => encodeRfc3986(segment)).join('/');
+};
+
+const getCanonicalQuery = (search: string) => {
+    return search.replace(/^\?/, '').split('&')
+        .filter(Boolean)
+        .map(pair => {
+            const [key, ...rest] = pair.split('=');
+            return [encodeRfc3986(safeDecode(key)), encodeRfc3986(safeDecode(rest.join('=')))];
+        })
+        .sort(([ak, av], [bk, bv]) => ak === bk ? (av < bv ? -1 : av > bv ? 1 : 0) : (ak < bk ? -1 : 1))
+        .map(([key, value]) => `${key}=${value}`)
+        .join('&');
+};
+
+const getCanonicalHeaders = (headers: Record<string, string>) => {
+    const entries = Object.entries(headers)
+        .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')])
+        .sort(([a], [b]) => (a < b ? -1 : 1));
+    return {
+        canonical: entries.map(([name, value]) => `${name}:${value}\n`).join(''),
+        signed: entries.map(([name]) => name).join(';')
+    };
+};
+
+const getTimestamps = (date: Date) => {
+    const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    return { amzDate, dateStamp: amzDate.substring(0, 8) };
+};
+
+const buildSignature = async (
+    options: SigV4Options,
+    method: string,
+    url: URL,
+    canonicalHeaders: { canonical: string, signed: string },
+    payloadHash: string,
+    amzDate: string,
+    dateStamp: string
+) => {
+    const canonicalRequest = [
+        method.toUpperCase(),
+        getCanonicalUri(url.pathname, options.service),
+        getCanonicalQuery(url.search),
+        canonicalHeaders.canonical,
+        canonicalHeaders.signed,
+        payloadHash
+    ].join('\n');
+
+    const credentialScope = `${dateStamp}/${options.region}/${options.service}/aws4_request`;
+    const stringToSign = [ALGORITHM, amzDate, credentialScope, await sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = await getSigningKey(options.credentials.secretAccessKey, dateStamp, options.region, options.service);
+    return { signature: toHex(await hmac(signingKey, stringToSign)), credentialScope };
+};
+
+// --- Public API ---
+
+/**
+ * Signs a request with an Authorization header.
+ * Returns the headers to send: the caller's headers plus x-amz-date, the session token if any,
+ * and Authorization. Host is signed but left out, browsers set it themselves.
+ */
+export const signRequest = async (request: SigV4Request, options: SigV4Options): Promise<Record<string, string>> => {
+    const url = new URL(request.url);
+    const { amzDate, dateStamp } = getTimestamps(options.date || new Date());
+    const payloadHash = request.payloadHash || await sha256Hex('');
+
+    const headers: Record<string, string> = { ...request.headers, 'x-amz-date': amzDate };
+    if (options.credentials.sessionToken) headers['x-amz-security-token'] = options.credentials.sessionToken;
+
+    const canonicalHeaders = getCanonicalHeaders({ host: url.host, ...headers });
+    const { signature, credentialScope } = await buildSignature(options, request.method, url, canonicalHeaders, payloadHash, amzDate, dateStamp);
+
+    headers['Authorization'] = `${ALGORITHM} Credential=${options.credentials.accessKeyId}/${credentialScope}, SignedHeaders=${canonicalHeaders.signed}, Signature=${signature}`;
+    return headers;
+};
+
+/**
+ * Builds a query-string signed URL that works as a plain link or <img src> until it expires.
+ * Only host is signed, so the URL can be used from any client.
+ */
+export const presignUrl = async (
+    rawUrl: string,
+    options: SigV4Options & { expiresIn: number, method?: string }
+): Promise<string> => {
+    const url = new URL(rawUrl);
+    const { amzDate, dateStamp } = getTimestamps(options.date || new Date());
+    const credentialScope = `${dateStamp}/${options.region}/${options.service}/aws4_request`;
+    const expiresIn = Math.max(1, Math.min(Math.floor(options.expiresIn), MAX_PRESIGN_EXPIRES));
+
+    const params: [string, string][] = [
+        ['X-Amz-Algorithm', ALGORITHM],
+        ['X-Amz-Credential', `${options.credentials.accessKeyId}/${credentialScope}`],
+        ['X-Amz-Date', amzDate],
+        ['X-Amz-Expires', expiresIn.toString()],
+        ['X-Amz-SignedHeaders', 'host']
+    ];
+    if (options.credentials.sessionToken) params.push(['X-Amz-Security-Token', options.credentials.sessionToken]);
+    const extra = params.map(([key, value]) => `${key}=${encodeRfc3986(value)}`).join('&');
+    url.search = url.search ? `${url.search}&${extra}` : `?${extra}`;
+
+    // S3 takes an unsigned payload for presigned requests, other services hash the empty body
+    const payloadHash = options.service === 's3' ? UNSIGNED_PAYLOAD : await sha256Hex('');
+    const { signature } = await buildSignature(
+        options,
+        options.method || 'GET',
+        url,
+        getCanonicalHeaders({ host: url.host }),
+        payloadHash,
+        amzDate,
+        dateStamp
+    );
+
+    return `${url.toString()}&X-Amz-Signature=${signature}`;
+};
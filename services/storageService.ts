@@ -1,11 +1,15 @@
 
-import { S3Config, CloudFile, WebDAVConfig, StorageType } from "../types";
+import { S3Config, CloudFile, WebDAVConfig, StorageType, RetentionPolicy, UploadProgressHandler, SyncRemote, RemoteObject } from "../types";
 // @ts-ignore
 import { dir, file, write } from 'opfs-tools';
 import { useAppStore } from "../store/appStore";
+import { DEFAULT_RETENTION_POLICY } from "../constants";
+import { embedImageParameters } from "./pngMetadata";
+import { signRequest, presignUrl, sha256Hex, encodeRfc3986 } from "./sigv4";
 
 const OPFS_TMP_DIR = '/tmp';
 const OPFS_GALLERY_DIR = '/gallery';
+const OPFS_SESSIONS_DIR = '/sessions';
 
 export const DEFAULT_S3_CONFIG: S3Config = {
     accessKeyId: '',
@@ -34,15 +38,35 @@ export const getWebDAVConfig = (): WebDAVConfig => {
     return useAppStore.getState().webdavConfig || DEFAULT_WEBDAV_CONFIG;
 };
 
-export const getStorageType = (): StorageType => {
+// Storage type as chosen in settings
+export const getConfiguredStorageType = (): StorageType => {
     return useAppStore.getState().storageType || 'opfs';
 };
 
+export const getSyncEnabled = (): boolean => !!useAppStore.getState().syncEnabled;
+
+export const getSyncRemote = (): SyncRemote | null => {
+    const type = getConfiguredStorageType();
+    return getSyncEnabled() && (type === 's3' || type === 'webdav') ? type : null;
+};
+
+// Storage the gallery reads and writes. With sync on that is the OPFS copy,
+// and the configured S3/WebDAV target becomes its mirror.
+export const getStorageType = (): StorageType => {
+    return getSyncRemote() ? 'opfs' : getConfiguredStorageType();
+};
+
+export const getRetentionPolicy = (): RetentionPolicy => {
+    return useAppStore.getState().retentionPolicy || DEFAULT_RETENTION_POLICY;
+};
+
 // Note: save* functions are removed as components should dispatch actions to the store directly.
 // If needed for imperative logic outside react:
 export const saveS3Config = (config: S3Config) => useAppStore.getState().setS3Config(config);
 export const saveWebDAVConfig = (config: WebDAVConfig) => useAppStore.getState().setWebDAVConfig(config);
 export const saveStorageType = (type: StorageType) => useAppStore.getState().setStorageType(type);
+export const saveRetentionPolicy = (policy: RetentionPolicy) => useAppStore.getState().setRetentionPolicy(policy);
+export const saveSyncEnabled = (enabled: boolean) => useAppStore.getState().setSyncEnabled(enabled);
 
 export const isS3Configured = (config: S3Config): boolean => {
     return !!(config.accessKeyId && config.secretAccessKey);
@@ -52,6 +76,19 @@ export const isWebDAVConfigured = (config: WebDAVConfig): boolean => {
     return !!(config.url && config.username && config.password);
 };
 
+// Identifies a storage target, so caches built for one bucket are never applied to another
+export const getStorageScope = (type: StorageType = getStorageType()): string => {
+    if (type === 's3') {
+        const config = getS3Config();
+        return `s3:${config.endpoint}/${config.bucket}/${config.prefix}`;
+    }
+    if (type === 'webdav') {
+        const config = getWebDAVConfig();
+        return `webdav:${config.url}/${config.directory}`;
+    }
+    return type;
+};
+
 export const isStorageConfigured = (): boolean => {
     const type = getStorageType();
     if (type === 's3') return isS3Configured(getS3Config());
@@ -71,35 +108,75 @@ const getS3Prefix = (config: S3Config) => {
     return p;
 };
 
-// --- AWS Signature V4 Implementation (Existing) ---
+// --- S3 Request Signing ---
 
-async function hmac(key: CryptoKey, stringToSign: string): Promise<ArrayBuffer> {
-    const encoder = new TextEncoder();
-    return crypto.subtle.sign("HMAC", key, encoder.encode(stringToSign));
-}
+const getS3Target = (config: S3Config) => {
+    const region = config.region || 'us-east-1';
+    const endpoint = (config.endpoint || `https://s3.${region}.amazonaws.com`).replace(/\/$/, "");
+    return { region, endpoint, bucket: config.bucket || '' };
+};
 
-async function sha256(str: string | ArrayBuffer): Promise<string> {
-    const encoder = new TextEncoder();
-    const data = typeof str === 'string' ? encoder.encode(str) : str;
-    const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-}
+const getS3SignerOptions = (config: S3Config) => ({
+    credentials: { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey },
+    region: getS3Target(config).region,
+    service: 's3'
+});
 
-async function importKey(keyData: string | ArrayBuffer): Promise<CryptoKey> {
-    const encoder = new TextEncoder();
-    const rawKey = typeof keyData === 'string' ? encoder.encode(keyData) : keyData;
-    return crypto.subtle.importKey(
-        "raw", 
-        rawKey, 
-        { name: "HMAC", hash: "SHA-256" }, 
-        false, 
-        ["sign"]
+// Path-style URL of an object, or of the bucket itself when key is empty
+const getS3ObjectUrl = (config: S3Config, key: string) => {
+    const { endpoint, bucket } = getS3Target(config);
+    return [endpoint, bucket, key].filter(Boolean).join('/');
+};
+
+// Fetch with header auth. S3 also wants the body hash sent as x-amz-content-sha256.
+const signedS3Fetch = async (
+    config: S3Config,
+    method: string,
+    url: string,
+    body?: Blob | string,
+    contentType?: string
+): Promise<Response> => {
+    if (!config.accessKeyId || !config.secretAccessKey) {
+        throw new Error("error_s3_config_missing");
+    }
+    const payloadHash = await sha256Hex(body instanceof Blob ? await body.arrayBuffer() : (body || ''));
+    const headers = await signRequest(
+        { method, url, headers: { 'x-amz-content-sha256': payloadHash }, payloadHash },
+        getS3SignerOptions(config)
     );
-}
+    if (contentType) headers["Content-Type"] = contentType;
+    return fetch(url, { method, headers, body });
+};
+
+const s3Request = (
+    config: S3Config,
+    method: string,
+    key: string,
+    query: Record<string, string>,
+    body?: Blob | string,
+    contentType?: string
+): Promise<Response> => {
+    const queryString = Object.entries(query).map(([k, v]) => `${encodeRfc3986(k)}=${encodeRfc3986(v)}`).join('&');
+    const url = getS3ObjectUrl(config, key);
+    return signedS3Fetch(config, method, queryString ? `${url}?${queryString}` : url, body, contentType);
+};
+
+// Presigned links let private buckets be shown through a plain <img src>
+const S3_PRESIGN_EXPIRES = 24 * 60 * 60;
+
+export const getPresignedS3Url = async (url: string, expiresIn: number = S3_PRESIGN_EXPIRES): Promise<string> => {
+    return presignUrl(url, { ...getS3SignerOptions(getS3Config()), expiresIn });
+};
 
 // --- Unified Cloud Operations ---
 
+const getMediaType = (fileName: string): CloudFile['type'] => {
+    const lowerName = fileName.toLowerCase();
+    if (lowerName.match(/\.(jpg|jpeg|png|webp|gif)$/)) return 'image';
+    if (lowerName.match(/\.(mp4|webm|mov)$/)) return 'video';
+    return 'unknown';
+};
+
 // Helper to extract Image ID based on specification
 export const getFileId = (filename: string): string => {
     const baseName = filename.split('/').pop() || filename;
@@ -138,7 +215,8 @@ const convertWebPToPNG = async (blob: Blob): Promise<Blob> => {
 export const uploadToCloud = async (
     blob: Blob, 
     fileName: string,
-    metadata?: any
+    metadata?: any,
+    onProgress?: UploadProgressHandler
 ): Promise<string> => {
     const type = getStorageType();
     
@@ -152,6 +230,15 @@ export const uploadToCloud = async (
         }
     }
 
+    // Keep the settings inside the file itself, the sidecar JSON is lost when it is shared
+    if (metadata?.prompt && metadata.type !== 'video') {
+        try {
+            finalBlob = await embedImageParameters(finalBlob, metadata);
+        } catch (e) {
+            console.warn("Failed to embed image parameters", e);
+        }
+    }
+
     let finalFileName = fileName;
     
     if (blob.type === 'image/webp' && finalBlob.type === 'image/png' && finalFileName.toLowerCase().endsWith('.webp')) {
@@ -175,13 +262,15 @@ export const uploadToCloud = async (
     let fileUrl = '';
     if (type === 's3') {
         const config = getS3Config();
-        fileUrl = await uploadToS3(finalBlob, finalFileName, finalBlob.type, config);
+        fileUrl = await uploadToS3(finalBlob, finalFileName, finalBlob.type, config, onProgress);
     } else if (type === 'webdav') {
         const config = getWebDAVConfig();
         fileUrl = await uploadToWebDAV(finalBlob, finalFileName, config);
+        onProgress?.(finalBlob.size, finalBlob.size);
     } else if (type === 'opfs') {
         // Upload to Gallery directory for cloud storage flow
         fileUrl = await uploadToOPFSGallery(finalBlob, finalFileName);
+        onProgress?.(finalBlob.size, finalBlob.size);
     } else {
         throw new Error("error_storage_config_missing");
     }
@@ -213,8 +302,7 @@ export const uploadToCloud = async (
     return fileUrl;
 };
 
-export const listCloudFiles = async (): Promise<CloudFile[]> => {
-    const type = getStorageType();
+export const listCloudFiles = async (type: StorageType = getStorageType()): Promise<CloudFile[]> => {
 
     if (type === 's3') {
         const config = getS3Config();
@@ -247,7 +335,8 @@ export const fetchCloudBlob = async (url: string): Promise<Blob> => {
     } else if (type === 's3') {
         const config = getS3Config();
         // If S3 is configured without a public domain, we assume the URL is an endpoint URL that needs signing
-        if (!config.publicDomain) {
+        // (unless it is already presigned, signing it twice would break it)
+        if (!config.publicDomain && !url.includes('X-Amz-Signature=')) {
             return fetchS3Signed(url, 'GET', config);
         }
     }
@@ -258,65 +347,7 @@ export const fetchCloudBlob = async (url: string): Promise<Blob> => {
 };
 
 const fetchS3Signed = async (url: string, method: string, config: S3Config): Promise<Blob> => {
-    const urlObj = new URL(url);
-    const host = urlObj.host;
-    const path = urlObj.pathname;
-    const query = urlObj.search;
-
-    const date = new Date();
-    const isoDate = date.toISOString().replace(/[:-]|\.\d{3}/g, "");
-    const dateStamp = isoDate.substring(0, 8);
-    const region = config.region || 'us-east-1';
-    const service = "s3";
-
-    const payloadHash = await sha256(''); 
-
-    const canonicalHeaders = 
-        `host:${host}\n` +
-        `x-amz-content-sha256:${payloadHash}\n` +
-        `x-amz-date:${isoDate}\n`;
-    const signedHeaders = "host;x-amz-content-sha256;x-amz-date";
-
-    const canonicalRequest = 
-        `${method}\n` +
-        `${path}\n` +
-        `${query.replace('?', '')}\n` +
-        `${canonicalHeaders}\n` +
-        `${signedHeaders}\n` +
-        `${payloadHash}`;
-
-    const algorithm = "AWS4-HMAC-SHA256";
-    const credentialScope = `${dateStamp}/${region}/${service}/aws4_request`;
-    const stringToSign = 
-        `${algorithm}\n` +
-        `${isoDate}\n` +
-        `${credentialScope}\n` +
-        `${await sha256(canonicalRequest)}`;
-
-    const kSecret = await importKey(`AWS4${config.secretAccessKey}`);
-    const kDate = await importKey(await hmac(kSecret, dateStamp));
-    const kRegion = await importKey(await hmac(kDate, region));
-    const kService = await importKey(await hmac(kRegion, service));
-    const kSigning = await importKey(await hmac(kService, "aws4_request"));
-    
-    const signatureBuffer = await hmac(kSigning, stringToSign);
-    const signature = Array.from(new Uint8Array(signatureBuffer))
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
-
-    const authorizationHeader = 
-        `${algorithm} Credential=${config.accessKeyId}/${credentialScope}, ` +
-        `SignedHeaders=${signedHeaders}, ` +
-        `Signature=${signature}`;
-
-    const headers: Record<string, string> = {
-        "Authorization": authorizationHeader,
-        "x-amz-date": isoDate,
-        "x-amz-content-sha256": payloadHash,
-        "Host": host
-    };
-
-    const response = await fetch(url, { method, headers });
+    const response = await signedS3Fetch(config, method, url);
     if (!response.ok) throw new Error(`S3 Fetch Failed: ${response.status}`);
     return await response.blob();
 };
@@ -378,14 +409,7 @@ export const renameCloudFile = async (oldKeyOrUrl: string, newKeyOrUrl: string):
 };
 
 const performS3Rename = async (config: S3Config, oldKeyOrUrl: string, newKeyOrUrl: string) => {
-    const region = config.region || 'us-east-1';
-    let endpoint = config.endpoint || `https://s3.${region}.amazonaws.com`;
-    endpoint = endpoint.replace(/\/$/, "");
-    const bucket = config.bucket || '';
-    
-    const constructUrl = (key: string) => bucket ? `${endpoint}/${bucket}/${key}` : `${endpoint}/${key}`;
-    
-    const oldUrl = oldKeyOrUrl.startsWith('http') ? oldKeyOrUrl : constructUrl(oldKeyOrUrl);
+    const oldUrl = oldKeyOrUrl.startsWith('http') ? oldKeyOrUrl : getS3ObjectUrl(config, oldKeyOrUrl);
     
     const blob = await fetchCloudBlob(oldUrl);
     
@@ -421,36 +445,93 @@ export const initOpfsDirs = async () => {
     try {
         await dir(OPFS_TMP_DIR).create();
         await dir(OPFS_GALLERY_DIR).create();
+        await dir(OPFS_SESSIONS_DIR).create();
     } catch (e) {
         console.error("Failed to init OPFS dirs", e);
     }
 };
 
-// Cleanup OPFS tmp files older than 24 hours
-export const cleanupOldTempFiles = async () => {
+export type OpfsDirName = 'tmp' | 'gallery' | 'sessions';
+
+export interface OpfsFileInfo {
+    name: string;
+    size: number;
+    lastModified: number;
+}
+
+const getOpfsDirHandle = async (dirName: OpfsDirName): Promise<FileSystemDirectoryHandle | null> => {
     try {
         const root = await navigator.storage.getDirectory();
-        let tmpHandle;
-        try {
-            tmpHandle = await root.getDirectoryHandle('tmp');
-        } catch {
-            return;
+        return await root.getDirectoryHandle(dirName);
+    } catch {
+        return null;
+    }
+};
+
+// Name, size and age of every file in an OPFS directory
+export const listOpfsFiles = async (dirName: OpfsDirName): Promise<OpfsFileInfo[]> => {
+    const files: OpfsFileInfo[] = [];
+    const dirHandle = await getOpfsDirHandle(dirName);
+    if (!dirHandle) return files;
+
+    // @ts-ignore
+    for await (const [name, handle] of dirHandle.entries()) {
+        if (handle.kind === 'file') {
+            try {
+                const f = await (handle as FileSystemFileHandle).getFile();
+                files.push({ name, size: f.size, lastModified: f.lastModified });
+            } catch (err) {
+                console.warn(`Failed to stat file ${name}`, err);
+            }
         }
+    }
+    return files;
+};
+
+export const listTempFiles = () => listOpfsFiles('tmp');
+
+export const readOpfsFile = async (dirName: OpfsDirName, fileName: string): Promise<Blob | null> => {
+    try {
+        const f = file(`/${dirName}/${fileName}`);
+        if (!await f.exists()) return null;
+        return new Blob([await f.arrayBuffer()]);
+    } catch (e) {
+        console.warn(`Failed to read ${dirName} file ${fileName}`, e);
+        return null;
+    }
+};
+
+export const writeOpfsFile = async (dirName: OpfsDirName, fileName: string, blob: Blob) => {
+    await initOpfsDirs();
+    await write(`/${dirName}/${fileName}`, await blob.arrayBuffer());
+};
+
+export const deleteOpfsFile = async (dirName: OpfsDirName, fileName: string) => {
+    const f = file(`/${dirName}/${fileName}`);
+    if (await f.exists()) await f.remove();
+};
+
+/**
+ * Removes OPFS tmp files that no history item points to (editor results, replaced upscales...).
+ * Referenced files are left to the retention plan. Orphans follow the policy's max age,
+ * or a 24 hour grace period when age is unlimited, so in-flight writes are never caught.
+ */
+export const cleanupOldTempFiles = async (policy: RetentionPolicy, referencedFiles: Set<string>) => {
+    try {
+        const tmpHandle = await getOpfsDirHandle('tmp');
+        if (!tmpHandle) return;
 
         const now = Date.now();
         const oneDayInMs = 24 * 60 * 60 * 1000;
-        
-        // @ts-ignore
-        for await (const [name, handle] of tmpHandle.entries()) {
-            if (handle.kind === 'file') {
+        const maxOrphanAge = Math.max(policy.maxAgeDays ?? 1, 1) * oneDayInMs;
+
+        for (const info of await listTempFiles()) {
+            if (referencedFiles.has(info.name)) continue;
+            if ((now - info.lastModified) > maxOrphanAge) {
                 try {
-                    const fileHandle = handle as FileSystemFileHandle;
-                    const file = await fileHandle.getFile();
-                    if ((now - file.lastModified) > oneDayInMs) {
-                        await tmpHandle.removeEntry(name);
-                    }
+                    await tmpHandle.removeEntry(info.name);
                 } catch (err) {
-                    console.warn(`Failed to cleanup file ${name}`, err);
+                    console.warn(`Failed to cleanup file ${info.name}`, err);
                 }
             }
         }
@@ -513,12 +594,30 @@ export const deleteTempFileFromOPFS = async (fileName: string) => {
     }
 };
 
+// -- Gallery Change Events --
+
+type GalleryChangeListener = (fileName: string, action: 'upload' | 'delete') => void;
+
+const galleryChangeListeners = new Set<GalleryChangeListener>();
+
+// Called for every file the app adds to or removes from the OPFS gallery.
+// Writes made through writeOpfsFile/deleteOpfsFile are not reported.
+export const subscribeGalleryChanges = (listener: GalleryChangeListener) => {
+    galleryChangeListeners.add(listener);
+    return () => { galleryChangeListeners.delete(listener); };
+};
+
+const notifyGalleryChange: GalleryChangeListener = (fileName, action) => {
+    galleryChangeListeners.forEach(listener => listener(fileName, action));
+};
+
 // -- Gallery Directory Operations --
 
 const uploadToOPFSGallery = async (blob: Blob, fileName: string) => {
     await initOpfsDirs();
     const buffer = await blob.arrayBuffer();
     await write(`${OPFS_GALLERY_DIR}/${fileName}`, buffer);
+    notifyGalleryChange(fileName, 'upload');
     return `opfs://${OPFS_GALLERY_DIR}/${fileName}`;
 };
 
@@ -570,6 +669,143 @@ const deleteOPFSGalleryFile = async (key: string) => {
     // Handle if key is full URL or just filename
     const fileName = key.replace(`opfs://${OPFS_GALLERY_DIR}/`, '');
     await file(`${OPFS_GALLERY_DIR}/${fileName}`).remove();
+    notifyGalleryChange(fileName, 'delete');
+};
+
+// --- S3 Multipart Upload ---
+
+// Large videos go up in parts so a dropped connection only costs the part in flight
+const S3_MULTIPART_THRESHOLD = 16 * 1024 * 1024;
+const S3_PART_SIZE = 8 * 1024 * 1024; // S3 requires at least 5MB for every part but the last
+const S3_PART_RETRIES = 3;
+const MULTIPART_STATE_KEY = 'peinture_s3_multipart';
+const MULTIPART_STATE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+// Finished parts of an interrupted upload, so retrying the same file skips them
+interface MultipartState {
+    uploadId: string;
+    size: number;
+    partSize: number;
+    parts: { partNumber: number; etag: string }[];
+    updatedAt: number;
+}
+
+const loadMultipartStates = (): Record<string, MultipartState> => {
+    try {
+        const states: Record<string, MultipartState> = JSON.parse(localStorage.getItem(MULTIPART_STATE_KEY) || '{}');
+        const now = Date.now();
+        return Object.fromEntries(Object.entries(states).filter(([, state]) => now - state.updatedAt < MULTIPART_STATE_TTL));
+    } catch (e) {
+        return {};
+    }
+};
+
+const saveMultipartState = (id: string, state: MultipartState | null) => {
+    const states = loadMultipartStates();
+    if (state) states[id] = state;
+    else delete states[id];
+    localStorage.setItem(MULTIPART_STATE_KEY, JSON.stringify(states));
+};
+
+const getXmlValue = (xml: string, tag: string): string | null => {
+    return new DOMParser().parseFromString(xml, "text/xml").getElementsByTagName(tag)[0]?.textContent || null;
+};
+
+const createMultipartUpload = async (config: S3Config, key: string, contentType: string): Promise<string> => {
+    const response = await s3Request(config, "POST", key, { uploads: '' }, undefined, contentType);
+    if (!response.ok) {
+        throw new Error(`S3 Upload Failed: ${response.status} ${response.statusText}`);
+    }
+    const uploadId = getXmlValue(await response.text(), "UploadId");
+    if (!uploadId) throw new Error("S3 Upload Failed: missing UploadId");
+    return uploadId;
+};
+
+const uploadPart = async (config: S3Config, key: string, uploadId: string, partNumber: number, body: Blob): Promise<string> => {
+    let lastError: any;
+    for (let attempt = 0; attempt < S3_PART_RETRIES; attempt++) {
+        let response: Response;
+        try {
+            response = await s3Request(config, "PUT", key, { partNumber: partNumber.toString(), uploadId }, body);
+        } catch (e) {
+            lastError = e; // Network error, worth another try
+            continue;
+        }
+        // The upload was aborted or cleaned up by a lifecycle rule
+        if (response.status === 404) throw new Error("error_s3_upload_expired");
+        if (!response.ok) {
+            lastError = new Error(`S3 Upload Failed: ${response.status} ${response.statusText}`);
+            continue;
+        }
+        // Browsers only see the ETag when the bucket CORS rules expose it
+        const etag = response.headers.get('ETag');
+        if (!etag) throw new Error("error_s3_etag_hidden");
+        return etag;
+    }
+    throw lastError;
+};
+
+const completeMultipartUpload = async (config: S3Config, key: string, state: MultipartState) => {
+    const parts = [...state.parts]
+        .sort((a, b) => a.partNumber - b.partNumber)
+        .map(p => `<Part><PartNumber>${p.partNumber}</PartNumber><ETag>${p.etag}</ETag></Part>`)
+        .join('');
+    const body = `<CompleteMultipartUpload>${parts}</CompleteMultipartUpload>`;
+    const response = await s3Request(config, "POST", key, { uploadId: state.uploadId }, body, "application/xml");
+    const text = await response.text();
+    // Completion can fail with a 200 status and an <Error> body
+    if (!response.ok || text.includes('<Error>')) {
+        throw new Error(`S3 Upload Failed: ${response.status} ${getXmlValue(text, "Code") || response.statusText}`);
+    }
+};
+
+const uploadToS3Multipart = async (
+    blob: Blob,
+    key: string,
+    contentType: string,
+    config: S3Config,
+    onProgress?: UploadProgressHandler
+): Promise<void> => {
+    const { endpoint, bucket } = getS3Target(config);
+    const stateId = `${endpoint}/${bucket}/${key}`;
+    const saved = loadMultipartStates()[stateId];
+    const resumed = !!saved && saved.size === blob.size && saved.partSize === S3_PART_SIZE;
+
+    let state: MultipartState = resumed ? saved : {
+        uploadId: await createMultipartUpload(config, key, contentType),
+        size: blob.size,
+        partSize: S3_PART_SIZE,
+        parts: [],
+        updatedAt: Date.now()
+    };
+    saveMultipartState(stateId, state);
+
+    const partCount = Math.ceil(blob.size / S3_PART_SIZE);
+    const partBytes = (partNumber: number) => Math.min(S3_PART_SIZE, blob.size - (partNumber - 1) * S3_PART_SIZE);
+    let loaded = state.parts.reduce((sum, p) => sum + partBytes(p.partNumber), 0);
+    onProgress?.(loaded, blob.size);
+
+    try {
+        for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+            if (state.parts.some(p => p.partNumber === partNumber)) continue;
+            const start = (partNumber - 1) * S3_PART_SIZE;
+            const etag = await uploadPart(config, key, state.uploadId, partNumber, blob.slice(start, start + S3_PART_SIZE));
+            state = { ...state, parts: [...state.parts, { partNumber, etag }], updatedAt: Date.now() };
+            saveMultipartState(stateId, state);
+            loaded += partBytes(partNumber);
+            onProgress?.(loaded, blob.size);
+        }
+    } catch (e: any) {
+        // A stale saved upload is gone from the server, start a fresh one
+        if (resumed && e.message === "error_s3_upload_expired") {
+            saveMultipartState(stateId, null);
+            return uploadToS3Multipart(blob, key, contentType, config, onProgress);
+        }
+        throw e;
+    }
+
+    await completeMultipartUpload(config, key, state);
+    saveMultipartState(stateId, null);
 };
 
 // --- S3 Operations (Internal) ---
@@ -578,208 +814,86 @@ const uploadToS3 = async (
     blob: Blob, 
     fileName: string, 
     contentType: string, 
-    config: S3Config
+    config: S3Config,
+    onProgress?: UploadProgressHandler
 ): Promise<string> => {
     if (!config.accessKeyId || !config.secretAccessKey) {
         throw new Error("error_s3_config_missing");
     }
 
-    const date = new Date();
-    const isoDate = date.toISOString().replace(/[:-]|\.\d{3}/g, "");
-    const dateStamp = isoDate.substring(0, 8);
-    const region = config.region || 'us-east-1';
-    const service = "s3";
-    const bucket = config.bucket || '';
     const prefix = getS3Prefix(config);
     
     // Check if filename already has the prefix to avoid double nesting
     const key = fileName.startsWith(prefix) ? fileName : `${prefix}${fileName}`;
+    const url = getS3ObjectUrl(config, key);
+    const publicUrl = config.publicDomain ? `${config.publicDomain.replace(/\/$/, "")}/${key}` : url;
 
-    let endpoint = config.endpoint || `https://s3.${region}.amazonaws.com`;
-    endpoint = endpoint.replace(/\/$/, "");
-    
-    const host = new URL(endpoint).host;
-    
-    const url = bucket ? `${endpoint}/${bucket}/${key}` : `${endpoint}/${key}`;
-
-    const payloadHash = await sha256(await blob.arrayBuffer());
-
-    const method = "PUT";
-    const canonicalUri = bucket ? `/${bucket}/${key}` : `/${key}`;
-    const canonicalQueryString = "";
-    const canonicalHeaders = 
-        `host:${host}\n` +
-        `x-amz-content-sha256:${payloadHash}\n` +
-        `x-amz-date:${isoDate}\n`;
-    const signedHeaders = "host;x-amz-content-sha256;x-amz-date";
-    
-    const canonicalRequest = 
-        `${method}\n` +
-        `${canonicalUri}\n` +
-        `${canonicalQueryString}\n` +
-        `${canonicalHeaders}\n` +
-        `${signedHeaders}\n` +
-        `${payloadHash}`;
-
-    const algorithm = "AWS4-HMAC-SHA256";
-    const credentialScope = `${dateStamp}/${region}/${service}/aws4_request`;
-    const stringToSign = 
-        `${algorithm}\n` +
-        `${isoDate}\n` +
-        `${credentialScope}\n` +
-        `${await sha256(canonicalRequest)}`;
-
-    const kSecret = await importKey(`AWS4${config.secretAccessKey}`);
-    const kDate = await importKey(await hmac(kSecret, dateStamp));
-    const kRegion = await importKey(await hmac(kDate, region));
-    const kService = await importKey(await hmac(kRegion, service));
-    const kSigning = await importKey(await hmac(kService, "aws4_request"));
-    
-    const signatureBuffer = await hmac(kSigning, stringToSign);
-    const signature = Array.from(new Uint8Array(signatureBuffer))
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
-
-    const authorizationHeader = 
-        `${algorithm} Credential=${config.accessKeyId}/${credentialScope}, ` +
-        `SignedHeaders=${signedHeaders}, ` +
-        `Signature=${signature}`;
-
-    const response = await fetch(url, {
-        method: method,
-        headers: {
-            "Authorization": authorizationHeader,
-            "x-amz-date": isoDate,
-            "x-amz-content-sha256": payloadHash,
-            "Content-Type": contentType,
-            "Host": host
-        },
-        body: blob
-    });
+    if (blob.size >= S3_MULTIPART_THRESHOLD) {
+        await uploadToS3Multipart(blob, key, contentType, config, onProgress);
+        return publicUrl;
+    }
 
+    const response = await s3Request(config, "PUT", key, {}, blob, contentType);
     if (!response.ok) {
         throw new Error(`S3 Upload Failed: ${response.status} ${response.statusText}`);
     }
 
-    if (config.publicDomain) {
-        const domain = config.publicDomain.replace(/\/$/, "");
-        return `${domain}/${key}`;
-    }
-    
-    return url;
+    onProgress?.(blob.size, blob.size);
+    return publicUrl;
 };
 
-export const listS3Files = async (config: S3Config): Promise<CloudFile[]> => {
-    if (!isS3Configured(config)) {
-        return [];
-    }
-
-    const date = new Date();
-    const isoDate = date.toISOString().replace(/[:-]|\.\d{3}/g, "");
-    const dateStamp = isoDate.substring(0, 8);
-    const region = config.region || 'us-east-1';
-    const service = "s3";
-    const bucket = config.bucket || '';
+// Every object under the prefix, following the continuation token past the 1000 keys of a page
+const listS3Objects = async (config: S3Config): Promise<{ key: string, size: number, etag: string | null, lastModified: Date }[]> => {
     const prefix = getS3Prefix(config);
+    const objects: { key: string, size: number, etag: string | null, lastModified: Date }[] = [];
 
-    let endpoint = config.endpoint || `https://s3.${region}.amazonaws.com`;
-    endpoint = endpoint.replace(/\/$/, "");
-    const host = new URL(endpoint).host;
-    const url = bucket ? `${endpoint}/${bucket}` : `${endpoint}`;
-
-    const listType = '2';
-    
-    const canonicalQueryString = `list-type=${listType}&prefix=${encodeURIComponent(prefix)}`;
-    
-    const payloadHash = await sha256(''); 
-
-    const method = "GET";
-    const canonicalUri = bucket ? `/${bucket}` : `/`;
-    const canonicalHeaders = 
-        `host:${host}\n` +
-        `x-amz-content-sha256:${payloadHash}\n` +
-        `x-amz-date:${isoDate}\n`;
-    const signedHeaders = "host;x-amz-content-sha256;x-amz-date";
-
-    const canonicalRequest = 
-        `${method}\n` +
-        `${canonicalUri}\n` +
-        `${canonicalQueryString}\n` +
-        `${canonicalHeaders}\n` +
-        `${signedHeaders}\n` +
-        `${payloadHash}`;
-
-    const algorithm = "AWS4-HMAC-SHA256";
-    const credentialScope = `${dateStamp}/${region}/${service}/aws4_request`;
-    const stringToSign = 
-        `${algorithm}\n` +
-        `${isoDate}\n` +
-        `${credentialScope}\n` +
-        `${await sha256(canonicalRequest)}`;
-
-    const kSecret = await importKey(`AWS4${config.secretAccessKey}`);
-    const kDate = await importKey(await hmac(kSecret, dateStamp));
-    const kRegion = await importKey(await hmac(kDate, region));
-    const kService = await importKey(await hmac(kRegion, service));
-    const kSigning = await importKey(await hmac(kService, "aws4_request"));
-    
-    const signatureBuffer = await hmac(kSigning, stringToSign);
-    const signature = Array.from(new Uint8Array(signatureBuffer))
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
-
-    const authorizationHeader = 
-        `${algorithm} Credential=${config.accessKeyId}/${credentialScope}, ` +
-        `SignedHeaders=${signedHeaders}, ` +
-        `Signature=${signature}`;
-
-    try {
-        const response = await fetch(`${url}?${canonicalQueryString}`, {
-            method: method,
-            headers: {
-                "Authorization": authorizationHeader,
-                "x-amz-date": isoDate,
-                "x-amz-content-sha256": payloadHash,
-                "Host": host
-            }
-        });
+    let continuationToken: string | null = null;
+    do {
+        const query: Record<string, string> = { 'list-type': '2', prefix };
+        if (continuationToken) query['continuation-token'] = continuationToken;
 
+        const response = await s3Request(config, "GET", '', query);
         if (!response.ok) {
-            console.error("S3 List Failed", response.status, response.statusText);
-            return [];
+            throw new Error(`S3 List Failed: ${response.status} ${response.statusText}`);
         }
 
-        const text = await response.text();
-        const parser = new DOMParser();
-        const xmlDoc = parser.parseFromString(text, "text/xml");
-        
+        const xmlDoc = new DOMParser().parseFromString(await response.text(), "text/xml");
         const contents = xmlDoc.getElementsByTagName("Contents");
-        const files: CloudFile[] = [];
-        
-        const domain = config.publicDomain ? config.publicDomain.replace(/\/$/, "") : "";
 
         for (let i = 0; i < contents.length; i++) {
             const key = contents[i].getElementsByTagName("Key")[0].textContent || "";
             if (key === prefix) continue;
+            objects.push({
+                key,
+                size: parseInt(contents[i].getElementsByTagName("Size")[0].textContent || "0", 10),
+                etag: contents[i].getElementsByTagName("ETag")[0]?.textContent || null,
+                lastModified: new Date(contents[i].getElementsByTagName("LastModified")[0].textContent || "")
+            });
+        }
 
-            const size = parseInt(contents[i].getElementsByTagName("Size")[0].textContent || "0", 10);
-            const lastModified = new Date(contents[i].getElementsByTagName("LastModified")[0].textContent || "");
-            
-            const lowerKey = key.toLowerCase();
-            let type: 'image' | 'video' | 'unknown' = 'unknown';
-            if (lowerKey.match(/\.(jpg|jpeg|png|webp|gif)$/)) type = 'image';
-            else if (lowerKey.match(/\.(mp4|webm|mov)$/)) type = 'video';
+        const truncated = xmlDoc.getElementsByTagName("IsTruncated")[0]?.textContent === 'true';
+        continuationToken = truncated ? xmlDoc.getElementsByTagName("NextContinuationToken")[0]?.textContent || null : null;
+    } while (continuationToken);
+
+    return objects;
+};
+
+export const listS3Files = async (config: S3Config): Promise<CloudFile[]> => {
+    if (!isS3Configured(config)) {
+        return [];
+    }
+
+    const domain = config.publicDomain ? config.publicDomain.replace(/\/$/, "") : "";
 
+    try {
+        const objects = await listS3Objects(config);
+        const files: CloudFile[] = [];
+
+        for (const { key, size, lastModified } of objects) {
+            const type = getMediaType(key);
             if (type !== 'unknown') {
-                const fileUrl = domain ? `${domain}/${key}` : (bucket ? `${endpoint}/${bucket}/${key}` : `${endpoint}/${key}`);
-
-                files.push({
-                    key,
-                    lastModified,
-                    size,
-                    url: fileUrl,
-                    type
-                });
+                const fileUrl = domain ? `${domain}/${key}` : getS3ObjectUrl(config, key);
+                files.push({ key, lastModified, size, url: fileUrl, type });
             }
         }
 
@@ -792,75 +906,7 @@ export const listS3Files = async (config: S3Config): Promise<CloudFile[]> => {
 };
 
 export const deleteS3Object = async (config: S3Config, key: string): Promise<void> => {
-    if (!config.accessKeyId || !config.secretAccessKey) {
-        throw new Error("error_s3_config_missing");
-    }
-
-    const date = new Date();
-    const isoDate = date.toISOString().replace(/[:-]|\.\d{3}/g, ""); 
-    const dateStamp = isoDate.substring(0, 8);
-    const region = config.region || 'us-east-1';
-    const service = "s3";
-    const bucket = config.bucket || '';
-
-    let endpoint = config.endpoint || `https://s3.${region}.amazonaws.com`;
-    endpoint = endpoint.replace(/\/$/, "");
-    const host = new URL(endpoint).host;
-    
-    const uriPath = bucket ? `/${bucket}/${key}` : `/${key}`;
-    const url = bucket ? `${endpoint}/${bucket}/${key}` : `${endpoint}/${key}`;
-
-    const method = "DELETE";
-    const payloadHash = await sha256(''); 
-
-    const canonicalHeaders = 
-        `host:${host}\n` +
-        `x-amz-content-sha256:${payloadHash}\n` +
-        `x-amz-date:${isoDate}\n`;
-    const signedHeaders = "host;x-amz-content-sha256;x-amz-date";
-
-    const canonicalRequest = 
-        `${method}\n` +
-        `${uriPath}\n` +
-        `\n` + 
-        `${canonicalHeaders}\n` +
-        `${signedHeaders}\n` +
-        `${payloadHash}`;
-
-    const algorithm = "AWS4-HMAC-SHA256";
-    const credentialScope = `${dateStamp}/${region}/${service}/aws4_request`;
-    const stringToSign = 
-        `${algorithm}\n` +
-        `${isoDate}\n` +
-        `${credentialScope}\n` +
-        `${await sha256(canonicalRequest)}`;
-
-    const kSecret = await importKey(`AWS4${config.secretAccessKey}`);
-    const kDate = await importKey(await hmac(kSecret, dateStamp));
-    const kRegion = await importKey(await hmac(kDate, region));
-    const kService = await importKey(await hmac(kRegion, service));
-    const kSigning = await importKey(await hmac(kService, "aws4_request"));
-    
-    const signatureBuffer = await hmac(kSigning, stringToSign);
-    const signature = Array.from(new Uint8Array(signatureBuffer))
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
-
-    const authorizationHeader = 
-        `${algorithm} Credential=${config.accessKeyId}/${credentialScope}, ` +
-        `SignedHeaders=${signedHeaders}, ` +
-        `Signature=${signature}`;
-
-    const response = await fetch(url, {
-        method: method,
-        headers: {
-            "Authorization": authorizationHeader,
-            "x-amz-date": isoDate,
-            "x-amz-content-sha256": payloadHash,
-            "Host": host
-        }
-    });
-
+    const response = await s3Request(config, "DELETE", key, {});
     if (!response.ok && response.status !== 204) {
          throw new Error(`S3 Delete Failed: ${response.status} ${response.statusText}`);
     }
@@ -872,72 +918,7 @@ export const testS3Connection = async (config: S3Config): Promise<{ success: boo
     }
 
     try {
-        const date = new Date();
-        const isoDate = date.toISOString().replace(/[:-]|\.\d{3}/g, "");
-        const dateStamp = isoDate.substring(0, 8);
-        const region = config.region || 'us-east-1';
-        const service = "s3";
-        const bucket = config.bucket || '';
-
-        let endpoint = config.endpoint || `https://s3.${region}.amazonaws.com`;
-        endpoint = endpoint.replace(/\/$/, "");
-        const host = new URL(endpoint).host;
-        const url = bucket ? `${endpoint}/${bucket}` : `${endpoint}`;
-
-        const listType = '2';
-        const canonicalQueryString = `list-type=${listType}&max-keys=1`;
-        
-        const payloadHash = await sha256(''); 
-
-        const method = "GET";
-        const canonicalUri = bucket ? `/${bucket}` : `/`;
-        const canonicalHeaders = 
-            `host:${host}\n` +
-            `x-amz-content-sha256:${payloadHash}\n` +
-            `x-amz-date:${isoDate}\n`;
-        const signedHeaders = "host;x-amz-content-sha256;x-amz-date";
-
-        const canonicalRequest = 
-            `${method}\n` +
-            `${canonicalUri}\n` +
-            `${canonicalQueryString}\n` +
-            `${canonicalHeaders}\n` +
-            `${signedHeaders}\n` +
-            `${payloadHash}`;
-
-        const algorithm = "AWS4-HMAC-SHA256";
-        const credentialScope = `${dateStamp}/${region}/${service}/aws4_request`;
-        const stringToSign = 
-            `${algorithm}\n` +
-            `${isoDate}\n` +
-            `${credentialScope}\n` +
-            `${await sha256(canonicalRequest)}`;
-
-        const kSecret = await importKey(`AWS4${config.secretAccessKey}`);
-        const kDate = await importKey(await hmac(kSecret, dateStamp));
-        const kRegion = await importKey(await hmac(kDate, region));
-        const kService = await importKey(await hmac(kRegion, service));
-        const kSigning = await importKey(await hmac(kService, "aws4_request"));
-        
-        const signatureBuffer = await hmac(kSigning, stringToSign);
-        const signature = Array.from(new Uint8Array(signatureBuffer))
-            .map(b => b.toString(16).padStart(2, '0'))
-            .join('');
-
-        const authorizationHeader = 
-            `${algorithm} Credential=${config.accessKeyId}/${credentialScope}, ` +
-            `SignedHeaders=${signedHeaders}, ` +
-            `Signature=${signature}`;
-
-        const response = await fetch(`${url}?${canonicalQueryString}`, {
-            method: method,
-            headers: {
-                "Authorization": authorizationHeader,
-                "x-amz-date": isoDate,
-                "x-amz-content-sha256": payloadHash,
-                "Host": host
-            }
-        });
+        const response = await s3Request(config, "GET", '', { 'list-type': '2', 'max-keys': '1' });
 
         if (response.ok) {
             return { success: true, message: "Connection successful" };
@@ -991,73 +972,76 @@ const uploadToWebDAV = async (
     return uploadUrl;
 };
 
-const listWebDAVFiles = async (config: WebDAVConfig): Promise<CloudFile[]> => {
-    if (!isWebDAVConfigured(config)) {
-        return [];
-    }
-
+// Every file in the configured directory (Depth 1, no sub folders)
+const listWebDAVEntries = async (config: WebDAVConfig): Promise<{ name: string, url: string, size: number, etag: string | null, lastModified: Date }[]> => {
     const dir = config.directory || 'peinture';
     const listUrl = joinPath(config.url, dir);
-    
-    try {
-        const response = await fetch(listUrl, {
-            method: 'PROPFIND',
-            headers: {
-                ...getWebDAVHeaders(config),
-                'Depth': '1'
-            }
-        });
 
-        if (!response.ok) {
-            console.error("WebDAV List Failed", response.status);
-            return [];
+    const response = await fetch(listUrl, {
+        method: 'PROPFIND',
+        headers: {
+            ...getWebDAVHeaders(config),
+            'Depth': '1'
         }
+    });
 
-        const text = await response.text();
-        const parser = new DOMParser();
-        const xmlDoc = parser.parseFromString(text, "text/xml");
-        
-        const responses = xmlDoc.querySelectorAll('response');
-        const files: CloudFile[] = [];
+    if (!response.ok) {
+        throw new Error(`WebDAV List Failed: ${response.status}`);
+    }
 
-        const basePath = new URL(listUrl).pathname;
+    const text = await response.text();
+    const parser = new DOMParser();
+    const xmlDoc = parser.parseFromString(text, "text/xml");
 
-        for (let i = 0; i < responses.length; i++) {
-            const href = responses[i].querySelector('href')?.textContent || "";
-            const props = responses[i].querySelector('propstat > prop');
-            
-            if (!href || !props) continue;
+    const responses = xmlDoc.querySelectorAll('response');
+    const entries: { name: string, url: string, size: number, etag: string | null, lastModified: Date }[] = [];
 
-            const urlPath = new URL(href, config.url).pathname;
-            const decodedPath = decodeURIComponent(urlPath);
-            const decodedBasePath = decodeURIComponent(basePath);
+    const basePath = new URL(listUrl).pathname;
 
-            if (decodedPath.replace(/\/$/, '') === decodedBasePath.replace(/\/$/, '')) continue;
-            
-            const fileName = decodedPath.split('/').pop() || "";
-            if (!fileName) continue;
+    for (let i = 0; i < responses.length; i++) {
+        const href = responses[i].querySelector('href')?.textContent || "";
+        const props = responses[i].querySelector('propstat > prop');
 
-            const lastModStr = props.querySelector('getlastmodified')?.textContent;
-            const lastModified = lastModStr ? new Date(lastModStr) : new Date();
+        if (!href || !props) continue;
+        // Collections (sub folders) are not part of the gallery
+        if (props.querySelector('resourcetype > collection')) continue;
 
-            const lengthStr = props.querySelector('getcontentlength')?.textContent;
-            const size = lengthStr ? parseInt(lengthStr, 10) : 0;
-            
-            const lowerName = fileName.toLowerCase();
-            let type: 'image' | 'video' | 'unknown' = 'unknown';
-            if (lowerName.match(/\.(jpg|jpeg|png|webp|gif)$/)) type = 'image';
-            else if (lowerName.match(/\.(mp4|webm|mov)$/)) type = 'video';
+        const urlPath = new URL(href, config.url).pathname;
+        const decodedPath = decodeURIComponent(urlPath);
+        const decodedBasePath = decodeURIComponent(basePath);
+
+        if (decodedPath.replace(/\/$/, '') === decodedBasePath.replace(/\/$/, '')) continue;
+
+        const fileName = decodedPath.split('/').pop() || "";
+        if (!fileName) continue;
+
+        const lastModStr = props.querySelector('getlastmodified')?.textContent;
+        const lengthStr = props.querySelector('getcontentlength')?.textContent;
+
+        entries.push({
+            name: fileName,
+            url: new URL(href, config.url).toString(),
+            size: lengthStr ? parseInt(lengthStr, 10) : 0,
+            etag: props.querySelector('getetag')?.textContent || null,
+            lastModified: lastModStr ? new Date(lastModStr) : new Date()
+        });
+    }
+    return entries;
+};
+
+const listWebDAVFiles = async (config: WebDAVConfig): Promise<CloudFile[]> => {
+    if (!isWebDAVConfigured(config)) {
+        return [];
+    }
 
+    try {
+        const entries = await listWebDAVEntries(config);
+        const files: CloudFile[] = [];
+
+        for (const { name, url, size, lastModified } of entries) {
+            const type = getMediaType(name);
             if (type !== 'unknown') {
-                const fileUrl = new URL(href, config.url).toString();
-
-                files.push({
-                    key: fileUrl,
-                    lastModified,
-                    size,
-                    url: fileUrl,
-                    type
-                });
+                files.push({ key: url, lastModified, size, url, type });
             }
         }
         return files;
@@ -1105,3 +1089,131 @@ export const testWebDAVConnection = async (config: WebDAVConfig): Promise<{ succ
         return { success: false, message: `Connection error: ${e.message}` };
     }
 };
+
+// --- Remote Mirror Operations (Sync) ---
+
+const CONTENT_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+    gif: 'image/gif',
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+    mov: 'video/quicktime',
+    json: 'application/json'
+};
+
+const getContentType = (name: string) => CONTENT_TYPES[name.split('.').pop()?.toLowerCase() || ''] || 'application/octet-stream';
+
+export const isRemoteConfigured = (remote: SyncRemote): boolean => {
+    return remote === 's3' ? isS3Configured(getS3Config()) : isWebDAVConfigured(getWebDAVConfig());
+};
+
+// Files directly under the prefix/directory, named like their OPFS gallery counterparts
+export const listRemoteObjects = async (remote: SyncRemote): Promise<RemoteObject[]> => {
+    if (remote === 's3') {
+        const config = getS3Config();
+        const prefix = getS3Prefix(config);
+        return (await listS3Objects(config))
+            .map(o => ({ name: o.key.slice(prefix.length), size: o.size, etag: o.etag, lastModified: o.lastModified.getTime() }))
+            .filter(o => o.name && !o.name.includes('/'));
+    }
+    return (await listWebDAVEntries(getWebDAVConfig()))
+        .map(e => ({ name: e.name, size: e.size, etag: e.etag, lastModified: e.lastModified.getTime() }));
+};
+
+export const uploadRemoteObject = async (remote: SyncRemote, name: string, blob: Blob): Promise<void> => {
+    if (remote === 's3') {
+        await uploadToS3(blob, name, blob.type || getContentType(name), getS3Config());
+    } else {
+        await uploadToWebDAV(blob, name, getWebDAVConfig());
+    }
+};
+
+export const downloadRemoteObject = async (remote: SyncRemote, name: string): Promise<Blob> => {
+    if (remote === 's3') {
+        const config = getS3Config();
+        return fetchS3Signed(getS3ObjectUrl(config, `${getS3Prefix(config)}${name}`), 'GET', config);
+    }
+    const config = getWebDAVConfig();
+    const response = await fetch(joinPath(config.url, config.directory || 'peinture', name), { headers: getWebDAVHeaders(config) });
+    if (!response.ok) throw new Error(`WebDAV Fetch Failed: ${response.status}`);
+    return response.blob();
+};
+
+// Deleting something that is already gone counts as success
+export const deleteRemoteObject = async (remote: SyncRemote, name: string): Promise<void> => {
+    if (remote === 's3') {
+        const config = getS3Config();
+        await deleteS3Object(config, `${getS3Prefix(config)}${name}`);
+        return;
+    }
+    const config = getWebDAVConfig();
+    const response = await fetch(joinPath(config.url, config.directory || 'peinture', name), {
+        method: 'DELETE',
+        headers: getWebDAVHeaders(config)
+    });
+    if (!response.ok && response.status !== 404) {
+        throw new Error(`WebDAV Delete Failed: ${response.status}`);
+    }
+};
+
+// --- Backend Transfer (Gallery Migration) ---
+
+export const isBackendConfigured = (type: StorageType): boolean => {
+    if (type === 'opfs') return true;
+    if (type === 's3' || type === 'webdav') return isRemoteConfigured(type);
+    return false;
+};
+
+// Name of a listed file inside its gallery folder, the same on every backend
+export const getCloudFileName = (type: StorageType, cloudFile: CloudFile): string => {
+    if (type === 's3') return cloudFile.key.slice(getS3Prefix(getS3Config()).length);
+    if (type === 'webdav') return decodeURIComponent(new URL(cloudFile.key).pathname.split('/').pop() || '');
+    return cloudFile.key;
+};
+
+export const readBackendObject = async (type: StorageType, name: string): Promise<Blob> => {
+    if (type === 's3' || type === 'webdav') return downloadRemoteObject(type, name);
+    const blob = await readOpfsFile('gallery', name);
+    if (!blob) throw new Error('File not found in OPFS');
+    return blob;
+};
+
+// OPFS writes go through the gallery so sync, when enabled, picks them up
+export const writeBackendObject = async (type: StorageType, name: string, blob: Blob): Promise<void> => {
+    if (type === 's3' || type === 'webdav') return uploadRemoteObject(type, name, blob);
+    await uploadToOPFSGallery(blob, name);
+};
+
+export const deleteBackendObject = async (type: StorageType, name: string): Promise<void> => {
+    if (type === 's3' || type === 'webdav') return deleteRemoteObject(type, name);
+    await deleteOpfsFile('gallery', name);
+    notifyGalleryChange(name, 'delete');
+};
+
+// Stored size of a file, null when it does not exist
+export const getBackendObjectSize = async (type: StorageType, name: string): Promise<number | null> => {
+    if (type === 'opfs') {
+        const dirHandle = await getOpfsDirHandle('gallery');
+        try {
+            return dirHandle ? (await (await dirHandle.getFileHandle(name)).getFile()).size : null;
+        } catch {
+            return null;
+        }
+    }
+
+    let response: Response;
+    if (type === 's3') {
+        const config = getS3Config();
+        response = await signedS3Fetch(config, 'HEAD', getS3ObjectUrl(config, `${getS3Prefix(config)}${name}`));
+    } else {
+        const config = getWebDAVConfig();
+        response = await fetch(joinPath(config.url, config.directory || 'peinture', name), { method: 'HEAD', headers: getWebDAVHeaders(config) });
+    }
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Stat Failed: ${response.status}`);
+    const length = response.headers.get('Content-Length');
+    return length !== null ? parseInt(length, 10) : null;
+};
@@ -0,0 +1,346 @@
+import { RemoteObject, SyncRemote, SyncResult } from "../types";
+import { useAppStore } from "../store/appStore";
+import { useSyncStore } from "../store/syncStore";
+import {
+    getSyncRemote, getStorageScope, getFileId, isRemoteConfigured, subscribeGalleryChanges,
+    listOpfsFiles, readOpfsFile, writeOpfsFile, deleteOpfsFile, OpfsFileInfo,
+    listRemoteObjects, uploadRemoteObject, downloadRemoteObject, deleteRemoteObject
+} from "./storageService";
+
+const DB_NAME = 'peinture_sync';
+const DB_VERSION = 1;
+const BASELINE_STORE = 'baseline';
+
+// Local changes are pushed shortly after they happen, batching quick successions
+const FLUSH_DELAY_MS = 2000;
+const METADATA_SUFFIX = '.metadata.json';
+
+/**
+ * What both sides looked like after the last successful sync of a file.
+ * Comparing each side against it tells edits apart from deletions.
+ */
+interface SyncBaseline {
+    scope: string;
+    name: string;
+    size: number;
+    remoteEtag: string | null; // Unknown right after our own upload, filled in by the next listing
+    localModified: number;
+}
+
+type SyncActionType = 'upload' | 'download' | 'deleteLocal' | 'deleteRemote' | 'purge' | 'adopt' | 'keep' | 'forget';
+
+interface SyncAction {
+    type: SyncActionType;
+    name: string;
+    conflict?: boolean;
+}
+
+// --- IndexedDB Helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(BASELINE_STORE)) {
+                    const store = db.createObjectStore(BASELINE_STORE, { keyPath: ['scope', 'name'] });
+                    store.createIndex('scope', 'scope');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const getBaselines = async (scope: string): Promise<SyncBaseline[]> => {
+    const db = await openDB();
+    const store = db.transaction(BASELINE_STORE, 'readonly').objectStore(BASELINE_STORE);
+    return new Promise((resolve, reject) => {
+        const request = store.index('scope').getAll(scope);
+        request.onsuccess = () => resolve(request.result as SyncBaseline[]);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Resolves once the write is committed, so the next plan reads it
+const writeBaseline = async (write: (store: IDBObjectStore) => void): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(BASELINE_STORE, 'readwrite');
+    write(tx.objectStore(BASELINE_STORE));
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+const putBaseline = (baseline: SyncBaseline) => writeBaseline(store => store.put(baseline));
+
+const deleteBaseline = (scope: string, name: string) => writeBaseline(store => store.delete([scope, name]));
+
+// --- Planning ---
+
+const isMetadata = (name: string) => name.endsWith(METADATA_SUFFIX);
+const isNsfw = (name: string) => name.includes('.NSFW.');
+
+/**
+ * Three-way diff of the local gallery, the remote and the last synced state.
+ * A file missing on one side was deleted there if it was synced before, otherwise it is new.
+ * When both sides changed the newer copy wins, and an edit always wins over a delete.
+ */
+const planSync = (
+    local: Map<string, OpfsFileInfo>,
+    remote: Map<string, RemoteObject>,
+    baseline: Map<string, SyncBaseline>
+): SyncAction[] => {
+    const names = new Set([...local.keys(), ...remote.keys(), ...baseline.keys()]);
+    const actions = new Map<string, SyncAction>();
+
+    names.forEach(name => {
+        const l = local.get(name);
+        const r = remote.get(name);
+        const b = baseline.get(name);
+
+        const localChanged = !!l && (!b || l.size !== b.size || l.lastModified > b.localModified);
+        const remoteChanged = !!r && (!b || (b.remoteEtag && r.etag ? r.etag !== b.remoteEtag : r.size !== b.size));
+
+        let action: SyncAction;
+        if (l && r) {
+            if (!localChanged && !remoteChanged) action = { type: b?.remoteEtag ? 'keep' : 'adopt', name };
+            else if (!b && l.size === r.size) action = { type: 'adopt', name };
+            else if (localChanged && !remoteChanged) action = { type: 'upload', name };
+            else if (remoteChanged && !localChanged) action = { type: 'download', name };
+            else action = { type: l.lastModified >= r.lastModified ? 'upload' : 'download', name, conflict: true };
+        } else if (l) {
+            // Deleted remotely, unless the local copy was edited since
+            action = b && !localChanged ? { type: 'deleteLocal', name } : { type: 'upload', name, conflict: !!b };
+        } else if (r) {
+            action = b && !remoteChanged ? { type: 'deleteRemote', name } : { type: 'download', name, conflict: !!b };
+        } else {
+            action = { type: 'forget', name };
+        }
+        actions.set(name, action);
+    });
+
+    // Names that exist on at least one side once the plan has run
+    const survives = (action: SyncAction) => ['upload', 'download', 'adopt', 'keep'].includes(action.type);
+
+    // An NSFW rename on one side and an edit of the old name on the other leave both variants,
+    // keep the NSFW one so a file marked as sensitive never shows up unblurred again
+    const mediaById = new Map<string, string[]>();
+    actions.forEach(action => {
+        if (isMetadata(action.name) || !survives(action)) return;
+        const id = getFileId(action.name);
+        mediaById.set(id, [...(mediaById.get(id) || []), action.name]);
+    });
+    mediaById.forEach(group => {
+        if (group.length < 2 || !group.some(isNsfw)) return;
+        group.filter(name => !isNsfw(name)).forEach(name => actions.set(name, { type: 'purge', name, conflict: true }));
+    });
+
+    // A sidecar follows its media: it is only deleted when no variant of the file survives
+    actions.forEach(action => {
+        if (!isMetadata(action.name)) return;
+        const id = action.name.slice(0, -METADATA_SUFFIX.length);
+        if (!mediaById.has(id)) return;
+        if (action.type === 'deleteLocal') actions.set(action.name, { type: 'upload', name: action.name });
+        if (action.type === 'deleteRemote') actions.set(action.name, { type: 'download', name: action.name });
+    });
+
+    return Array.from(actions.values());
+};
+
+// --- Runner ---
+
+let runningSync: Promise<void> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const getErrorMessage = (e: any) => e?.message || 'sync_error';
+
+// Pushes queued local changes without listing either side
+const flushQueue = async (remote: SyncRemote, scope: string) => {
+    const store = useSyncStore.getState();
+    for (const item of [...store.queue]) {
+        if (item.action === 'upload') {
+            const blob = await readOpfsFile('gallery', item.name);
+            // Gone again before it could be pushed, the delete is queued separately
+            if (blob) {
+                await uploadRemoteObject(remote, item.name, blob);
+                const info = (await listOpfsFiles('gallery')).find(f => f.name === item.name);
+                await putBaseline({ scope, name: item.name, size: blob.size, remoteEtag: null, localModified: info?.lastModified ?? Date.now() });
+            }
+        } else {
+            await deleteRemoteObject(remote, item.name);
+            await deleteBaseline(scope, item.name);
+        }
+        useSyncStore.getState().dequeue(item.name, item.queuedAt);
+    }
+};
+
+const applyAction = async (remote: SyncRemote, scope: string, action: SyncAction, local: Map<string, OpfsFileInfo>, remoteFiles: Map<string, RemoteObject>) => {
+    const { name } = action;
+    switch (action.type) {
+        case 'upload': {
+            const blob = await readOpfsFile('gallery', name);
+            if (!blob) return;
+            await uploadRemoteObject(remote, name, blob);
+            await putBaseline({ scope, name, size: blob.size, remoteEtag: null, localModified: local.get(name)!.lastModified });
+            return;
+        }
+        case 'download': {
+            const blob = await downloadRemoteObject(remote, name);
+            await writeOpfsFile('gallery', name, blob);
+            const r = remoteFiles.get(name)!;
+            await putBaseline({ scope, name, size: blob.size, remoteEtag: r.etag, localModified: Date.now() });
+            return;
+        }
+        case 'adopt': {
+            const r = remoteFiles.get(name)!;
+            await putBaseline({ scope, name, size: r.size, remoteEtag: r.etag, localModified: local.get(name)!.lastModified });
+            return;
+        }
+        case 'deleteLocal':
+            await deleteOpfsFile('gallery', name);
+            await deleteBaseline(scope, name);
+            return;
+        case 'deleteRemote':
+            await deleteRemoteObject(remote, name);
+            await deleteBaseline(scope, name);
+            return;
+        case 'purge':
+            if (local.has(name)) await deleteOpfsFile('gallery', name);
+            if (remoteFiles.has(name)) await deleteRemoteObject(remote, name);
+            await deleteBaseline(scope, name);
+            return;
+        case 'forget':
+            await deleteBaseline(scope, name);
+            return;
+    }
+};
+
+const performSync = async (remote: SyncRemote) => {
+    const scope = getStorageScope(remote);
+    const store = useSyncStore.getState();
+    store.setState('syncing');
+
+    await flushQueue(remote, scope);
+
+    const [localList, remoteList, baselineList] = await Promise.all([
+        listOpfsFiles('gallery'),
+        listRemoteObjects(remote),
+        getBaselines(scope)
+    ]);
+    const local = new Map(localList.map(f => [f.name, f]));
+    const remoteFiles = new Map(remoteList.map(o => [o.name, o]));
+    const baseline = new Map(baselineList.map(b => [b.name, b]));
+
+    // Bookkeeping-only actions are not shown as progress
+    const actions = planSync(local, remoteFiles, baseline);
+    const transfers = actions.filter(a => !['adopt', 'keep', 'forget'].includes(a.type));
+    const result: SyncResult = { uploaded: 0, downloaded: 0, deleted: 0, conflicts: 0 };
+
+    let done = 0;
+    store.setProgress(transfers.length > 0 ? { done, total: transfers.length } : null);
+    for (const action of actions) {
+        await applyAction(remote, scope, action, local, remoteFiles);
+        if (action.conflict) result.conflicts++;
+        if (action.type === 'upload') result.uploaded++;
+        else if (action.type === 'download') result.downloaded++;
+        else if (action.type === 'deleteLocal' || action.type === 'deleteRemote' || action.type === 'purge') result.deleted++;
+        if (transfers.includes(action)) store.setProgress({ done: ++done, total: transfers.length });
+    }
+
+    useSyncStore.getState().finishSync(result);
+};
+
+// --- Public API ---
+
+/**
+ * Runs a full two-way sync between the OPFS gallery and the configured remote.
+ * Calls made while a sync is running wait for it instead of starting another one.
+ */
+export const runSync = async (): Promise<void> => {
+    if (runningSync) return runningSync;
+    const remote = getSyncRemote();
+    if (!remote || !isRemoteConfigured(remote)) return;
+
+    const store = useSyncStore.getState();
+    if (!navigator.onLine) {
+        store.setState('offline');
+        return;
+    }
+
+    runningSync = performSync(remote)
+        .catch(e => {
+            console.error("Gallery sync failed", e);
+            useSyncStore.getState().setProgress(null);
+            useSyncStore.getState().setState(navigator.onLine ? 'error' : 'offline', getErrorMessage(e));
+        })
+        .finally(() => { runningSync = null; });
+    return runningSync;
+};
+
+// Pushes queued changes soon, without a full listing of both sides
+const scheduleFlush = () => {
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = setTimeout(async () => {
+        flushTimer = null;
+        const remote = getSyncRemote();
+        if (!remote || !isRemoteConfigured(remote) || runningSync) return;
+        if (!navigator.onLine) {
+            useSyncStore.getState().setState('offline');
+            return;
+        }
+        try {
+            useSyncStore.getState().setState('syncing');
+            await flushQueue(remote, getStorageScope(remote));
+            useSyncStore.getState().setState('idle');
+        } catch (e) {
+            console.error("Failed to push gallery changes", e);
+            useSyncStore.getState().setState(navigator.onLine ? 'error' : 'offline', getErrorMessage(e));
+        }
+    }, FLUSH_DELAY_MS);
+};
+
+/**
+ * Wires the sync engine up: queues every local gallery change, syncs on start,
+ * when the browser comes back online and when sync gets enabled. Returns a cleanup function.
+ */
+export const initSync = (): (() => void) => {
+    const unsubscribeGallery = subscribeGalleryChanges((name, action) => {
+        if (!getSyncRemote()) return;
+        useSyncStore.getState().enqueue({ name, action, queuedAt: Date.now() });
+        scheduleFlush();
+    });
+
+    const unsubscribeSettings = useAppStore.subscribe((state, prev) => {
+        const changed = state.syncEnabled !== prev.syncEnabled || state.storageType !== prev.storageType
+            || state.s3Config !== prev.s3Config || state.webdavConfig !== prev.webdavConfig;
+        if (changed && getSyncRemote()) runSync();
+    });
+
+    const handleOnline = () => runSync();
+    const handleOffline = () => {
+        if (getSyncRemote()) useSyncStore.getState().setState('offline');
+    };
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    runSync();
+
+    return () => {
+        unsubscribeGallery();
+        unsubscribeSettings();
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+        if (flushTimer) clearTimeout(flushTimer);
+    };
+};
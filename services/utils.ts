@@ -1,6 +1,7 @@
 
-import { CustomProvider, ServiceMode, VideoSettings } from "../types";
+import { CustomProvider, FailoverSettings, GeneratedImage, ImageParameters, PromptStyle, ServiceMode, VideoSettings } from "../types";
 import { useAppStore } from "../store/appStore";
+import { embedImageParameters } from "./pngMetadata";
 
 export function generateUUID(): string {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
@@ -170,6 +171,104 @@ export const removeCustomProvider = (id: string) => {
     useAppStore.getState().removeCustomProvider(id);
 };
 
+// --- Provider Failover ---
+
+export const getFailoverSettings = (): FailoverSettings => {
+    return useAppStore.getState().failover;
+};
+
+export const saveFailoverSettings = (failover: FailoverSettings) => {
+    useAppStore.getState().setFailover(failover);
+};
+
+// --- Prompt Style Library ---
+
+const STYLE_FILE_VERSION = 1;
+const TEMPLATE_VARIABLE_REGEX = /\{([a-zA-Z0-9_]+)\}/g;
+
+export const getPromptStyles = (): PromptStyle[] => {
+    return useAppStore.getState().promptStyles;
+};
+
+export const savePromptStyles = (styles: PromptStyle[]) => {
+    useAppStore.getState().setPromptStyles(styles);
+};
+
+// Unique variable names in order of appearance, e.g. "{subject} at {time}" -> ['subject', 'time']
+export const extractTemplateVariables = (template: string): string[] => {
+    const names = Array.from(template.matchAll(TEMPLATE_VARIABLE_REGEX), m => m[1]);
+    return Array.from(new Set(names));
+};
+
+/**
+ * Builds the final prompt from a style. `{subject}` takes the current prompt text;
+ * a template without it is appended to the prompt instead, like a suffix snippet.
+ */
+export const applyPromptTemplate = (template: string, subject: string, values: Record<string, string> = {}): string => {
+    const trimmedSubject = subject.trim();
+    const hasSubject = extractTemplateVariables(template).includes('subject');
+
+    let result = template.replace(TEMPLATE_VARIABLE_REGEX, (_, name: string) => {
+        if (name === 'subject') return trimmedSubject;
+        return (values[name] || '').trim();
+    });
+
+    // Tidy separators left behind by empty variables
+    result = result
+        .replace(/\s+,/g, ',')
+        .replace(/,(\s*,)+/g, ',')
+        .replace(/^[\s,]+|[\s,]+$/g, '')
+        .replace(/\s{2,}/g, ' ');
+
+    if (!hasSubject && trimmedSubject) {
+        return result ? `${trimmedSubject}, ${result}` : trimmedSubject;
+    }
+    return result;
+};
+
+export const exportPromptStyles = (styles: PromptStyle[]): string => {
+    return JSON.stringify({ version: STYLE_FILE_VERSION, styles }, null, 2);
+};
+
+// Accepts the exported file or a bare array of styles
+export const parsePromptStyles = (json: string): PromptStyle[] => {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch (e) {
+        throw new Error("error_invalid_style_file");
+    }
+
+    const list = Array.isArray(data) ? data : data?.styles;
+    if (!Array.isArray(list)) throw new Error("error_invalid_style_file");
+
+    return list
+        .filter((s: any) => s && typeof s.name === 'string' && typeof s.template === 'string' && s.name.trim())
+        .map((s: any): PromptStyle => ({
+            id: typeof s.id === 'string' && s.id ? s.id : generateUUID(),
+            name: s.name.trim(),
+            template: s.template,
+            model: typeof s.model === 'string' && s.model.includes(':') ? s.model : undefined,
+            aspectRatio: typeof s.aspectRatio === 'string' ? s.aspectRatio : undefined,
+            steps: typeof s.steps === 'number' ? s.steps : undefined,
+            guidanceScale: typeof s.guidanceScale === 'number' ? s.guidanceScale : undefined
+        }));
+};
+
+// Imported styles replace existing ones with the same name, the rest are appended
+export const mergePromptStyles = (current: PromptStyle[], imported: PromptStyle[]): PromptStyle[] => {
+    const merged = [...current];
+    imported.forEach(style => {
+        const index = merged.findIndex(s => s.name.toLowerCase() === style.name.toLowerCase());
+        if (index >= 0) {
+            merged[index] = { ...style, id: merged[index].id };
+        } else {
+            merged.push(style);
+        }
+    });
+    return merged;
+};
+
 // --- Translation Service ---
 
 const POLLINATIONS_API_URL = "https://text.pollinations.ai/openai";
@@ -262,6 +361,29 @@ Only reply with the optimized prompt text. Do not add any conversational content
   }
 };
 
+// --- Binary Helpers ---
+
+let crcTable: Uint32Array | null = null;
+
+// CRC-32 as used by ZIP and PNG
+export const crc32 = (data: Uint8Array): number => {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
 // --- Unified URL/Blob Utilities ---
 
 export const getProxyUrl = (url: string) => `https://peinture-proxy.9th.xyz/?url=${encodeURIComponent(url)}`;
@@ -304,9 +426,23 @@ export const fetchBlob = async (url: string): Promise<Blob> => {
  *   - If local: Fetch Blob -> Share -> Fallback to ObjectURL download.
  *   - If remote: Creates <a> tag (direct download).
  * - Fallback: window.open
+ * When parameters are given and the file is a PNG, they are embedded as a "parameters" text chunk first.
  */
-export const downloadImage = async (url: string, fileName: string) => {
+export const downloadImage = async (url: string, fileName: string, parameters?: ImageParameters) => {
     const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
+
+    let embeddedUrl: string | null = null;
+    if (parameters && fileName.toLowerCase().endsWith('.png')) {
+        try {
+            const blob = await embedImageParameters(await fetchBlob(url), parameters);
+            embeddedUrl = URL.createObjectURL(blob);
+            url = embeddedUrl;
+            setTimeout(() => URL.revokeObjectURL(embeddedUrl!), 10000);
+        } catch (e) {
+            console.warn("Failed to embed image parameters, downloading as is", e);
+        }
+    }
+
     const isLocal = url.startsWith('blob:') || url.startsWith('data:');
 
     // Helper to trigger download via anchor tag
@@ -384,3 +520,52 @@ export const getExtensionFromUrl = (url: string): string | null => {
     const match = path.match(/\.([a-zA-Z0-9]+)$/);
     return match ? match[1] : null;
 };
+
+export const convertBlobToPng = (blob: Blob): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        const url = URL.createObjectURL(blob);
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = img.width;
+            canvas.height = img.height;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                URL.revokeObjectURL(url);
+                reject(new Error('Canvas context not available'));
+                return;
+            }
+            ctx.drawImage(img, 0, 0);
+            canvas.toBlob((pngBlob) => {
+                URL.revokeObjectURL(url);
+                if (pngBlob) resolve(pngBlob);
+                else reject(new Error('PNG conversion failed'));
+            }, 'image/png');
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Image load failed during conversion'));
+        };
+        img.src = url;
+    });
+};
+
+// Fetch a generated result and normalise it to PNG so it can be cached locally
+export const prepareResultBlob = async (result: GeneratedImage): Promise<{ blob: Blob, ext: string }> => {
+    let blob = await fetchBlob(result.url);
+    let ext = getExtensionFromUrl(result.url);
+    if (!ext) {
+        const mimeExt = blob.type.split('/')[1];
+        ext = (mimeExt && mimeExt.length <= 4) ? mimeExt : 'png';
+    }
+
+    if (ext.toLowerCase() !== 'png') {
+        try {
+            blob = await convertBlobToPng(blob);
+            ext = 'png';
+        } catch (convErr) {
+            console.warn("Image conversion to PNG failed, saving as is", convErr);
+        }
+    }
+    return { blob, ext };
+};
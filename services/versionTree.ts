@@ -0,0 +1,62 @@
+import { EditLineage, EditVersion } from "../types";
+import { generateUUID } from "./utils";
+
+export const createVersion = (fields: Omit<EditVersion, 'id' | 'timestamp'>): EditVersion => ({
+    ...fields,
+    id: generateUUID(),
+    timestamp: Date.now()
+});
+
+export const createSourceVersion = (url: string) => createVersion({
+    parentId: null,
+    kind: 'source',
+    url,
+    prompt: '',
+    referenceImages: []
+});
+
+// Versions from the root down to the given one
+export const getVersionChain = (versions: EditVersion[], id: string): EditVersion[] => {
+    const byId = new Map(versions.map(v => [v.id, v]));
+    const chain: EditVersion[] = [];
+    let node = byId.get(id);
+    while (node) {
+        chain.unshift(node);
+        node = node.parentId ? byId.get(node.parentId) : undefined;
+    }
+    return chain;
+};
+
+export const getLineage = (versions: EditVersion[], id: string): EditLineage => {
+    const chain = getVersionChain(versions, id);
+    const node = chain[chain.length - 1];
+    return {
+        versionId: id,
+        parentId: node?.parentId ?? null,
+        chain: chain.map(v => v.id),
+        prompts: chain.map(v => v.prompt)
+    };
+};
+
+/**
+ * Depth-first rows for drawing the tree, children in creation order under their parent.
+ * Versions whose parent is gone are shown as roots.
+ */
+export const getTreeRows = (versions: EditVersion[]): { version: EditVersion; depth: number }[] => {
+    const ids = new Set(versions.map(v => v.id));
+    const children = new Map<string | null, EditVersion[]>();
+    versions.forEach(v => {
+        const key = v.parentId && ids.has(v.parentId) ? v.parentId : null;
+        children.set(key, [...(children.get(key) || []), v]);
+    });
+
+    const rows: { version: EditVersion; depth: number }[] = [];
+    const visit = (parentId: string | null, depth: number) => {
+        (children.get(parentId) || []).forEach(v => {
+            rows.push({ version: v, depth });
+            visit(v.id, depth + 1);
+        });
+    };
+    visit(null, 0);
+    return rows;
+};
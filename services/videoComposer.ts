@@ -0,0 +1,134 @@
+import { GeneratedImage, ProgressHandler, ProviderOption, TaskProgress, VideoClipParams } from "../types";
+import { createVideoWithProvider, getVideoTaskStatus } from "./providerRegistry";
+import { fetchCloudBlob } from "./storageService";
+import { fetchBlob } from "./utils";
+import { stitchVideos } from "./videoStitcher";
+
+const POLL_INTERVAL_MS = 5000;
+
+export type ComposeMode = 'keyframes' | 'sequence';
+
+export type ComposeStage = 'segment' | 'stitch';
+
+/**
+ * Splits the frames into the clips to request. A model that interpolates between up to `maxKeyframes`
+ * images gets windows of that size, each starting on the frame the previous one ended on, so the clips
+ * join into one continuous shot. Image-to-video models get one clip per frame.
+ */
+export const planSegments = <T>(frames: T[], maxKeyframes: number): T[][] => {
+    if (maxKeyframes < 2) return frames.map(frame => [frame]);
+    const segments: T[][] = [];
+    for (let start = 0; start < frames.length - 1; start += maxKeyframes - 1) {
+        segments.push(frames.slice(start, start + maxKeyframes));
+    }
+    return segments;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Same as the Live polling in useAppInit, but awaited, since the next clip can't start before
+const waitForVideoTask = async (
+    providerId: ProviderOption,
+    taskId: string,
+    predict: number | undefined,
+    signal?: AbortSignal,
+    onProgress?: ProgressHandler
+): Promise<string> => {
+    await sleep(Math.max(POLL_INTERVAL_MS, (predict ?? 0) * 1000), signal);
+    while (true) {
+        const status = await getVideoTaskStatus(providerId, taskId);
+        if (!status) throw new Error("error_task_not_found");
+        if (status.status === 'success' && status.videoUrl) return status.videoUrl;
+        if (status.status === 'failed') throw new Error(status.error || "liveError");
+        if (status.progress) onProgress?.(status.progress);
+        await sleep(POLL_INTERVAL_MS, signal);
+    }
+};
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+// History urls are usually blob: or opfs:// urls that only exist in this tab, so they are
+// inlined as data URIs before they are sent to a provider. Remote urls are passed on as is.
+const toFetchableUrl = async (url: string): Promise<string> => {
+    if (url.startsWith('opfs://')) return blobToDataUrl(await fetchCloudBlob(url));
+    if (url.startsWith('blob:')) return blobToDataUrl(await fetchBlob(url));
+    return url;
+};
+
+const renderSegment = async (
+    providerId: ProviderOption,
+    model: string,
+    frames: GeneratedImage[],
+    clip: VideoClipParams,
+    signal?: AbortSignal,
+    onProgress?: ProgressHandler
+): Promise<Blob> => {
+    const [first, ...rest] = frames;
+    let image: string | Blob = first.url;
+    try {
+        // opfs:// urls are resolved by the provider services themselves
+        if (!first.url.startsWith('opfs://')) image = await fetchBlob(first.url);
+    } catch (e) {
+        console.warn("Failed to fetch keyframe blob, using original URL", e);
+    }
+    const imageUrl = await toFetchableUrl(first.url);
+    const keyframes = await Promise.all(rest.map(frame => toFetchableUrl(frame.url)));
+
+    const result = await createVideoWithProvider(providerId, {
+        model,
+        image,
+        imageUrl,
+        width: first.width || 1024,
+        height: first.height || 1024,
+        clip,
+        keyframes: keyframes.length > 0 ? keyframes : undefined,
+        onProgress
+    });
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+    const url = result.taskId
+        ? await waitForVideoTask(providerId, result.taskId, result.predict, signal, onProgress)
+        : result.url;
+    if (!url) throw new Error("Invalid response from video provider");
+    return fetchBlob(url);
+};
+
+/**
+ * Requests every segment in turn with the same clip settings, then stitches them into one video.
+ * Segments run one after another: providers queue video jobs per token anyway, and a failed
+ * segment stops the whole composition before more quota is spent.
+ */
+export const composeVideo = async (
+    providerId: ProviderOption,
+    model: string,
+    segments: GeneratedImage[][],
+    clip: VideoClipParams,
+    signal?: AbortSignal,
+    onStage?: (stage: ComposeStage, index: number) => void,
+    onProgress?: (progress: TaskProgress | null) => void // null when a new stage starts
+): Promise<Blob> => {
+    const clips: Blob[] = [];
+    for (let i = 0; i < segments.length; i++) {
+        if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+        onStage?.('segment', i);
+        onProgress?.(null);
+        clips.push(await renderSegment(providerId, model, segments[i], clip, signal, onProgress));
+    }
+    onProgress?.(null);
+    return stitchVideos(clips, signal, (index) => onStage?.('stitch', index));
+};
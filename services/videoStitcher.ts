@@ -0,0 +1,112 @@
+// Joins clips into one video in the browser. There is no API to concatenate video files, and clips from
+// different providers rarely share codec settings, so every clip is played into a canvas and re-encoded.
+
+const FRAME_RATE = 30;
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+
+// MP4 where the browser can record it (Safari, recent Chromium), WebM otherwise
+const RECORDER_MIME_TYPES = ['video/mp4;codecs=avc1', 'video/mp4', 'video/webm;codecs=vp9', 'video/webm'];
+
+export const getStitchMimeType = (): string | null => {
+    if (typeof MediaRecorder === 'undefined') return null;
+    return RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+export const getVideoExtension = (blob: Blob): string => blob.type.startsWith('video/webm') ? 'webm' : 'mp4';
+
+const loadVideo = (video: HTMLVideoElement, url: string) => new Promise<void>((resolve, reject) => {
+    video.onloadeddata = () => resolve();
+    video.onerror = () => reject(new Error("error_stitch_failed"));
+    video.src = url;
+});
+
+// Draws the clip scaled to fit, centered on black, until it ends
+const playInto = (video: HTMLVideoElement, ctx: CanvasRenderingContext2D, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const { width, height } = ctx.canvas;
+    const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+    const w = video.videoWidth * scale;
+    const h = video.videoHeight * scale;
+    let done = false;
+
+    const draw = () => {
+        if (done) return;
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(video, (width - w) / 2, (height - h) / 2, w, h);
+        requestAnimationFrame(draw);
+    };
+    const finish = (error?: Error) => {
+        done = true;
+        signal?.removeEventListener('abort', onAbort);
+        video.onended = null;
+        if (error) reject(error);
+        else resolve();
+    };
+    const onAbort = () => {
+        video.pause();
+        finish(new DOMException('Aborted', 'AbortError'));
+    };
+
+    signal?.addEventListener('abort', onAbort);
+    video.onended = () => finish();
+    video.play().then(draw, () => finish(new Error("error_stitch_failed")));
+});
+
+/**
+ * Plays the clips back to back into a recorded canvas, sized after the first clip.
+ * A single clip is returned as is. Takes as long as the clips run.
+ */
+export const stitchVideos = async (
+    clips: Blob[],
+    signal?: AbortSignal,
+    onClip?: (index: number) => void
+): Promise<Blob> => {
+    if (clips.length === 0) throw new Error("error_stitch_failed");
+    if (clips.length === 1) return clips[0];
+
+    const mimeType = getStitchMimeType();
+    if (!mimeType) throw new Error("error_stitch_unsupported");
+
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("error_stitch_unsupported");
+
+    const urls = clips.map(clip => URL.createObjectURL(clip));
+    const chunks: Blob[] = [];
+    let recorder: MediaRecorder | null = null;
+
+    try {
+        for (let i = 0; i < urls.length; i++) {
+            if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+            onClip?.(i);
+            // Paused while the next clip loads, so the gap doesn't end up in the video
+            recorder?.pause();
+            await loadVideo(video, urls[i]);
+
+            if (!recorder) {
+                // Even dimensions, H.264 encoders reject odd ones
+                canvas.width = video.videoWidth & ~1;
+                canvas.height = video.videoHeight & ~1;
+                recorder = new MediaRecorder(canvas.captureStream(FRAME_RATE), { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+                recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+                recorder.start();
+            } else {
+                recorder.resume();
+            }
+            await playInto(video, ctx, signal);
+        }
+
+        const stopped = new Promise<void>(resolve => { recorder!.onstop = () => resolve(); });
+        recorder!.stop();
+        await stopped;
+        return new Blob(chunks, { type: mimeType.split(';')[0] });
+    } finally {
+        if (recorder && recorder.state !== 'inactive') recorder.stop();
+        video.removeAttribute('src');
+        video.load();
+        urls.forEach(url => URL.revokeObjectURL(url));
+    }
+};
@@ -0,0 +1,161 @@
+import { crc32 } from "./utils";
+
+// Minimal ZIP reader/writer for backups.
+// Media is stored as-is (already compressed), text entries are deflated with the
+// browser's CompressionStream. No ZIP64, so archives must stay under 4GB.
+
+export interface ZipInput {
+    name: string;
+    data: Blob | string;
+    compress?: boolean;
+}
+
+const SIG_LOCAL = 0x04034b50;
+const SIG_CENTRAL = 0x02014b50;
+const SIG_END = 0x06054b50;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+// --- Stream Helpers ---
+
+const pipeThrough = async (data: BlobPart, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+    const output = new Blob([data]).stream().pipeThrough(stream);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+// DOS date/time as stored in ZIP headers
+const toDosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+// --- Writer ---
+
+export const createZip = async (inputs: ZipInput[]): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(new Date());
+    const parts: BlobPart[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const input of inputs) {
+        const raw = typeof input.data === 'string'
+            ? encoder.encode(input.data)
+            : new Uint8Array(await input.data.arrayBuffer());
+        const method = input.compress ? METHOD_DEFLATE : METHOD_STORE;
+        const payload = method === METHOD_DEFLATE ? await pipeThrough(raw, new CompressionStream('deflate-raw')) : raw;
+        const name = encoder.encode(input.name);
+        const crc = crc32(raw);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, SIG_LOCAL, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, FLAG_UTF8, true);
+        local.setUint16(8, method, true);
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, payload.length, true);
+        local.setUint32(22, raw.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+
+        const entry = new DataView(new ArrayBuffer(46));
+        entry.setUint32(0, SIG_CENTRAL, true);
+        entry.setUint16(4, 20, true);
+        entry.setUint16(6, 20, true);
+        entry.setUint16(8, FLAG_UTF8, true);
+        entry.setUint16(10, method, true);
+        entry.setUint16(12, time, true);
+        entry.setUint16(14, date, true);
+        entry.setUint32(16, crc, true);
+        entry.setUint32(20, payload.length, true);
+        entry.setUint32(24, raw.length, true);
+        entry.setUint16(28, name.length, true);
+        entry.setUint32(42, offset, true);
+
+        parts.push(local.buffer, name, payload);
+        central.push(new Uint8Array(entry.buffer), name);
+        offset += 30 + name.length + payload.length;
+    }
+
+    const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, SIG_END, true);
+    end.setUint16(8, inputs.length, true);
+    end.setUint16(10, inputs.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+// --- Reader ---
+
+export interface ZipEntry {
+    name: string;
+    size: number;
+    read: () => Promise<Blob>;
+}
+
+const readView = async (blob: Blob, start: number, end: number) => {
+    return new DataView(await blob.slice(start, end).arrayBuffer());
+};
+
+/**
+ * Lists the entries of a ZIP archive. Data is only read when an entry's `read()` is called,
+ * so large media archives are never loaded into memory at once.
+ */
+export const readZip = async (blob: Blob): Promise<Map<string, ZipEntry>> => {
+    const decoder = new TextDecoder();
+
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+    const tailStart = Math.max(0, blob.size - 22 - 0xffff);
+    const tail = await readView(blob, tailStart, blob.size);
+    let endPos = -1;
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+        if (tail.getUint32(i, true) === SIG_END) {
+            endPos = i;
+            break;
+        }
+    }
+    if (endPos < 0) throw new Error("error_invalid_backup");
+
+    const count = tail.getUint16(endPos + 10, true);
+    const centralSize = tail.getUint32(endPos + 12, true);
+    const centralOffset = tail.getUint32(endPos + 16, true);
+    const centralDir = await readView(blob, centralOffset, centralOffset + centralSize);
+
+    const entries = new Map<string, ZipEntry>();
+    let pos = 0;
+    for (let i = 0; i < count; i++) {
+        if (centralDir.getUint32(pos, true) !== SIG_CENTRAL) throw new Error("error_invalid_backup");
+        const method = centralDir.getUint16(pos + 10, true);
+        const compressedSize = centralDir.getUint32(pos + 20, true);
+        const size = centralDir.getUint32(pos + 24, true);
+        const nameLength = centralDir.getUint16(pos + 28, true);
+        const extraLength = centralDir.getUint16(pos + 30, true);
+        const commentLength = centralDir.getUint16(pos + 32, true);
+        const localOffset = centralDir.getUint32(pos + 42, true);
+        const name = decoder.decode(new Uint8Array(centralDir.buffer, centralDir.byteOffset + pos + 46, nameLength));
+        pos += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+
+        entries.set(name, {
+            name,
+            size,
+            read: async () => {
+                // Local header name/extra lengths can differ from the central directory
+                const local = await readView(blob, localOffset, localOffset + 30);
+                const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+                const data = blob.slice(dataStart, dataStart + compressedSize);
+                if (method === METHOD_STORE) return data;
+                if (method === METHOD_DEFLATE) return new Blob([await pipeThrough(data, new DecompressionStream('deflate-raw'))]);
+                throw new Error("error_invalid_backup");
+            }
+        });
+    }
+    return entries;
+};
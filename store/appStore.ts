@@ -5,9 +5,9 @@ import { AppView } from '../components/Header';
 import { Language } from '../translations';
 import { 
     AspectRatioOption, CloudImage, GeneratedImage, ModelOption, ProviderOption, ProviderId, TokenStatus,
-    StorageType, S3Config, WebDAVConfig, ServiceMode, VideoSettings, CustomProvider
+    StorageType, S3Config, WebDAVConfig, ServiceMode, VideoSettings, CustomProvider, PromptStyle, RetentionPolicy, FailoverSettings
 } from '../types';
-import { HF_MODEL_OPTIONS } from '../constants';
+import { HF_MODEL_OPTIONS, DEFAULT_RETENTION_POLICY, DEFAULT_FAILOVER_SETTINGS } from '../constants';
 import { getUTCDatesString, getBeijingDateString } from '../services/utils';
 import { DEFAULT_S3_CONFIG, DEFAULT_WEBDAV_CONFIG } from '../services/storageService';
 
@@ -92,9 +92,11 @@ interface AppState {
     model: ModelOption;
     aspectRatio: AspectRatioOption;
     seed: string;
+    negativePrompt: string;
     steps: number;
     guidanceScale: number;
     autoTranslate: boolean;
+    batchCount: number;
     
     // --- Service Configuration (Migrated from Storage) ---
     serviceMode: ServiceMode;
@@ -102,9 +104,12 @@ interface AppState {
     storageType: StorageType;
     s3Config: S3Config;
     webdavConfig: WebDAVConfig;
+    retentionPolicy: RetentionPolicy;
+    syncEnabled: boolean; // Keep the gallery in OPFS and mirror it to the S3/WebDAV remote
     
     systemPrompt: string;
     translationPrompt: string;
+    promptStyles: PromptStyle[];
     
     // Model Selections (Unified)
     editModelConfig: { provider: string, model: string };
@@ -118,6 +123,7 @@ interface AppState {
     // --- Token Management ---
     tokens: Record<ProviderId, string[]>;
     tokenStatus: Record<ProviderId, TokenStatus>;
+    failover: FailoverSettings;
 
     // --- Data (Persisted) ---
     history: GeneratedImage[];
@@ -126,16 +132,18 @@ interface AppState {
     // --- Ephemeral State (Not Persisted) ---
     currentView: AppView;
     prompt: string;
-    isLoading: boolean;
     isTranslating: boolean;
     isOptimizing: boolean;
     isUpscaling: boolean;
     isDownloading: boolean;
     isUploading: boolean;
+    uploadProgress: number | null; // 0-1 while a cloud upload reports progress
     currentImage: GeneratedImage | null;
+    batchResults: GeneratedImage[];
     imageDimensions: { width: number, height: number } | null;
     isLiveMode: boolean;
     error: string | null;
+    presetModelKey: string | null; // "provider:model" whose steps/guidance were set along with it, kept by the model change
     
     // --- Actions ---
     setLanguage: (lang: Language) => void;
@@ -143,17 +151,23 @@ interface AppState {
     setModel: (model: ModelOption) => void;
     setAspectRatio: (ar: AspectRatioOption) => void;
     setSeed: (seed: string) => void;
+    setNegativePrompt: (negativePrompt: string) => void;
     setSteps: (steps: number) => void;
     setGuidanceScale: (scale: number) => void;
+    applyModelPreset: (preset: { provider: ProviderOption, model: ModelOption, aspectRatio?: AspectRatioOption, steps?: number, guidanceScale?: number }) => void;
     setAutoTranslate: (enabled: boolean) => void;
+    setBatchCount: (count: number) => void;
     
     setServiceMode: (mode: ServiceMode) => void;
     setStorageType: (type: StorageType) => void;
     setS3Config: (config: S3Config) => void;
     setWebDAVConfig: (config: WebDAVConfig) => void;
+    setRetentionPolicy: (policy: RetentionPolicy) => void;
+    setSyncEnabled: (enabled: boolean) => void;
     
     setSystemPrompt: (val: string) => void;
     setTranslationPrompt: (val: string) => void;
+    setPromptStyles: (styles: PromptStyle[]) => void;
     
     setEditModelConfig: (val: { provider: string, model: string }) => void;
     setLiveModelConfig: (val: { provider: string, model: string }) => void;
@@ -169,6 +183,7 @@ interface AppState {
     setProviderTokens: (provider: ProviderId, tokenString: string) => void;
     markTokenExhausted: (provider: ProviderId, token: string) => void;
     resetDailyStatus: (provider: ProviderId) => void;
+    setFailover: (failover: FailoverSettings) => void;
 
     setHistory: (history: GeneratedImage[] | ((prev: GeneratedImage[]) => GeneratedImage[])) => void;
     setCloudHistory: (history: CloudImage[] | ((prev: CloudImage[]) => CloudImage[])) => void;
@@ -176,14 +191,15 @@ interface AppState {
     setCurrentView: (view: AppView) => void;
     setPrompt: (prompt: string) => void;
     
-    setIsLoading: (isLoading: boolean) => void;
     setIsTranslating: (isTranslating: boolean) => void;
     setIsOptimizing: (isOptimizing: boolean) => void;
     setIsUpscaling: (isUpscaling: boolean) => void;
     setIsDownloading: (isDownloading: boolean) => void;
     setIsUploading: (isUploading: boolean) => void;
+    setUploadProgress: (uploadProgress: number | null) => void;
     
     setCurrentImage: (image: GeneratedImage | null | ((prev: GeneratedImage | null) => GeneratedImage | null)) => void;
+    setBatchResults: (results: GeneratedImage[] | ((prev: GeneratedImage[]) => GeneratedImage[])) => void;
     setImageDimensions: (dimensions: { width: number, height: number } | null) => void;
     setIsLiveMode: (isLive: boolean) => void;
     setError: (error: string | null) => void;
@@ -196,7 +212,8 @@ export const useAppStore = create<AppState>()(
         (set, get) => ({
             // 1. Core Settings
             language: getLocalItem<Language>('app_language', (() => {
-                const browserLang = navigator.language.toLowerCase();
+                // The reference server imports the store outside a browser
+                const browserLang = typeof navigator !== 'undefined' ? (navigator.language || '').toLowerCase() : '';
                 return browserLang.startsWith('zh') ? 'zh' : 'en';
             })()),
             
@@ -205,9 +222,11 @@ export const useAppStore = create<AppState>()(
             aspectRatio: getLocalItem<AspectRatioOption>('app_aspect_ratio', '1:1'),
             
             seed: '',
+            negativePrompt: '',
             steps: 9,
             guidanceScale: 3.5,
             autoTranslate: false,
+            batchCount: 1,
 
             // 2. Service & Storage Configs (Migrating from legacy keys)
             serviceMode: getLocalItem<ServiceMode>('service_mode', (process.env.VITE_SERVICE_MODE as ServiceMode) || 'local'),
@@ -215,9 +234,12 @@ export const useAppStore = create<AppState>()(
             storageType: getLocalItem<StorageType>('app_storage_type', 'opfs'),
             s3Config: getLocalItem<S3Config>('app_s3_config', DEFAULT_S3_CONFIG),
             webdavConfig: getLocalItem<WebDAVConfig>('app_webdav_config', DEFAULT_WEBDAV_CONFIG),
+            retentionPolicy: DEFAULT_RETENTION_POLICY,
+            syncEnabled: false,
             
             systemPrompt: getLocalItem<string>('custom_system_prompt', DEFAULT_SYSTEM_PROMPT),
             translationPrompt: getLocalItem<string>('custom_translation_prompt', DEFAULT_TRANSLATION_PROMPT),
+            promptStyles: [],
             
             // 3. Model Configs (Migrating from legacy)
             editModelConfig: migrateModelConfig('app_edit_model_config', 'huggingface', 'qwen-image-edit'),
@@ -241,6 +263,7 @@ export const useAppStore = create<AppState>()(
                 modelscope: getLegacyStatus('ms_token_status', getBeijingDateString),
                 a4f: getLegacyStatus('a4f_token_status', getUTCDatesString)
             },
+            failover: DEFAULT_FAILOVER_SETTINGS,
 
             // 5. Data
             history: getLocalItem<GeneratedImage[]>('ai_image_gen_history', []),
@@ -249,16 +272,18 @@ export const useAppStore = create<AppState>()(
             // 6. Ephemeral State
             currentView: 'creation',
             prompt: '',
-            isLoading: false,
             isTranslating: false,
             isOptimizing: false,
             isUpscaling: false,
             isDownloading: false,
             isUploading: false,
+            uploadProgress: null,
             currentImage: null,
+            batchResults: [],
             imageDimensions: null,
             isLiveMode: false,
             error: null,
+            presetModelKey: null,
 
             // --- Actions Implementation ---
             setLanguage: (language) => set({ language }),
@@ -266,17 +291,35 @@ export const useAppStore = create<AppState>()(
             setModel: (model) => set({ model }),
             setAspectRatio: (aspectRatio) => set({ aspectRatio }),
             setSeed: (seed) => set({ seed }),
+            setNegativePrompt: (negativePrompt) => set({ negativePrompt }),
             setSteps: (steps) => set({ steps }),
             setGuidanceScale: (guidanceScale) => set({ guidanceScale }),
+            // One update, so the model defaults effect in useAppInit sees the preset values together with the model
+            applyModelPreset: ({ provider, model, aspectRatio, steps, guidanceScale }) => set((state) => {
+                const modelChanged = state.provider !== provider || state.model !== model;
+                const hasSettings = steps !== undefined || guidanceScale !== undefined;
+                return {
+                    provider,
+                    model,
+                    aspectRatio: aspectRatio ?? state.aspectRatio,
+                    steps: steps ?? state.steps,
+                    guidanceScale: guidanceScale ?? state.guidanceScale,
+                    presetModelKey: modelChanged && hasSettings ? `${provider}:${model}` : null
+                };
+            }),
             setAutoTranslate: (autoTranslate) => set({ autoTranslate }),
+            setBatchCount: (batchCount) => set({ batchCount }),
             
             setServiceMode: (serviceMode) => set({ serviceMode }),
             setStorageType: (storageType) => set({ storageType }),
             setS3Config: (s3Config) => set({ s3Config }),
             setWebDAVConfig: (webdavConfig) => set({ webdavConfig }),
+            setRetentionPolicy: (retentionPolicy) => set({ retentionPolicy }),
+            setSyncEnabled: (syncEnabled) => set({ syncEnabled }),
             
             setSystemPrompt: (systemPrompt) => set({ systemPrompt }),
             setTranslationPrompt: (translationPrompt) => set({ translationPrompt }),
+            setPromptStyles: (promptStyles) => set({ promptStyles }),
             
             setEditModelConfig: (editModelConfig) => set({ editModelConfig }),
             setLiveModelConfig: (liveModelConfig) => set({ liveModelConfig }),
@@ -348,6 +391,8 @@ export const useAppStore = create<AppState>()(
                 });
             },
 
+            setFailover: (failover) => set({ failover }),
+
             setHistory: (historyOrFn) => set((state) => ({ 
                 history: typeof historyOrFn === 'function' ? historyOrFn(state.history) : historyOrFn 
             })),
@@ -358,16 +403,19 @@ export const useAppStore = create<AppState>()(
             setCurrentView: (currentView) => set({ currentView }),
             setPrompt: (prompt) => set({ prompt }),
             
-            setIsLoading: (isLoading) => set({ isLoading }),
             setIsTranslating: (isTranslating) => set({ isTranslating }),
             setIsOptimizing: (isOptimizing) => set({ isOptimizing }),
             setIsUpscaling: (isUpscaling) => set({ isUpscaling }),
             setIsDownloading: (isDownloading) => set({ isDownloading }),
             setIsUploading: (isUploading) => set({ isUploading }),
+            setUploadProgress: (uploadProgress) => set({ uploadProgress }),
             
             setCurrentImage: (imageOrFn) => set((state) => ({
                 currentImage: typeof imageOrFn === 'function' ? imageOrFn(state.currentImage) : imageOrFn
             })),
+            setBatchResults: (resultsOrFn) => set((state) => ({
+                batchResults: typeof resultsOrFn === 'function' ? resultsOrFn(state.batchResults) : resultsOrFn
+            })),
             setImageDimensions: (imageDimensions) => set({ imageDimensions }),
             setIsLiveMode: (isLiveMode) => set({ isLiveMode }),
             setError: (error) => set({ error }),
@@ -375,6 +423,7 @@ export const useAppStore = create<AppState>()(
             resetSettings: () => set({
                 prompt: '',
                 seed: '',
+                negativePrompt: '',
                 aspectRatio: '1:1',
                 currentImage: null,
                 isLiveMode: false,
@@ -391,20 +440,26 @@ export const useAppStore = create<AppState>()(
                 model: state.model,
                 aspectRatio: state.aspectRatio,
                 seed: state.seed,
+                negativePrompt: state.negativePrompt,
                 steps: state.steps,
                 guidanceScale: state.guidanceScale,
                 autoTranslate: state.autoTranslate,
+                batchCount: state.batchCount,
                 history: state.history,
                 cloudHistory: state.cloudHistory,
                 // Migrated persisted fields
                 tokens: state.tokens,
                 tokenStatus: state.tokenStatus,
+                failover: state.failover,
                 serviceMode: state.serviceMode,
                 storageType: state.storageType,
                 s3Config: state.s3Config,
                 webdavConfig: state.webdavConfig,
+                retentionPolicy: state.retentionPolicy,
+                syncEnabled: state.syncEnabled,
                 systemPrompt: state.systemPrompt,
                 translationPrompt: state.translationPrompt,
+                promptStyles: state.promptStyles,
                 editModelConfig: state.editModelConfig,
                 liveModelConfig: state.liveModelConfig,
                 textModelConfig: state.textModelConfig,
@@ -1,14 +1,26 @@
 
 import { create } from 'zustand';
+import { EditorCommand, EditorLayer, EditVersion, OutpaintPadding } from '../types';
+import { applyCommand, revertCommand } from '../services/editorDocument';
 
-export type ToolType = 'select' | 'move' | 'brush' | 'eraser' | 'rect';
+export type ToolType = 'select' | 'move' | 'brush' | 'eraser' | 'rect' | 'ellipse' | 'arrow' | 'lasso' | 'text';
+
+const MAX_UNDO_STEPS = 200;
 
 interface EditorState {
     // Tool State
     activeTool: ToolType;
     brushColor: string;
+    brushSize: number; // Screen pixels, independent of zoom
+    brushHardness: number; // 0 (soft edge) - 1 (hard edge)
+    inpaintMode: boolean; // Strokes form a mask, only the painted area is regenerated
     setActiveTool: (tool: ToolType) => void;
     setBrushColor: (color: string) => void;
+    setBrushSize: (size: number) => void;
+    setBrushHardness: (hardness: number) => void;
+    setInpaintMode: (enabled: boolean) => void;
+    outpaintPadding: OutpaintPadding | null; // Set while the expand canvas panel is open
+    setOutpaintPadding: (padding: OutpaintPadding | null) => void;
 
     // Viewport State
     scale: number;
@@ -17,6 +29,24 @@ interface EditorState {
     setOffset: (offset: { x: number; y: number } | ((prev: { x: number; y: number }) => { x: number; y: number })) => void;
     resetView: () => void;
 
+    // Document State (bottom layer first)
+    layers: EditorLayer[];
+    activeLayerId: string | null;
+    undoStack: EditorCommand[];
+    redoStack: EditorCommand[];
+    loadDocument: (layers: EditorLayer[], activeLayerId: string | null) => void;
+    execute: (command: EditorCommand) => void;
+    undo: () => void;
+    redo: () => void;
+    setActiveLayer: (id: string | null) => void;
+
+    // Version Tree (creation order, the source image first)
+    versions: EditVersion[];
+    currentVersionId: string | null; // Version the document is based on, new edits become its children
+    initVersions: (source: EditVersion) => void;
+    addVersion: (version: EditVersion) => void;
+    setCurrentVersion: (id: string) => void;
+
     // Generation State
     prompt: string;
     attachedImages: string[];
@@ -34,17 +64,45 @@ interface EditorState {
     setShowGalleryModal: (show: boolean) => void;
     showExitDialog: boolean;
     setShowExitDialog: (show: boolean) => void;
+    showLayersPanel: boolean;
+    setShowLayersPanel: (show: boolean) => void;
+    showVersionsPanel: boolean;
+    setShowVersionsPanel: (show: boolean) => void;
 
     // Actions
     resetEditor: () => void;
 }
 
+// Keeps the active layer pointing at something that still exists after an edit
+const resolveActiveLayer = (layers: EditorLayer[], activeLayerId: string | null) => {
+    if (activeLayerId && layers.some(l => l.id === activeLayerId)) return activeLayerId;
+    const annotations = layers.filter(l => l.kind === 'annotation');
+    return annotations.length > 0 ? annotations[annotations.length - 1].id : null;
+};
+
+// Slider drags arrive as a run of opacity updates to one layer, they are undone as a single step
+const mergeOpacityUpdate = (previous: EditorCommand | undefined, command: EditorCommand): EditorCommand | null => {
+    if (previous?.type !== 'updateLayer' || command.type !== 'updateLayer') return null;
+    if (previous.layerId !== command.layerId) return null;
+    const onlyOpacity = (c: Partial<EditorLayer>) => Object.keys(c).every(k => k === 'opacity');
+    if (!onlyOpacity(previous.after) || !onlyOpacity(command.after)) return null;
+    return { ...command, before: previous.before };
+};
+
 export const useEditorStore = create<EditorState>((set) => ({
     // Tool State
     activeTool: 'move',
     brushColor: '#60A5FA', // Default blue-400
+    brushSize: 6,
+    brushHardness: 1,
+    inpaintMode: false,
     setActiveTool: (activeTool) => set({ activeTool }),
     setBrushColor: (brushColor) => set({ brushColor }),
+    setBrushSize: (brushSize) => set({ brushSize: Math.min(Math.max(Math.round(brushSize), 1), 100) }),
+    setBrushHardness: (brushHardness) => set({ brushHardness: Math.min(Math.max(brushHardness, 0), 1) }),
+    setInpaintMode: (inpaintMode) => set({ inpaintMode }),
+    outpaintPadding: null,
+    setOutpaintPadding: (outpaintPadding) => set({ outpaintPadding }),
 
     // Viewport State
     scale: 1,
@@ -53,6 +111,61 @@ export const useEditorStore = create<EditorState>((set) => ({
     setOffset: (offset) => set((state) => ({ offset: typeof offset === 'function' ? offset(state.offset) : offset })),
     resetView: () => set({ scale: 1, offset: { x: 0, y: 0 } }),
 
+    // Document State
+    layers: [],
+    activeLayerId: null,
+    undoStack: [],
+    redoStack: [],
+    loadDocument: (layers, activeLayerId) => set({
+        layers,
+        activeLayerId: resolveActiveLayer(layers, activeLayerId),
+        undoStack: [],
+        redoStack: []
+    }),
+    execute: (command) => set((state) => {
+        const layers = applyCommand(state.layers, command);
+        // A new layer becomes the one being drawn on
+        const activeLayerId = command.type === 'addLayer' && command.layer.kind === 'annotation' ? command.layer.id : state.activeLayerId;
+        const merged = state.redoStack.length === 0 ? mergeOpacityUpdate(state.undoStack[state.undoStack.length - 1], command) : null;
+        const undoStack = merged ? [...state.undoStack.slice(0, -1), merged] : [...state.undoStack, command];
+        return {
+            layers,
+            activeLayerId: resolveActiveLayer(layers, activeLayerId),
+            undoStack: undoStack.slice(-MAX_UNDO_STEPS),
+            redoStack: []
+        };
+    }),
+    undo: () => set((state) => {
+        const command = state.undoStack[state.undoStack.length - 1];
+        if (!command) return {};
+        const layers = revertCommand(state.layers, command);
+        return {
+            layers,
+            activeLayerId: resolveActiveLayer(layers, state.activeLayerId),
+            undoStack: state.undoStack.slice(0, -1),
+            redoStack: [...state.redoStack, command]
+        };
+    }),
+    redo: () => set((state) => {
+        const command = state.redoStack[state.redoStack.length - 1];
+        if (!command) return {};
+        const layers = applyCommand(state.layers, command);
+        return {
+            layers,
+            activeLayerId: resolveActiveLayer(layers, state.activeLayerId),
+            undoStack: [...state.undoStack, command],
+            redoStack: state.redoStack.slice(0, -1)
+        };
+    }),
+    setActiveLayer: (activeLayerId) => set({ activeLayerId }),
+
+    // Version Tree
+    versions: [],
+    currentVersionId: null,
+    initVersions: (source) => set({ versions: [source], currentVersionId: source.id }),
+    addVersion: (version) => set((state) => ({ versions: [...state.versions, version] })),
+    setCurrentVersion: (currentVersionId) => set({ currentVersionId }),
+
     // Generation State
     prompt: '',
     attachedImages: [],
@@ -70,11 +183,23 @@ export const useEditorStore = create<EditorState>((set) => ({
     setShowGalleryModal: (showGalleryModal) => set({ showGalleryModal }),
     showExitDialog: false,
     setShowExitDialog: (showExitDialog) => set({ showExitDialog }),
+    // The layers and versions panels share the right side, opening one closes the other
+    showLayersPanel: false,
+    setShowLayersPanel: (showLayersPanel) => set(showLayersPanel ? { showLayersPanel, showVersionsPanel: false } : { showLayersPanel }),
+    showVersionsPanel: false,
+    setShowVersionsPanel: (showVersionsPanel) => set(showVersionsPanel ? { showVersionsPanel, showLayersPanel: false } : { showVersionsPanel }),
 
     resetEditor: () => set({
         activeTool: 'move',
         scale: 1,
         offset: { x: 0, y: 0 },
+        outpaintPadding: null,
+        layers: [],
+        activeLayerId: null,
+        undoStack: [],
+        redoStack: [],
+        versions: [],
+        currentVersionId: null,
         prompt: '',
         attachedImages: [],
         showExitDialog: false
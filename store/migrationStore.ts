@@ -0,0 +1,44 @@
+import { create } from 'zustand';
+import { MigrationOptions, MigrationStatus } from '../types';
+
+// Progress of the running gallery migration. Kept out of the settings form so it
+// survives closing the modal; not persisted, a new run skips files already copied.
+interface MigrationStoreState {
+    status: MigrationStatus;
+    options: MigrationOptions | null;
+    total: number;
+    done: number;
+    skipped: number; // Already present on the target with the same size
+    failed: string[];
+    current: string | null;
+    error: string | null;
+
+    start: (options: MigrationOptions, total: number) => void;
+    setStatus: (status: MigrationStatus, error?: string | null) => void;
+    setCurrent: (name: string | null) => void;
+    completeFile: (skipped: boolean) => void;
+    failFile: (name: string) => void;
+    reset: () => void;
+}
+
+const initialState = {
+    status: 'idle' as MigrationStatus,
+    options: null,
+    total: 0,
+    done: 0,
+    skipped: 0,
+    failed: [],
+    current: null,
+    error: null
+};
+
+export const useMigrationStore = create<MigrationStoreState>()((set) => ({
+    ...initialState,
+
+    start: (options, total) => set({ ...initialState, status: 'running', options, total }),
+    setStatus: (status, error = null) => set({ status, error }),
+    setCurrent: (current) => set({ current }),
+    completeFile: (skipped) => set((state) => ({ done: state.done + 1, skipped: state.skipped + (skipped ? 1 : 0) })),
+    failFile: (name) => set((state) => ({ done: state.done + 1, failed: [...state.failed, name] })),
+    reset: () => set(initialState),
+}));
@@ -0,0 +1,63 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { GenerationJob, TaskProgress } from '../types';
+
+// Finished jobs are kept around for the queue panel, older ones are dropped
+const MAX_FINISHED_JOBS = 50;
+
+const isFinished = (job: GenerationJob) => job.status !== 'queued' && job.status !== 'running';
+
+const pruneJobs = (jobs: GenerationJob[]): GenerationJob[] => {
+    let finished = 0;
+    // Jobs are stored newest first, so the oldest finished ones fall off the end
+    return jobs.filter(job => {
+        if (!isFinished(job)) return true;
+        finished++;
+        return finished <= MAX_FINISHED_JOBS;
+    });
+};
+
+interface QueueState {
+    // --- Persisted ---
+    jobs: GenerationJob[];
+
+    // --- Ephemeral ---
+    activeBatchId: string | null;
+    progress: Record<string, TaskProgress>; // Keyed by job id, or by image id for Live video tasks
+
+    addJob: (job: GenerationJob) => void;
+    updateJob: (id: string, patch: Partial<GenerationJob>) => void;
+    removeJob: (id: string) => void;
+    clearFinished: () => void;
+    setActiveBatchId: (batchId: string | null) => void;
+    setProgress: (id: string, progress: TaskProgress | null) => void;
+}
+
+export const useQueueStore = create<QueueState>()(
+    persist(
+        (set) => ({
+            jobs: [],
+            activeBatchId: null,
+            progress: {},
+
+            addJob: (job) => set((state) => ({ jobs: pruneJobs([job, ...state.jobs]) })),
+            updateJob: (id, patch) => set((state) => ({
+                jobs: pruneJobs(state.jobs.map(job => job.id === id ? { ...job, ...patch } : job))
+            })),
+            removeJob: (id) => set((state) => ({ jobs: state.jobs.filter(job => job.id !== id) })),
+            clearFinished: () => set((state) => ({ jobs: state.jobs.filter(job => !isFinished(job)) })),
+            setActiveBatchId: (activeBatchId) => set({ activeBatchId }),
+            setProgress: (id, progress) => set((state) => {
+                const { [id]: _, ...rest } = state.progress;
+                return { progress: progress ? { ...rest, [id]: progress } : rest };
+            }),
+        }),
+        {
+            name: 'peinture_queue_v1',
+            storage: createJSONStorage(() => localStorage),
+            partialize: (state) => ({
+                jobs: state.jobs
+            }),
+        }
+    )
+);
@@ -0,0 +1,55 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { SyncQueueItem, SyncResult, SyncState } from '../types';
+
+interface SyncStoreState {
+    // --- Persisted ---
+    queue: SyncQueueItem[];
+    lastSyncAt: number | null;
+    lastResult: SyncResult | null;
+
+    // --- Ephemeral ---
+    state: SyncState;
+    lastError: string | null;
+    progress: { done: number; total: number } | null;
+
+    enqueue: (item: SyncQueueItem) => void;
+    dequeue: (name: string, queuedAt: number) => void;
+    clearQueue: () => void;
+    setState: (state: SyncState, lastError?: string | null) => void;
+    setProgress: (progress: { done: number; total: number } | null) => void;
+    finishSync: (result: SyncResult) => void;
+}
+
+export const useSyncStore = create<SyncStoreState>()(
+    persist(
+        (set) => ({
+            queue: [],
+            lastSyncAt: null,
+            lastResult: null,
+            state: 'idle',
+            lastError: null,
+            progress: null,
+
+            // A newer change to the same file replaces the queued one
+            enqueue: (item) => set((state) => ({ queue: [...state.queue.filter(q => q.name !== item.name), item] })),
+            // Only drop the item that was pushed, not a change queued while it was in flight
+            dequeue: (name, queuedAt) => set((state) => ({
+                queue: state.queue.filter(q => q.name !== name || q.queuedAt !== queuedAt)
+            })),
+            clearQueue: () => set({ queue: [] }),
+            setState: (state, lastError = null) => set({ state, lastError }),
+            setProgress: (progress) => set({ progress }),
+            finishSync: (result) => set({ lastSyncAt: Date.now(), lastResult: result, state: 'idle', lastError: null, progress: null }),
+        }),
+        {
+            name: 'peinture_sync_v1',
+            storage: createJSONStorage(() => localStorage),
+            partialize: (state) => ({
+                queue: state.queue,
+                lastSyncAt: state.lastSyncAt,
+                lastResult: state.lastResult
+            }),
+        }
+    )
+);
@@ -20,8 +20,14 @@ export const translations = {
     seed: "Seed",
     seedOptional: "Optional",
     seedPlaceholder: "Random",
+    seedUnsupported: "This model picks its own seed",
     generate: "Generate Image",
     dreaming: "Dreaming...",
+    progress_waiting: "Waiting in queue",
+    progress_queue: "In queue: #{position}",
+    progress_queue_size: "In queue: #{position} of {size}",
+    progress_step: "Step {step}/{total}",
+    progress_eta: "~{seconds}s left",
     galleryEmptyTitle: "Creations Appear Here",
     galleryEmptyDesc: "Describe your vision and watch it come to life using AI.",
     generationFailed: "Generation Failed",
@@ -71,6 +77,12 @@ export const translations = {
     discard: "Discard",
     reset: "Reset",
     promptHistory: "Prompt History",
+    promptHistorySearch: "Search prompts...",
+    promptHistoryUses: "Used {n}x",
+    promptHistoryPin: "Pin",
+    promptHistoryUnpin: "Unpin",
+    promptHistoryRerun: "Re-run with original model and seed",
+    promptHistoryDelete: "Remove",
     historyEmpty: "No history available",
     sourceCode: "Source Code",
     hdEnabled: "High Definition Enabled",
@@ -78,6 +90,39 @@ export const translations = {
     advancedSettings: "Advanced Settings",
     steps: "Steps",
     guidanceScale: "Guidance Scale",
+    negativePrompt: "Negative Prompt",
+    negativePromptPlaceholder: "What to avoid, e.g. blurry, extra fingers",
+    negativePromptUnsupported: "Ignored by this model",
+    style_library: "Style Library",
+    style_add: "Add Style",
+    style_new_name: "New Style",
+    style_name: "Name",
+    style_template: "Template",
+    style_template_help: "{subject} is replaced with the prompt text. Other {variables} are asked for when the style is applied. Templates without {subject} are appended to the prompt.",
+    style_keep_current: "Keep current",
+    style_import: "Import",
+    style_export: "Export",
+    style_imported: "{n} styles imported",
+    style_delete: "Delete Style",
+    style_apply: "Apply",
+    style_empty: "No styles yet. Add them in Settings > Prompt.",
+    batch_count: "Count",
+    batch_pick: "Keep",
+    batch_discard: "Discard All",
+    batch_failed: "{n} failed",
+    batch_hint: "Pick the one to keep. Only that image is saved to history.",
+    queue_title: "Queue",
+    queue_add: "Add to Queue",
+    queue_empty: "No jobs yet",
+    queue_clear: "Clear Finished",
+    queue_cancel: "Cancel",
+    queue_retry: "Retry",
+    queue_remove: "Remove",
+    queue_status_queued: "Queued",
+    queue_status_running: "Running",
+    queue_status_succeeded: "Done",
+    queue_status_failed: "Failed",
+    queue_status_canceled: "Canceled",
     autoTranslate: "Auto Translate",
     translating: "Translating...",
     live: "Live",
@@ -132,6 +177,29 @@ export const translations = {
     test_success: "Connection Successful",
     test_fail: "Connection Failed",
     mixed_content_error: "Security Error: Cannot connect to HTTP WebDAV server from HTTPS website.",
+    sync_title: "Two-way Sync",
+    sync_desc: "Keep the gallery on this device and mirror it to this storage. Works offline, changes are pushed when you are back online.",
+    sync_enable: "Sync local gallery with this storage",
+    sync_now: "Sync now",
+    sync_syncing: "Syncing...",
+    sync_progress: "Syncing {done}/{total}",
+    sync_offline: "Offline",
+    sync_error: "Sync failed",
+    sync_never: "Not synced yet",
+    sync_last: "Synced {time}",
+    sync_pending: "{n} pending",
+    migrate_title: "Migrate Gallery",
+    migrate_desc: "Copy every gallery file and its metadata from one storage to another, using the saved settings. Files already copied are skipped, so an interrupted migration can simply be started again.",
+    migrate_delete_source: "Delete from source after a verified copy",
+    migrate_start: "Start Migration",
+    migrate_pause: "Pause",
+    migrate_resume: "Resume",
+    migrate_retry: "Retry Failed",
+    migrate_done: "Done: {copied} copied, {skipped} already there, {failed} failed.",
+    migrate_failed: "Migration failed",
+    error_migration_same_backend: "Source and target must be different storages.",
+    error_migration_not_configured: "Both storages must be configured and saved first.",
+    error_migration_size_mismatch: "The copied file size does not match the source.",
 
     // Live Settings
     videoPrompt: "Live Prompt",
@@ -141,6 +209,30 @@ export const translations = {
     seconds: "s",
     modelWan2: "Wan 2.2",
     liveNotSupported: "Live Video is not supported for this provider yet.",
+    videoResolution: "Resolution",
+    videoResolutionUnsupported: "Fixed by this model",
+    live_clip_title: "Live Clip",
+    live_clip_generate: "Generate Live",
+    composer_open: "Compose video",
+    composer_title: "Video Composer",
+    composer_mode_keyframes: "First / Last Frame",
+    composer_mode_sequence: "Image Sequence",
+    composer_hint_keyframes: "Pick the start frame, then the end frame.",
+    composer_hint_sequence: "Pick the images in the order they should appear.",
+    composer_start: "Start",
+    composer_end: "End",
+    composer_segments: "{count} clip(s)",
+    composer_empty: "Generate at least two images first.",
+    composer_no_keyframes: "This model animates single images only. Pick Wan 2.1 FLF2V on Gitee AI, or a custom provider whose video model takes keyframes.",
+    composer_cuts: "This model animates single images only, so each image becomes its own clip joined with a cut.",
+    composer_webm: "This browser can only record WebM, so the joined video is saved as .webm.",
+    composer_generate: "Compose",
+    composer_rendering: "Generating clip {index} of {total}",
+    composer_stitching: "Joining clips",
+    error_keyframes_unsupported: "This video model can't take that many keyframes.",
+    error_task_not_found: "The video task was not found, the provider may have dropped it.",
+    error_stitch_unsupported: "This browser can't record video, so the clips can't be joined.",
+    error_stitch_failed: "Joining the clips failed.",
 
     // System Prompts
     systemPrompts: "Prompt Optimization",
@@ -159,6 +251,12 @@ export const translations = {
     
     // Custom Providers
     add_provider: "Add Provider",
+    failover_title: "Failover",
+    failover_enable: "Switch providers when quota runs out",
+    failover_help: "When every token of the selected provider is exhausted, generation retries the same model on the next provider in its chain. Providers without a token are skipped.",
+    failover_no_token: "No token",
+    failover_move_up: "Move up",
+    failover_move_down: "Move down",
     custom_providers: "Custom Providers",
     provider_name: "Provider Name",
     api_url: "API URL",
@@ -181,6 +279,41 @@ export const translations = {
     openSource: "Open Source Code",
     openSourceDesc: "Released under the MIT License. Open source and free forever.",
     clearData: "Clear Data",
+    retention_title: "Local History Retention",
+    retention_desc: "Applied on startup. Leave a field empty for no limit. Pinned images are always kept.",
+    retention_max_age: "Max Age",
+    retention_max_count: "Max Images",
+    retention_max_size: "Max Storage",
+    retention_unit_days: "days",
+    retention_unit_items: "items",
+    retention_no_limit: "No limit",
+    retention_usage: "{n} images · {size} used",
+    retention_expiring: "{n} images will be removed within a day. Pin the ones you want to keep.",
+    pin_keep: "Pin (keep forever)",
+    unpin_keep: "Unpin",
+    backup_title: "Backup & Restore",
+    backup_desc: "Move settings, providers, prompts and local history to another browser as a single zip file.",
+    backup_include_media: "Include local images and videos",
+    backup_passphrase_placeholder: "Passphrase to encrypt tokens (empty = exclude tokens)",
+    backup_passphrase_import_placeholder: "Passphrase (empty = keep current tokens)",
+    backup_export: "Export Backup",
+    backup_import: "Import Backup",
+    backup_exported: "Backup exported with encrypted tokens.",
+    backup_exported_no_tokens: "Backup exported without tokens.",
+    backup_has_media: "includes media",
+    backup_mode_merge: "Merge",
+    backup_mode_overwrite: "Overwrite",
+    backup_mode_merge_desc: "Keep current settings, only add history, providers and styles that are missing.",
+    backup_mode_overwrite_desc: "Replace settings with the backup, backup items win on conflicts.",
+    backup_imported: "Imported {history} images, {providers} providers, {styles} styles and {files} files.",
+    backup_tokens_skipped: "Tokens were not restored.",
+    backup_history_pinned: "{count} restored images are older than the retention policy allows and were pinned.",
+    backup_reload: "Reload to finish",
+    backup_failed: "Backup failed",
+    error_invalid_backup: "This file is not a valid Peinture backup.",
+    error_backup_passphrase: "Wrong passphrase, tokens could not be decrypted.",
+    drop_png_restore: "Drop a PNG to restore its generation settings",
+    error_no_image_parameters: "No generation settings found in this image.",
     clearDataDesc: "Reset all parameters and clear local storage data.",
     clearDataConfirm: "Are you sure you want to clear all data and reset the app? This action cannot be undone.",
 
@@ -194,11 +327,17 @@ export const translations = {
     error_a4f_token_exhausted: "All configured A4F tokens have exhausted their daily quota or are invalid.",
     error_api_connection: "API connection failed. Please check your network or token.",
     error_invalid_response: "Invalid response from the server.",
+    error_protocol_response: "The server's answer to {endpoint} does not follow the protocol ({detail}).",
+    error_protocol_version: "The server speaks protocol version {version}, this app supports up to {supported}. Please update Peinture.",
+    error_job_interrupted: "Interrupted when the page was closed.",
+    error_invalid_style_file: "This file is not a valid style library.",
     error_prompt_optimization_failed: "Failed to optimize prompt. Please try again.",
     error_upscale_failed: "Failed to upscale image.",
     error_translation_failed: "Translation failed. Proceeding with original prompt.",
     error_s3_upload_failed: "Failed to upload to S3. Check your configuration.",
     error_s3_config_missing: "S3 configuration is missing. Please set Access Key and Secret Key.",
+    error_s3_upload_expired: "The interrupted upload expired on the server, please try again.",
+    error_s3_etag_hidden: "Large uploads need the bucket CORS rules to expose the ETag header.",
     error_s3_delete_failed: "Failed to delete file from S3.",
     error_webdav_upload_failed: "Failed to upload to WebDAV.",
     error_webdav_config_missing: "WebDAV configuration missing.",
@@ -245,6 +384,8 @@ export const translations = {
     ar_landscape_4_3: "PC Desktop 4:3",
     ar_portrait_3_2: "DSLR Camera 3:2",
     ar_landscape_2_3: "DSLR Photography 2:3",
+    ar_portrait_4_5: "Portrait 4:5",
+    ar_landscape_5_4: "Large Format 5:4",
     
     // Image Editor
     tool_select: "Select",
@@ -252,19 +393,80 @@ export const translations = {
     tool_brush: "Brush",
     tool_eraser: "Eraser",
     tool_rect: "Rectangle",
+    tool_ellipse: "Ellipse",
+    tool_arrow: "Arrow",
+    tool_lasso: "Lasso",
+    tool_text: "Text Label",
+    tool_brush_settings: "Brush Size & Hardness",
+    tool_size: "Size",
+    tool_hardness: "Hardness",
+    text_label_placeholder: "Type a label, Enter to place",
     tool_undo: "Undo",
     tool_color: "Color",
+    tool_inpaint_off: "Inpaint Mask: Off (strokes are annotations)",
+    tool_inpaint_on: "Inpaint Mask: On (only the painted area changes)",
+    tool_expand: "Expand Canvas",
+    tool_versions: "Versions",
     tool_exit: "Exit Editor",
+    tool_layers: "Layers",
     upload_image_cta: "Upload Image to Edit",
     editor_placeholder: "Describe edits...",
     editor_generate: "Generate",
     re_edit: "Return",
+    add_as_layer: "Add as Layer",
+
+    // Version Tree
+    versions_title: "Versions",
+    version_source: "Original",
+    version_n: "v{n}",
+    version_current: "Current",
+    version_branch: "Continue from this version",
+    version_continue: "Continue Editing from Result",
+    version_compare: "Compare two ticked versions",
+    version_export: "Export {name} with its lineage",
+    version_history_node: "Version to History",
+    version_history_chain: "Chain to History",
+    version_cloud_node: "Version to Gallery",
+    version_cloud_chain: "Chain to Gallery",
+
+    // Canvas Expansion
+    expand_title: "Expand Canvas",
+    expand_by_ratio: "Aspect Ratio",
+    expand_by_margins: "Margins",
+    expand_top: "Top (px)",
+    expand_right: "Right (px)",
+    expand_bottom: "Bottom (px)",
+    expand_left: "Left (px)",
+    expand_new_size: "New size",
+    expand_generate: "Expand",
+    expand_stop: "Stop",
+    expand_accept: "Accept Expansion",
+    outpaint_default_prompt: "Extend the scene beyond its borders.",
+    prompt_outpaint: "The gray border around the image is empty canvas. Fill it so the scene continues seamlessly, matching perspective, lighting and style. Keep the original image area exactly as it is.",
+    prompt_outpaint_mask: "The masked area is new canvas around the original image. Fill it so the scene continues seamlessly, matching perspective, lighting and style.",
+
+    // Editor Layers
+    layers_title: "Layers",
+    layer_base: "Background",
+    layer_annotation: "Layer {n}",
+    layer_result: "Result {n}",
+    layer_add: "New Layer",
+    layer_toggle_visibility: "Show / Hide",
+    layer_opacity: "Opacity",
+    layer_move_up: "Move Up",
+    layer_move_down: "Move Down",
+    layer_delete: "Delete Layer",
+    session_save: "Save Session",
+    session_saved: "Session saved",
+    session_resume: "Resume Last Session",
+    error_session_invalid: "The saved session could not be read",
     
     // New Editor Strings
     upload_ref_image: "Upload Reference Image",
     ref_image_n: "Reference Image {n}",
     prompt_original_image: "The first image is the original image.",
     prompt_edit_layer: "The second image contains the user's editing operations; all modifications are performed on this layer.",
+    prompt_mask_layer: "Image {n} is the original with the area to change painted over. Only change the painted area and keep everything else exactly as in the original image.",
     prompt_ref_image: "Reference Image {n} is the {i} image.",
     menu_replace: "Replace Image",
     menu_center: "Center View",
@@ -290,6 +492,11 @@ export const translations = {
     sc_draw: "Draw",
     sc_rect: "Rectangle",
     sc_eraser: "Eraser",
+    sc_ellipse: "Ellipse",
+    sc_arrow: "Arrow",
+    sc_lasso: "Lasso",
+    sc_text: "Text Label",
+    sc_brush_size: "Brush Size",
     sc_undo: "Undo",
     sc_redo: "Redo",
     sc_color: "Pick Color",
@@ -314,6 +521,25 @@ export const translations = {
     gallery_setup_title: "Configure Cloud Gallery",
     gallery_setup_desc: "Connect your S3 or WebDAV storage to view your generated creations anywhere.",
     gallery_setup_btn: "Configure Storage",
+    gallery_search_placeholder: "Search prompts...",
+    gallery_filters: "Filters",
+    gallery_filter_any: "Any",
+    gallery_filter_media: "Media",
+    gallery_media_image: "Images",
+    gallery_media_video: "Videos",
+    gallery_nsfw_show: "Show",
+    gallery_nsfw_hide: "Hide",
+    gallery_nsfw_only: "Only NSFW",
+    gallery_filter_from: "From",
+    gallery_filter_to: "To",
+    gallery_sort_newest: "Newest",
+    gallery_sort_oldest: "Oldest",
+    gallery_sort_largest: "Largest",
+    gallery_sort_smallest: "Smallest",
+    gallery_results: "{n} of {total}",
+    gallery_clear_filters: "Clear filters",
+    gallery_indexing: "Indexing {done}/{total}",
+    gallery_no_results: "No items match the current filters.",
 
     share_link: "Share Link",
     share_success: "Link copied!",
@@ -341,8 +567,14 @@ export const translations = {
     seed: "种子",
     seedOptional: "可选",
     seedPlaceholder: "随机",
+    seedUnsupported: "当前模型不支持指定种子",
     generate: "生成图片",
     dreaming: "生成中...",
+    progress_waiting: "排队等待中",
+    progress_queue: "排队中：第 {position} 位",
+    progress_queue_size: "排队中：第 {position} 位，共 {size} 位",
+    progress_step: "第 {step}/{total} 步",
+    progress_eta: "预计剩余 {seconds} 秒",
     galleryEmptyTitle: "作品将显示在这里",
     galleryEmptyDesc: "描述您的构想，用 AI 将其变为现实。",
     generationFailed: "生成失败",
@@ -392,6 +624,12 @@ export const translations = {
     discard: "取消更改",
     reset: "重置",
     promptHistory: "历史提示词",
+    promptHistorySearch: "搜索提示词...",
+    promptHistoryUses: "使用 {n} 次",
+    promptHistoryPin: "置顶",
+    promptHistoryUnpin: "取消置顶",
+    promptHistoryRerun: "使用原模型和种子重新生成",
+    promptHistoryDelete: "删除",
     historyEmpty: "暂无历史记录",
     sourceCode: "开源代码",
     hdEnabled: "已启用高清模式",
@@ -399,6 +637,39 @@ export const translations = {
     advancedSettings: "高级参数",
     steps: "步数",
     guidanceScale: "提示词权重",
+    negativePrompt: "反向提示词",
+    negativePromptPlaceholder: "需要避免的内容，例如：模糊、多余的手指",
+    negativePromptUnsupported: "当前模型不支持",
+    style_library: "风格库",
+    style_add: "添加风格",
+    style_new_name: "新风格",
+    style_name: "名称",
+    style_template: "模板",
+    style_template_help: "{subject} 会被替换为提示词内容，其他 {变量} 会在应用风格时填写。不含 {subject} 的模板会追加到提示词末尾。",
+    style_keep_current: "保持当前",
+    style_import: "导入",
+    style_export: "导出",
+    style_imported: "已导入 {n} 个风格",
+    style_delete: "删除风格",
+    style_apply: "应用",
+    style_empty: "暂无风格，可在 设置 > 提示词 中添加。",
+    batch_count: "生成数量",
+    batch_pick: "保留",
+    batch_discard: "全部丢弃",
+    batch_failed: "{n} 张失败",
+    batch_hint: "选择要保留的一张，只有它会保存到历史记录。",
+    queue_title: "队列",
+    queue_add: "加入队列",
+    queue_empty: "暂无任务",
+    queue_clear: "清除已完成",
+    queue_cancel: "取消",
+    queue_retry: "重试",
+    queue_remove: "移除",
+    queue_status_queued: "排队中",
+    queue_status_running: "生成中",
+    queue_status_succeeded: "已完成",
+    queue_status_failed: "失败",
+    queue_status_canceled: "已取消",
     autoTranslate: "自动翻译",
     translating: "翻译中...",
     live: "Live 图",
@@ -453,6 +724,29 @@ export const translations = {
     test_success: "连接成功",
     test_fail: "连接失败",
     mixed_content_error: "安全错误：无法从 HTTPS 网站连接到 HTTP WebDAV 服务器。",
+    sync_title: "双向同步",
+    sync_desc: "图库保存在本设备并镜像到此存储。离线时照常使用，恢复联网后自动推送更改。",
+    sync_enable: "将本地图库与此存储同步",
+    sync_now: "立即同步",
+    sync_syncing: "同步中...",
+    sync_progress: "同步中 {done}/{total}",
+    sync_offline: "离线",
+    sync_error: "同步失败",
+    sync_never: "尚未同步",
+    sync_last: "已同步 {time}",
+    sync_pending: "{n} 项待推送",
+    migrate_title: "迁移图库",
+    migrate_desc: "按已保存的设置，将图库中的所有文件及其元数据从一个存储复制到另一个存储。已复制的文件会被跳过，中断后可直接重新开始。",
+    migrate_delete_source: "校验复制成功后从源存储删除",
+    migrate_start: "开始迁移",
+    migrate_pause: "暂停",
+    migrate_resume: "继续",
+    migrate_retry: "重试失败项",
+    migrate_done: "完成：已复制 {copied} 个，已存在 {skipped} 个，失败 {failed} 个。",
+    migrate_failed: "迁移失败",
+    error_migration_same_backend: "源存储与目标存储不能相同。",
+    error_migration_not_configured: "请先配置并保存两个存储。",
+    error_migration_size_mismatch: "复制后的文件大小与源文件不一致。",
 
     // Live Settings
     videoPrompt: "Live 提示词",
@@ -462,6 +756,30 @@ export const translations = {
     seconds: "秒",
     modelWan2: "Wan 2.1",
     liveNotSupported: "当前服务商暂不支持 Live 图功能。",
+    videoResolution: "分辨率",
+    videoResolutionUnsupported: "当前模型不支持调整",
+    live_clip_title: "Live 片段",
+    live_clip_generate: "生成 Live 图",
+    composer_open: "合成视频",
+    composer_title: "视频合成",
+    composer_mode_keyframes: "首尾帧",
+    composer_mode_sequence: "图片序列",
+    composer_hint_keyframes: "先选首帧，再选尾帧。",
+    composer_hint_sequence: "按出现顺序选择图片。",
+    composer_start: "首",
+    composer_end: "尾",
+    composer_segments: "{count} 段片段",
+    composer_empty: "请先生成至少两张图片。",
+    composer_no_keyframes: "该模型只支持单图生成视频。请选择 Gitee AI 的 Wan 2.1 FLF2V，或视频模型支持关键帧的自定义服务商。",
+    composer_cuts: "该模型只支持单图生成视频，每张图片会生成独立片段并直接拼接。",
+    composer_webm: "当前浏览器只能录制 WebM，拼接后的视频将保存为 .webm 格式。",
+    composer_generate: "合成",
+    composer_rendering: "正在生成第 {index}/{total} 段",
+    composer_stitching: "正在拼接片段",
+    error_keyframes_unsupported: "该视频模型不支持这么多关键帧。",
+    error_task_not_found: "找不到视频任务，服务商可能已将其丢弃。",
+    error_stitch_unsupported: "当前浏览器无法录制视频，无法拼接片段。",
+    error_stitch_failed: "拼接片段失败。",
 
     // System Prompts
     systemPrompts: "提示词优化",
@@ -480,6 +798,12 @@ export const translations = {
 
     // Custom Providers
     add_provider: "新增服务商",
+    failover_title: "故障转移",
+    failover_enable: "额度用尽时切换服务商",
+    failover_help: "当前服务商的所有 Token 都用尽后，将按顺序使用链路中的下一个服务商生成同一模型。未配置 Token 的服务商会被跳过。",
+    failover_no_token: "未配置 Token",
+    failover_move_up: "上移",
+    failover_move_down: "下移",
     custom_providers: "自定义服务商",
     provider_name: "服务商名称",
     api_url: "API 地址",
@@ -502,6 +826,41 @@ export const translations = {
     openSource: "开源代码",
     openSourceDesc: "基于 MIT 协议发布。永久开源免费。",
     clearData: "清除数据",
+    retention_title: "本地历史保留",
+    retention_desc: "启动时生效，留空表示不限制。已固定的图片始终保留。",
+    retention_max_age: "最长保留",
+    retention_max_count: "最多图片",
+    retention_max_size: "最大空间",
+    retention_unit_days: "天",
+    retention_unit_items: "张",
+    retention_no_limit: "不限制",
+    retention_usage: "共 {n} 张图片 · 已用 {size}",
+    retention_expiring: "{n} 张图片将在一天内被移除，请固定需要保留的图片。",
+    pin_keep: "固定（永久保留）",
+    unpin_keep: "取消固定",
+    backup_title: "备份与恢复",
+    backup_desc: "将设置、服务商、提示词和本地历史打包为一个 zip 文件，迁移到其他浏览器。",
+    backup_include_media: "包含本地图片和视频",
+    backup_passphrase_placeholder: "用于加密令牌的口令（留空则不导出令牌）",
+    backup_passphrase_import_placeholder: "口令（留空则保留当前令牌）",
+    backup_export: "导出备份",
+    backup_import: "导入备份",
+    backup_exported: "备份已导出，令牌已加密。",
+    backup_exported_no_tokens: "备份已导出，未包含令牌。",
+    backup_has_media: "包含媒体文件",
+    backup_mode_merge: "合并",
+    backup_mode_overwrite: "覆盖",
+    backup_mode_merge_desc: "保留当前设置，仅添加缺少的历史、服务商和风格。",
+    backup_mode_overwrite_desc: "用备份替换设置，冲突时以备份为准。",
+    backup_imported: "已导入 {history} 张图片、{providers} 个服务商、{styles} 个风格和 {files} 个文件。",
+    backup_tokens_skipped: "令牌未恢复。",
+    backup_history_pinned: "{count} 张恢复的图片超出了保留策略的期限，已被固定。",
+    backup_reload: "重新加载以完成",
+    backup_failed: "备份失败",
+    error_invalid_backup: "该文件不是有效的 Peinture 备份。",
+    error_backup_passphrase: "口令错误，无法解密令牌。",
+    drop_png_restore: "拖入 PNG 图片以恢复其生成参数",
+    error_no_image_parameters: "该图片中未找到生成参数。",
     clearDataDesc: "重置所有参数并清除本地存储数据。",
     clearDataConfirm: "确认要清除所有数据并重置应用吗？此操作无法撤销。",
 
@@ -515,11 +874,17 @@ export const translations = {
     error_a4f_token_exhausted: "所有配置的 A4F 令牌已耗尽今日配额或无效。",
     error_api_connection: "API 连接失败。请检查您的网络或令牌。",
     error_invalid_response: "服务器返回了无效的响应。",
+    error_protocol_response: "服务器对 {endpoint} 的响应不符合协议（{detail}）。",
+    error_protocol_version: "服务器使用协议版本 {version}，本应用最高支持 {supported}。请更新 Peinture。",
+    error_job_interrupted: "页面关闭时任务被中断。",
+    error_invalid_style_file: "该文件不是有效的风格库。",
     error_prompt_optimization_failed: "优化提示词失败，请重试。",
     error_upscale_failed: "图片放大失败。",
     error_translation_failed: "翻译失败，将使用原始提示词继续。",
     error_s3_upload_failed: "S3 上传失败，请检查配置。",
     error_s3_config_missing: "S3 配置缺失。请设置访问密钥 ID 和访问密钥。",
+    error_s3_upload_expired: "中断的上传已在服务器端失效，请重试。",
+    error_s3_etag_hidden: "大文件上传需要在存储桶的 CORS 规则中暴露 ETag 响应头。",
     error_s3_delete_failed: "S3 删除失败。",
     error_webdav_upload_failed: "WebDAV 上传失败。",
     error_webdav_config_missing: "WebDAV 配置缺失。",
@@ -566,6 +931,8 @@ export const translations = {
     ar_landscape_4_3: "电脑桌面 4:3",
     ar_portrait_3_2: "单反摄像 3:2",
     ar_landscape_2_3: "单反摄影 2:3",
+    ar_portrait_4_5: "竖幅 4:5",
+    ar_landscape_5_4: "大画幅 5:4",
 
     // Image Editor
     tool_select: "选择",
@@ -573,19 +940,80 @@ export const translations = {
     tool_brush: "画笔",
     tool_eraser: "橡皮擦",
     tool_rect: "矩形框",
+    tool_ellipse: "椭圆",
+    tool_arrow: "箭头",
+    tool_lasso: "套索",
+    tool_text: "文字标注",
+    tool_brush_settings: "笔刷大小与硬度",
+    tool_size: "大小",
+    tool_hardness: "硬度",
+    text_label_placeholder: "输入标注文字，回车放置",
     tool_undo: "撤销",
     tool_color: "颜色",
+    tool_inpaint_off: "局部重绘蒙版：关（笔画作为标注）",
+    tool_inpaint_on: "局部重绘蒙版：开（只修改涂抹区域）",
+    tool_expand: "扩展画布",
+    tool_versions: "版本",
     tool_exit: "退出编辑",
+    tool_layers: "图层",
     upload_image_cta: "上传图片开始编辑",
     editor_placeholder: "添加未来的城市天际线...",
     editor_generate: "生成",
     re_edit: "返回",
+    add_as_layer: "添加为图层",
+
+    // Version Tree
+    versions_title: "版本",
+    version_source: "原图",
+    version_n: "v{n}",
+    version_current: "当前",
+    version_branch: "从此版本继续编辑",
+    version_continue: "基于结果继续编辑",
+    version_compare: "对比勾选的两个版本",
+    version_export: "导出 {name} 及其来源链",
+    version_history_node: "版本存入历史",
+    version_history_chain: "整条链存入历史",
+    version_cloud_node: "版本上传画廊",
+    version_cloud_chain: "整条链上传画廊",
+
+    // Canvas Expansion
+    expand_title: "扩展画布",
+    expand_by_ratio: "宽高比",
+    expand_by_margins: "边距",
+    expand_top: "上 (px)",
+    expand_right: "右 (px)",
+    expand_bottom: "下 (px)",
+    expand_left: "左 (px)",
+    expand_new_size: "新尺寸",
+    expand_generate: "扩展",
+    expand_stop: "停止",
+    expand_accept: "应用扩展",
+    outpaint_default_prompt: "将画面向边界之外延伸。",
+    prompt_outpaint: "图片四周的灰色边框是空白画布。请填充这些区域，使画面自然延续，透视、光线和风格保持一致。原图区域必须保持不变。",
+    prompt_outpaint_mask: "蒙版区域是原图四周新增的画布。请填充这些区域，使画面自然延续，透视、光线和风格保持一致。",
+
+    // Editor Layers
+    layers_title: "图层",
+    layer_base: "背景",
+    layer_annotation: "图层 {n}",
+    layer_result: "结果 {n}",
+    layer_add: "新建图层",
+    layer_toggle_visibility: "显示 / 隐藏",
+    layer_opacity: "不透明度",
+    layer_move_up: "上移",
+    layer_move_down: "下移",
+    layer_delete: "删除图层",
+    session_save: "保存会话",
+    session_saved: "会话已保存",
+    session_resume: "恢复上次会话",
+    error_session_invalid: "无法读取已保存的会话",
 
     // New Editor Strings
     upload_ref_image: "上传参考图片",
     ref_image_n: "参考图片 {n}",
     prompt_original_image: "第1张图片是原始图片。",
     prompt_edit_layer: "第{n}张图片包含了用户的编辑操作信息，所有的修改都在此图层进行。",
+    prompt_mask_layer: "第{n}张图片是在原图上涂抹出需要修改区域的图片。只修改涂抹区域，其余部分保持与原图完全一致。",
     prompt_ref_image: "参考图片{n}是第{i}图片。",
     menu_replace: "替换图片",
     menu_center: "居中显示",
@@ -611,6 +1039,11 @@ export const translations = {
     sc_draw: "绘制",
     sc_rect: "矩形",
     sc_eraser: "橡皮擦",
+    sc_ellipse: "椭圆",
+    sc_arrow: "箭头",
+    sc_lasso: "套索",
+    sc_text: "文字标注",
+    sc_brush_size: "笔刷大小",
     sc_undo: "撤销",
     sc_redo: "重做",
     sc_color: "颜色",
@@ -635,6 +1068,25 @@ export const translations = {
     gallery_setup_title: "配置云端画廊",
     gallery_setup_desc: "连接您的 S3 或 WebDAV 存储，随时随地查看您的创作。",
     gallery_setup_btn: "配置存储服务",
+    gallery_search_placeholder: "搜索提示词...",
+    gallery_filters: "筛选",
+    gallery_filter_any: "全部",
+    gallery_filter_media: "类型",
+    gallery_media_image: "图片",
+    gallery_media_video: "视频",
+    gallery_nsfw_show: "显示",
+    gallery_nsfw_hide: "隐藏",
+    gallery_nsfw_only: "仅 NSFW",
+    gallery_filter_from: "开始日期",
+    gallery_filter_to: "结束日期",
+    gallery_sort_newest: "最新",
+    gallery_sort_oldest: "最早",
+    gallery_sort_largest: "最大",
+    gallery_sort_smallest: "最小",
+    gallery_results: "{n} / {total}",
+    gallery_clear_filters: "清除筛选",
+    gallery_indexing: "正在索引 {done}/{total}",
+    gallery_no_results: "没有符合当前筛选条件的内容。",
 
     share_link: "分享链接",
     share_success: "链接已复制！",
@@ -9,6 +9,7 @@ export interface GeneratedImage {
     seed?: number;
     steps?: number;
     guidanceScale?: number;
+    negativePrompt?: string; // Only set when the provider actually received it
     duration?: number;
     isBlurred?: boolean;
     isUpscaled?: boolean;
@@ -16,6 +17,8 @@ export interface GeneratedImage {
     height?: number;
     provider?: ProviderOption;
     fileName?: string; // Local filename in OPFS tmp for the image
+    pinned?: boolean; // Never removed by the local retention policy
+    lineage?: EditLineage; // Set on images exported from the editor's version tree
     // Video Generation Properties
     videoUrl?: string;
     videoTaskId?: string;
@@ -24,6 +27,7 @@ export interface GeneratedImage {
     videoProvider?: ProviderOption;
     videoNextPollTime?: number; // Timestamp for next poll attempt
     videoFileName?: string; // Local filename in OPFS tmp for the video
+    videoParams?: VideoClipParams; // What the Live clip was requested with, prefills the next one
 }
 
 export interface CloudImage {
@@ -43,6 +47,75 @@ export interface CloudFile {
     type: 'image' | 'video' | 'unknown';
 }
 
+// --- Gallery Sync ---
+
+export type SyncRemote = 's3' | 'webdav';
+
+// A file as listed on the remote, name is relative to the configured prefix/directory
+export interface RemoteObject {
+    name: string;
+    size: number;
+    etag: string | null;
+    lastModified: number;
+}
+
+// Local gallery change waiting to be pushed, the latest action per name wins
+export interface SyncQueueItem {
+    name: string;
+    action: 'upload' | 'delete';
+    queuedAt: number;
+}
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncResult {
+    uploaded: number;
+    downloaded: number;
+    deleted: number;
+    conflicts: number;
+}
+
+// --- Gallery Migration ---
+
+export type MigrationStatus = 'idle' | 'running' | 'paused' | 'done' | 'error';
+
+export interface MigrationOptions {
+    source: StorageType;
+    target: StorageType;
+    deleteSource: boolean; // Remove each file from the source once its copy is verified
+}
+
+export type UploadProgressHandler = (loaded: number, total: number) => void;
+
+// Cached search data for one cloud file, built from its {id}.metadata.json sidecar
+export interface GalleryIndexEntry {
+    scope: string; // Storage target the entry belongs to
+    key: string;
+    fileId: string;
+    lastModified: number;
+    size: number;
+    type: 'image' | 'video' | 'unknown';
+    nsfw: boolean;
+    hasMetadata: boolean;
+    prompt?: string;
+    model?: string;
+    provider?: string;
+    timestamp?: number;
+}
+
+export type GallerySort = 'newest' | 'oldest' | 'largest' | 'smallest';
+
+export interface GalleryFilters {
+    query: string;
+    model: string; // '' = any
+    provider: string; // '' = any
+    dateFrom: string; // yyyy-mm-dd, '' = open
+    dateTo: string;
+    mediaType: 'all' | 'image' | 'video';
+    nsfw: 'all' | 'hide' | 'only';
+    sort: GallerySort;
+}
+
 export type StorageType = 'off' | 's3' | 'webdav' | 'opfs';
 
 export interface S3Config {
@@ -85,6 +158,12 @@ export interface TokenStatus {
     exhausted: Record<string, boolean>;
 }
 
+// Built-in providers to fall back to, in order, once the selected one runs out of quota
+export interface FailoverSettings {
+    enabled: boolean;
+    chains: Record<string, ProviderId[]>; // Keyed by canonical model id; a missing entry means every provider that serves it
+}
+
 export interface GenerationParams {
     model: ModelOption;
     prompt: string;
@@ -92,6 +171,32 @@ export interface GenerationParams {
     seed?: number;
     steps?: number;
     guidanceScale?: number;
+    negativePrompt?: string;
+    sourcePrompt?: string; // What the user typed, when auto-translate rewrote the prompt
+}
+
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'canceled';
+
+export interface GenerationJob {
+    id: string;
+    provider: ProviderOption;
+    params: GenerationParams;
+    status: GenerationJobStatus;
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+    error?: string; // Translation key or raw message
+    resultId?: string; // GeneratedImage.id on success
+    batchId?: string; // Set when the job belongs to a contact-sheet batch
+}
+
+// What a custom provider model accepts, from protocol version 1. Omitted fields mean no restriction.
+export interface ModelCapabilities {
+  aspectRatios?: AspectRatioOption[];
+  negativePrompt?: boolean;
+  seed?: boolean;
+  maxBatchSize?: number; // Most generations of this model the app may queue at once
+  maxKeyframes?: number; // Video models: images one clip can pass through, 1 = image-to-video only
 }
 
 export interface RemoteModel {
@@ -106,6 +211,7 @@ export interface RemoteModel {
     range: [number, number];
     default: number;
   };
+  capabilities?: ModelCapabilities;
 }
 
 export interface RemoteModelList {
@@ -134,8 +240,277 @@ export interface VideoSettings {
   guidance: number;
 }
 
+export type VideoResolution = 480 | 720; // Short side in pixels
+
+// Chosen per Live clip. Steps and guidance stay per provider in VideoSettings.
+export interface VideoClipParams {
+  prompt: string; // Motion prompt
+  negativePrompt: string;
+  seed: number;
+  duration: number; // in seconds
+  resolution: VideoResolution;
+  steps?: number; // Per-request overrides, the provider's video settings when unset
+  guidance?: number;
+}
+
+// Limits applied to the local (OPFS tmp) history on startup, null means unlimited
+export interface RetentionPolicy {
+    maxAgeDays: number | null;
+    maxCount: number | null;
+    maxBytes: number | null;
+}
+
+// Generation settings carried inside a PNG "parameters" text chunk
+export interface ImageParameters {
+    prompt: string;
+    negativePrompt?: string;
+    model?: string;
+    provider?: string;
+    aspectRatio?: string;
+    seed?: number;
+    steps?: number;
+    guidanceScale?: number;
+    width?: number;
+    height?: number;
+}
+
+// --- Backup ---
+
+// 'merge' keeps current settings and only adds what is missing, 'overwrite' lets the backup win
+export type BackupImportMode = 'merge' | 'overwrite';
+
+export interface BackupManifest {
+    format: 'peinture-backup';
+    version: number;
+    createdAt: number;
+    secrets: 'encrypted' | 'excluded';
+    media: boolean;
+}
+
+export interface BackupImportSummary {
+    historyAdded: number;
+    historyPinned: number; // Restored images pinned so the retention policy doesn't purge them
+    providersAdded: number;
+    stylesAdded: number;
+    filesRestored: number;
+    secretsRestored: boolean;
+}
+
+export interface PromptStyle {
+    id: string;
+    name: string;
+    template: string; // May contain {variables}, {subject} is filled from the prompt box
+    model?: string; // provider:modelId
+    aspectRatio?: AspectRatioOption;
+    steps?: number;
+    guidanceScale?: number;
+}
+
+// Parameters of one generation a prompt produced, enough to re-run it
+export interface PromptRun {
+    imageId: string;
+    provider: ProviderOption;
+    model: string;
+    aspectRatio: string;
+    seed?: number;
+    steps?: number;
+    guidanceScale?: number;
+    negativePrompt?: string;
+    sentPrompt?: string; // Prompt the model received, when it differs from the entry text
+    timestamp: number;
+}
+
+export interface PromptHistoryEntry {
+    text: string; // Trimmed prompt, also the IndexedDB key
+    createdAt: number;
+    lastUsedAt: number;
+    useCount: number;
+    pinned: boolean;
+    runs: PromptRun[]; // Newest first
+}
+
+// --- Editor Document ---
+
+export type EditorLayerKind = 'base' | 'annotation' | 'result';
+
+// Strokes are kept as vectors in image pixels, so undo and sessions never store bitmaps of them
+export type EditorShape =
+    | { type: 'path'; tool: 'brush' | 'eraser'; color: string; width: number; hardness?: number; points: number[] } // x0, y0, x1, y1...
+    | { type: 'rect'; color: string; width: number; x: number; y: number; w: number; h: number; filled: boolean }
+    | { type: 'ellipse'; color: string; width: number; x: number; y: number; w: number; h: number; filled: boolean } // Bounding box
+    | { type: 'arrow'; color: string; width: number; x1: number; y1: number; x2: number; y2: number }
+    | { type: 'lasso'; color: string; width: number; points: number[]; filled: boolean } // Closed polygon
+    | { type: 'text'; color: string; size: number; x: number; y: number; text: string };
+
+export interface EditorLayer {
+    id: string;
+    kind: EditorLayerKind;
+    name: string;
+    visible: boolean;
+    opacity: number; // 0-1
+    shapes: EditorShape[]; // Annotation layers only
+    src?: string; // Base and result layers: URL of the bitmap
+}
+
+// Undoable edits. Each carries what is needed to revert it.
+export type EditorCommand =
+    | { type: 'addShape'; layerId: string; shape: EditorShape }
+    | { type: 'addLayer'; layer: EditorLayer; index: number }
+    | { type: 'removeLayer'; layer: EditorLayer; index: number }
+    | { type: 'updateLayer'; layerId: string; before: Partial<EditorLayer>; after: Partial<EditorLayer> }
+    | { type: 'moveLayer'; from: number; to: number };
+
+// One node of the editor's version tree. The source image is the root, every edit result a child
+// of the version it was made from, so edits made after going back to an earlier version branch off.
+export interface EditVersion {
+    id: string;
+    parentId: string | null;
+    kind: 'source' | 'edit' | 'expand';
+    url: string;
+    fileName?: string; // Cached copy in the OPFS tmp dir
+    prompt: string;
+    referenceImages: string[];
+    seed?: number;
+    provider?: ProviderOption;
+    model?: string;
+    timestamp: number;
+}
+
+// Where an exported edit came from, written to history items and gallery metadata
+export interface EditLineage {
+    versionId: string;
+    parentId: string | null;
+    chain: string[]; // Version ids from the source image down to this one
+    prompts: string[]; // Prompt of each step in chain, empty for the source
+}
+
+// Pixels added on each side when expanding the canvas for outpainting
+export interface OutpaintPadding {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+// What an editing session saved to OPFS holds, bitmaps are stored as separate files by layer id
+export interface EditorSession {
+    version: number;
+    savedAt: number;
+    width: number;
+    height: number;
+    layers: EditorLayer[]; // src omitted
+    activeLayerId: string | null;
+    prompt: string;
+    inpaintMode: boolean;
+}
+
 export interface UnifiedModelOption {
     label: string;
     value: string; // provider:modelId
     provider: ProviderOption;
-}
\ No newline at end of file
+}
+// --- Provider Registry ---
+
+export type ProviderCapability = 'generate' | 'edit' | 'video' | 'text' | 'upscaler';
+
+export interface ProviderModelOption {
+    value: string;
+    label: string;
+}
+
+export interface StepsConfig {
+    min: number;
+    max: number;
+    default: number;
+}
+
+export interface GuidanceScaleConfig {
+    min: number;
+    max: number;
+    step: number;
+    default: number;
+}
+
+// Live feedback from a running task. Services fill in whatever their backend reports.
+export interface TaskProgress {
+    stage: 'queued' | 'running';
+    queuePosition?: number; // 0 = next in line
+    queueSize?: number;
+    etaAt?: number; // Estimated finish time (ms timestamp)
+    step?: number;
+    totalSteps?: number;
+    previewUrl?: string; // Intermediate result, where the backend streams one
+}
+
+export type ProgressHandler = (progress: TaskProgress) => void;
+
+export interface GenerateRequest {
+    model: ModelOption;
+    prompt: string;
+    aspectRatio: AspectRatioOption;
+    seed?: number;
+    steps?: number;
+    guidanceScale?: number;
+    negativePrompt?: string;
+    enableHD?: boolean;
+    signal?: AbortSignal;
+    onProgress?: ProgressHandler;
+}
+
+export interface EditRequest {
+    model: string;
+    imageBlobs: Blob[];
+    prompt: string;
+    width: number;
+    height: number;
+    mask?: Blob; // Inpainting mask, white = repaint. Only sent to models with supportsMask.
+    signal?: AbortSignal;
+    onProgress?: ProgressHandler;
+}
+
+export interface VideoRequest {
+    model: string;
+    image: string | Blob; // Blob or opfs:// url prepared by the caller
+    imageUrl: string; // Original image url, for providers that fetch it themselves
+    width: number;
+    height: number;
+    clip: VideoClipParams;
+    keyframes?: string[]; // Urls the clip moves through after the first image, up to getMaxKeyframes - 1
+    onProgress?: ProgressHandler; // For providers that render the video within the request
+}
+
+export interface VideoTaskResult {
+    url?: string; // Set when the provider returns the video synchronously
+    taskId?: string; // Set when the video must be polled via getTaskStatus
+    predict?: number; // Estimated seconds until the task is worth polling
+}
+
+export interface VideoTaskStatus {
+    status: string;
+    videoUrl?: string;
+    error?: string;
+    progress?: TaskProgress; // While still running
+}
+
+export interface ImageProvider {
+    id: ProviderOption;
+    name: string;
+    requiresToken: boolean; // Built-in providers hidden until the user adds a token
+    maxConcurrency: number; // Parallel generate requests allowed for batch runs
+    models: Partial<Record<ProviderCapability, ProviderModelOption[]>>;
+    getStepsConfig: (model: string) => StepsConfig | null;
+    getGuidanceScaleConfig: (model: string) => GuidanceScaleConfig | null;
+    supportsNegativePrompt: (model: string) => boolean;
+    supportsMask?: (model: string) => boolean; // Edit model takes a separate inpainting mask
+    supportsVideoResolution?: (model: string) => boolean; // Otherwise the video model picks its own size
+    getMaxKeyframes?: (model: string) => number; // Video model interpolates between that many images
+    getAspectRatios?: (model: string) => AspectRatioOption[] | null; // null when every ratio works
+    supportsSeed?: (model: string) => boolean;
+    getMaxBatchSize?: (model: string) => number | null;
+    generate?: (request: GenerateRequest) => Promise<GeneratedImage>;
+    edit?: (request: EditRequest) => Promise<GeneratedImage>;
+    createVideo?: (request: VideoRequest) => Promise<VideoTaskResult>;
+    getTaskStatus?: (taskId: string) => Promise<VideoTaskStatus>;
+    optimizePrompt?: (prompt: string, model: string) => Promise<string>;
+    upscale?: (url: string, model: string) => Promise<{ url: string }>;
+}
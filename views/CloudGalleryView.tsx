@@ -1,12 +1,17 @@
 import React, { useEffect, useState, useRef, useMemo } from 'react';
-import { CloudFile } from '../types';
+import { CloudFile, GalleryFilters, GalleryIndexEntry } from '../types';
 import { CloudUpload, Image as ImageIcon, Loader2, Download, Trash2, Copy, Eye, EyeOff, X, Check, Settings } from 'lucide-react';
-import { isStorageConfigured, listCloudFiles, deleteCloudFile, getStorageType, fetchCloudBlob, renameCloudFile, getFileId, getS3Config } from '../services/storageService';
+import { isStorageConfigured, listCloudFiles, deleteCloudFile, getStorageType, fetchCloudBlob, renameCloudFile, getS3Config, getPresignedS3Url, getSyncRemote } from '../services/storageService';
+import { refreshGalleryIndex, createBaseEntry, getMetadataUrl, filterGalleryEntries, sortGalleryEntries, getGalleryFacets } from '../services/galleryIndexService';
 import { downloadImage, generateUUID } from '../services/utils';
 import { Tooltip } from '../components/Tooltip';
+import { GalleryFilterBar } from '../components/GalleryFilterBar';
+import { SyncStatusBadge } from '../components/SyncStatusBadge';
 import { TransformWrapper, TransformComponent } from 'react-zoom-pan-pinch';
 import { useAppStore } from '../store/appStore';
+import { useSyncStore } from '../store/syncStore';
 import { translations } from '../translations';
+import { DEFAULT_GALLERY_FILTERS } from '../constants';
 
 interface CloudGalleryViewProps {
     handleUploadToS3: (blob: Blob, fileName: string, metadata?: any) => Promise<void>;
@@ -14,7 +19,7 @@ interface CloudGalleryViewProps {
 }
 
 export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUploadToS3, onOpenSettings }) => {
-    const { language } = useAppStore();
+    const { language, uploadProgress } = useAppStore();
     const t = translations[language];
 
     const [files, setFiles] = useState<CloudFile[]>([]);
@@ -27,6 +32,11 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
     const [copyPromptErrorId, setCopyPromptErrorId] = useState<string | null>(null);
     const [isConfigured, setIsConfigured] = useState(false);
     const [localUrls, setLocalUrls] = useState<Record<string, string>>({});
+
+    // Search Index
+    const [indexEntries, setIndexEntries] = useState<Record<string, GalleryIndexEntry>>({});
+    const [indexProgress, setIndexProgress] = useState<{ done: number; total: number } | null>(null);
+    const [filters, setFilters] = useState<GalleryFilters>(DEFAULT_GALLERY_FILTERS);
     
     // Fullscreen View
     const [fullscreenImage, setFullscreenImage] = useState<CloudFile | null>(null);
@@ -35,6 +45,15 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
     const [displayLimit, setDisplayLimit] = useState(30);
     const observerTarget = useRef<HTMLDivElement>(null);
 
+    // Files not indexed yet are matched on what the listing alone tells us
+    const galleryEntries = useMemo(() => files.map(f => indexEntries[f.key] || createBaseEntry(f)), [files, indexEntries]);
+    const facets = useMemo(() => getGalleryFacets(galleryEntries), [galleryEntries]);
+    const filteredFiles = useMemo(() => {
+        const byKey = new Map(files.map(f => [f.key, f]));
+        return sortGalleryEntries(filterGalleryEntries(galleryEntries, filters), filters.sort).map(e => byKey.get(e.key)!);
+    }, [files, galleryEntries, filters]);
+    const visibleFiles = useMemo(() => filteredFiles.slice(0, displayLimit), [filteredFiles, displayLimit]);
+
     const loadFiles = async () => {
         setLoading(true);
         if (!isStorageConfigured()) {
@@ -51,6 +70,18 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
         
         setFiles(sorted);
         setLoading(false);
+        indexFiles(sorted);
+    };
+
+    const indexFiles = async (cloudFiles: CloudFile[]) => {
+        try {
+            const entries = await refreshGalleryIndex(cloudFiles, (done, total) => setIndexProgress({ done, total }));
+            setIndexEntries(Object.fromEntries(entries.map(e => [e.key, e])));
+        } catch (e) {
+            console.error("Failed to index cloud gallery", e);
+        } finally {
+            setIndexProgress(null);
+        }
     };
 
     useEffect(() => {
@@ -62,6 +93,14 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
         return () => window.removeEventListener('storage', handleStorageChange);
     }, []);
 
+    // Reload once a sync brought in or removed files
+    useEffect(() => {
+        return useSyncStore.subscribe((state, prev) => {
+            if (state.lastSyncAt === prev.lastSyncAt || !state.lastResult) return;
+            if (state.lastResult.downloaded > 0 || state.lastResult.deleted > 0) loadFiles();
+        });
+    }, []);
+
     // Sequential Loading Effect for WebDAV, Private S3, or OPFS
     useEffect(() => {
         const type = getStorageType();
@@ -73,9 +112,20 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
         
         let isCancelled = false;
 
+        // Private buckets get presigned links, the browser then loads them lazily like public files
+        const presignImages = async () => {
+            const pending = filteredFiles.filter(file => !localUrls[file.key]);
+            try {
+                const signed = await Promise.all(pending.map(async file => [file.key, await getPresignedS3Url(file.url)]));
+                if (!isCancelled) setLocalUrls(prev => ({ ...prev, ...Object.fromEntries(signed) }));
+            } catch (e) {
+                console.error("Failed to presign cloud images", e);
+            }
+        };
+
         const loadImagesSequentially = async () => {
             // Fix line 104: Explicitly type the files array to ensure iterator is correctly inferred and avoid 'unknown' errors
-            const filesToLoad: CloudFile[] = files;
+            const filesToLoad: CloudFile[] = filteredFiles;
             for (const file of filesToLoad) {
                 if (isCancelled) break;
                 if (localUrls[file.key]) continue;
@@ -92,12 +142,13 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
             }
         };
 
-        if (files.length > 0) {
-            loadImagesSequentially();
+        if (filteredFiles.length > 0) {
+            if (isS3Private) presignImages();
+            else loadImagesSequentially();
         }
 
         return () => { isCancelled = true; };
-    }, [files]);
+    }, [filteredFiles]);
 
     // Cleanup ObjectURLs on unmount
     useEffect(() => {
@@ -111,7 +162,7 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
         const observer = new IntersectionObserver(
             entries => {
                 if (entries[0].isIntersecting) {
-                    setDisplayLimit(prev => Math.min(prev + 30, files.length));
+                    setDisplayLimit(prev => Math.min(prev + 30, filteredFiles.length));
                 }
             },
             { threshold: 0.1, rootMargin: '200px' }
@@ -122,7 +173,12 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
         }
 
         return () => observer.disconnect();
-    }, [files.length]);
+    }, [filteredFiles.length]);
+
+    // Start from the top whenever the result set changes
+    useEffect(() => {
+        setDisplayLimit(30);
+    }, [filters]);
 
     const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
@@ -184,6 +240,11 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
             await deleteCloudFile(fileKey);
             // Remove from local state
             setFiles(prev => prev.filter(f => f.key !== fileKey));
+            setIndexEntries(prev => {
+                const next = { ...prev };
+                delete next[fileKey];
+                return next;
+            });
             setLocalUrls(prev => {
                 const next = { ...prev };
                 if (next[fileKey]) {
@@ -223,18 +284,18 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
     const handleCopyPrompt = async (file: CloudFile) => {
         if (copyingPromptId || copyPromptErrorId === file.key) return;
 
-        const id = getFileId(file.key);
-        const baseUrl = file.url.substring(0, file.url.lastIndexOf('/') + 1);
-        const metaUrl = `${baseUrl}${id}.metadata.json`;
-
         setCopyingPromptId(file.key);
 
         try {
-            const blob = await fetchCloudBlob(metaUrl);
-            const text = await blob.text();
-            const json = JSON.parse(text);
-            if (json && json.prompt) {
-                await navigator.clipboard.writeText(json.prompt);
+            // The index already holds the prompt for most files, saving a request
+            let prompt = indexEntries[file.key]?.prompt;
+            if (!prompt) {
+                const blob = await fetchCloudBlob(getMetadataUrl(file));
+                const json = JSON.parse(await blob.text());
+                prompt = json?.prompt;
+            }
+            if (prompt) {
+                await navigator.clipboard.writeText(prompt);
                 setCopiedPromptId(file.key);
                 setTimeout(() => setCopiedPromptId(null), 2000);
             } else {
@@ -286,6 +347,15 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
                 }
                 return next;
             });
+
+            setIndexEntries(prev => {
+                const next = { ...prev };
+                if (next[file.key]) {
+                    next[newKey] = { ...next[file.key], key: newKey, nsfw: !isNSFW };
+                    delete next[file.key];
+                }
+                return next;
+            });
         } catch (e: any) {
             console.error("Failed to toggle NSFW status", e);
         } finally {
@@ -293,7 +363,6 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
         }
     };
 
-    const visibleFiles = useMemo(() => files.slice(0, displayLimit), [files, displayLimit]);
     const type = getStorageType();
     const useProxyLoading = type === 'webdav' || type === 'opfs' || (type === 's3' && !getS3Config().publicDomain);
 
@@ -307,7 +376,8 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
                     <p className="text-white/60 mt-1 text-xs md:text-base truncate">{t.gallery_subtitle}</p>
                 </div>
                 
-                <div className="flex-shrink-0">
+                <div className="flex-shrink-0 flex items-center gap-3">
+                    {isConfigured && getSyncRemote() && <SyncStatusBadge className="hidden sm:flex" />}
                     {isConfigured ? (
                         <label className={`
                             flex items-center justify-center gap-2 px-4 md:px-6 py-2 md:py-2.5 
@@ -328,7 +398,7 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
                             ) : (
                                 <CloudUpload className="w-4 h-4 md:w-5 md:h-5" />
                             )}
-                            <span className="hidden md:inline">{uploading ? t.uploading : t.upload_media}</span>
+                            <span className="hidden md:inline">{uploading ? (uploadProgress != null ? `${t.uploading} ${Math.round(uploadProgress * 100)}%` : t.uploading) : t.upload_media}</span>
                             <span className="md:hidden">{uploading ? '' : t.upload}</span>
                         </label>
                     ) : (
@@ -368,6 +438,22 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
                  </div>
              ) : (
                  <div className="w-full">
+                     <GalleryFilterBar
+                         filters={filters}
+                         onChange={setFilters}
+                         models={facets.models}
+                         providers={facets.providers}
+                         resultCount={filteredFiles.length}
+                         totalCount={files.length}
+                         indexProgress={indexProgress}
+                     />
+
+                     {filteredFiles.length === 0 && (
+                         <div className="flex flex-col items-center justify-center text-white/30 py-20">
+                             <p className="text-sm">{t.gallery_no_results}</p>
+                         </div>
+                     )}
+
                      <div className="columns-2 md:columns-3 lg:columns-4 xl:columns-5 gap-2">
                          {visibleFiles.map((file) => {
                              const displayUrl = (useProxyLoading && localUrls[file.key]) ? localUrls[file.key] : (!useProxyLoading ? file.url : '');
@@ -469,7 +555,7 @@ export const CloudGalleryView: React.FC<CloudGalleryViewProps> = ({ handleUpload
                      </div>
                      
                      <div ref={observerTarget} className="h-20 w-full flex items-center justify-center mt-4">
-                         {visibleFiles.length < files.length && (
+                         {visibleFiles.length < filteredFiles.length && (
                              <div className="flex flex-col items-center gap-2 text-white/30">
                                  <Loader2 className="w-6 h-6 animate-spin" />
                              </div>
@@ -1,5 +1,5 @@
 
-import React, { useState, useRef, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
     Sparkles, 
     Loader2, 
@@ -10,77 +10,62 @@ import { ControlPanel } from '../components/ControlPanel';
 import { PreviewStage } from '../components/PreviewStage';
 import { ImageToolbar } from '../components/ImageToolbar';
 import { HistoryGallery } from '../components/HistoryGallery';
+import { LiveClipDialog } from '../components/LiveClipDialog';
+import { VideoComposerModal } from '../components/VideoComposerModal';
 import { Tooltip } from '../components/Tooltip';
 import { useAppStore } from '../store/appStore';
+import { useQueueStore } from '../store/queueStore';
 import { translations } from '../translations';
-import { GeneratedImage, ModelOption, ProviderOption } from '../types';
+import { AspectRatioOption, GeneratedImage, GenerationParams, ImageParameters, ModelOption, VideoClipParams } from '../types';
+import { DEFAULT_VIDEO_NEGATIVE_PROMPT } from '../constants';
 import { useCloudUpload } from '../hooks/useCloudUpload';
+import { enqueueGeneration, cancelBatch } from '../services/jobQueue';
+import { recordPromptUse, recordPromptRun } from '../services/promptHistoryService';
+import { readImageParameters } from '../services/pngMetadata';
 import { 
-    generateGiteeImage, 
-    optimizePromptGitee, 
-    createVideoTask 
-} from '../services/giteeService';
-import { 
-    generateMSImage, 
-    optimizePromptMS 
-} from '../services/msService';
-import { 
-    generateImage, 
-    upscaler, 
-    createVideoTaskHF, 
-    optimizePrompt as optimizePromptHF
-} from '../services/hfService';
-import { 
-    generateA4FImage, 
-    optimizePromptA4F 
-} from '../services/a4fService';
-import { 
-    generateCustomImage, 
-    generateCustomVideo, 
-    optimizePromptCustom, 
-    getCustomTaskStatus, 
-    upscaleImageCustom 
-} from '../services/customService';
+    getProvider,
+    getAvailableProviders,
+    hasCapability,
+    getGuidanceConfig,
+    getStepsConfig,
+    getSupportedAspectRatios,
+    supportsNegativePrompt,
+    supportsSeed,
+    getMaxBatchSize,
+    optimizePromptWithProvider,
+    upscaleWithProvider,
+    createVideoWithProvider,
+    supportsVideoResolution
+} from '../services/providerRegistry';
 import { 
     translatePrompt, 
-    generateUUID, 
     getLiveModelConfig, 
+    getVideoSettings,
     getTextModelConfig, 
     getUpscalerModelConfig, 
-    getCustomProviders, 
-    getVideoSettings, 
-    getServiceMode, 
     fetchBlob, 
     downloadImage,
-    getExtensionFromUrl
+    getExtensionFromUrl,
+    generateUUID
 } from '../services/utils';
 import { 
     saveTempFileToOPFS, 
     deleteTempFileFromOPFS, 
     renameTempFileFromOPFS 
 } from '../services/storageService';
-import { 
-    HF_MODEL_OPTIONS, 
-    GITEE_MODEL_OPTIONS, 
-    MS_MODEL_OPTIONS, 
-    A4F_MODEL_OPTIONS, 
-    FLUX_MODELS, 
-    getModelConfig,
-    getGuidanceScaleConfig,
-    LIVE_MODELS
-} from '../constants';
 
 export const CreationView: React.FC = () => {
     const { 
         language,
         provider, model, setModel,
         prompt, setPrompt,
-        aspectRatio, seed, steps, setSteps, guidanceScale, setGuidanceScale,
+        aspectRatio, seed, setSeed, steps, setSteps, guidanceScale, setGuidanceScale, applyModelPreset,
+        negativePrompt, setNegativePrompt,
         autoTranslate, setAutoTranslate,
         history, setHistory,
         cloudHistory,
         currentImage, setCurrentImage,
-        isLoading, setIsLoading,
+        batchCount, batchResults, setBatchResults,
         isTranslating, setIsTranslating,
         isOptimizing, setIsOptimizing,
         isUpscaling, setIsUpscaling,
@@ -90,17 +75,28 @@ export const CreationView: React.FC = () => {
         error, setError,
         imageDimensions, setImageDimensions
     } = useAppStore();
+    const { jobs, activeBatchId, setActiveBatchId, progress, setProgress } = useQueueStore();
 
     const t = translations[language];
-    const { handleUploadToCloud, isUploading, uploadError } = useCloudUpload();
+    const { handleUploadToCloud, isUploading, uploadProgress, uploadError } = useCloudUpload();
 
     // Local UI State
-    const [elapsedTime, setElapsedTime] = useState<number>(0);
-    const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+    const [now, setNow] = useState<number>(Date.now());
     const [isComparing, setIsComparing] = useState<boolean>(false);
     const [tempUpscaledImage, setTempUpscaledImage] = useState<string | null>(null);
     const [showInfo, setShowInfo] = useState<boolean>(false);
     const [copiedPrompt, setCopiedPrompt] = useState<boolean>(false);
+    const [isDraggingFile, setIsDraggingFile] = useState<boolean>(false);
+    // Live model and clip settings awaiting confirmation in the clip dialog
+    const [showComposer, setShowComposer] = useState<boolean>(false);
+    const [liveClip, setLiveClip] = useState<{ provider: string, model: string, initial: VideoClipParams, defaults: VideoClipParams } | null>(null);
+
+    // Jobs run in services/jobQueue.ts, this view only reflects their state
+    const singleJobs = useMemo(() => jobs.filter(job => !job.batchId && (job.status === 'queued' || job.status === 'running')), [jobs]);
+    const batchJobs = useMemo(() => activeBatchId ? jobs.filter(job => job.batchId === activeBatchId) : [], [jobs, activeBatchId]);
+    const batchPending = batchJobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+    const batchFailed = batchJobs.filter(job => job.status === 'failed').length;
+    const isGenerating = singleJobs.length > 0;
 
     // Sync upload error
     useEffect(() => {
@@ -109,81 +105,35 @@ export const CreationView: React.FC = () => {
 
     // Timer Logic
     useEffect(() => {
-        return () => {
-            if (timerRef.current) clearInterval(timerRef.current);
-        };
-    }, []);
-
-    const startTimer = () => {
-        setElapsedTime(0);
-        const startTime = Date.now();
-        timerRef.current = setInterval(() => {
-            setElapsedTime((Date.now() - startTime) / 1000);
-        }, 100);
-        return startTime;
-    };
-
-    const stopTimer = () => {
-        if (timerRef.current) clearInterval(timerRef.current);
-    };
+        if (!isGenerating) return;
+        const timer = setInterval(() => setNow(Date.now()), 100);
+        return () => clearInterval(timer);
+    }, [isGenerating]);
+
+    // Elapsed time of the oldest running job, queued jobs have not started yet
+    const runningStartedAt = singleJobs.reduce<number | undefined>((earliest, job) => 
+        job.startedAt && (earliest === undefined || job.startedAt < earliest) ? job.startedAt : earliest, undefined);
+    const elapsedTime = runningStartedAt ? Math.max(0, (now - runningStartedAt) / 1000) : 0;
+    const runningJob = singleJobs.find(job => job.startedAt === runningStartedAt);
+    const runningProgress = runningJob ? progress[runningJob.id] : undefined;
 
     // Helpers
-    const addToPromptHistory = (text: string) => {
-        const trimmed = text.trim();
-        if (!trimmed) return;
-        
-        let currentHistory: string[] = [];
-        try {
-            const saved = sessionStorage.getItem('prompt_history');
-            currentHistory = saved ? JSON.parse(saved) : [];
-        } catch (e) {}
-
-        const filtered = currentHistory.filter(p => p !== trimmed);
-        const newHistory = [trimmed, ...filtered].slice(0, 50);
-
-        sessionStorage.setItem('prompt_history', JSON.stringify(newHistory));
-    };
-
-    const convertBlobToPng = (blob: Blob): Promise<Blob> => {
-        return new Promise((resolve, reject) => {
-            const img = new Image();
-            const url = URL.createObjectURL(blob);
-            img.onload = () => {
-                const canvas = document.createElement('canvas');
-                canvas.width = img.width;
-                canvas.height = img.height;
-                const ctx = canvas.getContext('2d');
-                if (!ctx) {
-                    URL.revokeObjectURL(url);
-                    reject(new Error('Canvas context not available'));
-                    return;
-                }
-                ctx.drawImage(img, 0, 0);
-                canvas.toBlob((pngBlob) => {
-                    URL.revokeObjectURL(url);
-                    if (pngBlob) resolve(pngBlob);
-                    else reject(new Error('PNG conversion failed'));
-                }, 'image/png');
-            };
-            img.onerror = () => {
-                URL.revokeObjectURL(url);
-                reject(new Error('Image load failed during conversion'));
-            };
-            img.src = url;
+    const discardBatch = () => {
+        if (activeBatchId) cancelBatch(activeBatchId);
+        setActiveBatchId(null);
+        useAppStore.getState().batchResults.forEach(img => {
+            if (img.url.startsWith('blob:')) URL.revokeObjectURL(img.url);
         });
+        setBatchResults([]);
     };
 
     // Handlers
     const handleGenerate = async () => {
         if (!prompt.trim()) return;
-        addToPromptHistory(prompt);
-        setIsLoading(true);
         setError(null);
         setShowInfo(false); 
-        setImageDimensions(null);
         setIsComparing(false);
         setTempUpscaledImage(null);
-        setIsLiveMode(false);
         
         let finalPrompt = prompt;
         if (autoTranslate) {
@@ -198,102 +148,85 @@ export const CreationView: React.FC = () => {
             }
         }
 
-        const startTime = startTimer();
+        // The history keeps what the user typed, the translation only goes into the run details
+        recordPromptUse(prompt).catch(e => console.warn("Failed to record prompt history", e));
+
+        // Models that ignore the seed get none, so history does not record one that had no effect
+        const seedNumber = seed.trim() === '' || !supportsSeed(provider, model) ? undefined : parseInt(seed, 10);
+        const gsConfig = getGuidanceConfig(provider, model);
+        const count = Math.min(Math.max(1, batchCount), getMaxBatchSize(provider, model));
+
+        const params: GenerationParams = {
+            model,
+            prompt: finalPrompt,
+            aspectRatio,
+            seed: seedNumber,
+            steps,
+            guidanceScale: gsConfig ? guidanceScale : undefined,
+            // Dropped for providers without a negative prompt input, ControlPanel shows a hint
+            negativePrompt: supportsNegativePrompt(provider, model) && negativePrompt.trim() ? negativePrompt.trim() : undefined,
+            sourcePrompt: finalPrompt !== prompt ? prompt : undefined
+        };
 
-        try {
-            const seedNumber = seed.trim() === '' ? undefined : parseInt(seed, 10);
-            const gsConfig = getGuidanceScaleConfig(model, provider);
-            const currentGuidanceScale = gsConfig ? guidanceScale : undefined;
-            const requestHD = true;
-
-            let result;
-            if (provider === 'gitee') {
-                result = await generateGiteeImage(model, finalPrompt, aspectRatio, seedNumber, steps, requestHD, currentGuidanceScale);
-            } else if (provider === 'modelscope') {
-                result = await generateMSImage(model, finalPrompt, aspectRatio, seedNumber, steps, requestHD, currentGuidanceScale);
-            } else if (provider === 'huggingface') {
-                result = await generateImage(model, finalPrompt, aspectRatio, seedNumber, requestHD, steps, currentGuidanceScale);
-            } else if (provider === 'a4f') {
-                result = await generateA4FImage(model, finalPrompt, aspectRatio, seedNumber, steps, requestHD, currentGuidanceScale);
-            } else {
-                const customProviders = getCustomProviders();
-                const activeProvider = customProviders.find(p => p.id === provider);
-                if (activeProvider) {
-                    result = await generateCustomImage(activeProvider, model, finalPrompt, aspectRatio, seedNumber, steps, currentGuidanceScale, requestHD);
-                } else {
-                    throw new Error("Invalid provider");
-                }
-            }
-            
-            const endTime = Date.now();
-            const duration = (endTime - startTime) / 1000;
-            
-            let fileUrl = result.url;
-            let fileName = undefined;
-            
+        if (count > 1) {
+            generateBatch(params, count);
+            return;
+        }
+
+        // Results land in history through the queue, even if the view is left meanwhile
+        enqueueGeneration(provider, params);
+    };
+
+    // Queues `count` generations with distinct seeds. Results stay in memory until one is picked.
+    const generateBatch = (params: GenerationParams, count: number) => {
+        discardBatch();
+        setImageDimensions(null);
+        setIsLiveMode(false);
+
+        const batchId = generateUUID();
+        setActiveBatchId(batchId);
+        for (let i = 0; i < count; i++) {
+            const batchSeed = params.seed !== undefined ? params.seed + i : supportsSeed(provider, params.model) ? Math.floor(Math.random() * 2147483647) : undefined;
+            enqueueGeneration(provider, { ...params, seed: batchSeed }, { batchId });
+        }
+    };
+
+    const handlePickBatchResult = async (image: GeneratedImage) => {
+        let picked = image;
+        if (image.fileName && image.url.startsWith('blob:')) {
             try {
-                let blob = await fetchBlob(result.url);
-                const urlExt = getExtensionFromUrl(result.url);
-                let ext = urlExt;
-                if (!ext) {
-                    const mimeExt = blob.type.split('/')[1];
-                    ext = (mimeExt && mimeExt.length <= 4) ? mimeExt : 'png';
-                }
-
-                if (ext.toLowerCase() !== 'png') {
-                    try {
-                        const pngBlob = await convertBlobToPng(blob);
-                        blob = pngBlob;
-                        ext = 'png';
-                    } catch (convErr) {
-                        console.warn("Image conversion to PNG failed, saving as is", convErr);
-                    }
-                }
-                
-                fileName = `${result.id}.${ext}`;
-                await saveTempFileToOPFS(blob, fileName);
-                fileUrl = URL.createObjectURL(blob);
+                const blob = await fetchBlob(image.url);
+                await saveTempFileToOPFS(blob, image.fileName);
             } catch (e) {
-                console.warn("Failed to cache image to OPFS tmp, using original URL", e);
+                console.warn("Failed to cache picked image to OPFS tmp", e);
+                picked = { ...image, fileName: undefined };
             }
-
-            const newImage = { 
-                ...result, 
-                url: fileUrl,
-                fileName,
-                duration, 
-                provider, 
-                guidanceScale: currentGuidanceScale 
-            };
-            
-            setCurrentImage(newImage);
-            setHistory(prev => [newImage, ...prev]);
-        } catch (err: any) {
-            const errorMessage = (t as any)[err.message] || err.message || t.generationFailed;
-            setError(errorMessage);
-        } finally {
-            stopTimer();
-            setIsLoading(false);
         }
+
+        // Release every other result, the picked one keeps its object URL
+        batchResults.forEach(img => {
+            if (img.id !== image.id && img.url.startsWith('blob:')) URL.revokeObjectURL(img.url);
+        });
+        if (activeBatchId) cancelBatch(activeBatchId);
+        setActiveBatchId(null);
+        setBatchResults([]);
+
+        setImageDimensions(null);
+        setIsLiveMode(false);
+        setCurrentImage(picked);
+        setHistory(prev => [picked, ...prev]);
+        const sourcePrompt = jobs.find(j => j.batchId === activeBatchId)?.params.sourcePrompt;
+        recordPromptRun(picked, sourcePrompt).catch(e => console.warn("Failed to link prompt history", e));
     };
 
     const handleReset = () => {
         resetSettings();
         // Provider specific resets handled in hooks/useAppInit.ts logic based on view switching
         // Or if specific reset logic is needed here:
-        if (provider === 'gitee') setModel(GITEE_MODEL_OPTIONS[0].value as ModelOption);
-        else if (provider === 'modelscope') setModel(MS_MODEL_OPTIONS[0].value as ModelOption);
-        else if (provider === 'huggingface') setModel(HF_MODEL_OPTIONS[0].value as ModelOption);
-        else if (provider === 'a4f') setModel(A4F_MODEL_OPTIONS[0].value as ModelOption);
-        else {
-            const customProviders = getCustomProviders();
-            const activeCustom = customProviders.find(p => p.id === provider);
-            if (activeCustom?.models?.generate && activeCustom.models.generate.length > 0) {
-                setModel(activeCustom.models.generate[0].id as ModelOption);
-            }
-        }
-        const config = getModelConfig(provider, model);
-        setSteps(config.default);
+        const defaultModel = getProvider(provider)?.models.generate?.[0];
+        if (defaultModel) setModel(defaultModel.value as ModelOption);
+        const config = getStepsConfig(provider, model);
+        if (config) setSteps(config.default);
         setIsComparing(false);
         setTempUpscaledImage(null);
         setError(null);
@@ -305,22 +238,8 @@ export const CreationView: React.FC = () => {
         setError(null);
         try {
             const config = getUpscalerModelConfig(); 
-            let newUrl = '';
-            if (config.provider === 'huggingface') {
-                const result = await upscaler(currentImage.url);
-                newUrl = result.url;
-            } else {
-                const customProviders = getCustomProviders();
-                const activeProvider = customProviders.find(p => p.id === config.provider);
-                if (activeProvider) {
-                    const result = await upscaleImageCustom(activeProvider, config.model, currentImage.url);
-                    newUrl = result.url;
-                } else {
-                    const result = await upscaler(currentImage.url);
-                    newUrl = result.url;
-                }
-            }
-            setTempUpscaledImage(newUrl);
+            const result = await upscaleWithProvider(config.provider, config.model, currentImage.url);
+            setTempUpscaledImage(result.url);
             setIsComparing(true);
         } catch (err: any) {
             setTempUpscaledImage(null);
@@ -392,22 +311,12 @@ export const CreationView: React.FC = () => {
 
     const handleOptimizePrompt = async () => {
         if (!prompt.trim()) return;
-        addToPromptHistory(prompt);
+        recordPromptUse(prompt).catch(e => console.warn("Failed to record prompt history", e));
         setIsOptimizing(true);
         setError(null);
         try {
             const config = getTextModelConfig(); 
-            let optimized = '';
-            if (config.provider === 'gitee') optimized = await optimizePromptGitee(prompt, config.model);
-            else if (config.provider === 'modelscope') optimized = await optimizePromptMS(prompt, config.model);
-            else if (config.provider === 'a4f') optimized = await optimizePromptA4F(prompt, config.model);
-            else if (config.provider === 'huggingface') optimized = await optimizePromptHF(prompt, config.model);
-            else {
-                const customProviders = getCustomProviders();
-                const activeProvider = customProviders.find(p => p.id === config.provider);
-                if (activeProvider) optimized = await optimizePromptCustom(activeProvider, config.model, prompt);
-                else optimized = await optimizePromptHF(prompt, config.model);
-            }
+            const optimized = await optimizePromptWithProvider(config.provider, config.model, prompt);
             setPrompt(optimized);
         } catch (err: any) {
             console.error("Optimization failed", err);
@@ -478,6 +387,13 @@ export const CreationView: React.FC = () => {
         setHistory(prev => prev.map(img => img.id === currentImage.id ? updatedImage : img));
     };
 
+    const handleTogglePin = () => {
+        if (!currentImage) return;
+        const updatedImage = { ...currentImage, pinned: !currentImage.pinned };
+        setCurrentImage(updatedImage);
+        setHistory(prev => prev.map(img => img.id === currentImage.id ? updatedImage : img));
+    };
+
     const handleCopyPrompt = async () => {
         if (!currentImage?.prompt) return;
         try {
@@ -489,28 +405,16 @@ export const CreationView: React.FC = () => {
         }
     };
 
-    const handleLiveClick = async () => {
+    const handleLiveClick = () => {
         if (!currentImage) return;
         if (currentImage.videoStatus === 'generating') return;
 
         let liveConfig = getLiveModelConfig();
-        const serviceMode = getServiceMode();
-        const customProviders = getCustomProviders();
-        let availableLiveModels: { provider: string, model: string }[] = [];
-
-        if (serviceMode === 'local' || serviceMode === 'hydration') {
-            LIVE_MODELS.forEach(m => {
-                const parts = m.value.split(':');
-                if (parts.length >= 2) availableLiveModels.push({ provider: parts[0], model: parts.slice(1).join(':') });
-            });
-        }
-        if (serviceMode === 'server' || serviceMode === 'hydration') {
-            customProviders.forEach(cp => {
-                if (cp.models.video) {
-                    cp.models.video.forEach(m => availableLiveModels.push({ provider: cp.id, model: m.id }));
-                }
-            });
-        }
+        const availableLiveModels: { provider: string, model: string }[] = [];
+        getAvailableProviders().forEach(p => {
+            if (!hasCapability(p, 'video')) return;
+            p.models.video!.forEach(m => availableLiveModels.push({ provider: p.id, model: m.value }));
+        });
 
         const isConfigValid = availableLiveModels.some(m => m.provider === liveConfig.provider && m.model === liveConfig.model);
         if (!isConfigValid && availableLiveModels.length > 0) {
@@ -520,66 +424,61 @@ export const CreationView: React.FC = () => {
             return;
         }
 
-        let width = imageDimensions?.width || 1024;
-        let height = imageDimensions?.height || 1024;
-        const currentVideoProvider = liveConfig.provider as ProviderOption;
+        // New clips start from the Live settings, regenerating starts from the previous clip
+        const videoSettings = getVideoSettings(liveConfig.provider);
+        const defaults: VideoClipParams = {
+            prompt: videoSettings.prompt,
+            negativePrompt: DEFAULT_VIDEO_NEGATIVE_PROMPT,
+            seed: currentImage.seed ?? Math.floor(Math.random() * 2147483647),
+            duration: videoSettings.duration,
+            resolution: 720
+        };
+        setLiveClip({ ...liveConfig, initial: currentImage.videoParams || defaults, defaults });
+    };
+
+    const handleCreateLive = async (clip: VideoClipParams) => {
+        if (!currentImage || !liveClip) return;
+        const liveConfig = liveClip;
+        setLiveClip(null);
+
+        const width = imageDimensions?.width || 1024;
+        const height = imageDimensions?.height || 1024;
+        const currentVideoProvider = liveConfig.provider;
         let imageInput: string | Blob = currentImage.url;
         try {
-            // Need to handle OPFS blobs correctly for uploads
-            if (currentImage.url.startsWith('opfs://')) {
-                // If the downstream functions don't support opfs:// string, fetch blob here or let them handle
-                // Since we fixed createVideoTaskHF to handle opfs://, we can pass url string.
-                // However, fetching blob here is safer if we want to ensure data availability before call.
-                // But let's rely on the updated service functions to fetch if needed.
-                imageInput = currentImage.url; 
-            } else {
+            // opfs:// urls are resolved by the provider services themselves
+            if (!currentImage.url.startsWith('opfs://')) {
                 imageInput = await fetchBlob(currentImage.url);
             }
         } catch (e) {
             console.warn("Failed to fetch image blob for Live gen, using original URL", e);
         }
 
-        if (currentVideoProvider === 'gitee') {
-            // Gitee requires Blob for upload in createVideoTask
-            // If imageInput is still string (opfs), we must fetch it.
-            if (typeof imageInput === 'string' && imageInput.startsWith('opfs://')) {
-                 try {
-                     imageInput = await fetchBlob(imageInput); // fetchBlob via utils/storageService
-                 } catch(e) {
-                     console.error("Failed to fetch OPFS blob for Gitee", e);
-                     setError("Failed to prepare image");
-                     return;
-                 }
-            }
-            
-            const imgAspectRatio = width / height;
-            if (width >= height) {
-                height = 720;
-                width = Math.round(height * imgAspectRatio);
-            } else {
-                width = 720;
-                height = Math.round(width / imgAspectRatio);
-            }
-            if (width % 2 !== 0) width -= 1;
-            if (height % 2 !== 0) height -= 1;
-        }
-
         try {
-            const loadingImage = { ...currentImage, videoStatus: 'generating', videoProvider: currentVideoProvider } as GeneratedImage;
+            const loadingImage = { ...currentImage, videoStatus: 'generating', videoProvider: currentVideoProvider, videoParams: clip } as GeneratedImage;
             setCurrentImage(loadingImage);
             setHistory(prev => prev.map(img => img.id === loadingImage.id ? loadingImage : img));
 
-            if (currentVideoProvider === 'gitee') {
-                const taskId = await createVideoTask(imageInput, width, height);
-                const nextPollTime = Date.now() + 400 * 1000;
-                const taskedImage = { ...loadingImage, videoTaskId: taskId, videoNextPollTime: nextPollTime } as GeneratedImage;
+            const result = await createVideoWithProvider(currentVideoProvider, {
+                model: liveConfig.model,
+                image: imageInput,
+                imageUrl: currentImage.url,
+                width,
+                height,
+                clip,
+                onProgress: (p) => setProgress(loadingImage.id, p)
+            });
+            setProgress(loadingImage.id, null);
+
+            if (result.taskId) {
+                // Polled in hooks/useAppInit.ts
+                const nextPollTime = result.predict ? Date.now() + result.predict * 1000 : undefined;
+                const taskedImage = { ...loadingImage, videoTaskId: result.taskId, videoNextPollTime: nextPollTime } as GeneratedImage;
                 setCurrentImage(taskedImage);
                 setHistory(prev => prev.map(img => img.id === taskedImage.id ? taskedImage : img));
-            } else if (currentVideoProvider === 'huggingface') {
-                const videoUrl = await createVideoTaskHF(imageInput, currentImage.seed);
-                
-                // Download and Save to OPFS
-                const videoBlob = await fetchBlob(videoUrl);
+            } else if (result.url) {
+                // Download and Save to OPFS if URL returned directly
+                const videoBlob = await fetchBlob(result.url);
                 const videoFileName = `live-${currentImage.id}.mp4`;
                 await saveTempFileToOPFS(videoBlob, videoFileName);
                 const objectUrl = URL.createObjectURL(videoBlob);
@@ -595,47 +494,12 @@ export const CreationView: React.FC = () => {
                 setCurrentImage(prev => (prev && prev.id === successImage.id) ? successImage : prev);
                 if (useAppStore.getState().currentImage?.id === successImage.id) setIsLiveMode(true);
             } else {
-                const customProviders = getCustomProviders();
-                const activeProvider = customProviders.find(p => p.id === currentVideoProvider);
-                if (activeProvider) {
-                    const settings = getVideoSettings(currentVideoProvider);
-                    const urlToUse = typeof imageInput === 'string' ? imageInput : currentImage.url;
-                    // Custom providers might need Blob if it's a file upload, or URL if accessible
-                    // For now assuming custom provider handles URL or we need to upload.
-                    // generateCustomVideo expects 'imageUrl' string.
-                    const result = await generateCustomVideo(activeProvider, liveConfig.model, urlToUse, settings.prompt, settings.duration, currentImage.seed ?? 42, settings.steps, settings.guidance);
-                    if (result.taskId) {
-                        const nextPollTime = result.predict ? Date.now() + result.predict * 1000 : undefined;
-                        const taskedImage = { ...loadingImage, videoTaskId: result.taskId, videoNextPollTime: nextPollTime } as GeneratedImage;
-                        setCurrentImage(taskedImage);
-                        setHistory(prev => prev.map(img => img.id === taskedImage.id ? taskedImage : img));
-                    } else if (result.url) {
-                        // Download and Save to OPFS if URL returned directly
-                        const videoBlob = await fetchBlob(result.url);
-                        const videoFileName = `live-${currentImage.id}.mp4`;
-                        await saveTempFileToOPFS(videoBlob, videoFileName);
-                        const objectUrl = URL.createObjectURL(videoBlob);
-
-                        const successImage = { 
-                            ...loadingImage, 
-                            videoStatus: 'success', 
-                            videoUrl: objectUrl,
-                            videoFileName: videoFileName
-                        } as GeneratedImage;
-                        
-                        setHistory(prev => prev.map(img => img.id === successImage.id ? successImage : img));
-                        setCurrentImage(prev => (prev && prev.id === successImage.id) ? successImage : prev);
-                        if (useAppStore.getState().currentImage?.id === successImage.id) setIsLiveMode(true);
-                    } else {
-                        throw new Error("Invalid response from video provider");
-                    }
-                } else {
-                    throw new Error(t.liveNotSupported || "Live provider not supported");
-                }
+                throw new Error("Invalid response from video provider");
             }
         } catch (e: any) {
             console.error("Video Generation Failed", e);
-            const failedImage = { ...currentImage, videoStatus: 'failed', videoError: e.message } as GeneratedImage;
+            setProgress(currentImage.id, null);
+            const failedImage = { ...currentImage, videoStatus: 'failed', videoError: e.message, videoParams: clip } as GeneratedImage;
             setCurrentImage(prev => (prev && prev.id === failedImage.id) ? failedImage : prev);
             setHistory(prev => prev.map(img => img.id === failedImage.id ? failedImage : img));
             setError(t.liveError);
@@ -649,7 +513,8 @@ export const CreationView: React.FC = () => {
         
         if (isLiveMode && currentImage.videoUrl) {
             imageUrl = currentImage.videoUrl;
-            fileName = fileName + '.mp4';
+            // Composed videos are WebM where the browser can't record MP4
+            fileName = fileName + (currentImage.videoFileName?.endsWith('.webm') ? '.webm' : '.mp4');
         } else if (currentImage.fileName) {
             fileName = currentImage.fileName;
         }
@@ -663,7 +528,12 @@ export const CreationView: React.FC = () => {
             let ext = hasExtension ? hasExtension[0] : '.png';
             if (currentImage.isBlurred && !base.toUpperCase().endsWith('.NSFW')) base += '.NSFW';
             fileName = base + ext;
-            await downloadImage(imageUrl, fileName);
+            const parameters = isLiveMode ? undefined : {
+                ...currentImage,
+                width: currentImage.width || imageDimensions?.width,
+                height: currentImage.height || imageDimensions?.height
+            };
+            await downloadImage(imageUrl, fileName, parameters);
         } catch (e) {
             console.error("Download failed", e);
             window.open(imageUrl, '_blank');
@@ -672,6 +542,83 @@ export const CreationView: React.FC = () => {
         }
     };
 
+    // Restores the settings embedded in a PNG made by Peinture or any tool using the "parameters" chunk
+    const applyImageParameters = (params: ImageParameters) => {
+        setPrompt(params.prompt);
+        setNegativePrompt(params.negativePrompt || '');
+        setSeed(params.seed !== undefined ? params.seed.toString() : '');
+
+        const state = useAppStore.getState();
+        let targetProvider = state.provider;
+        let targetModel: string = state.model;
+        if (params.provider && params.model && getProvider(params.provider)?.models.generate?.some(m => m.value === params.model)) {
+            targetProvider = params.provider;
+            targetModel = params.model;
+        }
+
+        const ratios = getSupportedAspectRatios(targetProvider, targetModel);
+        let aspectRatio: AspectRatioOption | undefined;
+        if (params.aspectRatio && ratios.includes(params.aspectRatio as AspectRatioOption)) {
+            aspectRatio = params.aspectRatio as AspectRatioOption;
+        } else if (params.width && params.height) {
+            // Foreign files only carry a size, pick the ratio it matches
+            const ratio = params.width / params.height;
+            aspectRatio = ratios.find(ar => {
+                const [w, h] = ar.split(':').map(Number);
+                return Math.abs(w / h - ratio) < 0.02;
+            });
+        }
+
+        // One store update, so the model change effect in useAppInit keeps the restored steps and guidance
+        const modelChanged = targetProvider !== state.provider || targetModel !== state.model;
+        const stepsConfig = getStepsConfig(targetProvider, targetModel);
+        const gsConfig = getGuidanceConfig(targetProvider, targetModel);
+        applyModelPreset({
+            provider: targetProvider,
+            model: targetModel as ModelOption,
+            aspectRatio,
+            steps: params.steps !== undefined && stepsConfig
+                ? Math.min(Math.max(params.steps, stepsConfig.min), stepsConfig.max)
+                : (modelChanged ? stepsConfig?.default : undefined),
+            guidanceScale: params.guidanceScale !== undefined && gsConfig
+                ? Math.min(Math.max(params.guidanceScale, gsConfig.min), gsConfig.max)
+                : (modelChanged ? gsConfig?.default : undefined)
+        });
+    };
+
+    const handleDragOver = (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDraggingFile(true);
+    };
+
+    const handleDragLeave = (e: React.DragEvent) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false);
+    };
+
+    const handleDrop = async (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDraggingFile(false);
+        const file = Array.from(e.dataTransfer.files as ArrayLike<File>).find(f => f.type === 'image/png' || f.name.toLowerCase().endsWith('.png'));
+        if (!file) {
+            setError(t.error_no_image_parameters);
+            return;
+        }
+        try {
+            const params = await readImageParameters(file);
+            if (!params || !params.prompt) {
+                setError(t.error_no_image_parameters);
+                return;
+            }
+            applyImageParameters(params);
+            setError(null);
+        } catch (err) {
+            console.error("Failed to read image parameters", err);
+            setError(t.error_no_image_parameters);
+        }
+    };
+
     const uploadCurrentToCloud = async () => {
         if (currentImage) {
             if (isLiveMode && currentImage.videoUrl) {
@@ -689,9 +636,9 @@ export const CreationView: React.FC = () => {
     };
 
     // Derived UI states
-    const isWorking = isLoading;
+    const isWorking = isGenerating;
     const isLiveGenerating = currentImage?.videoStatus === 'generating';
-    const shouldHideToolbar = isWorking; 
+    const shouldHideToolbar = isWorking || batchResults.length > 0; 
     
     const isCurrentUploaded = useMemo(() => {
         if (!currentImage) return false;
@@ -703,7 +650,19 @@ export const CreationView: React.FC = () => {
     }, [currentImage, cloudHistory, isLiveMode]);
 
     return (
-        <main className="w-full max-w-7xl flex-1 flex flex-col-reverse md:items-stretch md:mx-auto md:flex-row gap-4 md:gap-6 px-4 md:px-8 pb-4 md:pb-8 pt-4 md:pt-6">
+        <main
+            className="relative w-full max-w-7xl flex-1 flex flex-col-reverse md:items-stretch md:mx-auto md:flex-row gap-4 md:gap-6 px-4 md:px-8 pb-4 md:pb-8 pt-4 md:pt-6"
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+        >
+            {/* Drop a PNG to restore its generation settings */}
+            {isDraggingFile && (
+                <div className="absolute inset-2 z-50 flex items-center justify-center rounded-2xl border-2 border-dashed border-purple-500/60 bg-[#0D0B14]/80 backdrop-blur-sm pointer-events-none">
+                    <p className="text-white/80 text-sm font-medium">{t.drop_png_restore}</p>
+                </div>
+            )}
+
             {/* Left Column: Controls */}
             <aside className="w-full md:max-w-sm flex-shrink-0 flex flex-col gap-4 md:gap-6">
                 <div className="flex-grow space-y-4 md:space-y-6">
@@ -715,18 +674,18 @@ export const CreationView: React.FC = () => {
                     <div className="flex items-center gap-3">
                         <button 
                             onClick={handleGenerate}
-                            disabled={isWorking || !prompt.trim() || isTranslating}
+                            disabled={!prompt.trim() || isTranslating}
                             className="group relative flex-1 flex min-w-[84px] cursor-pointer items-center justify-center overflow-hidden rounded-xl h-12 px-4 text-white text-lg font-bold leading-normal tracking-[0.015em] transition-all shadow-lg shadow-purple-900/40 generate-button-gradient hover:shadow-purple-700/50 disabled:opacity-70 disabled:cursor-not-allowed disabled:grayscale"
                         >
-                            {isLoading || isTranslating ? (
+                            {isTranslating ? (
                                 <div className="flex items-center gap-2">
                                     <Loader2 className="animate-spin w-5 h-5" />
-                                    <span>{isTranslating ? t.translating : t.dreaming}</span>
+                                    <span>{t.translating}</span>
                                 </div>
                             ) : (
                                 <span className="flex items-center gap-2">
                                     <Sparkles className="w-5 h-5 group-hover:animate-pulse" />
-                                    <span className="truncate">{t.generate}</span>
+                                    <span className="truncate">{isWorking ? t.queue_add : t.generate}</span>
                                 </span>
                             )}
                         </button>
@@ -753,6 +712,8 @@ export const CreationView: React.FC = () => {
                         isWorking={isWorking}
                         isTranslating={isTranslating}
                         elapsedTime={elapsedTime}
+                        progress={runningProgress}
+                        videoProgress={currentImage ? progress[currentImage.id] : undefined}
                         error={error}
                         onCloseError={() => setError(null)}
                         isComparing={isComparing}
@@ -763,6 +724,11 @@ export const CreationView: React.FC = () => {
                         setImageDimensions={setImageDimensions}
                         isLiveMode={isLiveMode}
                         onToggleLiveMode={() => setIsLiveMode(!isLiveMode)}
+                        batchResults={batchResults}
+                        batchPending={batchPending}
+                        batchFailed={batchFailed}
+                        onPickBatchResult={handlePickBatchResult}
+                        onDiscardBatch={discardBatch}
                     />
 
                     {!shouldHideToolbar && (
@@ -775,6 +741,7 @@ export const CreationView: React.FC = () => {
                             isDownloading={isDownloading}
                             handleUpscale={handleUpscale}
                             handleToggleBlur={handleToggleBlur}
+                            handleTogglePin={handleTogglePin}
                             handleDownload={handleDownload}
                             handleDelete={handleDelete}
                             handleCancelUpscale={handleCancelUpscale}
@@ -785,6 +752,7 @@ export const CreationView: React.FC = () => {
                             provider={provider}
                             handleUploadToS3={uploadCurrentToCloud}
                             isUploading={isUploading}
+                            uploadProgress={uploadProgress}
                             isUploaded={isCurrentUploaded}
                             imageDimensions={imageDimensions}
                             copiedPrompt={copiedPrompt}
@@ -793,8 +761,18 @@ export const CreationView: React.FC = () => {
                     )}
                 </div>
 
-                <HistoryGallery onSelect={handleHistorySelect} />
+                <HistoryGallery onSelect={handleHistorySelect} onCompose={() => setShowComposer(true)} />
             </div>
+
+            <LiveClipDialog
+                initialParams={liveClip?.initial ?? null}
+                defaultParams={liveClip?.defaults ?? null}
+                supportsResolution={!!liveClip && supportsVideoResolution(liveClip.provider, liveClip.model)}
+                onClose={() => setLiveClip(null)}
+                onSubmit={handleCreateLive}
+            />
+
+            <VideoComposerModal isOpen={showComposer} onClose={() => setShowComposer(false)} />
         </main>
     );
 };
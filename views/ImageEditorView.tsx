@@ -16,20 +16,31 @@ import {
     CloudUpload,
     Cloud,
     Sparkles,
-    Clock
+    Clock,
+    Layers,
+    ArchiveRestore,
+    Check,
+    GitBranch
 } from 'lucide-react';
 import { Tooltip } from '../components/Tooltip';
 import { isStorageConfigured, listCloudFiles, getStorageType, fetchCloudBlob, getS3Config } from '../services/storageService';
-import { CloudFile } from '../types';
+import { CloudFile, EditVersion } from '../types';
 import { ImageComparison } from '../components/ImageComparison';
+import { TaskProgressInfo } from '../components/TaskProgressInfo';
 import { useAppStore } from '../store/appStore';
 import { translations } from '../translations';
 import { useEditorStore, ToolType } from '../store/editorStore';
 import { useEditorCanvas } from '../hooks/useEditorCanvas';
 import { useEditorGeneration } from '../hooks/useEditorGeneration';
+import { useEditorVersions } from '../hooks/useEditorVersions';
 import { fetchBlob, downloadImage } from '../services/utils';
 import { EditorToolbar } from '../components/editor/EditorToolbar';
 import { EditorBottomBar } from '../components/editor/EditorBottomBar';
+import { EditorLayersPanel } from '../components/editor/EditorLayersPanel';
+import { EditorExpandPanel } from '../components/editor/EditorExpandPanel';
+import { EditorVersionsPanel } from '../components/editor/EditorVersionsPanel';
+import { isBitmapLayer } from '../services/editorDocument';
+import { hasEditorSession, saveEditorSession, loadEditorSession } from '../services/editorSessionService';
 
 interface ImageEditorViewProps {
     onOpenSettings: () => void;
@@ -43,7 +54,13 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
     // Store State
     const { 
         activeTool, setActiveTool, 
+        brushSize, setBrushSize,
+        inpaintMode,
         scale, offset,
+        layers, activeLayerId, undoStack,
+        outpaintPadding, setOutpaintPadding,
+        showLayersPanel, showVersionsPanel,
+        versions, setCurrentVersion,
         showShortcuts, setShowShortcuts,
         showHistoryModal, setShowHistoryModal,
         showGalleryModal, setShowGalleryModal,
@@ -57,23 +74,27 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
 
     // Custom Hooks
     const { 
-        canvasRef, image, historyIndex,
+        stageRef, registerLayerCanvas, image,
         handleMouseDown, handleMouseMove, handleMouseUp,
-        initCanvas, resetCanvas, undo, redo,
+        initCanvas, resetCanvas, restoreSession, expandDocument, branchFromVersion, addAnnotationLayer, addResultLayer, undo, redo,
+        textDraft, commitText, cancelText,
         zoomIn, zoomOut, zoomReset, centerView,
     } = useEditorCanvas(containerRef);
 
     const {
         isGenerating, isOptimizing, isDownloading, isUploading,
-        elapsedTime, generatedResult, setGeneratedResult,
-        handleGenerate, handleOptimize, handleDownloadResult, onCloudUpload,
+        elapsedTime, progress, generatedResult, setGeneratedResult, expansion, outpaintError, resultVersionId,
+        handleGenerate, handleOutpaint, handleOptimize, handleDownloadResult, onCloudUpload,
         getMergedLayer
-    } = useEditorGeneration(image, canvasRef, historyIndex, handleUploadToS3);
+    } = useEditorGeneration(image, handleUploadToS3);
+
+    const { isExporting, exportError, exportToHistory, exportToCloud } = useEditorVersions(handleUploadToS3);
 
     // Local UI State
     const [isDragOver, setIsDragOver] = useState(false);
     const [isSourceNSFW, setIsSourceNSFW] = useState(false);
     const [contextMenu, setContextMenu] = useState<{ x: number, y: number } | null>(null);
+    const [compareVersions, setCompareVersions] = useState<[EditVersion, EditVersion] | null>(null);
     
     // Gallery State
     const [galleryFiles, setGalleryFiles] = useState<CloudFile[]>([]);
@@ -82,6 +103,12 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
     const [galleryLocalUrls, setGalleryLocalUrls] = useState<Record<string, string>>({});
     const [isStorageEnabled, setIsStorageEnabled] = useState(false);
 
+    // Session State
+    const [hasSession, setHasSession] = useState(false);
+    const [isSavingSession, setIsSavingSession] = useState(false);
+    const [isSessionSaved, setIsSessionSaved] = useState(false);
+    const [sessionError, setSessionError] = useState<string | null>(null);
+
     // Cleanup active URL
     const cleanupActiveObjectUrl = () => {
         if (activeObjectUrlRef.current) {
@@ -94,6 +121,7 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
     useEffect(() => {
         const checkStorage = () => setIsStorageEnabled(isStorageConfigured());
         checkStorage();
+        hasEditorSession().then(setHasSession).catch(() => setHasSession(false));
         window.addEventListener('storage', checkStorage);
         return () => {
             window.removeEventListener('storage', checkStorage);
@@ -146,6 +174,81 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
         }
     };
 
+    // Sessions
+    const handleSaveSession = async () => {
+        if (!image) return;
+        setIsSavingSession(true);
+        try {
+            const { prompt } = useEditorStore.getState();
+            await saveEditorSession({ width: image.width, height: image.height, layers, activeLayerId, prompt, inpaintMode });
+            setHasSession(true);
+            setIsSessionSaved(true);
+            setTimeout(() => setIsSessionSaved(false), 2000);
+        } catch (e) {
+            console.error("Failed to save editor session", e);
+        } finally {
+            setIsSavingSession(false);
+        }
+    };
+
+    const handleResumeSession = async () => {
+        setSessionError(null);
+        try {
+            const session = await loadEditorSession();
+            if (!session) {
+                setHasSession(false);
+                return;
+            }
+            cleanupActiveObjectUrl();
+            activeObjectUrlRef.current = session.layers.find(l => l.kind === 'base')?.src || null;
+            resetEditor();
+            setGeneratedResult(null);
+            setIsSourceNSFW(false);
+            await restoreSession(session);
+        } catch (e: any) {
+            console.error("Failed to restore editor session", e);
+            setSessionError(e.message);
+        }
+    };
+
+    const handleAddResultLayer = () => {
+        if (!generatedResult) return;
+        addResultLayer(generatedResult);
+        setGeneratedResult(null);
+    };
+
+    // The source image stays owned by activeObjectUrlRef, the version tree still shows it
+    const handleAcceptExpansion = () => {
+        if (!generatedResult || !expansion) return;
+        const { padding } = expansion;
+        const versionId = resultVersionId;
+        const img = new Image();
+        img.onload = () => {
+            expandDocument(img, padding);
+            if (versionId) setCurrentVersion(versionId);
+            setOutpaintPadding(null);
+            setGeneratedResult(null);
+        };
+        img.onerror = () => console.error("Failed to load expanded image");
+        img.src = generatedResult;
+    };
+
+    const handleBranch = (version: EditVersion) => {
+        const img = new Image();
+        img.onload = () => {
+            branchFromVersion(img, version.id);
+            setGeneratedResult(null);
+            setCompareVersions(null);
+        };
+        img.onerror = () => console.error("Failed to load version image");
+        img.src = version.url;
+    };
+
+    const handleContinueFromResult = () => {
+        const version = versions.find(v => v.id === resultVersionId);
+        if (version) handleBranch(version);
+    };
+
     // Exit
     const handleExit = () => {
         cleanupActiveObjectUrl();
@@ -191,11 +294,13 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
 
             if (e.key === 'Escape') {
                 if (generatedResult) setGeneratedResult(null);
+                else if (compareVersions) setCompareVersions(null);
                 else if (contextMenu) setContextMenu(null);
                 else if (showShortcuts) setShowShortcuts(false);
                 else if (showHistoryModal) setShowHistoryModal(false);
                 else if (showGalleryModal) setShowGalleryModal(false);
                 else if (showExitDialog) setShowExitDialog(false);
+                else if (outpaintPadding) setOutpaintPadding(null);
                 else if (image) setShowExitDialog(true);
                 return;
             }
@@ -217,6 +322,12 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
                     case '1': case 'd': e.preventDefault(); setActiveTool('brush'); break;
                     case '2': case 'r': e.preventDefault(); setActiveTool('rect'); break;
                     case '3': case 'e': e.preventDefault(); setActiveTool('eraser'); break;
+                    case 'o': e.preventDefault(); setActiveTool('ellipse'); break;
+                    case 'a': e.preventDefault(); setActiveTool('arrow'); break;
+                    case 'l': e.preventDefault(); setActiveTool('lasso'); break;
+                    case 't': e.preventDefault(); setActiveTool('text'); break;
+                    case '[': e.preventDefault(); setBrushSize(brushSize - 1); break;
+                    case ']': e.preventDefault(); setBrushSize(brushSize + 1); break;
                     case '5': case 'c': 
                         e.preventDefault(); 
                         document.getElementById('editor-color-picker')?.click(); 
@@ -238,7 +349,7 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
         };
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [activeTool, generatedResult, contextMenu, showShortcuts, showHistoryModal, showGalleryModal, showExitDialog, image, zoomIn, zoomOut, zoomReset, redo, undo, setActiveTool, handleGenerate]);
+    }, [activeTool, brushSize, generatedResult, contextMenu, showShortcuts, showHistoryModal, showGalleryModal, showExitDialog, outpaintPadding, compareVersions, image, zoomIn, zoomOut, zoomReset, redo, undo, setActiveTool, setBrushSize, handleGenerate]);
 
     // Gallery Loading
     useEffect(() => {
@@ -295,10 +406,10 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
         if (image) setContextMenu({ x: e.clientX, y: e.clientY });
     };
 
-    const handleDownloadExport = () => {
-        const merged = getMergedLayer();
-        if (merged) handleDownloadResult(merged.toDataURL('image/png'), false);
+    const handleDownloadExport = async () => {
         setContextMenu(null);
+        const merged = await getMergedLayer();
+        if (merged) handleDownloadResult(merged.toDataURL('image/png'), false);
     };
 
     const ShortcutRow = ({ label, keys }: { label: string, keys: React.ReactNode[] }) => (
@@ -306,7 +417,7 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
             <span className="text-white/60">{label}</span>
             <div className="flex gap-1 items-center">
                 {keys.map((k, i) => (
-                    typeof k === 'string' && ['+', '-', 'Cmd', 'Alt', 'Shift', 'Enter', 'ESC', 'Z', 'M', '0', '1', '2', '3', '5', 'C', 'D', 'R', 'E'].includes(k) 
+                    typeof k === 'string' && ['+', '-', 'Cmd', 'Alt', 'Shift', 'Enter', 'ESC', 'Z', 'M', '0', '1', '2', '3', '5', 'C', 'D', 'R', 'E', 'O', 'A', 'L', 'T', '[', ']'].includes(k) 
                     ? <span key={i} className="px-1.5 py-0.5 rounded bg-white/10 font-mono text-xs">{k}</span>
                     : <span key={i} className="text-white/40 text-xs">{k}</span>
                 ))}
@@ -325,12 +436,16 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
             >
                 {isGenerating && (
                     <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-300">
+                        {progress?.previewUrl && (
+                            <img src={progress.previewUrl} alt="" className="absolute inset-0 w-full h-full object-contain opacity-40 -z-10" />
+                        )}
                         <div className="relative">
                             <div className="h-24 w-24 rounded-full border-4 border-white/10 border-t-purple-500 animate-spin"></div>
                             <div className="absolute inset-0 flex items-center justify-center"><Paintbrush className="text-purple-400 animate-pulse w-8 h-8" /></div>
                         </div>
                         <p className="mt-8 text-white/80 font-medium animate-pulse text-lg">{t.dreaming}</p>
                         <p className="mt-2 font-mono text-purple-300 text-lg">{elapsedTime.toFixed(1)}s</p>
+                        <TaskProgressInfo progress={progress} className="mt-3" />
                     </div>
                 )}
 
@@ -361,6 +476,12 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
                                     </button>
                                 )}
                             </div>
+                            {hasSession && (
+                                <button onClick={handleResumeSession} className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-white/10 hover:bg-white/15 text-white/80 hover:text-white border border-white/10 rounded-xl transition-all shadow-lg active:scale-95">
+                                    <ArchiveRestore className="w-4 h-4" /><span className="font-medium text-sm">{t.session_resume}</span>
+                                </button>
+                            )}
+                            {sessionError && <p className="text-xs text-red-400 text-center">{(t as any)[sessionError] || sessionError}</p>}
                         </div>
                     </div>
                 )}
@@ -371,14 +492,50 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
                     onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp}
                     onTouchStart={handleMouseDown} onTouchMove={handleMouseMove} onTouchEnd={handleMouseUp} // Simplified touch for brevity
                 >
-                    {image && <img src={image.src} alt="Layer" className="absolute top-0 left-0 pointer-events-none select-none shadow-2xl" style={{ width: image.width, height: image.height, maxWidth: 'none' }} draggable={false} />}
-                    <canvas ref={canvasRef} className={`relative z-10 ${activeTool === 'move' ? 'cursor-grab active:cursor-grabbing' : (activeTool === 'select' ? 'cursor-default' : 'cursor-crosshair')}`} />
+                    {image && (
+                        <div ref={stageRef} className={`absolute top-0 left-0 shadow-2xl ${activeTool === 'move' ? 'cursor-grab active:cursor-grabbing' : (activeTool === 'select' ? 'cursor-default' : 'cursor-crosshair')}`} style={{ width: image.width, height: image.height }}>
+                            {outpaintPadding && (
+                                // The area the expansion will fill
+                                <div 
+                                    className="absolute border-dashed border-purple-400/80 bg-purple-500/10 pointer-events-none"
+                                    style={{
+                                        left: -outpaintPadding.left,
+                                        top: -outpaintPadding.top,
+                                        width: image.width + outpaintPadding.left + outpaintPadding.right,
+                                        height: image.height + outpaintPadding.top + outpaintPadding.bottom,
+                                        borderWidth: 2 / scale
+                                    }}
+                                />
+                            )}
+                            {layers.map(layer => isBitmapLayer(layer) ? (
+                                <img key={layer.id} src={layer.src} alt={layer.name} className={`absolute inset-0 w-full h-full pointer-events-none select-none ${layer.visible ? '' : 'hidden'}`} style={{ opacity: layer.opacity, maxWidth: 'none' }} draggable={false} />
+                            ) : (
+                                // Inpaint strokes are dimmed so the area under the mask stays visible
+                                <canvas key={layer.id} ref={registerLayerCanvas(layer.id)} width={image.width} height={image.height} className={`absolute inset-0 w-full h-full ${layer.visible ? '' : 'hidden'}`} style={{ opacity: layer.opacity * (inpaintMode ? 0.6 : 1) }} />
+                            ))}
+                        </div>
+                    )}
                 </div>
 
+                {textDraft && (
+                    <input
+                        autoFocus
+                        placeholder={t.text_label_placeholder}
+                        onKeyDown={(e) => {
+                            e.stopPropagation();
+                            if (e.key === 'Enter') commitText(e.currentTarget.value);
+                            else if (e.key === 'Escape') cancelText();
+                        }}
+                        onBlur={(e) => commitText(e.currentTarget.value)}
+                        className="absolute z-30 min-w-[12rem] px-2 py-1 bg-black/70 backdrop-blur-md border border-purple-500/50 rounded-lg text-sm text-white placeholder:text-white/40 outline-none"
+                        style={{ left: offset.x + textDraft.shape.x * scale, top: offset.y + textDraft.shape.y * scale, color: textDraft.shape.color }}
+                    />
+                )}
+
                 {generatedResult && image && (
                     <div className="absolute inset-0 z-50 bg-[#0D0B14] animate-in fade-in duration-300">
                         <div className="relative w-full h-full overflow-hidden">
-                             <ImageComparison beforeImage={image.src} afterImage={generatedResult} alt="Comparison" labelBefore={t.compare_original} labelAfter={t.compare_edited} />
+                             <ImageComparison beforeImage={expansion ? expansion.previewUrl : image.src} afterImage={generatedResult} alt="Comparison" labelBefore={t.compare_original} labelAfter={t.compare_edited} />
                              <div className="absolute bottom-6 inset-x-0 flex justify-center pointer-events-none z-40">
                                 <div className="pointer-events-auto max-w-[90%] overflow-x-auto scrollbar-hide rounded-2xl bg-black/60 backdrop-blur-md border border-white/10 shadow-2xl animate-in slide-in-from-bottom-4 duration-300">
                                     <div className="flex items-center gap-1 p-1.5 min-w-max">
@@ -386,6 +543,21 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
                                             <button onClick={() => setGeneratedResult(null)} className="flex items-center justify-center w-10 h-10 rounded-xl text-white/70 hover:text-purple-400 hover:bg-white/10 transition-all"><RotateCcw className="w-5 h-5" /></button>
                                         </Tooltip>
                                         <div className="w-px h-5 bg-white/10 mx-1"></div>
+                                        {expansion ? (
+                                            <Tooltip content={t.expand_accept}>
+                                                <button onClick={handleAcceptExpansion} className="flex items-center justify-center w-10 h-10 rounded-xl text-white/70 hover:text-green-400 hover:bg-white/10 transition-all"><Check className="w-5 h-5" /></button>
+                                            </Tooltip>
+                                        ) : (
+                                            <>
+                                                <Tooltip content={t.version_continue}>
+                                                    <button onClick={handleContinueFromResult} className="flex items-center justify-center w-10 h-10 rounded-xl text-white/70 hover:text-purple-400 hover:bg-white/10 transition-all"><GitBranch className="w-5 h-5" /></button>
+                                                </Tooltip>
+                                                <Tooltip content={t.add_as_layer}>
+                                                    <button onClick={handleAddResultLayer} className="flex items-center justify-center w-10 h-10 rounded-xl text-white/70 hover:text-purple-400 hover:bg-white/10 transition-all"><Layers className="w-5 h-5" /></button>
+                                                </Tooltip>
+                                            </>
+                                        )}
+                                        <div className="w-px h-5 bg-white/10 mx-1"></div>
                                         {isStorageEnabled && provider !== 'modelscope' && (
                                             <>
                                                 <Tooltip content={isUploading ? t.uploading : t.upload}>
@@ -412,6 +584,25 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
                     </div>
                 )}
 
+                {compareVersions && (
+                    <div className="absolute inset-0 z-50 bg-[#0D0B14] animate-in fade-in duration-300">
+                        <div className="relative w-full h-full overflow-hidden">
+                            <ImageComparison 
+                                beforeImage={compareVersions[0].url} 
+                                afterImage={compareVersions[1].url} 
+                                alt="Comparison" 
+                                labelBefore={compareVersions[0].kind === 'source' ? t.version_source : t.version_n.replace('{n}', versions.indexOf(compareVersions[0]).toString())} 
+                                labelAfter={t.version_n.replace('{n}', versions.indexOf(compareVersions[1]).toString())} 
+                            />
+                            <div className="absolute top-4 right-4 z-40">
+                                <Tooltip content={t.close} position="left">
+                                    <button onClick={() => setCompareVersions(null)} className="p-2 bg-black/60 backdrop-blur-md border border-white/10 rounded-full text-white/70 hover:text-white hover:bg-white/10 transition-colors shadow-lg"><X className="w-5 h-5" /></button>
+                                </Tooltip>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
                 {contextMenu && (
                     <>
                         <div className="fixed inset-0 z-40" onClick={() => setContextMenu(null)} />
@@ -439,7 +630,34 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
                     </Tooltip>
                 </div>
 
-                <EditorToolbar onUndo={undo} canUndo={historyIndex > 0} />
+                <EditorToolbar onUndo={undo} canUndo={undoStack.length > 0} />
+                {image && outpaintPadding && (
+                    <EditorExpandPanel
+                        imageWidth={image.width}
+                        imageHeight={image.height}
+                        isGenerating={isGenerating}
+                        error={outpaintError}
+                        onExpand={handleOutpaint}
+                    />
+                )}
+                {image && showVersionsPanel && (
+                    <EditorVersionsPanel
+                        onBranch={handleBranch}
+                        onCompare={(before, after) => setCompareVersions([before, after])}
+                        onExportHistory={exportToHistory}
+                        onExportCloud={isStorageEnabled && provider !== 'modelscope' ? (ids) => exportToCloud(ids, isSourceNSFW) : undefined}
+                        isExporting={isExporting || isUploading}
+                        exportError={exportError}
+                    />
+                )}
+                {image && showLayersPanel && (
+                    <EditorLayersPanel
+                        onAddLayer={addAnnotationLayer}
+                        onSaveSession={handleSaveSession}
+                        isSavingSession={isSavingSession}
+                        isSessionSaved={isSessionSaved}
+                    />
+                )}
                 <EditorBottomBar 
                     isGenerating={isGenerating} 
                     isOptimizing={isOptimizing} 
@@ -524,10 +742,18 @@ export const ImageEditorView: React.FC<ImageEditorViewProps> = ({ onOpenSettings
                             <ShortcutRow label={t.sc_rect} keys={['R', t.or_conjunction.trim(), '2']} />
                             <ShortcutRow label={t.sc_eraser} keys={['E', t.or_conjunction.trim(), '3']} />
                             
+                            <ShortcutRow label={t.sc_ellipse} keys={['O']} />
+                            <ShortcutRow label={t.sc_arrow} keys={['A']} />
+                            
+                            <ShortcutRow label={t.sc_lasso} keys={['L']} />
+                            <ShortcutRow label={t.sc_text} keys={['T']} />
+                            
+                            <ShortcutRow label={t.sc_brush_size} keys={['[', ']']} />
+                            <ShortcutRow label={t.sc_color} keys={['C', t.or_conjunction.trim(), '5']} />
+                            
                             <ShortcutRow label={t.sc_undo} keys={[MOD_KEY, 'Z']} />
                             <ShortcutRow label={t.sc_redo} keys={[MOD_KEY, 'Shift', 'Z']} />
                             
-                            <ShortcutRow label={t.sc_color} keys={['C', t.or_conjunction.trim(), '5']} />
                             <ShortcutRow label={t.sc_exit} keys={['ESC']} />
                         </div>
                     </div>
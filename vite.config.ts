@@ -8,6 +8,8 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Forwards the app's server mode calls to a local API server, see server/
+        proxy: env.API_PROXY_TARGET ? { '/api': env.API_PROXY_TARGET } : undefined,
       },
       plugins: [react()],
       define: {